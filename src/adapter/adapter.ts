@@ -6,9 +6,43 @@ import Debug from "debug";
 import {LoggerStub} from "../controller/logger-stub";
 import * as Models from "../models";
 import Bonjour, {Service} from 'bonjour-service';
+import Capture from './capture';
+import net from 'net';
+import {Wait} from '../utils';
+import {SerialPort} from './serialPort';
 
 const debug = Debug("zigbee-herdsman:adapter");
 
+/**
+ * mDNS service types announced by network attached Zigbee coordinators.
+ */
+const MDNS_SERVICE_TYPES = ['slzb-06', 'slzb-07', 'uzg-01', 'zigstar_gw', 'tube_zb_gw'];
+
+function parseMdnsService(service: Service, type: string): TsType.DiscoveredCoordinator {
+    if (!service.txt?.radio_type || !service.txt?.baud_rate || !service.addresses?.length || !service.port) {
+        throw new Error(
+            `Coordinator returned wrong Zeroconf format! The following values are expected:\n` +
+            `txt.radio_type, got: ${service.txt?.radio_type}\n` +
+            `txt.baud_rate, got: ${service.txt?.baud_rate}\n` +
+            `address, got: ${service.addresses?.[0]}\n` +
+            `port, got: ${service.port}`
+        );
+    }
+
+    // Prefer IPv4 since IPv6 addresses are not accepted in tcp:// paths
+    const address = service.addresses.find((a) => net.isIPv4(a)) ?? service.addresses[0];
+    return {
+        name: service.name,
+        type,
+        adapter: (service.txt.radio_type == 'znp' ?
+            'zstack' : service.txt.radio_type) as TsType.DiscoveredCoordinator['adapter'],
+        baudRate: parseInt(service.txt.baud_rate),
+        address,
+        port: service.port,
+        path: `tcp://${address}:${service.port}`,
+    };
+}
+
 abstract class Adapter extends events.EventEmitter {
     public readonly greenPowerGroup = 0x0b84;
     protected networkOptions: TsType.NetworkOptions;
@@ -44,12 +78,13 @@ abstract class Adapter extends events.EventEmitter {
         const {DeconzAdapter} = await import('./deconz/adapter');
         const {ZiGateAdapter} = await import('./zigate/adapter');
         const {EZSPAdapter} = await import('./ezsp/adapter');
+        const {VirtualAdapter} = await import('./virtual/adapter');
         type AdapterImplementation = (typeof ZStackAdapter | typeof DeconzAdapter | typeof ZiGateAdapter
-            | typeof EZSPAdapter);
+            | typeof EZSPAdapter | typeof VirtualAdapter);
 
         let adapters: AdapterImplementation[];
         const adapterLookup = {zstack: ZStackAdapter, deconz: DeconzAdapter, zigate: ZiGateAdapter,
-            ezsp: EZSPAdapter};
+            ezsp: EZSPAdapter, virtual: VirtualAdapter};
         if (serialPortOptions.adapter && serialPortOptions.adapter !== 'auto') {
             if (adapterLookup.hasOwnProperty(serialPortOptions.adapter)) {
                 adapters = [adapterLookup[serialPortOptions.adapter]];
@@ -60,7 +95,8 @@ abstract class Adapter extends events.EventEmitter {
                 );
             }
         } else {
-            adapters = Object.values(adapterLookup);
+            // The virtual adapter is never auto detected, it has to be selected explicitly
+            adapters = Object.values(adapterLookup).filter((a) => a !== VirtualAdapter);
         }
 
         // Use ZStackAdapter by default
@@ -82,60 +118,57 @@ abstract class Adapter extends events.EventEmitter {
                 throw new Error("No path provided and failed to auto detect path");
             }
         } else if (serialPortOptions.path.startsWith("mdns://")) {
-            const mdnsDevice = serialPortOptions.path.substring(7);
+            const [mdnsDevice, mdnsName] = serialPortOptions.path.substring(7).split('/');
             if (mdnsDevice.length == 0){
                 throw new Error(
                     `No mdns device specified. ` +
                     `You must specify the coordinator mdns service type after mdns://, e.g. mdns://my-adapter`
                 );
             }
-            const bj = new Bonjour();
             const mdnsTimeout = 2000; // timeout for mdns scan
 
             logger.info(`Starting mdns discovery for coordinator: ${mdnsDevice}`);
-            await new Promise((resolve, reject) => {
-                bj.findOne({type: mdnsDevice}, mdnsTimeout, function (service: Service) {
-                    if (service) {
-                        if (service.txt?.radio_type && service.txt?.baud_rate && service.addresses && service.port) {
-                            const mdnsIp = service.addresses[0];
-                            const mdnsPort = service.port;
-                            const mdnsAdapter = (service.txt.radio_type == 'znp' ?
-                                'zstack' : service.txt.radio_type) as TsType.SerialPortOptions['adapter'];
-                            const mdnsBaud = parseInt(service.txt.baud_rate);
-                            logger.info(`Coordinator Ip: ${mdnsIp}`);
-                            logger.info(`Coordinator Port: ${mdnsPort}`);
-                            logger.info(`Coordinator Radio: ${mdnsAdapter}`);
-                            logger.info(`Coordinator Baud: ${mdnsBaud}\n`);
-                            bj.destroy();
-                            serialPortOptions.path = `tcp://${mdnsIp}:${mdnsPort}`;
-                            serialPortOptions.adapter = mdnsAdapter;
-                            serialPortOptions.baudRate = mdnsBaud;
-                            
-                            if (adapterLookup.hasOwnProperty(serialPortOptions.adapter) 
-                                    && serialPortOptions.adapter !== 'auto') {
-                                adapter = adapterLookup[serialPortOptions.adapter];
-                                resolve(
-                                    new adapter(networkOptions, serialPortOptions, backupPath, adapterOptions, logger)
-                                );
-                            } else {
-                                reject(new Error(`Adapter ${serialPortOptions.adapter} is not supported.`));
-                            }
-                        } else {
-                            bj.destroy();
-                            reject(new Error(
-                                `Coordinator returned wrong Zeroconf format! The following values are expected:\n` +
-                                `txt.radio_type, got: ${service.txt?.radio_type}\n` +
-                                `txt.baud_rate, got: ${service.txt?.baud_rate}\n` +
-                                `address, got: ${service.addresses?.[0]}\n` +
-                                `port, got: ${service.port}`
-                            ));
-                        }
-                    } else {
+            let coordinator: TsType.DiscoveredCoordinator;
+            if (mdnsName) {
+                // A specific instance is requested, wait for all coordinators of this type to answer
+                const name = decodeURIComponent(mdnsName);
+                const coordinators = await Adapter.discoverCoordinators([mdnsDevice], mdnsTimeout);
+                coordinator = coordinators.find((c) => c.name === name);
+                if (!coordinator) {
+                    throw new Error(
+                        `Coordinator [${mdnsDevice}] named '${name}' not found after timeout of ${mdnsTimeout}ms, ` +
+                        `found: ${coordinators.map((c) => `'${c.name}'`).join(', ') || 'none'}`
+                    );
+                }
+            } else {
+                const bj = new Bonjour();
+                const service = await new Promise<Service>((resolve) => {
+                    bj.findOne({type: mdnsDevice}, mdnsTimeout, function (service: Service) {
                         bj.destroy();
-                        reject(new Error(`Coordinator [${mdnsDevice}] not found after timeout of ${mdnsTimeout}ms!`));
-                    }
+                        resolve(service);
+                    });
                 });
-            });
+
+                if (!service) {
+                    throw new Error(`Coordinator [${mdnsDevice}] not found after timeout of ${mdnsTimeout}ms!`);
+                }
+
+                coordinator = parseMdnsService(service, mdnsDevice);
+            }
+
+            logger.info(`Coordinator Ip: ${coordinator.address}`);
+            logger.info(`Coordinator Port: ${coordinator.port}`);
+            logger.info(`Coordinator Radio: ${coordinator.adapter}`);
+            logger.info(`Coordinator Baud: ${coordinator.baudRate}\n`);
+            serialPortOptions.path = coordinator.path;
+            serialPortOptions.adapter = coordinator.adapter;
+            serialPortOptions.baudRate = coordinator.baudRate;
+
+            if (adapterLookup.hasOwnProperty(serialPortOptions.adapter) && serialPortOptions.adapter !== 'auto') {
+                adapter = adapterLookup[serialPortOptions.adapter];
+            } else {
+                throw new Error(`Adapter ${serialPortOptions.adapter} is not supported.`);
+            }
         } else {
             try {
                 // Determine adapter to use
@@ -151,7 +184,100 @@ abstract class Adapter extends events.EventEmitter {
             }
         }
 
-        return new adapter(networkOptions, serialPortOptions, backupPath, adapterOptions, logger);
+        const instance = new adapter(networkOptions, serialPortOptions, backupPath, adapterOptions, logger);
+        if (adapterOptions?.capture) {
+            new Capture(adapterOptions.capture, networkOptions, logger).attach(instance);
+        }
+
+        return instance;
+    }
+
+    /**
+     * Browses the LAN for Zigbee coordinators announcing themselves with mDNS, every coordinator which answers within
+     * the timeout is returned. Services with an incomplete announcement are skipped.
+     */
+    public static async discoverCoordinators(
+        types: string[] = MDNS_SERVICE_TYPES, timeout = 2000,
+    ): Promise<TsType.DiscoveredCoordinator[]> {
+        const bj = new Bonjour();
+        const coordinators: TsType.DiscoveredCoordinator[] = [];
+        const browsers = types.map((type) => bj.find({type}, (service: Service) => {
+            try {
+                const coordinator = parseMdnsService(service, type);
+                if (!coordinators.some((c) => c.type === type && c.name === coordinator.name)) {
+                    debug(`Discovered coordinator '${coordinator.name}' at '${coordinator.path}'`);
+                    coordinators.push(coordinator);
+                }
+            } catch (error) {
+                debug(`Ignoring mdns service '${service.name}' (${error.message})`);
+            }
+        }));
+
+        await Wait(timeout);
+        browsers.forEach((browser) => browser.stop());
+        bj.destroy();
+        return coordinators;
+    }
+
+    /**
+     * Handshakes with the given paths to find out which adapter is connected, since many adapters share generic USB
+     * to serial IDs. Adapters matching the USB IDs are tried first, the report is ordered by confidence.
+     * Without paths only the serial ports with USB IDs of a known adapter are probed, handshaking with every serial
+     * port (which may be connected to unrelated devices) has to be enabled with `probeAllPorts`.
+     */
+    public static async probeAdapters(paths?: string[], probeAllPorts = false): Promise<TsType.ProbeResult[]> {
+        const {ZStackAdapter} = await import('./z-stack/adapter');
+        const {DeconzAdapter} = await import('./deconz/adapter');
+        const {ZiGateAdapter} = await import('./zigate/adapter');
+        const {EZSPAdapter} = await import('./ezsp/adapter');
+        const adapterLookup = {zstack: ZStackAdapter, ezsp: EZSPAdapter, deconz: DeconzAdapter, zigate: ZiGateAdapter};
+        type AdapterName = keyof typeof adapterLookup;
+
+        const listed = !paths;
+        paths = paths ?? (await SerialPort.list()).map((device) => device.path);
+        const results: TsType.ProbeResult[] = [];
+        for (const path of paths) {
+            const matching: AdapterName[] = [];
+            for (const [name, candidate] of Object.entries(adapterLookup)) {
+                try {
+                    if (await candidate.isValidPath(path)) {
+                        matching.push(name as AdapterName);
+                    }
+                } catch (error) {
+                    debug(`Failed to validate path: '${error}'`);
+                }
+            }
+
+            if (listed && !probeAllPorts && matching.length === 0) {
+                debug(`Not probing '${path}', it doesn't have the USB IDs of a known adapter`);
+                continue;
+            }
+
+            const candidates = (Object.keys(adapterLookup) as AdapterName[])
+                .sort((a, b) => Number(matching.includes(b)) - Number(matching.includes(a)));
+            let detected: TsType.ProbeResult = null;
+            for (const name of candidates) {
+                try {
+                    debug(`Probing '${path}' for '${name}'`);
+                    const firmwareVersion = await adapterLookup[name].probe(path);
+                    const confidence = matching.includes(name) ? 'high' : 'medium';
+                    detected = {path, adapter: name, firmwareVersion, confidence};
+                    break;
+                } catch (error) {
+                    debug(`Probing '${path}' for '${name}' failed (${error})`);
+                }
+            }
+
+            if (detected) {
+                results.push(detected);
+            } else {
+                results.push(...matching.map((name): TsType.ProbeResult =>
+                    ({path, adapter: name, firmwareVersion: null, confidence: 'low'})));
+            }
+        }
+
+        const ranking = ['high', 'medium', 'low'];
+        return results.sort((a, b) => ranking.indexOf(a.confidence) - ranking.indexOf(b.confidence));
     }
 
     public abstract start(): Promise<TsType.StartResult>;
@@ -166,6 +292,11 @@ abstract class Adapter extends events.EventEmitter {
 
     public abstract supportsBackup(): Promise<boolean>;
 
+    /**
+     * Features supported by the adapter, may depend on the firmware so only valid once the adapter is started.
+     */
+    public abstract getCapabilities(): Promise<TsType.AdapterCapabilities>;
+
     public abstract backup(ieeeAddressesInDatabase: string[]): Promise<Models.Backup>;
 
     public abstract getNetworkParameters(): Promise<TsType.NetworkParameters>;
@@ -174,6 +305,18 @@ abstract class Adapter extends events.EventEmitter {
 
     public abstract addInstallCode(ieeeAddress: string, key: Buffer): Promise<void>;
 
+    /**
+     * Broadcast a new network key to all devices and switch the network to it, the key sequence number is
+     * incremented by the adapter.
+     */
+    public abstract rotateNetworkKey(key: Buffer): Promise<void>;
+
+    /**
+     * Move the network to another channel, devices are instructed with a Mgmt_NWK_Update_req broadcast and the
+     * network update ID is incremented.
+     */
+    public abstract changeChannel(channel: number): Promise<void>;
+
     public abstract waitFor(
         networkAddress: number, endpoint: number, frameType: FrameType, direction: Direction,
         transactionSequenceNumber: number, clusterID: number, commandIdentifier: number, timeout: number,
@@ -189,6 +332,14 @@ abstract class Adapter extends events.EventEmitter {
 
     public abstract routingTable(networkAddress: number): Promise<TsType.RoutingTable>;
 
+    /**
+     * Energy scan on the given channels, `duration` is the scan duration exponent (0 - 5) of a Mgmt_NWK_Update_req.
+     * Network address 0 scans with the coordinator itself.
+     */
+    public abstract scanChannels(
+        networkAddress: number, channels: number[], duration: number,
+    ): Promise<TsType.EnergyScanResult[]>;
+
     public abstract nodeDescriptor(networkAddress: number): Promise<TsType.NodeDescriptor>;
 
     public abstract activeEndpoints(networkAddress: number): Promise<TsType.ActiveEndpoints>;
@@ -0,0 +1,388 @@
+import fs from 'fs';
+import Debug from "debug";
+import * as TsType from './tstype';
+import {ZclDataPayload, RawDataPayload, Events} from './events';
+import {ZclFrame} from '../zcl';
+import Adapter from './adapter';
+import {LoggerStub} from '../controller/logger-stub';
+
+const debug = Debug("zigbee-herdsman:adapter:capture");
+
+/**
+ * IEEE 802.15.4 frames without FCS, dissected by Wireshark down to ZCL.
+ */
+const LINKTYPE_IEEE802_15_4_NOFCS = 230;
+
+const BLOCK_TYPE = {
+    sectionHeader: 0x0A0D0D0A,
+    interfaceDescription: 0x00000001,
+    enhancedPacket: 0x00000006,
+};
+
+const OPTION_COMMENT = 1;
+
+const COORDINATOR_ADDRESS = 0x0000;
+const BROADCAST_ADDRESS = 0xFFFD;
+
+const PROFILE_ID = {zdo: 0x0000, ha: 0x0104};
+
+const ZDO_CLUSTER_ID = {
+    nodeDescriptor: 0x0002, simpleDescriptor: 0x0004, activeEndpoints: 0x0005, bind: 0x0021, unbind: 0x0022,
+    lqi: 0x0031, routingTable: 0x0032, leave: 0x0034,
+};
+
+enum DeliveryMode {unicast = 0, broadcast = 2, group = 3}
+
+interface Addressing {
+    source: number;
+    destination: number;
+    deliveryMode: DeliveryMode;
+    destinationEndpoint: number;
+    groupID?: number;
+    sourceEndpoint: number;
+    clusterID: number;
+    profileID: number;
+}
+
+/**
+ * Writes the frames sent and received by an adapter into a pcapng file. Adapters only expose the APS payload,
+ * therefore unsecured MAC, NWK and APS headers are generated around it so Wireshark can dissect the frames.
+ * The file is appended to, every attach starts a new section. Write errors are logged and stop the capture,
+ * they never fail the adapter.
+ */
+class Capture {
+    private options: TsType.CaptureOptions;
+    private networkOptions: TsType.NetworkOptions;
+    private logger?: LoggerStub;
+    private sequenceNumber: number;
+    private stream: fs.WriteStream;
+
+    public constructor(options: TsType.CaptureOptions, networkOptions: TsType.NetworkOptions, logger?: LoggerStub) {
+        this.options = options;
+        this.networkOptions = networkOptions;
+        this.logger = logger;
+        this.sequenceNumber = 0;
+        this.stream = null;
+    }
+
+    public attach(adapter: Adapter): void {
+        debug(`Capturing frames to '${this.options.path}'`);
+        this.stream = fs.createWriteStream(this.options.path, {flags: 'a'});
+        this.stream.on('error', (error) => {
+            debug(`Failed to write capture: '${error}'`);
+            this.logger?.error(`Failed to write capture to '${this.options.path}', stopped capturing (${error})`);
+            this.stream = null;
+        });
+        this.writeHeader();
+
+        const stop = adapter.stop.bind(adapter);
+        adapter.stop = async (): Promise<void> => {
+            try {
+                await stop();
+            } finally {
+                await this.close();
+            }
+        };
+
+        adapter.on(Events.zclData, (payload: ZclDataPayload) => this.onZclData(payload));
+        adapter.on(Events.rawData, (payload: RawDataPayload) => this.onRawData(payload));
+
+        const sendZclFrameToEndpoint = adapter.sendZclFrameToEndpoint.bind(adapter);
+        adapter.sendZclFrameToEndpoint = (
+            ieeeAddr, networkAddress, endpoint, zclFrame, timeout, disableResponse, disableRecovery, sourceEndpoint,
+        ): Promise<ZclDataPayload> => {
+            this.writeZclFrame(zclFrame, {
+                source: COORDINATOR_ADDRESS, destination: networkAddress, deliveryMode: DeliveryMode.unicast,
+                destinationEndpoint: endpoint, sourceEndpoint: sourceEndpoint ?? 1,
+            });
+            return sendZclFrameToEndpoint(
+                ieeeAddr, networkAddress, endpoint, zclFrame, timeout, disableResponse, disableRecovery, sourceEndpoint,
+            );
+        };
+
+        const sendZclFrameToGroup = adapter.sendZclFrameToGroup.bind(adapter);
+        adapter.sendZclFrameToGroup = (groupID, zclFrame, sourceEndpoint): Promise<void> => {
+            this.writeZclFrame(zclFrame, {
+                source: COORDINATOR_ADDRESS, destination: BROADCAST_ADDRESS, deliveryMode: DeliveryMode.group,
+                destinationEndpoint: null, groupID, sourceEndpoint: sourceEndpoint ?? 1,
+            });
+            return sendZclFrameToGroup(groupID, zclFrame, sourceEndpoint);
+        };
+
+        const sendZclFrameToAll = adapter.sendZclFrameToAll.bind(adapter);
+        adapter.sendZclFrameToAll = (endpoint, zclFrame, sourceEndpoint): Promise<void> => {
+            this.writeZclFrame(zclFrame, {
+                source: COORDINATOR_ADDRESS, destination: BROADCAST_ADDRESS, deliveryMode: DeliveryMode.broadcast,
+                destinationEndpoint: endpoint, sourceEndpoint,
+            });
+            return sendZclFrameToAll(endpoint, zclFrame, sourceEndpoint);
+        };
+
+        this.attachZdo(adapter);
+    }
+
+    /**
+     * Adapters only return the parsed ZDO responses, therefore only the requests are captured. Requests which
+     * are paged through by the adapter (LQI and routing table) are captured once, with start index 0.
+     */
+    private attachZdo(adapter: Adapter): void {
+        const nodeDescriptor = adapter.nodeDescriptor.bind(adapter);
+        adapter.nodeDescriptor = (networkAddress): Promise<TsType.NodeDescriptor> => {
+            this.writeZdoRequest(networkAddress, ZDO_CLUSTER_ID.nodeDescriptor, Capture.uint16(networkAddress));
+            return nodeDescriptor(networkAddress);
+        };
+
+        const activeEndpoints = adapter.activeEndpoints.bind(adapter);
+        adapter.activeEndpoints = (networkAddress): Promise<TsType.ActiveEndpoints> => {
+            this.writeZdoRequest(networkAddress, ZDO_CLUSTER_ID.activeEndpoints, Capture.uint16(networkAddress));
+            return activeEndpoints(networkAddress);
+        };
+
+        const simpleDescriptor = adapter.simpleDescriptor.bind(adapter);
+        adapter.simpleDescriptor = (networkAddress, endpointID): Promise<TsType.SimpleDescriptor> => {
+            this.writeZdoRequest(networkAddress, ZDO_CLUSTER_ID.simpleDescriptor, Buffer.concat([
+                Capture.uint16(networkAddress), Buffer.from([endpointID]),
+            ]));
+            return simpleDescriptor(networkAddress, endpointID);
+        };
+
+        const lqi = adapter.lqi.bind(adapter);
+        adapter.lqi = (networkAddress): Promise<TsType.LQI> => {
+            this.writeZdoRequest(networkAddress, ZDO_CLUSTER_ID.lqi, Buffer.from([0]));
+            return lqi(networkAddress);
+        };
+
+        const routingTable = adapter.routingTable.bind(adapter);
+        adapter.routingTable = (networkAddress): Promise<TsType.RoutingTable> => {
+            this.writeZdoRequest(networkAddress, ZDO_CLUSTER_ID.routingTable, Buffer.from([0]));
+            return routingTable(networkAddress);
+        };
+
+        const bind = adapter.bind.bind(adapter);
+        adapter.bind = (
+            destinationNetworkAddress, sourceIeeeAddress, sourceEndpoint, clusterID, destinationAddressOrGroup, type,
+            destinationEndpoint,
+        ): Promise<void> => {
+            this.writeZdoRequest(destinationNetworkAddress, ZDO_CLUSTER_ID.bind, Capture.bindPayload(
+                sourceIeeeAddress, sourceEndpoint, clusterID, destinationAddressOrGroup, type, destinationEndpoint,
+            ));
+            return bind(
+                destinationNetworkAddress, sourceIeeeAddress, sourceEndpoint, clusterID, destinationAddressOrGroup,
+                type, destinationEndpoint,
+            );
+        };
+
+        const unbind = adapter.unbind.bind(adapter);
+        adapter.unbind = (
+            destinationNetworkAddress, sourceIeeeAddress, sourceEndpoint, clusterID, destinationAddressOrGroup, type,
+            destinationEndpoint,
+        ): Promise<void> => {
+            this.writeZdoRequest(destinationNetworkAddress, ZDO_CLUSTER_ID.unbind, Capture.bindPayload(
+                sourceIeeeAddress, sourceEndpoint, clusterID, destinationAddressOrGroup, type, destinationEndpoint,
+            ));
+            return unbind(
+                destinationNetworkAddress, sourceIeeeAddress, sourceEndpoint, clusterID, destinationAddressOrGroup,
+                type, destinationEndpoint,
+            );
+        };
+
+        const removeDevice = adapter.removeDevice.bind(adapter);
+        adapter.removeDevice = (networkAddress, ieeeAddr): Promise<void> => {
+            this.writeZdoRequest(networkAddress, ZDO_CLUSTER_ID.leave, Buffer.concat([
+                Capture.ieeeAddress(ieeeAddr), Buffer.from([0]),
+            ]));
+            return removeDevice(networkAddress, ieeeAddr);
+        };
+    }
+
+    private async close(): Promise<void> {
+        const stream = this.stream;
+        this.stream = null;
+        if (stream) {
+            await new Promise((resolve) => stream.end(resolve));
+        }
+    }
+
+    private onZclData(payload: ZclDataPayload): void {
+        if (typeof payload.address === 'string') {
+            debug(`Not capturing inter-PAN frame of '${payload.address}'`);
+            return;
+        }
+
+        this.writeZclFrame(payload.frame, {
+            source: payload.address, ...this.getReceivedAddressing(payload),
+        });
+    }
+
+    private onRawData(payload: RawDataPayload): void {
+        if (typeof payload.address === 'string') {
+            debug(`Not capturing inter-PAN frame of '${payload.address}'`);
+            return;
+        }
+
+        this.writeFrame(payload.data, {
+            source: payload.address, ...this.getReceivedAddressing(payload), clusterID: payload.clusterID,
+            profileID: payload.endpoint === 0 ? PROFILE_ID.zdo : PROFILE_ID.ha,
+        });
+    }
+
+    private getReceivedAddressing(
+        payload: ZclDataPayload | RawDataPayload
+    ): Omit<Addressing, 'source' | 'clusterID' | 'profileID'> {
+        let deliveryMode = DeliveryMode.unicast;
+        if (payload.groupID) {
+            deliveryMode = DeliveryMode.group;
+        } else if (payload.wasBroadcast) {
+            deliveryMode = DeliveryMode.broadcast;
+        }
+
+        return {
+            destination: deliveryMode === DeliveryMode.unicast ? COORDINATOR_ADDRESS : BROADCAST_ADDRESS,
+            deliveryMode, destinationEndpoint: payload.destinationEndpoint, groupID: payload.groupID,
+            sourceEndpoint: payload.endpoint,
+        };
+    }
+
+    private writeZclFrame(frame: ZclFrame, addressing: Omit<Addressing, 'clusterID' | 'profileID'>): void {
+        this.writeFrame(frame.toBuffer(), {...addressing, clusterID: frame.Cluster.ID, profileID: PROFILE_ID.ha});
+    }
+
+    private writeZdoRequest(networkAddress: number, clusterID: number, payload: Buffer): void {
+        /* the capture sequence number is used as ZDO transaction sequence number */
+        this.writeFrame(Buffer.concat([Buffer.from([this.sequenceNumber]), payload]), {
+            source: COORDINATOR_ADDRESS, destination: networkAddress, deliveryMode: DeliveryMode.unicast,
+            destinationEndpoint: 0, sourceEndpoint: 0, clusterID, profileID: PROFILE_ID.zdo,
+        });
+    }
+
+    private writeFrame(apsPayload: Buffer, addressing: Addressing): void {
+        const sequenceNumber = this.sequenceNumber;
+        this.sequenceNumber = (this.sequenceNumber + 1) & 0xFF;
+
+        const mac = Buffer.alloc(9);
+        /* data frame, PAN ID compression, short destination and source address */
+        mac.writeUInt16LE(0x8841, 0);
+        mac.writeUInt8(sequenceNumber, 2);
+        mac.writeUInt16LE(this.networkOptions.panID, 3);
+        mac.writeUInt16LE(addressing.destination === BROADCAST_ADDRESS ? 0xFFFF : addressing.destination, 5);
+        mac.writeUInt16LE(addressing.source, 7);
+
+        const nwk = Buffer.alloc(8);
+        /* data frame, protocol version 2, no security */
+        nwk.writeUInt16LE(0x0008, 0);
+        nwk.writeUInt16LE(addressing.destination, 2);
+        nwk.writeUInt16LE(addressing.source, 4);
+        nwk.writeUInt8(30, 6);
+        nwk.writeUInt8(sequenceNumber, 7);
+
+        const group = addressing.deliveryMode === DeliveryMode.group;
+        const aps = Buffer.alloc(9);
+        aps.writeUInt8(addressing.deliveryMode << 2, 0);
+        if (group) {
+            aps.writeUInt16LE(addressing.groupID, 1);
+        } else {
+            aps.writeUInt8(addressing.destinationEndpoint, 1);
+        }
+        const offset = group ? 3 : 2;
+        aps.writeUInt16LE(addressing.clusterID, offset);
+        aps.writeUInt16LE(addressing.profileID, offset + 2);
+        aps.writeUInt8(addressing.sourceEndpoint, offset + 4);
+        aps.writeUInt8(sequenceNumber, offset + 5);
+
+        this.writePacket(Buffer.concat([mac, nwk, aps.slice(0, offset + 6), apsPayload]));
+    }
+
+    private writeHeader(): void {
+        const options = [];
+        if (this.options.includeNetworkKey) {
+            const key = Buffer.from(this.networkOptions.networkKey).toString('hex').match(/../g).join(':');
+            options.push(Capture.option(OPTION_COMMENT, Buffer.from(`Zigbee network key: ${key}`)));
+        }
+
+        const sectionHeader = Buffer.alloc(16);
+        sectionHeader.writeUInt32LE(0x1A2B3C4D, 0);
+        sectionHeader.writeUInt16LE(1, 4);
+        sectionHeader.writeUInt16LE(0, 6);
+        /* section length is not specified */
+        sectionHeader.writeInt32LE(-1, 8);
+        sectionHeader.writeInt32LE(-1, 12);
+
+        const interfaceDescription = Buffer.alloc(8);
+        interfaceDescription.writeUInt16LE(LINKTYPE_IEEE802_15_4_NOFCS, 0);
+
+        this.write(Buffer.concat([
+            Capture.block(BLOCK_TYPE.sectionHeader, Buffer.concat([sectionHeader, ...options]), options.length > 0),
+            Capture.block(BLOCK_TYPE.interfaceDescription, interfaceDescription, false),
+        ]));
+    }
+
+    private writePacket(packet: Buffer): void {
+        const timestamp = Date.now() * 1000;
+        const header = Buffer.alloc(20);
+        header.writeUInt32LE(0, 0);
+        header.writeUInt32LE(Math.floor(timestamp / 0x100000000), 4);
+        header.writeUInt32LE(timestamp % 0x100000000, 8);
+        header.writeUInt32LE(packet.length, 12);
+        header.writeUInt32LE(packet.length, 16);
+
+        this.write(Capture.block(BLOCK_TYPE.enhancedPacket, Buffer.concat([header, Capture.pad(packet)]), false));
+    }
+
+    private write(data: Buffer): void {
+        if (this.stream) {
+            this.stream.write(data);
+        }
+    }
+
+    private static bindPayload(
+        sourceIeeeAddress: string, sourceEndpoint: number, clusterID: number,
+        destinationAddressOrGroup: string | number, type: 'endpoint' | 'group', destinationEndpoint?: number,
+    ): Buffer {
+        const destination = type === 'group' ?
+            Buffer.concat([Buffer.from([0x01]), Capture.uint16(destinationAddressOrGroup as number)]) :
+            Buffer.concat([
+                Buffer.from([0x03]), Capture.ieeeAddress(destinationAddressOrGroup as string),
+                Buffer.from([destinationEndpoint]),
+            ]);
+
+        return Buffer.concat([
+            Capture.ieeeAddress(sourceIeeeAddress), Buffer.from([sourceEndpoint]), Capture.uint16(clusterID),
+            destination,
+        ]);
+    }
+
+    private static ieeeAddress(ieeeAddress: string): Buffer {
+        return Buffer.from(ieeeAddress.replace('0x', ''), 'hex').reverse();
+    }
+
+    private static uint16(value: number): Buffer {
+        const buffer = Buffer.alloc(2);
+        buffer.writeUInt16LE(value, 0);
+        return buffer;
+    }
+
+    private static block(type: number, body: Buffer, hasOptions: boolean): Buffer {
+        /* options are terminated by an end of options option */
+        const content = hasOptions ? Buffer.concat([body, Buffer.alloc(4)]) : body;
+        const length = content.length + 12;
+        const block = Buffer.alloc(length);
+        block.writeUInt32LE(type, 0);
+        block.writeUInt32LE(length, 4);
+        content.copy(block, 8);
+        block.writeUInt32LE(length, length - 4);
+        return block;
+    }
+
+    private static option(code: number, value: Buffer): Buffer {
+        const header = Buffer.alloc(4);
+        header.writeUInt16LE(code, 0);
+        header.writeUInt16LE(value.length, 2);
+        return Buffer.concat([header, Capture.pad(value)]);
+    }
+
+    private static pad(data: Buffer): Buffer {
+        return Buffer.concat([data, Buffer.alloc((4 - (data.length % 4)) % 4)]);
+    }
+}
+
+export default Capture;
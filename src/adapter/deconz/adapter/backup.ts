@@ -0,0 +1,160 @@
+/* istanbul ignore file */
+import Debug from "debug";
+import {fs} from "mz";
+import Driver from '../driver/driver';
+import PARAM, {ParamNetworkKey} from '../driver/constants';
+import * as Models from "../../../models";
+import * as TsType from "../../tstype";
+import {BackupUtils, Wait} from "../../../utils";
+
+/**
+ * Frame counters are increased by this value when restoring, this makes sure the restored counters are higher
+ * than any counter the previous coordinator used after the backup was taken.
+ */
+const FRAME_COUNTER_JUMP = 2500;
+
+export class DeconzAdapterBackup {
+    private driver: Driver;
+    private defaultPath: string;
+    private debug = Debug("zigbee-herdsman:deconz:backup");
+
+    public constructor(driver: Driver, path: string) {
+        this.driver = driver;
+        this.defaultPath = path;
+    }
+
+    /**
+     * Loads currently stored backup and returns it in internal backup model.
+     */
+    public async getStoredBackup(): Promise<Models.Backup> {
+        try {
+            await fs.access(this.defaultPath);
+        } catch (error) {
+            return null;
+        }
+        let data;
+        try {
+            data = JSON.parse((await fs.readFile(this.defaultPath)).toString());
+        } catch (error) {
+            throw new Error('Coordinator backup is corrupted');
+        }
+        if (data.metadata?.format === "zigpy/open-coordinator-backup" && data.metadata?.version) {
+            if (data.metadata?.version !== 1) {
+                throw new Error(`Unsupported open coordinator backup version (version=${data.metadata?.version})`);
+            }
+            return BackupUtils.fromUnifiedBackup(data as Models.UnifiedBackupStorage);
+        } else if (data.adapterType === "zStack") {
+            return BackupUtils.fromLegacyBackup(data as Models.LegacyBackupStorage);
+        } else {
+            throw new Error("Unknown backup format");
+        }
+    }
+
+    /**
+     * Returns true when the backup describes the network configured by the user, only then it may be restored.
+     * The extended PAN ID is stored in the backup in over-the-air order, which is the reverse of the configuration.
+     * Backups of EZSP coordinators use the configuration order, these are accepted as well.
+     */
+    public static matchesNetworkOptions(backup: Models.Backup, options: TsType.NetworkOptions): boolean {
+        const extendedPanId = Buffer.from(options.extendedPanID);
+        return backup.networkOptions.panId === options.panID &&
+            (backup.networkOptions.extendedPanId.equals(Buffer.from(extendedPanId).reverse()) ||
+                backup.networkOptions.extendedPanId.equals(extendedPanId)) &&
+            backup.networkOptions.networkKey.equals(Buffer.from(options.networkKey)) &&
+            backup.logicalChannel === options.channelList[0];
+    }
+
+    /**
+     * The deCONZ serial protocol doesn't expose the address and key tables, therefore only the network parameters
+     * are part of the backup. Devices use the global trust center link key, which doesn't have to be backed up.
+     */
+    public async createBackup(): Promise<Models.Backup> {
+        this.debug("creating backup");
+        const backup = await this.readNetwork();
+        const frameCounter = await this.driver.readParameterRequest(PARAM.PARAM.Network.NWK_FRAME_COUNTER) as number;
+        const networkUpdateId = await this.driver.readParameterRequest(PARAM.PARAM.Network.NWK_UPDATE_ID) as number;
+        const mac = await this.driver.readParameterRequest(PARAM.PARAM.Network.MAC) as string;
+
+        return {
+            networkOptions: {
+                panId: backup.panId,
+                extendedPanId: backup.extendedPanId,
+                channelList: [backup.channel],
+                networkKey: backup.networkKey,
+                networkKeyDistribute: false,
+            },
+            logicalChannel: backup.channel,
+            networkKeyInfo: {
+                sequenceNumber: backup.networkKeySequenceNumber,
+                frameCounter,
+            },
+            securityLevel: 5,
+            networkUpdateId,
+            coordinatorIeeeAddress: Buffer.from(mac.slice(2), "hex"),
+            devices: [],
+        };
+    }
+
+    /**
+     * Returns true when the network of the adapter differs from the network in the backup.
+     */
+    public async differsFromAdapter(backup: Models.Backup): Promise<boolean> {
+        const current = await this.readNetwork();
+        return current.panId !== backup.networkOptions.panId ||
+            !current.extendedPanId.equals(backup.networkOptions.extendedPanId) ||
+            !current.networkKey.equals(backup.networkOptions.networkKey) ||
+            current.channel !== backup.logicalChannel;
+    }
+
+    /**
+     * Writes the network parameters of the backup to the adapter and restarts the network with them.
+     */
+    public async restoreBackup(backup: Models.Backup): Promise<void> {
+        if (backup.zigate?.frameCounterUnknown) {
+            throw new Error(`Cannot restore backup of ZiGate adapter (network frame counter unknown), remove the ` +
+                `backup at '${this.defaultPath}' to form a new network`);
+        }
+
+        this.debug("restoring backup");
+        const Network = PARAM.PARAM.Network;
+
+        await this.driver.changeNetworkStateRequest(Network.NET_OFFLINE);
+        if (backup.coordinatorIeeeAddress) {
+            /* array parameters are written in reversed order */
+            await this.driver.writeParameterRequest(Network.MAC, [...backup.coordinatorIeeeAddress]);
+        }
+        await this.driver.writeParameterRequest(Network.PAN_ID, backup.networkOptions.panId);
+        await this.driver.writeParameterRequest(Network.APS_EXT_PAN_ID,
+            [...backup.networkOptions.extendedPanId].reverse());
+        await this.driver.writeParameterRequest(Network.CHANNEL_MASK, 1 << backup.logicalChannel);
+        await this.driver.writeParameterRequest(Network.NETWORK_KEY,
+            [backup.networkKeyInfo.sequenceNumber, ...backup.networkOptions.networkKey]);
+        await this.driver.writeParameterRequest(Network.NWK_UPDATE_ID, backup.networkUpdateId || 0);
+        await this.driver.writeParameterRequest(Network.NWK_FRAME_COUNTER,
+            backup.networkKeyInfo.frameCounter + FRAME_COUNTER_JUMP);
+        await this.driver.changeNetworkStateRequest(Network.NET_CONNECTED);
+        await Wait(3000);
+
+        if (backup.devices.some((d) => d.linkKey)) {
+            this.debug("unique link keys can't be restored on deCONZ adapters, these devices have to be re-paired");
+        }
+        this.debug(`restored backup on channel ${backup.logicalChannel}`);
+    }
+
+    private async readNetwork(): Promise<{
+        panId: number; extendedPanId: Buffer; networkKey: Buffer; networkKeySequenceNumber: number; channel: number;
+    }> {
+        const panId = await this.driver.readParameterRequest(PARAM.PARAM.Network.PAN_ID) as number;
+        const extendedPanId = await this.driver.readParameterRequest(PARAM.PARAM.Network.APS_EXT_PAN_ID) as string;
+        const networkKey = await this.driver.readParameterRequest(PARAM.PARAM.Network.NETWORK_KEY) as ParamNetworkKey;
+        const channel = await this.driver.readParameterRequest(PARAM.PARAM.Network.CHANNEL) as number;
+        return {
+            panId,
+            /* the extended PAN ID is read as little endian number, reverse it to get the over-the-air order */
+            extendedPanId: Buffer.from(extendedPanId.slice(2), "hex").reverse(),
+            networkKey: Buffer.from(networkKey.key.slice(2), "hex"),
+            networkKeySequenceNumber: networkKey.sequenceNumber,
+            channel,
+        };
+    }
+}
@@ -3,7 +3,7 @@
 import {
     NetworkOptions, SerialPortOptions, Coordinator, CoordinatorVersion, NodeDescriptor,
     DeviceType, ActiveEndpoints, SimpleDescriptor, LQI, RoutingTable, Backup as BackupType, NetworkParameters,
-    StartResult, LQINeighbor, RoutingTableEntry, AdapterOptions,
+    StartResult, LQINeighbor, RoutingTableEntry, AdapterOptions, EnergyScanResult, AdapterCapabilities,
 } from '../../tstype';
 import Debug from "debug";
 import Adapter from '../../adapter';
@@ -14,11 +14,14 @@ import * as Events from '../../events';
 import * as Zcl from '../../../zcl';
 import {GreenPowerEvents, GreenPowerDeviceJoinedPayload} from '../../../controller/tstype';
 import processFrame from '../driver/frameParser';
-import {Queue, Waitress, Wait} from '../../../utils';
+import {Queue, Waitress, Wait, InstallCodeUtils} from '../../../utils';
 import PARAM from '../driver/constants';
-import { Command, WaitForDataRequest, ApsDataRequest, ReceivedDataResponse, DataStateResponse, gpDataInd } from '../driver/constants';
+import {
+    Command, WaitForDataRequest, ApsDataRequest, ReceivedDataResponse, DataStateResponse, gpDataInd, ParamNetworkKey,
+} from '../driver/constants';
 import {LoggerStub} from "../../../controller/logger-stub";
 import * as Models from "../../../models";
+import {DeconzAdapterBackup} from './backup';
 
 var frameParser = require('../driver/frameParser');
 
@@ -42,6 +45,7 @@ class DeconzAdapter extends Adapter {
     private fwVersion: CoordinatorVersion;
     private waitress: Waitress<Events.ZclDataPayload, WaitressMatcher>;
     private TX_OPTIONS = 0x00; // No APS ACKS
+    private backupMan: DeconzAdapterBackup;
 
     public constructor(networkOptions: NetworkOptions,
         serialPortOptions: SerialPortOptions, backupPath: string, adapterOptions: AdapterOptions, logger?: LoggerStub) {
@@ -59,8 +63,9 @@ class DeconzAdapter extends Adapter {
             this.waitressValidator, this.waitressTimeoutFormatter
         );
 
-        this.driver = new Driver(serialPortOptions.path);
+        this.driver = new Driver(serialPortOptions.path, serialPortOptions.record);
         this.driver.setDelay(delay);
+        this.backupMan = new DeconzAdapterBackup(this.driver, backupPath);
 
         if (delay >= 200) {
             this.TX_OPTIONS = 0x04; // activate APS ACKS
@@ -89,11 +94,37 @@ class DeconzAdapter extends Adapter {
         return Driver.autoDetectPath();
     }
 
+    public static async probe(path: string): Promise<string> {
+        if (Driver.isInUse()) {
+            // Drivers share their queues, probing would interfere with the adapter in use
+            throw new Error(`Cannot probe '${path}' while a deCONZ adapter is in use`);
+        }
+
+        const driver = new Driver(path);
+        driver.setDelay(0);
+        try {
+            await driver.open();
+            const fw = await driver.readFirmwareVersionRequest();
+            return "0x" + Buffer.from(fw).readUInt32LE(0).toString(16);
+        } finally {
+            await driver.close();
+        }
+    }
+
     /**
      * Adapter methods
      */
     public async start(): Promise<StartResult> {
         await this.driver.open();
+
+        const backup = await this.backupMan.getStoredBackup();
+        if (backup && DeconzAdapterBackup.matchesNetworkOptions(backup, this.networkOptions) &&
+            await this.backupMan.differsFromAdapter(backup)) {
+            debug("network of adapter differs from backup, restoring backup");
+            await this.backupMan.restoreBackup(backup);
+            return "restored";
+        }
+
         return "resumed";
     }
 
@@ -184,14 +215,97 @@ class DeconzAdapter extends Adapter {
         }
     }
 
+    /**
+     * The firmware only accepts link keys, the key is derived from the install code before it is written.
+     */
     public async addInstallCode(ieeeAddress: string, key: Buffer): Promise<void> {
-        return Promise.reject(new Error('Add install code is not supported'));
+        const linkKey = InstallCodeUtils.toLinkKey(key);
+        const ieee = Buffer.from(ieeeAddress.substring(2), 'hex').reverse();
+        /* the parameter is the little endian IEEE address followed by the key, arrays are written reversed */
+        await this.driver.writeParameterRequest(PARAM.PARAM.Network.LINK_KEY, [...ieee, ...linkKey].reverse());
+    }
+
+    /**
+     * The serial protocol doesn't allow to broadcast the next network key and switch to it, only writing the
+     * network key of the adapter is possible which would disconnect all devices.
+     */
+    public async rotateNetworkKey(key: Buffer): Promise<void> {
+        return Promise.reject(new Error('Network key rotation is not supported'));
+    }
+
+    public async changeChannel(channel: number): Promise<void> {
+        const Network = PARAM.PARAM.Network;
+        const nwkUpdateId = ((await this.driver.readParameterRequest(Network.NWK_UPDATE_ID) as number) + 1) & 0xFF;
+        const channelMask = 1 << channel;
+        const transactionID = this.nextTransactionID();
+        const request: ApsDataRequest = {};
+        const zdpFrame = [transactionID, channelMask & 0xFF, (channelMask >> 8) & 0xFF, (channelMask >> 16) & 0xFF,
+            (channelMask >> 24) & 0xFF, 0xFE, nwkUpdateId];
+
+        request.requestId = transactionID;
+        request.destAddrMode = PARAM.PARAM.addressMode.NWK_ADDR;
+        request.destAddr16 = 0xFFFD;
+        request.destEndpoint = 0;
+        request.profileId = 0;
+        request.clusterId = 0x38; // mgmt network update
+        request.srcEndpoint = 0;
+        request.asduLength = zdpFrame.length;
+        request.asduPayload = zdpFrame;
+        request.txOptions = 0;
+        request.radius = PARAM.PARAM.txRadius.DEFAULT_RADIUS;
+        request.timeout = 5;
+
+        await this.driver.enqueueSendDataRequest(request);
+        // devices switch after the broadcast went through the network, the coordinator follows with a restart
+        await Wait(10000);
+        await this.driver.changeNetworkStateRequest(Network.NET_OFFLINE);
+        await this.driver.writeParameterRequest(Network.CHANNEL_MASK, channelMask);
+        await this.driver.writeParameterRequest(Network.NWK_UPDATE_ID, nwkUpdateId);
+        await this.driver.changeNetworkStateRequest(Network.NET_CONNECTED);
+        await Wait(3000);
+        debug(`CHANNEL_CHANGE - moved network to channel ${channel}`);
     }
 
     public async reset(type: 'soft' | 'hard'): Promise<void> {
         return Promise.reject(new Error('Reset is not supported'));
     }
 
+    public async scanChannels(networkAddress: number, channels: number[], duration: number): Promise<EnergyScanResult[]> {
+        const channelMask = channels.reduce((mask, channel) => mask | (1 << channel), 0);
+        const transactionID = this.nextTransactionID();
+        const req: ApsDataRequest = {};
+        req.requestId = transactionID;
+        req.destAddrMode = PARAM.PARAM.addressMode.NWK_ADDR;
+        req.destAddr16 = networkAddress;
+        req.destEndpoint = 0;
+        req.profileId = 0;
+        req.clusterId = 0x38; // mgmt network update
+        req.srcEndpoint = 0;
+        req.asduLength = 7;
+        req.asduPayload = [transactionID, channelMask & 0xFF, (channelMask >> 8) & 0xFF, (channelMask >> 16) & 0xFF,
+            (channelMask >> 24) & 0xFF, duration, 1];
+        req.txOptions = 0;
+        req.radius = PARAM.PARAM.txRadius.DEFAULT_RADIUS;
+
+        this.driver.enqueueSendDataRequest(req)
+        .then(result => {})
+        .catch(error => {});
+
+        // a channel is scanned for (2^duration + 1) superframes of 15.36 ms
+        const timeout = channels.length * (2 ** duration + 1) * 15.36 + 10000;
+        const d = await this.waitForData(networkAddress, 0, 0x8038, undefined, timeout);
+        const data = Buffer.from(d.asduPayload);
+        if (data[1] !== 0) { // status
+            throw new Error(`Energy scan for '${networkAddress}' failed`);
+        }
+
+        const scannedChannels = data.readUInt32LE(2);
+        const energyValues = data.slice(11, 11 + data[10]);
+        const scanned = channels.filter((c) => scannedChannels & (1 << c)).sort((a, b) => a - b);
+        debug("ENERGY SCAN RESPONSE - addr: 0x" + networkAddress.toString(16) + " channels: " + scanned);
+        return scanned.map((channel, index) => ({channel, energy: energyValues[index]}));
+    }
+
     public async lqi(networkAddress: number): Promise<LQI> {
             const neighbors: LQINeighbor[] = [];
 
@@ -862,11 +976,27 @@ class DeconzAdapter extends Adapter {
     }
 
     public async supportsBackup(): Promise<boolean> {
-        return false;
+        return true;
+    }
+
+    public async getCapabilities(): Promise<AdapterCapabilities> {
+        return {
+            backup: true,
+            restore: true,
+            installCodes: true,
+            interPAN: false,
+            routingTable: true,
+            reset: [],
+            transmitPower: false,
+            channelChange: true,
+            networkKeyRotation: false,
+            energyScan: true,
+            sourceRouting: false,
+        };
     }
 
     public async backup(): Promise<Models.Backup> {
-        throw new Error("This adapter does not support backup");
+        return this.backupMan.createBackup();
     }
 
     public async getNetworkParameters(): Promise<NetworkParameters> {
@@ -874,7 +1004,7 @@ class DeconzAdapter extends Adapter {
             let panid: any = await this.driver.readParameterRequest(PARAM.PARAM.Network.PAN_ID);
             let expanid: any = await this.driver.readParameterRequest(PARAM.PARAM.Network.APS_EXT_PAN_ID);
             let channel: any = await this.driver.readParameterRequest(PARAM.PARAM.Network.CHANNEL);
-            let networkKey: any = await this.driver.readParameterRequest(PARAM.PARAM.Network.NETWORK_KEY);
+            let networkKey = await this.driver.readParameterRequest(PARAM.PARAM.Network.NETWORK_KEY) as ParamNetworkKey;
 
             // check current channel against configuration.yaml
             if (this.networkOptions.channelList[0] !== channel) {
@@ -960,8 +1090,9 @@ class DeconzAdapter extends Adapter {
                 }
             }
 
-            // check current extended_panid against configuration.yaml
-            if (this.driver.generalArrayToString(this.networkOptions.extendedPanID, 8) !== expanid) {
+            // check current extended_panid against configuration.yaml, networks restored from EZSP backups use the reversed order
+            if (this.driver.generalArrayToString(this.networkOptions.extendedPanID, 8) !== expanid &&
+                this.driver.macAddrArrayToString(this.networkOptions.extendedPanID) !== expanid) {
 
                 debug("extended panid in configuration.yaml (" + this.driver.macAddrArrayToString(this.networkOptions.extendedPanID) + ") differs from current extended panid (" + expanid + "). Changing extended panid.");
 
@@ -978,11 +1109,11 @@ class DeconzAdapter extends Adapter {
             }
 
             // check current network key against configuration.yaml
-            if (this.driver.generalArrayToString(this.networkOptions.networkKey, 16) !== networkKey) {
-                debug("network key in configuration.yaml (hidden) differs from current network key (" + networkKey + "). Changing network key.");
+            if (this.driver.generalArrayToString(this.networkOptions.networkKey, 16) !== networkKey.key) {
+                debug("network key in configuration.yaml (hidden) differs from current network key (" + networkKey.key + "). Changing network key.");
 
                 try {
-                    await this.driver.writeParameterRequest(PARAM.PARAM.Network.NETWORK_KEY, this.networkOptions.networkKey);
+                    await this.driver.writeParameterRequest(PARAM.PARAM.Network.NETWORK_KEY, [0, ...this.networkOptions.networkKey]);
                     await this.driver.changeNetworkStateRequest(PARAM.PARAM.Network.NET_OFFLINE);
                     await this.driver.changeNetworkStateRequest(PARAM.PARAM.Network.NET_CONNECTED);
                     await this.sleep(3000);
@@ -991,10 +1122,13 @@ class DeconzAdapter extends Adapter {
                 }
             }
 
+            const networkUpdateID = await this.driver.readParameterRequest(PARAM.PARAM.Network.NWK_UPDATE_ID);
+
             return {
                 panID: panid,
                 extendedPanID: expanid,
-                channel: channel
+                channel: channel,
+                networkUpdateID: networkUpdateID as number,
             };
         } catch (error) {
             const msg = "get network parameters Error:" + error;
@@ -1003,6 +1137,10 @@ class DeconzAdapter extends Adapter {
         }
     }
 
+    /**
+     * The serial protocol has no documented way to send or receive inter-PAN frames, touchlink is therefore not
+     * supported on deCONZ adapters.
+     */
     public async restoreChannelInterPAN(): Promise<void> {
         throw new Error("not supported");
     }
@@ -17,9 +17,12 @@ const PARAM: {
         CHANNEL_MASK: 0x0a,
         APS_EXT_PAN_ID: 0x0b,
         NETWORK_KEY: 0x18,
+        LINK_KEY: 0x19,
         CHANNEL: 0x1c,
         PERMIT_JOIN: 0x21,
-        WATCHDOG_TTL: 0x26
+        NWK_UPDATE_ID: 0x24,
+        WATCHDOG_TTL: 0x26,
+        NWK_FRAME_COUNTER: 0x27
     },
     STK: {
         Endpoint: 0x13
@@ -154,11 +157,13 @@ type ParamNwkAddr = number;
 type ParamChannel = number;
 type ParamChannelMask = number;
 type ParamPermitJoin = number;
-type ParamNetworkKey = string;
+type ParamNetworkKey = {sequenceNumber: number; key: string};
+type ParamNwkUpdateId = number;
+type ParamFrameCounter = number;
 
-type Command = ParamMac | ParamPanId | ParamNwkAddr | ParamExtPanId | ParamChannel | ParamChannelMask | ParamPermitJoin | ParamNetworkKey;
+type Command = ParamMac | ParamPanId | ParamNwkAddr | ParamExtPanId | ParamChannel | ParamChannelMask | ParamPermitJoin | ParamNetworkKey | ParamNwkUpdateId | ParamFrameCounter;
 type parameterT = number | number[];
 
-export { Request, WaitForDataRequest, ApsDataRequest, ReceivedDataResponse, DataStateResponse, parameterT , Command, ParamMac, ParamPanId, ParamNwkAddr, ParamExtPanId, ParamChannel, ParamChannelMask, ParamPermitJoin, ParamNetworkKey, gpDataInd };
+export { Request, WaitForDataRequest, ApsDataRequest, ReceivedDataResponse, DataStateResponse, parameterT , Command, ParamMac, ParamPanId, ParamNwkAddr, ParamExtPanId, ParamChannel, ParamChannelMask, ParamPermitJoin, ParamNetworkKey, ParamNwkUpdateId, ParamFrameCounter, gpDataInd };
 
 export default {PARAM};
@@ -10,6 +10,7 @@ import * as Events from '../../events';
 import {SerialPort} from '../../serialPort';
 import SerialPortUtils from '../../serialPortUtils';
 import SocketPortUtils from '../../socketPortUtils';
+import SerialSession from '../../serialSession';
 import net from 'net';
 import { Command, Request, parameterT, ApsDataRequest, ReceivedDataResponse, DataStateResponse } from './constants';
 
@@ -46,6 +47,9 @@ export { busyQueue, apsBusyQueue, readyToSend, enableRTS, disableRTS, enableRtsT
 
 var frameParser = require('./frameParser');
 
+/* the queues and the frame parser are shared, a second driver would take over the frames of the first one */
+const drivers: Set<Driver> = new Set();
+
 const littleEndian = true;
 
 class Driver extends events.EventEmitter {
@@ -62,15 +66,17 @@ class Driver extends events.EventEmitter {
     private apsDataIndication: number;
     private configChanged: number;
     private portType: 'serial' | 'socket';
+    private record: string;
     private socketPort: net.Socket;
     private DELAY: number;
     private READY_TO_SEND_TIMEOUT: number;
     private HANDLE_DEVICE_STATUS_DELAY: number;
     private PROCESS_QUEUES: number;
 
-    public constructor(path: string) {
+    public constructor(path: string, record?: string) {
         super();
         this.path = path;
+        this.record = record;
         this.initialized = false;
         this.seqNumber = 0;
         this.timeoutResetTimeout = null;
@@ -86,11 +92,11 @@ class Driver extends events.EventEmitter {
         this.PROCESS_QUEUES = 5;
 
         const that = this;
-        setInterval(() => { that.deviceStateRequest()
+        this.registerInterval(setInterval(() => { that.deviceStateRequest()
                             .then(result => {})
-                            .catch(error => {}); }, 10000);
+                            .catch(error => {}); }, 10000));
 
-        setInterval(() => {
+        this.registerInterval(setInterval(() => {
             that.writeParameterRequest(0x26, 600) // reset watchdog // 10 minutes
                 .then(result => {})
                 .catch(error => {
@@ -100,12 +106,16 @@ class Driver extends events.EventEmitter {
                     .then(result => {})
                     .catch(error => {debug("warning watchdog was not reset");});
                 });
-             }, (1000 * 60 * 8)); // 8 minutes
+             }, (1000 * 60 * 8))); // 8 minutes
 
         this.onParsed = this.onParsed.bind(this);
-        this.frameParserEvent.on('receivedDataNotification', (data: number) => {this.catchPromise(this.checkDeviceStatus(data))});
+        this.onReceivedDataNotification = this.onReceivedDataNotification.bind(this);
+        this.frameParserEvent.on('receivedDataNotification', this.onReceivedDataNotification);
+        drivers.add(this);
 
         this.on('close', () => {
+            this.frameParserEvent.off('receivedDataNotification', this.onReceivedDataNotification);
+            drivers.delete(this);
             this.intervals.forEach(i => clearInterval(i));
             queue.length = 0;
             busyQueue.length = 0;
@@ -118,6 +128,10 @@ class Driver extends events.EventEmitter {
 
     protected intervals: NodeJS.Timer[] = [];
 
+    private onReceivedDataNotification(data: number): void {
+        this.catchPromise(this.checkDeviceStatus(data));
+    }
+
     protected registerInterval(interval: NodeJS.Timer) {
         this.intervals.push(interval);
     }
@@ -172,6 +186,13 @@ class Driver extends events.EventEmitter {
         return paths.length > 0 ? paths[0] : null;
     }
 
+    /**
+     * Whether a driver exists which is not closed yet.
+     */
+    public static isInUse(): boolean {
+        return drivers.size > 0;
+    }
+
     private onPortClose(): void {
         debug('Port closed');
         this.initialized = false;
@@ -185,6 +206,7 @@ class Driver extends events.EventEmitter {
     public openSerialPort(): Promise<void> {
         debug(`Opening with ${this.path}`);
         this.serialPort = new SerialPort({path: this.path, baudRate: 38400, autoOpen: false});
+        SerialSession.record(this.serialPort, this.record);
 
         this.writer = new Writer();
         // @ts-ignore
@@ -214,9 +236,10 @@ class Driver extends events.EventEmitter {
     private async openSocketPort(): Promise<void> {
         const info = SocketPortUtils.parseTcpPath(this.path);
         debug(`Opening TCP socket with ${info.host}:${info.port}`);
-        this.socketPort = new net.Socket();
+        this.socketPort = SocketPortUtils.createSocket(this.path);
         this.socketPort.setNoDelay(true);
         this.socketPort.setKeepAlive(true, 15000);
+        SerialSession.record(this.socketPort, this.record);
 
         this.writer = new Writer();
         this.writer.pipe(this.socketPort);
@@ -246,7 +269,7 @@ class Driver extends events.EventEmitter {
                 self.initialized = false;
             });
 
-            this.socketPort.connect(info.port, info.host);
+            SocketPortUtils.connect(this.socketPort, this.path);
         });
     }
 
@@ -340,7 +363,8 @@ class Driver extends events.EventEmitter {
         const pLength2 = payloadLength >> 8;
 
         if (parameterId === PARAM.PARAM.Network.NETWORK_KEY) {
-            const requestFrame2= [PARAM.PARAM.FrameType.WriteParameter, seqNumber, 0x00, 0x19, 0x00, 0x12, 0x00, parameterId, 0x00].concat(value);
+            /* the value is the key sequence number followed by the key */
+            const requestFrame2= [PARAM.PARAM.FrameType.WriteParameter, seqNumber, 0x00, 0x19, 0x00, 0x12, 0x00, parameterId].concat(value);
             this.sendRequest(requestFrame2);
         } else {
             const requestframe = [PARAM.PARAM.FrameType.WriteParameter, seqNumber, 0x00, fLength1, fLength2, pLength1, pLength2, parameterId].concat(this.parameterBuffer(value, parameterLength));
@@ -354,12 +378,14 @@ class Driver extends events.EventEmitter {
                 return 1;
             case 5: case 7: case 34:
                 return 2;
-            case 10: case 38:
+            case 10: case 38: case 39:
                 return 4;
             case 1: case 8: case 11: case 14:
                 return 8;
-            case 24: case 25:
+            case 24:
                 return 16;
+            case 25:
+                return 24;
             default:
                 return 0;
         }
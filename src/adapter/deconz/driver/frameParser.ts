@@ -4,7 +4,7 @@ const MIN_BUFFER_SIZE = 3;
 const littleEndian = true;
 import PARAM from './constants';
 import { busyQueue, apsBusyQueue, readyToSend, enableRTS, disableRTS, enableRtsTimeout } from './driver';
-import { Request, ReceivedDataResponse, DataStateResponse, Command, ParamMac, ParamPanId, ParamNwkAddr, ParamExtPanId, ParamChannel, ParamChannelMask, ParamPermitJoin, ParamNetworkKey, gpDataInd } from './constants';
+import { Request, ReceivedDataResponse, DataStateResponse, Command, ParamMac, ParamPanId, ParamNwkAddr, ParamExtPanId, ParamChannel, ParamChannelMask, ParamPermitJoin, ParamNetworkKey, ParamNwkUpdateId, ParamFrameCounter, gpDataInd } from './constants';
 import * as Events from '../../events';
 import {ZclFrame} from '../../../zcl';
 import Debug from 'debug';
@@ -72,7 +72,8 @@ function parseReadParameterResponse(view: DataView) : Command {
                 res2 = "0" + res2;
             }
             debug('NETWORK_KEY: hidden');
-            return "0x"+res1+res2;
+            /* the key is preceded by its key sequence number */
+            return {sequenceNumber: view.getUint8(8), key: "0x"+res1+res2};
         case PARAM.PARAM.Network.CHANNEL:
             const channel: ParamChannel = view.getUint8(8);
             debug('CHANNEL: ' + channel);
@@ -89,6 +90,14 @@ function parseReadParameterResponse(view: DataView) : Command {
             const ttl: ParamPermitJoin = view.getUint32(8);
             debug('WATCHDOG_TTL: ' + ttl);
             return ttl;
+        case PARAM.PARAM.Network.NWK_UPDATE_ID:
+            const nwkUpdateId: ParamNwkUpdateId = view.getUint8(8);
+            debug('NWK_UPDATE_ID: ' + nwkUpdateId);
+            return nwkUpdateId;
+        case PARAM.PARAM.Network.NWK_FRAME_COUNTER:
+            const frameCounter: ParamFrameCounter = view.getUint32(8, littleEndian);
+            debug('NWK_FRAME_COUNTER: ' + frameCounter);
+            return frameCounter;
         default:
             //throw new Error(`unknown parameter id ${parameterId}`);
             debug(`unknown parameter id ${parameterId}`);
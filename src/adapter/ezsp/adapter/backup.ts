@@ -1,22 +1,85 @@
 /* istanbul ignore file */
 import Debug from "debug";
+import {fs} from "mz";
+import {randomBytes} from 'crypto';
 import {Driver} from '../driver';
 import * as Models from "../../../models";
-import {EmberKeyType, EmberKeyStruct, EmberNetworkParameters} from '../driver/types';
-import {channelsMask2list} from '../driver/utils';
+import * as TsType from "../../tstype";
+import {BackupUtils} from "../../../utils";
+import {LoggerStub} from "../../../controller/logger-stub";
+import {
+    EmberKeyType, EmberKeyStruct, EmberNetworkParameters, EmberInitialSecurityState, EmberKeyData, EmberEUI64,
+    EmberInitialSecurityBitmask, EmberJoinMethod, EmberNetworkStatus, EmberStatus, EzspConfigId, EzspValueId,
+    EzspMfgTokenId, uint32_t,
+} from '../driver/types';
 
+/**
+ * Frame counters are increased by this value when restoring, this makes sure the restored counters are higher
+ * than any counter the previous coordinator used after the backup was taken.
+ */
+const FRAME_COUNTER_JUMP = 2500;
+
+/**
+ * Network address of devices which are only known from the key table, it's not restored as address of the device.
+ */
+const UNKNOWN_NETWORK_ADDRESS = 0xFFFE;
 
 export class EZSPAdapterBackup {
     private driver: Driver;
     private defaultPath: string;
+    private adapterOptions: TsType.AdapterOptions;
+    private logger?: LoggerStub;
     private debug = Debug("zigbee-herdsman:adapter:ezsp:backup");
 
-    public constructor(driver: Driver, path: string) {
+    public constructor(driver: Driver, path: string, adapterOptions?: TsType.AdapterOptions, logger?: LoggerStub) {
         this.driver = driver;
         this.defaultPath = path;
+        this.adapterOptions = adapterOptions;
+        this.logger = logger;
+    }
+
+    /**
+     * Loads currently stored backup and returns it in internal backup model.
+     */
+    public async getStoredBackup(): Promise<Models.Backup> {
+        try {
+            await fs.access(this.defaultPath);
+        } catch (error) {
+            return null;
+        }
+        let data;
+        try {
+            data = JSON.parse((await fs.readFile(this.defaultPath)).toString());
+        } catch (error) {
+            throw new Error('Coordinator backup is corrupted');
+        }
+        if (data.metadata?.format === "zigpy/open-coordinator-backup" && data.metadata?.version) {
+            if (data.metadata?.version !== 1) {
+                throw new Error(`Unsupported open coordinator backup version (version=${data.metadata?.version})`);
+            }
+            return BackupUtils.fromUnifiedBackup(data as Models.UnifiedBackupStorage);
+        } else if (data.adapterType === "zStack") {
+            /* legacy backups of Z-Stack coordinators can be migrated as well */
+            return BackupUtils.fromLegacyBackup(data as Models.LegacyBackupStorage);
+        } else {
+            throw new Error("Unknown backup format");
+        }
     }
 
-    public async createBackup(): Promise<Models.Backup> {
+    /**
+     * Returns true when the backup describes the network configured by the user, only then it may be restored.
+     * Backups of Z-Stack coordinators contain the extended PAN ID in reversed order, these are accepted as well.
+     */
+    public static matchesNetworkOptions(backup: Models.Backup, options: TsType.NetworkOptions): boolean {
+        const extendedPanId = Buffer.from(options.extendedPanID);
+        return backup.networkOptions.panId === options.panID &&
+            (backup.networkOptions.extendedPanId.equals(extendedPanId) ||
+                backup.networkOptions.extendedPanId.equals(Buffer.from(extendedPanId).reverse())) &&
+            backup.networkOptions.networkKey.equals(Buffer.from(options.networkKey)) &&
+            options.channelList.includes(backup.logicalChannel);
+    }
+
+    public async createBackup(ieeeAddressesInDatabase: string[] = []): Promise<Models.Backup> {
         this.debug("creating backup");
         const version: number = await this.driver.ezsp.version();
         const linkResult = await this.driver.ezsp.execCommand('getKey', {keyType: EmberKeyType.TRUST_CENTER_LINK_KEY});
@@ -26,6 +89,7 @@ export class EZSPAdapterBackup {
         const netResult = await this.driver.ezsp.execCommand('getKey', {keyType: EmberKeyType.CURRENT_NETWORK_KEY});
         const networkKey: EmberKeyStruct = netResult.keyStruct;
         const ieee = (await this.driver.ezsp.execCommand('getEui64')).eui64;
+        const devices = await this.getDevices(ieeeAddressesInDatabase);
         /* return backup structure */
         /* istanbul ignore next */
         return {
@@ -36,7 +100,8 @@ export class EZSPAdapterBackup {
             networkOptions: {
                 panId: networkParams.panId,
                 extendedPanId: Buffer.from(networkParams.extendedPanId),
-                channelList: channelsMask2list(networkParams.channels),
+                /* the network is formed on the first configured channel, the channel mask contains all channels */
+                channelList: [networkParams.radioChannel],
                 networkKey: Buffer.from(networkKey.key.contents),
                 networkKeyDistribute: true,
             },
@@ -48,7 +113,180 @@ export class EZSPAdapterBackup {
             securityLevel: 5,
             networkUpdateId: networkParams.nwkUpdateId,
             coordinatorIeeeAddress: ieee,
-            devices: []
+            devices,
         };
     }
-}
\ No newline at end of file
+
+    /**
+     * Restores the network from a backup onto the connected adapter. The adapter leaves its current network and
+     * forms the network of the backup with the same keys, (increased) frame counters and trust center link key,
+     * so devices don't have to be re-paired.
+     *
+     * Backups without a hashed trust center link key (e.g. of Z-Stack coordinators) get a new one which is only used
+     * for devices joining later. The link keys of the joined devices are part of the backup, also the ones Z-Stack
+     * derived from its TCLK seed, and are restored as unique keys which take precedence over the hashed key.
+     */
+    public async restoreBackup(backup: Models.Backup): Promise<void> {
+        this.debug("restoring backup");
+        const ezsp = this.driver.ezsp;
+
+        const state = (await ezsp.execCommand('networkState')).status;
+        if (state == EmberNetworkStatus.JOINED_NETWORK) {
+            this.debug("leaving current network");
+            await ezsp.leaveNetwork();
+        }
+
+        if (backup.coordinatorIeeeAddress) {
+            await this.restoreIeeeAddress(backup.coordinatorIeeeAddress);
+        }
+
+        let status = (await ezsp.execCommand('clearKeyTable')).status;
+        console.assert(status == EmberStatus.SUCCESS, `Command clearKeyTable returned unexpected state: ${status}`);
+        await ezsp.execCommand('clearTransientLinkKeys');
+
+        /* restore network key and trust center link key, keep the frame counters written below */
+        const security = new EmberInitialSecurityState();
+        security.bitmask = (EmberInitialSecurityBitmask.HAVE_PRECONFIGURED_KEY |
+            EmberInitialSecurityBitmask.TRUST_CENTER_GLOBAL_LINK_KEY |
+            EmberInitialSecurityBitmask.HAVE_NETWORK_KEY |
+            EmberInitialSecurityBitmask.REQUIRE_ENCRYPTED_KEY |
+            EmberInitialSecurityBitmask.TRUST_CENTER_USES_HASHED_LINK_KEY |
+            EmberInitialSecurityBitmask.NO_FRAME_COUNTER_RESET);
+        security.preconfiguredKey = new EmberKeyData();
+        security.preconfiguredKey.contents = backup.ezsp?.hashed_tclk || randomBytes(16);
+        security.networkKey = new EmberKeyData();
+        security.networkKey.contents = backup.networkOptions.networkKey;
+        security.networkKeySequenceNumber = backup.networkKeyInfo.sequenceNumber;
+        security.preconfiguredTrustCenterEui64 = new EmberEUI64([0, 0, 0, 0, 0, 0, 0, 0]);
+        if (!backup.ezsp?.hashed_tclk) {
+            this.debug("backup contains no hashed trust center link key, generated a new one");
+        }
+        await ezsp.setInitialSecurityState(security);
+
+        const frameCounter = backup.networkKeyInfo.frameCounter + FRAME_COUNTER_JUMP;
+        const result = await ezsp.execCommand('setValue', {
+            valueId: EzspValueId.VALUE_NWK_FRAME_COUNTER, value: uint32_t.serialize(uint32_t, frameCounter),
+        });
+        console.assert(result.status == EmberStatus.SUCCESS,
+            `Command (setValue) returned unexpected state: ${result.status}`);
+
+        /* form the network of the backup */
+        const parameters = new EmberNetworkParameters();
+        parameters.panId = backup.networkOptions.panId;
+        parameters.extendedPanId = [...backup.networkOptions.extendedPanId];
+        parameters.radioTxPower = 5;
+        parameters.radioChannel = backup.logicalChannel;
+        parameters.joinMethod = EmberJoinMethod.USE_MAC_ASSOCIATION;
+        parameters.nwkManagerId = 0;
+        parameters.nwkUpdateId = backup.networkUpdateId || 0;
+        parameters.channels = backup.networkOptions.channelList.reduce((mask, channel) => mask | (1 << channel), 0);
+        await ezsp.formNetwork(parameters);
+        await ezsp.setValue(EzspValueId.VALUE_STACK_TOKEN_WRITING, 1);
+
+        /* restore unique link keys (e.g. from install codes) */
+        const devicesWithKey = backup.devices.filter((d) => d.linkKey);
+        const keyTableSize = await ezsp.getConfigurationValue(EzspConfigId.CONFIG_KEY_TABLE_SIZE);
+        if (devicesWithKey.length > keyTableSize) {
+            const skipped = devicesWithKey.slice(keyTableSize).map((d) => `0x${d.ieeeAddress.toString("hex")}`);
+            this.logger?.warn(`Key table can hold ${keyTableSize} of ${devicesWithKey.length} link keys, ` +
+                `the following devices need to be re-paired: ${skipped.join(', ')}`);
+        }
+        for (const [index, device] of devicesWithKey.slice(0, keyTableSize).entries()) {
+            const keyData = new EmberKeyData();
+            keyData.contents = device.linkKey.key;
+            const address = new EmberEUI64(`0x${device.ieeeAddress.toString("hex")}`);
+            status = (await ezsp.execCommand('setKeyTableEntry', {index, address, linkKey: true, keyData})).status;
+            console.assert(status == EmberStatus.SUCCESS,
+                `Command setKeyTableEntry returned unexpected state: ${status}`);
+        }
+
+        /* make the addresses of the previous children and neighbors known again */
+        for (const device of backup.devices.filter((d) => d.networkAddress !== UNKNOWN_NETWORK_ADDRESS)) {
+            this.driver.setNode(device.networkAddress, new EmberEUI64(`0x${device.ieeeAddress.toString("hex")}`));
+        }
+
+        this.debug(`restored backup with ${devicesWithKey.length} link keys and ${backup.devices.length} devices`);
+    }
+
+    /**
+     * The IEEE address can only be written once to the custom EUI64 token, this permanently changes the adapter and
+     * is therefore only done when enabled with the `restoreCoordinatorIeeeAddress` adapter option. Without it, or
+     * when the token is already written, devices will still find the network but will see a new trust center.
+     */
+    private async restoreIeeeAddress(ieeeAddress: Buffer): Promise<void> {
+        const current = Buffer.from((await this.driver.ezsp.execCommand('getEui64')).eui64);
+        if (current.equals(ieeeAddress)) {
+            return;
+        }
+
+        const address = `0x${ieeeAddress.toString("hex")}`;
+        if (!this.adapterOptions?.restoreCoordinatorIeeeAddress) {
+            this.logger?.warn(`Coordinator IEEE address differs from backup (${address}), not restoring it since ` +
+                `this can only be done once, enable 'restoreCoordinatorIeeeAddress' to write it to the adapter`);
+            return;
+        }
+
+        const token = await this.driver.ezsp.execCommand('getMfgToken', {tokenId: EzspMfgTokenId.MFG_CUSTOM_EUI_64});
+        if (Buffer.from(token.tokenData).every((b) => b === 0xFF)) {
+            this.logger?.warn(`Permanently writing coordinator IEEE address ${address} to the adapter`);
+            const status = (await this.driver.ezsp.execCommand('setMfgToken', {
+                tokenId: EzspMfgTokenId.MFG_CUSTOM_EUI_64, tokenData: Buffer.from(ieeeAddress).reverse(),
+            })).status;
+            console.assert(status == EmberStatus.SUCCESS, `Command setMfgToken returned unexpected state: ${status}`);
+        } else {
+            this.logger?.warn(`Custom IEEE address of the adapter is already written, cannot restore ${address}`);
+        }
+    }
+
+    /**
+     * Collects the devices from the key table and child table, devices not in the database are skipped.
+     */
+    private async getDevices(ieeeAddressesInDatabase: string[]): Promise<Models.Backup["devices"]> {
+        const devices: Models.Backup["devices"] = [];
+        const inDatabase = (ieee: Buffer): boolean => ieeeAddressesInDatabase.includes(`0x${ieee.toString("hex")}`);
+
+        const keyTableSize = await this.driver.ezsp.getConfigurationValue(EzspConfigId.CONFIG_KEY_TABLE_SIZE);
+        for (let index = 0; index < keyTableSize; index++) {
+            const result = await this.driver.ezsp.execCommand('getKeyTableEntry', {index});
+            if (result.status !== EmberStatus.SUCCESS) {
+                continue;
+            }
+
+            const keyStruct: EmberKeyStruct = result.keyStruct;
+            const ieeeAddress = Buffer.from(keyStruct.partnerEUI64);
+            if (inDatabase(ieeeAddress)) {
+                devices.push({
+                    networkAddress: UNKNOWN_NETWORK_ADDRESS,
+                    ieeeAddress,
+                    isDirectChild: false,
+                    linkKey: {
+                        key: Buffer.from(keyStruct.key.contents),
+                        rxCounter: keyStruct.incomingFrameCounter,
+                        txCounter: keyStruct.outgoingFrameCounter,
+                    },
+                });
+            }
+        }
+
+        const childTableSize = await this.driver.ezsp.getConfigurationValue(
+            EzspConfigId.CONFIG_MAX_END_DEVICE_CHILDREN
+        );
+        for (let index = 0; index < childTableSize; index++) {
+            const child = await this.driver.ezsp.execCommand('getChildData', {index});
+            if (child.status !== EmberStatus.SUCCESS) {
+                continue;
+            }
+
+            const ieeeAddress = Buffer.from(child.eui64);
+            const device = devices.find((d) => d.ieeeAddress.equals(ieeeAddress));
+            if (device) {
+                device.networkAddress = child.nodeId;
+                device.isDirectChild = true;
+            } else if (inDatabase(ieeeAddress)) {
+                devices.push({networkAddress: child.nodeId, ieeeAddress, isDirectChild: true});
+            }
+        }
+
+        return devices;
+    }
+}
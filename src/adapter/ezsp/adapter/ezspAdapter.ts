@@ -3,13 +3,13 @@
 import {
     NetworkOptions, SerialPortOptions, Coordinator, CoordinatorVersion, NodeDescriptor,
     DeviceType, ActiveEndpoints, SimpleDescriptor, LQI, RoutingTable, Backup as BackupType, NetworkParameters,
-    StartResult, LQINeighbor, RoutingTableEntry, AdapterOptions
+    StartResult, LQINeighbor, RoutingTableEntry, AdapterOptions, EnergyScanResult, AdapterCapabilities
 } from '../../tstype';
 import Debug from "debug";
 import Adapter from '../../adapter';
 
 const debug = Debug("zigbee-herdsman:adapter:ezsp:debg");
-import {Driver, EmberIncomingMessage} from '../driver';
+import {Driver, EmberIncomingMessage, Ezsp} from '../driver';
 import {EmberZDOCmd, EmberApsOption, uint16_t, EmberEUI64, EmberStatus, EmberKeyData} from '../driver/types';
 import {ZclFrame, FrameType, Direction, Foundation} from '../../../zcl';
 import * as Events from '../../events';
@@ -18,6 +18,7 @@ import * as Models from "../../../models";
 import SerialPortUtils from '../../serialPortUtils';
 import SocketPortUtils from '../../socketPortUtils';
 import {EZSPAdapterBackup} from './backup';
+import {LoggerStub} from '../../../controller/logger-stub';
 
 
 const autoDetectDefinitions = [
@@ -25,6 +26,22 @@ const autoDetectDefinitions = [
     { manufacturer: 'Nabu Casa', vendorId: '10c4', productId: 'ea60' },  // Home Assistant SkyConnect
 ];
 
+/**
+ * Time between broadcasting a new network key and switching to it, gives sleepy end devices the chance to poll
+ * their parent and receive the new key.
+ */
+const networkKeySwitchDelay = 10000;
+
+/**
+ * Devices switch to the new channel after the channel change request has been broadcasted through the network.
+ */
+const channelChangeDelay = 10000;
+
+/**
+ * Maps a RSSI (dBm) to the energy scale (0 - 255) of a Mgmt_NWK_Update_notify. Like IEEE 802.15.4 energy detection
+ * 0 is 10 dB above the receiver sensitivity (-85 dBm) and the range covers 40 dB.
+ */
+const rssiToEnergy = (rssi: number): number => Math.min(255, Math.max(0, Math.round((rssi + 75) * 255 / 40)));
 
 interface WaitressMatcher {
     address: number | string;
@@ -43,9 +60,9 @@ class EZSPAdapter extends Adapter {
     private queue: Queue;
 
 
-    public constructor(networkOptions: NetworkOptions,
-                       serialPortOptions: SerialPortOptions, backupPath: string, adapterOptions: AdapterOptions) {
-        super(networkOptions, serialPortOptions, backupPath, adapterOptions);
+    public constructor(networkOptions: NetworkOptions, serialPortOptions: SerialPortOptions, backupPath: string,
+                       adapterOptions: AdapterOptions, logger?: LoggerStub) {
+        super(networkOptions, serialPortOptions, backupPath, adapterOptions, logger);
         this.port = serialPortOptions;
         this.waitress = new Waitress<Events.ZclDataPayload, WaitressMatcher>(
             this.waitressValidator, this.waitressTimeoutFormatter
@@ -60,7 +77,7 @@ class EZSPAdapter extends Adapter {
         this.driver.on('deviceJoined', this.handleDeviceJoin.bind(this));
         this.driver.on('deviceLeft', this.handleDeviceLeft.bind(this));
         this.driver.on('incomingMessage', this.processMessage.bind(this));
-        this.backupMan = new EZSPAdapterBackup(this.driver, backupPath);
+        this.backupMan = new EZSPAdapterBackup(this.driver, backupPath, adapterOptions, logger);
     }
 
     private async processMessage(frame: EmberIncomingMessage) {
@@ -175,8 +192,9 @@ class EZSPAdapter extends Adapter {
             parity: 'none',
             stopBits: 1,
             xon: true,
-            xoff: true
-        }, this.networkOptions, this.greenPowerGroup);
+            xoff: true,
+            record: this.port.record,
+        }, this.networkOptions, this.greenPowerGroup, this.backupMan, this.adapterOptions?.preventReset);
     }
 
     public async stop(): Promise<void> {
@@ -203,6 +221,10 @@ class EZSPAdapter extends Adapter {
         return paths.length > 0 ? paths[0] : null;
     }
 
+    public static async probe(path: string): Promise<string> {
+        return new Ezsp().probe(path, {baudRate: 115200, rtscts: false});
+    }
+
     public async getCoordinator(): Promise<Coordinator> {
         return this.queue.execute<Coordinator>(async () => {
             this.checkInterpanLock();
@@ -269,6 +291,52 @@ class EZSPAdapter extends Adapter {
         await this.driver.addInstallCode(ieeeAddress, key);
     }
 
+    public async rotateNetworkKey(key: Buffer): Promise<void> {
+        return this.queue.execute<void>(async () => {
+            const networkKey = new EmberKeyData();
+            networkKey.contents = key;
+            const result = await this.driver.ezsp.execCommand('broadcastNextNetworkKey', {key: networkKey});
+            if (result.status !== EmberStatus.SUCCESS) {
+                throw new Error(`Broadcast of next network key failed with status ${result.status}`);
+            }
+            await Wait(networkKeySwitchDelay);
+            const switchResult = await this.driver.ezsp.execCommand('broadcastNetworkKeySwitch');
+            if (switchResult.status !== EmberStatus.SUCCESS) {
+                throw new Error(`Network key switch failed with status ${switchResult.status}`);
+            }
+        });
+    }
+
+    public async changeChannel(channel: number): Promise<void> {
+        return this.queue.execute<void>(async () => {
+            await this.driver.changeChannel(channel, channelChangeDelay);
+        });
+    }
+
+    public async scanChannels(
+        networkAddress: number, channels: number[], duration: number,
+    ): Promise<EnergyScanResult[]> {
+        return this.queue.execute<EnergyScanResult[]>(async () => {
+            const channelMask = channels.reduce((mask, channel) => mask | (1 << channel), 0);
+            if (networkAddress === 0) {
+                // A channel is scanned for (2^duration + 1) superframes of 15.36 ms
+                const timeout = channels.length * (2 ** duration + 1) * 15.36 + 10000;
+                const results = await this.driver.ezsp.energyScan(channelMask, duration, timeout);
+                return results.map((r) => ({channel: r.channel, energy: rssiToEnergy(r.maxRssiValue)}));
+            }
+
+            const result = await this.driver.zdoRequest(
+                networkAddress, EmberZDOCmd.Mgmt_NWK_Update_req, EmberZDOCmd.Mgmt_NWK_Update_rsp,
+                {scanChannels: channelMask, scanDuration: duration, scanCount: 1}
+            );
+            if (result.status !== EmberStatus.SUCCESS) {
+                throw new Error(`Energy scan for '${networkAddress}' failed`);
+            }
+            const scanned = channels.filter((c) => result.scannedChannels & (1 << c)).sort((a, b) => a - b);
+            return scanned.map((channel, index) => ({channel, energy: result.energyValues[index]}));
+        }, networkAddress);
+    }
+
     public async reset(type: 'soft' | 'hard'): Promise<void> {
         return Promise.reject(new Error("Not supported"));
     }
@@ -603,10 +671,13 @@ class EZSPAdapter extends Adapter {
     }
 
     public async getNetworkParameters(): Promise<NetworkParameters> {
+        // EmberZNet stores the extended PAN ID in over the air (little endian) byte order
+        const extendedPanID = Buffer.from(this.driver.networkParams.extendedPanId).reverse().toString('hex');
         return {
             panID: this.driver.networkParams.panId,
-            extendedPanID: this.driver.networkParams.extendedPanId[0],
-            channel: this.driver.networkParams.radioChannel
+            extendedPanID: `0x${extendedPanID}`,
+            channel: this.driver.networkParams.radioChannel,
+            networkUpdateID: this.driver.networkParams.nwkUpdateId,
         };
     }
 
@@ -614,8 +685,24 @@ class EZSPAdapter extends Adapter {
         return true;
     }
 
-    public async backup(): Promise<Models.Backup> {
-        return this.backupMan.createBackup();
+    public async getCapabilities(): Promise<AdapterCapabilities> {
+        return {
+            backup: true,
+            restore: true,
+            installCodes: true,
+            interPAN: true,
+            routingTable: true,
+            reset: [],
+            transmitPower: true,
+            channelChange: true,
+            networkKeyRotation: true,
+            energyScan: true,
+            sourceRouting: true,
+        };
+    }
+
+    public async backup(ieeeAddressesInDatabase: string[]): Promise<Models.Backup> {
+        return this.backupMan.createBackup(ieeeAddressesInDatabase);
     }
 
     public async restoreChannelInterPAN(): Promise<void> {
@@ -2372,6 +2372,18 @@ export const ZDOREQUESTS: {[key: string]: EZSPFrameDesc} = {
             status: EmberStatus
         },
     },
+    mgmtNwkUpdateReq: {
+        ID: 0x0038,
+        request: {
+            transId: uint8_t,
+            scanChannels: uint32_t,
+            scanDuration: uint8_t,
+            scanCount: uint8_t
+        },
+        response: {
+            status: EmberStatus
+        },
+    },
 };
 
 export const ZDORESPONSES: {[key: string]: EZSPZDOResponseFrame} = {
@@ -2450,6 +2462,17 @@ export const ZDORESPONSES: {[key: string]: EZSPZDOResponseFrame} = {
             status: EmberStatus
         }
     },
+    mgmtNwkUpdateNotify: {
+        ID: 0x8038,
+        params: {
+            transId: uint8_t,
+            status: EmberStatus,
+            scannedChannels: uint32_t,
+            totalTransmissions: uint16_t,
+            transmissionFailures: uint16_t,
+            energyValues: LVBytes
+        }
+    },
 };
 
 
@@ -23,6 +23,7 @@ import {Waitress, Wait} from '../../../utils';
 import Debug from "debug";
 import equals from 'fast-deep-equal/es6';
 import {ParamsDesc} from './commands';
+import {EZSPAdapterBackup} from '../adapter/backup';
 
 const debug = {
     error: Debug('zigbee-herdsman:adapter:ezsp:erro'),
@@ -77,7 +78,9 @@ export class Driver extends EventEmitter {
     private direct = EmberOutgoingMessageType.OUTGOING_DIRECT;
     public ezsp: Ezsp;
     private nwkOpt: TsType.NetworkOptions;
+    private backupMan: EZSPAdapterBackup;
     private greenPowerGroup: number;
+    private preventReset: boolean;
     public networkParams: EmberNetworkParameters;
     public version: {
         product: number; majorrel: string; minorrel: string; maintrel: string; revision: string;
@@ -108,7 +111,9 @@ export class Driver extends EventEmitter {
             try {
                 await this.stop();
                 await Wait(1000);
-                await this.startup(this.port, this.serialOpt, this.nwkOpt, this.greenPowerGroup);
+                await this.startup(
+                    this.port, this.serialOpt, this.nwkOpt, this.greenPowerGroup, this.backupMan, this.preventReset
+                );
                 break;
             } catch (e) {
                 debug.error(`Reset error ${e.stack}`);
@@ -124,12 +129,14 @@ export class Driver extends EventEmitter {
 
     /* eslint-disable-next-line @typescript-eslint/no-explicit-any*/
     public async startup(port: string, serialOpt: Record<string, any>, nwkOpt: TsType.NetworkOptions, 
-        greenPowerGroup: number): Promise<TsType.StartResult> {
+        greenPowerGroup: number, backupMan?: EZSPAdapterBackup, preventReset?: boolean): Promise<TsType.StartResult> {
         let result: TsType.StartResult = 'resumed';
         this.nwkOpt = nwkOpt;
+        this.preventReset = preventReset;
         this.port = port;
         this.serialOpt = serialOpt;
         this.greenPowerGroup = greenPowerGroup;
+        this.backupMan = backupMan;
         this.transactionID = 1;
         this.ezsp = undefined;
         this.ezsp = new Ezsp();
@@ -188,15 +195,26 @@ export class Driver extends EventEmitter {
         };
 
         if (await this.needsToBeInitialised(nwkOpt)) {
-            const res = await this.ezsp.execCommand('networkState');
-            debug.log(`Network state ${res.status}`);
-            if (res.status == EmberNetworkStatus.JOINED_NETWORK) {
-                debug.log(`Leaving current network and forming new network`);
-                const st = await this.ezsp.leaveNetwork();
-                console.assert(st == EmberStatus.NETWORK_DOWN, `leaveNetwork returned unexpected status: ${st}`);
+            const backup = await this.backupMan?.getStoredBackup();
+            if (backup && EZSPAdapterBackup.matchesNetworkOptions(backup, nwkOpt)) {
+                /* leaves the current network itself after validating the backup */
+                debug.log(`Restoring network from backup`);
+                await this.backupMan.restoreBackup(backup);
+                result = 'restored';
+            } else {
+                if (this.preventReset) {
+                    throw new Error('Adapter is not on the configured network and reset is prevented');
+                }
+                const res = await this.ezsp.execCommand('networkState');
+                debug.log(`Network state ${res.status}`);
+                if (res.status == EmberNetworkStatus.JOINED_NETWORK) {
+                    debug.log(`Leaving current network and forming new network`);
+                    const st = await this.ezsp.leaveNetwork();
+                    console.assert(st == EmberStatus.NETWORK_DOWN, `leaveNetwork returned unexpected status: ${st}`);
+                }
+                await this.form_network();
+                result = 'reset';
             }
-            await this.form_network();
-            result = 'reset';
         }
         const state = (await this.ezsp.execCommand('networkState')).status;
         debug.log(`Network state ${state}`);
@@ -238,7 +256,9 @@ export class Driver extends EventEmitter {
         valid = valid && (netParams.nodeType == EmberNodeType.COORDINATOR);
         valid = valid && (options.panID == networkParams.panId);
         valid = valid && (options.channelList.includes(networkParams.radioChannel));
-        valid = valid && (equals(options.extendedPanID, networkParams.extendedPanId));
+        /* networks restored from a Z-Stack backup use the extended PAN ID in reversed order */
+        valid = valid && (equals(options.extendedPanID, networkParams.extendedPanId) ||
+            equals([...options.extendedPanID].reverse(), networkParams.extendedPanId));
         return !valid;
     }
 
@@ -674,6 +694,26 @@ export class Driver extends EventEmitter {
         return this.ezsp.execCommand('setLogicalAndRadioChannel', {radioChannel: channel});
     }
     
+    /**
+     * Broadcasts a channel change request (Mgmt_NWK_Update_req), the stack increments the network update ID and
+     * moves along with the network.
+     */
+    public async changeChannel(channel: number, delay: number): Promise<void> {
+        const result = await this.ezsp.execCommand('energyScanRequest', {
+            target: 0xFFFD, scanChannels: 1 << channel, scanDuration: 0xFE, scanCount: 0
+        });
+        if (result.status !== EmberStatus.SUCCESS) {
+            throw new Error(`Channel change request failed with status ${result.status}`);
+        }
+        await Wait(delay);
+
+        const netParams = await this.ezsp.execCommand('getNetworkParameters');
+        if (netParams.parameters.radioChannel !== channel) {
+            throw new Error(`Channel change failed, adapter is still on channel ${netParams.parameters.radioChannel}`);
+        }
+        this.networkParams = netParams.parameters;
+    }
+
     public addTransientLinkKey(partner: EmberEUI64, transientKey: EmberKeyData): Promise<EZSPFrameData> {
         return this.ezsp.execCommand('addTransientLinkKey', {partner, transientKey});
     }
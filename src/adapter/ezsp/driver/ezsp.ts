@@ -13,7 +13,8 @@ import {
     EzspDecisionBitmask,
     EmberConcentratorType,
     EzspConfigId,
-    EmberZdoConfigurationFlags
+    EmberZdoConfigurationFlags,
+    EzspNetworkScanType
 } from './types/named';
 import {EventEmitter} from 'events';
 import {EmberApsFrame, EmberNetworkParameters} from './types/struct';
@@ -262,7 +263,7 @@ export class Ezsp extends EventEmitter {
         this.serialDriver.on('reset', this.resetHandler.bind(this));
     }
 
-    public async connect(path: string, options: Record<string, number|boolean>): Promise<void> {
+    public async connect(path: string, options: Record<string, number|boolean|string>): Promise<void> {
         for (let i = 1; i < 5; i += 1) {
             try {
                 await this.serialDriver.connect(path, options);
@@ -354,6 +355,37 @@ export class Ezsp extends EventEmitter {
         return result.protocolVersion;
     }
 
+    /**
+     * Connects without retrying and reads the stack version, used to identify EZSP adapters.
+     */
+    public async probe(path: string, options: Record<string, number|boolean|string>): Promise<string> {
+        try {
+            await this.serialDriver.connect(path, options);
+            const protocolVersion = await this.version();
+            const info = await this.getValue(t.EzspValueId.VALUE_VERSION_INFO);
+            return `${info[2]}.${info[3]}.${info[4]}.${info[5]} build ${info.readUInt16LE(0)} ` +
+                `(EZSP v${protocolVersion})`;
+        } finally {
+            await this.serialDriver.close();
+        }
+    }
+
+    /**
+     * Restarts the adapter into the standalone (Gecko) bootloader to upload new firmware.
+     */
+    public async launchBootloader(path: string, options: Record<string, number|boolean|string>): Promise<void> {
+        try {
+            await this.serialDriver.connect(path, options);
+            await this.version();
+            const result = await this.execCommand('launchStandaloneBootloader', {mode: 1});
+            if (result.status !== EmberStatus.SUCCESS) {
+                throw new Error(`Failed to launch bootloader (${EmberStatus.valueToName(EmberStatus, result.status)})`);
+            }
+        } finally {
+            await this.serialDriver.close();
+        }
+    }
+
     async networkInit(): Promise<boolean> {
         const waiter = this.waitFor("stackStatusHandler", null).start();
 
@@ -388,6 +420,39 @@ export class Ezsp extends EventEmitter {
         return response.payload.status;
     }
 
+    /**
+     * Energy scan with the coordinator itself, returns the maximum RSSI (dBm) measured per channel.
+     */
+    async energyScan(channelMask: number, duration: number, timeout: number)
+        : Promise<{channel: number; maxRssiValue: number}[]> {
+        const results: {channel: number; maxRssiValue: number}[] = [];
+        const listener = (frameName: string, frame: EZSPFrameData): void => {
+            if (frameName === 'energyScanResultHandler') {
+                results.push({channel: frame.channel, maxRssiValue: frame.maxRssiValue});
+            }
+        };
+        this.on('frame', listener);
+
+        try {
+            const waiter = this.waitFor("scanCompleteHandler", null, timeout).start();
+            const result = await this.execCommand("startScan",
+                {scanType: EzspNetworkScanType.ENERGY_SCAN, channelMask, duration});
+            if ((result.status !== EmberStatus.SUCCESS)) {
+                this.waitress.remove(waiter.ID);
+                throw new Error(("Failure to start energy scan: " + JSON.stringify(result)));
+            }
+
+            const response = await waiter.promise;
+            if ((response.payload.status !== EmberStatus.SUCCESS)) {
+                throw new Error(("Energy scan failed: " + JSON.stringify(response.payload)));
+            }
+        } finally {
+            this.removeListener('frame', listener);
+        }
+
+        return results;
+    }
+
     async setConfigurationValue(configId: number, value: number): Promise<void> {
         debug.log('Set %s = %s', EzspConfigId.valueToName(EzspConfigId, configId), value);
         const ret = await this.execCommand('setConfigurationValue', {configId: configId, value: value});
@@ -363,9 +363,12 @@ export class EmberCurrentSecurityState extends EzspStruct {
 }
 
 export class EmberKeyStruct extends EzspStruct {
+    public bitmask: number;
     public key: EmberKeyData;
     public outgoingFrameCounter: number;
+    public incomingFrameCounter: number;
     public sequenceNumber: number;
+    public partnerEUI64: Buffer;
     // A structure containing a key and its associated data.
     static _fields = [
         // A bitmask indicating the presence of data within the various fields
@@ -3,6 +3,7 @@ import {EventEmitter} from 'events';
 import net from 'net';
 import {SerialPort} from '../../serialPort';
 import SocketPortUtils from '../../socketPortUtils';
+import SerialSession from '../../serialSession';
 import {crc16ccitt} from './utils';
 import {Queue, Waitress, Wait} from '../../../utils';
 import * as consts from './consts';
@@ -55,16 +56,16 @@ export class SerialDriver extends EventEmitter {
             this.waitressValidator, this.waitressTimeoutFormatter);
     }
 
-    async connect(path: string, options: Record<string, number|boolean>): Promise<void> {
+    async connect(path: string, options: Record<string, number|boolean|string>): Promise<void> {
         this.portType = SocketPortUtils.isTcpPath(path) ? 'socket' : 'serial';
         if (this.portType === 'serial') {
             await this.openSerialPort(path, options);
         } else {
-            await this.openSocketPort(path);
+            await this.openSocketPort(path, options.record as string);
         }
     }
 
-    private async openSerialPort(path: string, opt: Record<string, number|boolean>): Promise<void> {
+    private async openSerialPort(path: string, opt: Record<string, number|boolean|string>): Promise<void> {
         const options = {
             path,
             baudRate: typeof opt.baudRate === 'number' ? opt.baudRate : 115200, 
@@ -74,6 +75,7 @@ export class SerialDriver extends EventEmitter {
 
         debug(`Opening SerialPort with ${JSON.stringify(options)}`);
         this.serialPort = new SerialPort(options);
+        SerialSession.record(this.serialPort, opt.record as string);
 
         this.writer = new Writer();
         // eslint-disable-next-line @typescript-eslint/ban-ts-comment
@@ -99,7 +101,13 @@ export class SerialDriver extends EventEmitter {
                         debug(`Serialport error: ${error}`);
                     });
                     // reset
-                    await this.reset();
+                    try {
+                        await this.reset();
+                    } catch (error) {
+                        this.serialPort.close();
+                        reject(error);
+                        return;
+                    }
                     this.initialized = true;
                     this.emit('connected');
                     resolve();
@@ -108,13 +116,14 @@ export class SerialDriver extends EventEmitter {
         });
     }
 
-    private async openSocketPort(path: string): Promise<void> {
+    private async openSocketPort(path: string, record: string): Promise<void> {
         const info = SocketPortUtils.parseTcpPath(path);
         debug(`Opening TCP socket with ${info.host}:${info.port}`);
 
-        this.socketPort = new net.Socket();
+        this.socketPort = SocketPortUtils.createSocket(path);
         this.socketPort.setNoDelay(true);
         this.socketPort.setKeepAlive(true, 15000);
+        SerialSession.record(this.socketPort, record);
 
         this.writer = new Writer();
         this.writer.pipe(this.socketPort);
@@ -133,7 +142,13 @@ export class SerialDriver extends EventEmitter {
             this.socketPort.on('ready', async (): Promise<void> => {
                 debug('Socket ready');
                 // reset
-                await this.reset();
+                try {
+                    await this.reset();
+                } catch (error) {
+                    this.socketPort.destroy();
+                    reject(error);
+                    return;
+                }
                 self.initialized = true;
                 this.emit('connected');
                 resolve();
@@ -147,7 +162,7 @@ export class SerialDriver extends EventEmitter {
                 reject(new Error(`Error while opening socket`));
             });
 
-            this.socketPort.connect(info.port, info.host);
+            SocketPortUtils.connect(this.socketPort, path);
         });
     }
 
@@ -295,7 +310,10 @@ export class SerialDriver extends EventEmitter {
             debug(`-?- waiting reset`);
             return waiter.promise.catch(async (e) => {
                 debug(`--> Error: ${e}`);
-                this.emit('reset');
+                // A failed reset while connecting is reported by connect() itself
+                if (this.initialized) {
+                    this.emit('reset');
+                }
                 throw new Error(`Reset error: ${e}`);
             }).then(()=>{
                 debug(`-+- waiting reset success`);
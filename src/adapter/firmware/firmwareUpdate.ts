@@ -0,0 +1,96 @@
+import events from 'events';
+import Debug from "debug";
+import * as TsType from '../tstype';
+import Adapter from '../adapter';
+import {Wait} from '../../utils';
+import Transport from './transport';
+import {TiBsl, parseIntelHex} from './tiBsl';
+import {GeckoBootloader, validateGbl} from './gecko';
+
+const debug = Debug("zigbee-herdsman:adapter:firmware");
+
+const DEFAULT_BAUD_RATE = 115200;
+
+/**
+ * Time for the new firmware to boot before the adapter is probed.
+ */
+const RESTART_DELAY = 1000;
+
+/**
+ * Time for an EZSP adapter to restart into the bootloader.
+ */
+const BOOTLOADER_MENU_TIMEOUT = 5000;
+
+/**
+ * Flashes coordinator firmware over the same serial port or socket the adapter uses. Emits `progress` while
+ * writing, afterwards the port is probed again so the result tells which adapter Adapter.create should use.
+ * Flashing a Z-Stack adapter erases its whole flash including the NV, the adapter loses its network unless
+ * `keepNv` is set or the network is restored from the coordinator backup on the next start.
+ */
+class FirmwareUpdate extends events.EventEmitter {
+    private options: TsType.FirmwareUpdateOptions;
+
+    public constructor(options: TsType.FirmwareUpdateOptions) {
+        super();
+        this.options = options;
+    }
+
+    public async flash(image: Buffer): Promise<TsType.ProbeResult> {
+        const {path, adapter} = this.options;
+        const transport = new Transport(path, this.options.baudRate ?? DEFAULT_BAUD_RATE);
+        const onProgress = (written: number, total: number): void => {
+            const progress: TsType.FirmwareUpdateProgress = {written, total};
+            this.emit('progress', progress);
+        };
+
+        debug(`Flashing ${image.length} bytes of '${adapter}' firmware to '${path}'`);
+        if (adapter === 'zstack') {
+            // Intel HEX files start with a record mark, everything else is a binary flash image
+            const flashImage = image[0] === ':'.charCodeAt(0) ? parseIntelHex(image.toString()) : image;
+            await transport.open();
+            try {
+                await new TiBsl(transport).flash(flashImage, onProgress, this.options.keepNv);
+            } finally {
+                await transport.close();
+            }
+        } else if (adapter === 'ezsp') {
+            validateGbl(image);
+            const bootloader = new GeckoBootloader(transport);
+            await transport.open();
+            try {
+                await this.enterGeckoBootloader(transport, bootloader);
+                await bootloader.upload(image, onProgress);
+                await bootloader.run();
+            } finally {
+                await transport.close();
+            }
+        } else {
+            throw new Error(`Firmware update is not supported for adapter '${adapter}'`);
+        }
+
+        debug(`Firmware flashed, probing '${path}'`);
+        await Wait(RESTART_DELAY);
+        const [result] = await Adapter.probeAdapters([path]);
+        return result ?? null;
+    }
+
+    /**
+     * Adapters running EZSP firmware are restarted into the bootloader, unless the bootloader is already running.
+     */
+    private async enterGeckoBootloader(transport: Transport, bootloader: GeckoBootloader): Promise<void> {
+        try {
+            await bootloader.waitForMenu();
+        } catch (error) {
+            debug(`Bootloader menu not shown (${error.message}), launching bootloader with EZSP`);
+            await transport.close();
+            const {Ezsp} = await import('../ezsp/driver');
+            await new Ezsp().launchBootloader(this.options.path, {
+                baudRate: this.options.baudRate ?? DEFAULT_BAUD_RATE, rtscts: false,
+            });
+            await transport.open();
+            await bootloader.waitForMenu(BOOTLOADER_MENU_TIMEOUT);
+        }
+    }
+}
+
+export default FirmwareUpdate;
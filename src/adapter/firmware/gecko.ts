@@ -0,0 +1,119 @@
+import Debug from "debug";
+import {crc16ccitt} from '../ezsp/driver/utils';
+import Transport from './transport';
+
+const debug = Debug("zigbee-herdsman:adapter:firmware:gecko");
+
+const XMODEM = {SOH: 0x01, EOT: 0x04, ACK: 0x06, NAK: 0x15, CAN: 0x18, CRC_MODE: 'C'};
+
+const BLOCK_SIZE = 128;
+const BLOCK_RETRIES = 10;
+
+const MENU_PROMPT = 'BL >';
+const MENU = {upload: '1', run: '2'};
+
+const GBL_TAG = {header: 0x03A617EB, end: 0xFC0404FC};
+
+const TIMEOUT = {menu: 2000, block: 2000, upload: 10000};
+
+/**
+ * Checks the GBL container, it has to start with the header tag and end with the end tag. The tags in between
+ * (application, signatures, encryption) are verified by the bootloader itself.
+ */
+function validateGbl(image: Buffer): void {
+    if (image.length < 8 || image.readUInt32LE(0) !== GBL_TAG.header) {
+        throw new Error(`Image is not a GBL file, header tag is missing`);
+    }
+
+    let offset = 0;
+    while (offset + 8 <= image.length) {
+        const tag = image.readUInt32LE(offset);
+        offset += 8 + image.readUInt32LE(offset + 4);
+        if (tag === GBL_TAG.end) {
+            if (offset !== image.length) {
+                throw new Error(`GBL image has ${image.length - offset} bytes after the end tag`);
+            }
+
+            return;
+        }
+    }
+
+    throw new Error(`GBL image is truncated, end tag is missing`);
+}
+
+/**
+ * Silicon Labs Gecko bootloader as used by EZSP adapters, the image is uploaded through the bootloader menu with
+ * XMODEM-CRC.
+ */
+class GeckoBootloader {
+    private transport: Transport;
+
+    public constructor(transport: Transport) {
+        this.transport = transport;
+    }
+
+    /**
+     * Resolves once the bootloader menu is shown, throws when the adapter is not in the bootloader.
+     */
+    public async waitForMenu(timeout = TIMEOUT.menu): Promise<void> {
+        this.transport.discard();
+        await this.transport.write(Buffer.from('\n'));
+        const menu = await this.transport.readUntil(MENU_PROMPT, timeout);
+        debug(`Bootloader menu '${menu.toString().trim()}'`);
+    }
+
+    public async upload(image: Buffer, onProgress: (written: number, total: number) => void): Promise<void> {
+        await this.transport.write(Buffer.from(MENU.upload));
+        await this.transport.readUntil('begin upload', TIMEOUT.menu);
+        await this.transport.readUntil(XMODEM.CRC_MODE, TIMEOUT.upload);
+
+        const blocks = Math.ceil(image.length / BLOCK_SIZE);
+        for (let block = 0; block < blocks; block++) {
+            const data = Buffer.alloc(BLOCK_SIZE, 0xFF);
+            image.copy(data, 0, block * BLOCK_SIZE);
+            await this.sendBlock((block + 1) & 0xFF, data);
+            onProgress(Math.min((block + 1) * BLOCK_SIZE, image.length), image.length);
+        }
+
+        await this.transport.write(Buffer.from([XMODEM.EOT]));
+        await this.waitForAck('EOT');
+        const result = await this.transport.readUntil(MENU_PROMPT, TIMEOUT.upload);
+        if (!result.includes('complete')) {
+            throw new Error(`Upload failed '${result.toString().trim()}'`);
+        }
+    }
+
+    public async run(): Promise<void> {
+        await this.transport.write(Buffer.from(MENU.run));
+    }
+
+    private async sendBlock(number: number, data: Buffer): Promise<void> {
+        const crc = Buffer.alloc(2);
+        crc.writeUInt16BE(crc16ccitt(data, 0));
+        const packet = Buffer.concat([Buffer.from([XMODEM.SOH, number, 0xFF - number]), data, crc]);
+        for (let attempt = 1; ; attempt++) {
+            await this.transport.write(packet);
+            try {
+                await this.waitForAck(`block ${number}`);
+                return;
+            } catch (error) {
+                if (attempt === BLOCK_RETRIES || error.message.includes('cancelled')) {
+                    throw error;
+                }
+
+                debug(`Retrying block ${number} (${error.message})`);
+            }
+        }
+    }
+
+    private async waitForAck(description: string): Promise<void> {
+        const [response] = await this.transport.read(1, TIMEOUT.block);
+        if (response === XMODEM.CAN) {
+            throw new Error(`Bootloader cancelled the upload at ${description}`);
+        } else if (response !== XMODEM.ACK) {
+            throw new Error(`Bootloader did not acknowledge ${description} (0x${response.toString(16)})`);
+        }
+    }
+}
+
+export {GeckoBootloader, validateGbl};
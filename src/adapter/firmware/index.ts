@@ -0,0 +1,3 @@
+import FirmwareUpdate from './firmwareUpdate';
+
+export {FirmwareUpdate};
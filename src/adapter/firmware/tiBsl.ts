@@ -0,0 +1,308 @@
+import Debug from "debug";
+import {Wait} from '../../utils';
+import Transport from './transport';
+
+const debug = Debug("zigbee-herdsman:adapter:firmware:tiBsl");
+
+const ACK = Buffer.from([0x00, 0xCC]);
+const NACK = Buffer.from([0x00, 0x33]);
+
+const COMMAND = {
+    download: 0x21,
+    getStatus: 0x23,
+    sendData: 0x24,
+    reset: 0x25,
+    crc32: 0x27,
+    getChipId: 0x28,
+    sectorErase: 0x26,
+    memoryRead: 0x2A,
+    bankErase: 0x2C,
+};
+
+const STATUS_SUCCESS = 0x40;
+
+/**
+ * Largest payload of a SEND_DATA command, the packet length including header has to fit in one byte.
+ */
+const CHUNK_SIZE = 248;
+
+const FLASH_SIZE_REGISTER = 0x4003002C;
+const FLASH_SECTOR_SIZE = 0x2000;
+
+/**
+ * The customer configuration (CCFG) occupies the end of the flash, its BL_CONFIG word enables the serial bootloader.
+ */
+const CCFG_BL_CONFIG_OFFSET = 0x30;
+const BOOTLOADER_ENABLED = 0xC5;
+
+const TIMEOUT = {default: 1000, erase: 10000};
+
+interface FlashRange {
+    address: number;
+    size: number;
+}
+
+/**
+ * Converts an Intel HEX file into a flash image starting at address 0, gaps are filled with 0xFF.
+ */
+function parseIntelHex(text: string): Buffer {
+    const chunks: {address: number; data: Buffer}[] = [];
+    let base = 0;
+    for (const line of text.split(/\r?\n/).filter((l) => l.trim().length > 0)) {
+        const record = Buffer.from(line.trim().substring(1), 'hex');
+        if (!line.startsWith(':') || record.length < 5 || record.length !== record[0] + 5) {
+            throw new Error(`Invalid Intel HEX record '${line.trim()}'`);
+        }
+
+        if (record.reduce((sum, byte) => sum + byte, 0) & 0xFF) {
+            throw new Error(`Invalid checksum in Intel HEX record '${line.trim()}'`);
+        }
+
+        const type = record[3];
+        const data = record.slice(4, 4 + record[0]);
+        if (type === 0x00) {
+            chunks.push({address: base + record.readUInt16BE(1), data});
+        } else if (type === 0x02) {
+            base = data.readUInt16BE(0) << 4;
+        } else if (type === 0x04) {
+            base = data.readUInt16BE(0) * 0x10000;
+        }
+        // End of file and start address records have no meaning for the flash image
+    }
+
+    const size = Math.max(0, ...chunks.map((c) => c.address + c.data.length));
+    const image = Buffer.alloc(size, 0xFF);
+    chunks.forEach((c) => c.data.copy(image, c.address));
+    return image;
+}
+
+function crc32(data: Buffer): number {
+    let crc = 0xFFFFFFFF;
+    for (const byte of data) {
+        crc ^= byte;
+        for (let i = 0; i < 8; i++) {
+            crc = (crc & 1) ? (crc >>> 1) ^ 0xEDB88320 : crc >>> 1;
+        }
+    }
+
+    return (crc ^ 0xFFFFFFFF) >>> 0;
+}
+
+/**
+ * TI ROM serial bootloader of the CC13xx/CC26xx family, as used by CC2652 and CC1352 based Z-Stack adapters.
+ */
+class TiBsl {
+    private transport: Transport;
+
+    public constructor(transport: Transport) {
+        this.transport = transport;
+    }
+
+    /**
+     * Resets the chip into the bootloader with the bootloader pin on DTR and the reset pin on RTS, which is how
+     * most CC2652 USB sticks are wired. This only works over a serial port, otherwise the adapter has to be put in
+     * the bootloader by hand.
+     */
+    public async enter(): Promise<void> {
+        if (this.transport.isSocket()) {
+            return;
+        }
+
+        await this.transport.setSignals({dtr: true, rts: false});
+        await this.transport.setSignals({dtr: true, rts: true});
+        await this.transport.setSignals({dtr: true, rts: false});
+        await Wait(2);
+        await this.transport.setSignals({dtr: false, rts: false});
+        await Wait(2);
+    }
+
+    public async sync(): Promise<void> {
+        this.transport.discard();
+        await this.transport.write(Buffer.from([0x55, 0x55]));
+        await this.waitForAck('sync');
+    }
+
+    public async getChipId(): Promise<number> {
+        await this.command(COMMAND.getChipId);
+        const data = await this.receivePacket();
+        await this.checkStatus('getChipId');
+        return data.readUInt32BE(0);
+    }
+
+    public async getFlashSize(): Promise<number> {
+        const data = Buffer.alloc(6);
+        data.writeUInt32BE(FLASH_SIZE_REGISTER, 0);
+        // 32 bit access, one word
+        data.writeUInt8(1, 4);
+        data.writeUInt8(1, 5);
+        await this.command(COMMAND.memoryRead, data);
+        const value = await this.receivePacket();
+        await this.checkStatus('memoryRead');
+        return (value.readUInt32LE(0) & 0xFF) * FLASH_SECTOR_SIZE;
+    }
+
+    public async bankErase(): Promise<void> {
+        await this.command(COMMAND.bankErase, Buffer.alloc(0), TIMEOUT.erase);
+        await this.checkStatus('bankErase');
+    }
+
+    public async sectorErase(address: number): Promise<void> {
+        const data = Buffer.alloc(4);
+        data.writeUInt32BE(address, 0);
+        await this.command(COMMAND.sectorErase, data, TIMEOUT.erase);
+        await this.checkStatus('sectorErase');
+    }
+
+    public async download(address: number, size: number): Promise<void> {
+        const data = Buffer.alloc(8);
+        data.writeUInt32BE(address, 0);
+        data.writeUInt32BE(size, 4);
+        await this.command(COMMAND.download, data);
+        await this.checkStatus('download');
+    }
+
+    public async sendData(data: Buffer): Promise<void> {
+        await this.command(COMMAND.sendData, data);
+        await this.checkStatus('sendData');
+    }
+
+    public async crc32(address: number, size: number): Promise<number> {
+        const data = Buffer.alloc(12);
+        data.writeUInt32BE(address, 0);
+        data.writeUInt32BE(size, 4);
+        await this.command(COMMAND.crc32, data, TIMEOUT.erase);
+        const value = await this.receivePacket();
+        await this.checkStatus('crc32');
+        return value.readUInt32BE(0);
+    }
+
+    public async reset(): Promise<void> {
+        await this.command(COMMAND.reset);
+    }
+
+    /**
+     * Erases the flash and writes the image, the image has to cover the whole flash including the CCFG. This wipes
+     * the NV of the firmware as well, unless `keepNv` is set: then only the sectors which the image programs are
+     * erased and written, the sectors left blank by the image (where Z-Stack keeps its NV) are not touched.
+     */
+    public async flash(
+        image: Buffer, onProgress: (written: number, total: number) => void, keepNv = false,
+    ): Promise<void> {
+        await this.enter();
+        await this.sync();
+        debug(`Chip ID 0x${(await this.getChipId()).toString(16)}`);
+        validateImage(image, await this.getFlashSize());
+
+        const ranges = flashRanges(image, keepNv);
+        if (keepNv) {
+            debug(`Erasing the programmed sectors, keeping the NV`);
+            for (const range of ranges) {
+                for (let address = range.address; address < range.address + range.size; address += FLASH_SECTOR_SIZE) {
+                    await this.sectorErase(address);
+                }
+            }
+        } else {
+            debug(`Erasing flash`);
+            await this.bankErase();
+        }
+
+        const total = ranges.reduce((sum, range) => sum + range.size, 0);
+        let written = 0;
+        for (const {address, size} of ranges) {
+            const data = image.slice(address, address + size);
+            await this.download(address, size);
+            for (let offset = 0; offset < size; offset += CHUNK_SIZE) {
+                const chunk = data.slice(offset, offset + CHUNK_SIZE);
+                await this.sendData(chunk);
+                written += chunk.length;
+                onProgress(written, total);
+            }
+
+            const crc = await this.crc32(address, size);
+            if (crc !== crc32(data)) {
+                throw new Error(`Verification failed, flash CRC 0x${crc.toString(16)} does not match image`);
+            }
+        }
+
+        debug(`Flash verified, resetting`);
+        await this.reset();
+    }
+
+    private async command(command: number, data = Buffer.alloc(0), timeout = TIMEOUT.default): Promise<void> {
+        const checksum = data.reduce((sum, byte) => sum + byte, command) & 0xFF;
+        await this.transport.write(Buffer.concat([Buffer.from([data.length + 3, checksum, command]), data]));
+        await this.waitForAck(`command 0x${command.toString(16)}`, timeout);
+    }
+
+    private async waitForAck(description: string, timeout = TIMEOUT.default): Promise<void> {
+        const response = await this.transport.read(2, timeout);
+        if (response.equals(NACK)) {
+            throw new Error(`Bootloader did not acknowledge ${description}`);
+        } else if (!response.equals(ACK)) {
+            throw new Error(`Unexpected response '${response.toString('hex')}' to ${description}`);
+        }
+    }
+
+    private async receivePacket(): Promise<Buffer> {
+        const [size, checksum] = await this.transport.read(2, TIMEOUT.default);
+        const data = await this.transport.read(size - 2, TIMEOUT.default);
+        if ((data.reduce((sum, byte) => sum + byte, 0) & 0xFF) !== checksum) {
+            await this.transport.write(NACK);
+            throw new Error(`Invalid checksum in packet '${data.toString('hex')}'`);
+        }
+
+        await this.transport.write(ACK);
+        return data;
+    }
+
+    private async checkStatus(description: string): Promise<void> {
+        await this.command(COMMAND.getStatus);
+        const [status] = await this.receivePacket();
+        if (status !== STATUS_SUCCESS) {
+            throw new Error(`${description} failed with status 0x${status.toString(16)}`);
+        }
+    }
+}
+
+/**
+ * Ranges of the image to write, the whole image or when keeping the NV the contiguous runs of sectors which the
+ * image doesn't leave blank (0xFF).
+ */
+function flashRanges(image: Buffer, keepNv: boolean): FlashRange[] {
+    if (!keepNv) {
+        return [{address: 0, size: image.length}];
+    }
+
+    const ranges: FlashRange[] = [];
+    for (let address = 0; address < image.length; address += FLASH_SECTOR_SIZE) {
+        if (image.slice(address, address + FLASH_SECTOR_SIZE).every((byte) => byte === 0xFF)) {
+            continue;
+        }
+
+        const previous = ranges[ranges.length - 1];
+        if (previous && previous.address + previous.size === address) {
+            previous.size += FLASH_SECTOR_SIZE;
+        } else {
+            ranges.push({address, size: FLASH_SECTOR_SIZE});
+        }
+    }
+
+    return ranges;
+}
+
+/**
+ * Image checks which protect against bricking the adapter, the CCFG sector is always rewritten so the image has to
+ * contain a CCFG which keeps the serial bootloader enabled.
+ */
+function validateImage(image: Buffer, flashSize: number): void {
+    if (image.length !== flashSize) {
+        throw new Error(`Image size ${image.length} does not match the flash size ${flashSize} of the adapter`);
+    }
+
+    const bootloaderConfig = image.readUInt32LE(image.length - CCFG_BL_CONFIG_OFFSET);
+    if ((bootloaderConfig >>> 24) !== BOOTLOADER_ENABLED || (bootloaderConfig & 0xFF) !== BOOTLOADER_ENABLED) {
+        throw new Error(`Image disables the serial bootloader (BL_CONFIG 0x${bootloaderConfig.toString(16)})`);
+    }
+}
+
+export {TiBsl, parseIntelHex, crc32};
@@ -0,0 +1,169 @@
+import net from 'net';
+import Debug from "debug";
+import {SerialPort} from '../serialPort';
+import SocketPortUtils from '../socketPortUtils';
+
+const debug = Debug("zigbee-herdsman:adapter:firmware:transport");
+
+/**
+ * Raw byte stream to a bootloader over a serial port or TCP socket. Bootloaders are driven request/response, so
+ * received bytes are buffered until they are read.
+ */
+class Transport {
+    private path: string;
+    private baudRate: number;
+    private serialPort: SerialPort;
+    private socketPort: net.Socket;
+    private received: Buffer;
+    private onReceived: () => void;
+    private closed: boolean;
+
+    public constructor(path: string, baudRate: number) {
+        this.path = path;
+        this.baudRate = baudRate;
+        this.received = Buffer.alloc(0);
+        this.onReceived = null;
+        this.closed = true;
+    }
+
+    public isSocket(): boolean {
+        return SocketPortUtils.isTcpPath(this.path);
+    }
+
+    public async open(): Promise<void> {
+        debug(`Opening '${this.path}' with baud rate ${this.baudRate}`);
+        this.received = Buffer.alloc(0);
+        if (this.isSocket()) {
+            this.socketPort = SocketPortUtils.createSocket(this.path);
+            this.socketPort.setNoDelay(true);
+            this.listen(this.socketPort);
+            await new Promise<void>((resolve, reject): void => {
+                this.socketPort.once('ready', resolve);
+                this.socketPort.once('error', reject);
+                SocketPortUtils.connect(this.socketPort, this.path);
+            });
+        } else {
+            this.serialPort = new SerialPort({path: this.path, baudRate: this.baudRate, autoOpen: false});
+            this.listen(this.serialPort);
+            await new Promise<void>((resolve, reject): void => {
+                this.serialPort.open((error) => error ? reject(error) : resolve());
+            });
+        }
+
+        this.closed = false;
+    }
+
+    public async close(): Promise<void> {
+        debug(`Closing '${this.path}'`);
+        this.closed = true;
+        if (this.socketPort) {
+            this.socketPort.destroy();
+            this.socketPort = null;
+        }
+
+        if (this.serialPort?.isOpen) {
+            await new Promise((resolve) => this.serialPort.close(resolve));
+        }
+
+        this.serialPort = null;
+    }
+
+    public async write(data: Buffer): Promise<void> {
+        const port = this.socketPort ?? this.serialPort;
+        await new Promise<void>((resolve, reject): void => {
+            port.write(data, (error) => error ? reject(error) : resolve());
+        });
+    }
+
+    /**
+     * Sets the DTR and RTS lines, which many adapters wire to the reset and bootloader pins. Sockets have no control
+     * lines, so this does nothing for them.
+     */
+    public async setSignals(signals: {dtr: boolean; rts: boolean}): Promise<void> {
+        if (this.serialPort) {
+            await new Promise<void>((resolve, reject): void => {
+                this.serialPort.set(signals, (error) => error ? reject(error) : resolve());
+            });
+        }
+    }
+
+    /**
+     * Discards everything received so far.
+     */
+    public discard(): void {
+        this.received = Buffer.alloc(0);
+    }
+
+    public async read(length: number, timeout: number): Promise<Buffer> {
+        return this.waitFor(`${length} bytes`, timeout, () => {
+            if (this.received.length < length) {
+                return null;
+            }
+
+            const data = this.received.slice(0, length);
+            this.received = this.received.slice(length);
+            return data;
+        });
+    }
+
+    /**
+     * Reads until the given text is received, returns everything up to and including it.
+     */
+    public async readUntil(text: string, timeout: number): Promise<Buffer> {
+        return this.waitFor(`'${text.trim()}'`, timeout, () => {
+            const index = this.received.indexOf(text);
+            if (index === -1) {
+                return null;
+            }
+
+            const data = this.received.slice(0, index + text.length);
+            this.received = this.received.slice(index + text.length);
+            return data;
+        });
+    }
+
+    private listen(port: SerialPort | net.Socket): void {
+        // Events of a port closed before the transport was opened again are ignored
+        const current = (): boolean => port === (this.socketPort ?? this.serialPort);
+        port.on('data', (data: Buffer) => {
+            if (current()) {
+                this.received = Buffer.concat([this.received, data]);
+                this.onReceived?.();
+            }
+        });
+        port.on('close', () => {
+            if (current()) {
+                this.closed = true;
+                this.onReceived?.();
+            }
+        });
+        port.on('error', (error) => debug(`Port error '${error}'`));
+    }
+
+    private async waitFor(description: string, timeout: number, take: () => Buffer): Promise<Buffer> {
+        const end = Date.now() + timeout;
+        let data = take();
+        while (data === null) {
+            const remaining = end - Date.now();
+            if (this.closed) {
+                throw new Error(`Port closed while waiting for ${description}`);
+            } else if (remaining <= 0) {
+                throw new Error(`Timeout while waiting for ${description} after ${timeout}ms`);
+            }
+
+            await new Promise<void>((resolve): void => {
+                const timer = setTimeout(resolve, remaining);
+                this.onReceived = (): void => {
+                    clearTimeout(timer);
+                    resolve();
+                };
+            });
+            this.onReceived = null;
+            data = take();
+        }
+
+        return data;
+    }
+}
+
+export default Transport;
@@ -1,7 +1,8 @@
 import * as TsType from './tstype';
 import Adapter from './adapter';
 import * as Events from './events';
+import {FirmwareUpdate} from './firmware';
 
 export {
-    TsType, Adapter, Events,
+    TsType, Adapter, Events, FirmwareUpdate,
 };
\ No newline at end of file
@@ -0,0 +1,315 @@
+import net from 'net';
+import Debug from "debug";
+import {
+    BindingInterface, BindingPortInterface, BindingsErrorInterface, OpenOptions, PortStatus, SetOptions, UpdateOptions,
+} from '@serialport/bindings-interface';
+import SocketPortUtils from './socketPortUtils';
+
+const debug = Debug("zigbee-herdsman:adapter:rfc2217");
+
+const TELNET = {SE: 240, SB: 250, WILL: 251, WONT: 252, DO: 253, DONT: 254, IAC: 255};
+
+const OPTION = {binary: 0, suppressGoAhead: 3, comPortControl: 44};
+
+/**
+ * Options we are willing to enable locally (WILL) and on the server (DO).
+ */
+const LOCAL_OPTIONS = [OPTION.binary, OPTION.suppressGoAhead, OPTION.comPortControl];
+const REMOTE_OPTIONS = [OPTION.binary, OPTION.suppressGoAhead];
+
+const COMMAND = {
+    setBaudRate: 1,
+    setDataSize: 2,
+    setParity: 3,
+    setStopSize: 4,
+    setControl: 5,
+    notifyModemState: 7,
+    purgeData: 12,
+};
+
+/**
+ * Server to client commands are the client command plus this offset.
+ */
+const SERVER_COMMAND_OFFSET = 100;
+
+const PARITY: {[s: string]: number} = {none: 1, odd: 2, even: 3, mark: 4, space: 5};
+
+const STOP_SIZE: {[s: number]: number} = {1: 1, 2: 2, 1.5: 3};
+
+const CONTROL = {
+    noFlowControl: 1,
+    softwareFlowControl: 2,
+    hardwareFlowControl: 3,
+    breakOn: 5,
+    breakOff: 6,
+    dtrOn: 8,
+    dtrOff: 9,
+    rtsOn: 11,
+    rtsOff: 12,
+};
+
+const PURGE_BOTH_BUFFERS = 3;
+
+const MODEM_STATE = {cts: 0x10, dsr: 0x20, dcd: 0x80};
+
+enum ParserState {data, command, negotiation, subnegotiation, subnegotiationCommand}
+
+/**
+ * Serial port on a remote RFC 2217 (Telnet Com Port Control) server, the serial settings and control lines are
+ * forwarded to the server so baud rate changes and DTR/RTS resets work like on a local port.
+ */
+class Rfc2217Port implements BindingPortInterface {
+    public readonly openOptions: Required<OpenOptions>;
+    public isOpen: boolean;
+    private socket: net.Socket;
+    private baudRate: number;
+    private modemState: number;
+    private readable: Buffer;
+    private pendingRead: () => void;
+    private error: Error;
+    private parserState: ParserState;
+    private negotiation: number;
+    private subnegotiation: number[];
+
+    public constructor(socket: net.Socket, options: Required<OpenOptions>) {
+        this.openOptions = options;
+        this.isOpen = true;
+        this.socket = socket;
+        this.baudRate = options.baudRate;
+        this.modemState = 0;
+        this.readable = Buffer.alloc(0);
+        this.pendingRead = null;
+        this.error = null;
+        this.parserState = ParserState.data;
+        this.negotiation = null;
+        this.subnegotiation = [];
+
+        this.socket.on('data', (data: Buffer) => this.onData(data));
+        this.socket.on('error', (error) => debug(`Socket error '${error}'`));
+        this.socket.on('close', () => {
+            this.error = this.error ?? new Error('Connection to RFC 2217 server closed');
+            this.pendingRead?.();
+        });
+
+        for (const option of LOCAL_OPTIONS) {
+            this.sendTelnet(TELNET.WILL, option);
+        }
+
+        for (const option of REMOTE_OPTIONS) {
+            this.sendTelnet(TELNET.DO, option);
+        }
+
+        this.sendBaudRate(options.baudRate);
+        this.sendCommand(COMMAND.setDataSize, [options.dataBits]);
+        this.sendCommand(COMMAND.setParity, [PARITY[options.parity]]);
+        this.sendCommand(COMMAND.setStopSize, [STOP_SIZE[options.stopBits]]);
+        this.sendFlowControl(options);
+    }
+
+    public async close(): Promise<void> {
+        this.isOpen = false;
+        this.error = Object.assign(new Error('Port is closed'), {canceled: true});
+        this.socket.destroy();
+        this.pendingRead?.();
+    }
+
+    public async read(buffer: Buffer, offset: number, length: number): Promise<{buffer: Buffer; bytesRead: number}> {
+        while (!this.error && this.readable.length === 0) {
+            await new Promise<void>((resolve) => this.pendingRead = resolve);
+            this.pendingRead = null;
+        }
+
+        if (this.readable.length === 0) {
+            throw this.error;
+        }
+
+        const bytesRead = this.readable.copy(buffer, offset, 0, length);
+        this.readable = this.readable.slice(bytesRead);
+        return {buffer, bytesRead};
+    }
+
+    public async write(buffer: Buffer): Promise<void> {
+        // Data bytes equal to IAC are escaped by doubling them
+        const escaped = [];
+        for (const byte of buffer) {
+            escaped.push(byte);
+            if (byte === TELNET.IAC) {
+                escaped.push(TELNET.IAC);
+            }
+        }
+
+        return this.send(Buffer.from(escaped));
+    }
+
+    public async update(options: UpdateOptions): Promise<void> {
+        this.sendBaudRate(options.baudRate);
+    }
+
+    public async set(options: SetOptions): Promise<void> {
+        // Every flag is set on each call, to the provided or the default value
+        this.sendCommand(COMMAND.setControl, [options.brk ? CONTROL.breakOn : CONTROL.breakOff]);
+        this.sendCommand(COMMAND.setControl, [(options.dtr ?? true) ? CONTROL.dtrOn : CONTROL.dtrOff]);
+        this.sendCommand(COMMAND.setControl, [(options.rts ?? true) ? CONTROL.rtsOn : CONTROL.rtsOff]);
+    }
+
+    public async get(): Promise<PortStatus> {
+        return {
+            cts: (this.modemState & MODEM_STATE.cts) !== 0,
+            dsr: (this.modemState & MODEM_STATE.dsr) !== 0,
+            dcd: (this.modemState & MODEM_STATE.dcd) !== 0,
+        };
+    }
+
+    public async getBaudRate(): Promise<{baudRate: number}> {
+        return {baudRate: this.baudRate};
+    }
+
+    public async flush(): Promise<void> {
+        this.readable = Buffer.alloc(0);
+        this.sendCommand(COMMAND.purgeData, [PURGE_BOTH_BUFFERS]);
+    }
+
+    public async drain(): Promise<void> {
+        return this.send(Buffer.alloc(0));
+    }
+
+    private send(data: Buffer): Promise<void> {
+        return new Promise((resolve, reject): void => {
+            if (this.error) {
+                reject(this.error);
+            } else {
+                this.socket.write(data, (error) => error ? reject(error) : resolve());
+            }
+        });
+    }
+
+    private sendTelnet(...bytes: number[]): void {
+        this.socket.write(Buffer.from([TELNET.IAC, ...bytes]));
+    }
+
+    private sendCommand(command: number, value: number[]): void {
+        const escaped = value.flatMap((byte) => byte === TELNET.IAC ? [byte, byte] : [byte]);
+        this.sendTelnet(TELNET.SB, OPTION.comPortControl, command, ...escaped, TELNET.IAC, TELNET.SE);
+    }
+
+    private sendBaudRate(baudRate: number): void {
+        this.baudRate = baudRate;
+        const value = Buffer.alloc(4);
+        value.writeUInt32BE(baudRate);
+        this.sendCommand(COMMAND.setBaudRate, [...value]);
+    }
+
+    private sendFlowControl(options: Required<OpenOptions>): void {
+        // Only one flow control can be set, hardware flow control takes precedence
+        let control = CONTROL.noFlowControl;
+        if (options.rtscts) {
+            control = CONTROL.hardwareFlowControl;
+        } else if (options.xon || options.xoff) {
+            control = CONTROL.softwareFlowControl;
+        }
+
+        this.sendCommand(COMMAND.setControl, [control]);
+    }
+
+    private onData(data: Buffer): void {
+        const received = [];
+        for (const byte of data) {
+            switch (this.parserState) {
+            case ParserState.data:
+                if (byte === TELNET.IAC) {
+                    this.parserState = ParserState.command;
+                } else {
+                    received.push(byte);
+                }
+                break;
+            case ParserState.command:
+                this.parserState = ParserState.data;
+                if (byte === TELNET.IAC) {
+                    received.push(byte);
+                } else if (byte === TELNET.SB) {
+                    this.subnegotiation = [];
+                    this.parserState = ParserState.subnegotiation;
+                } else if (byte >= TELNET.WILL) {
+                    this.negotiation = byte;
+                    this.parserState = ParserState.negotiation;
+                }
+                // Other commands (NOP, GA, ...) have no meaning for a serial port
+                break;
+            case ParserState.negotiation:
+                this.onNegotiation(this.negotiation, byte);
+                this.parserState = ParserState.data;
+                break;
+            case ParserState.subnegotiation:
+                if (byte === TELNET.IAC) {
+                    this.parserState = ParserState.subnegotiationCommand;
+                } else {
+                    this.subnegotiation.push(byte);
+                }
+                break;
+            case ParserState.subnegotiationCommand:
+                if (byte === TELNET.IAC) {
+                    this.subnegotiation.push(byte);
+                    this.parserState = ParserState.subnegotiation;
+                } else {
+                    this.onSubnegotiation(this.subnegotiation);
+                    this.parserState = ParserState.data;
+                }
+                break;
+            }
+        }
+
+        if (received.length > 0) {
+            this.readable = Buffer.concat([this.readable, Buffer.from(received)]);
+            this.pendingRead?.();
+        }
+    }
+
+    private onNegotiation(verb: number, option: number): void {
+        // Requests for options we already asked for are acknowledgements, everything else is refused
+        if (verb === TELNET.DO && !LOCAL_OPTIONS.includes(option)) {
+            this.sendTelnet(TELNET.WONT, option);
+        } else if (verb === TELNET.WILL && !REMOTE_OPTIONS.includes(option)) {
+            this.sendTelnet(TELNET.DONT, option);
+        } else if (verb === TELNET.WONT && option === OPTION.comPortControl) {
+            debug(`Server refused com port control, serial settings and control lines have no effect`);
+        }
+    }
+
+    private onSubnegotiation(data: number[]): void {
+        if (data[0] === OPTION.comPortControl && data[1] === COMMAND.notifyModemState + SERVER_COMMAND_OFFSET) {
+            this.modemState = data[2];
+        }
+    }
+}
+
+/**
+ * SerialPort binding opening `rfc2217://<host>:<port>` paths as an Rfc2217Port.
+ */
+const Rfc2217Binding: BindingInterface<Rfc2217Port> = {
+    async list() {
+        return [];
+    },
+    async open(options) {
+        const {host, port} = SocketPortUtils.parseTcpPath(options.path);
+        debug(`Connecting to RFC 2217 server ${host}:${port}`);
+        const socket = new net.Socket();
+        socket.setNoDelay(true);
+        socket.setKeepAlive(true, 15000);
+
+        await new Promise<void>((resolve, reject): void => {
+            const onError = (error: BindingsErrorInterface): void => reject(error);
+            socket.once('error', onError);
+            socket.connect(port, host, () => {
+                socket.removeListener('error', onError);
+                resolve();
+            });
+        });
+
+        return new Rfc2217Port(socket, {
+            dataBits: 8, lock: true, stopBits: 1, parity: 'none', rtscts: false, xon: false, xoff: false,
+            xany: false, hupcl: true, ...options,
+        });
+    },
+};
+
+export default {Rfc2217Binding};
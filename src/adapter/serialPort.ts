@@ -4,9 +4,24 @@
 // This file was copied from https://github.com/serialport/node-serialport/blob/master/packages/serialport/lib/serialport.ts.
 import {ErrorCallback, OpenOptions, SerialPortStream, StreamOptions} from '@serialport/stream';
 import {autoDetect, AutoDetectTypes, OpenOptionsFromBinding} from '@serialport/bindings-cpp';
+import {BindingInterface} from '@serialport/bindings-interface';
+import SerialSession from './serialSession';
+import SocketPortUtils from './socketPortUtils';
+import Rfc2217 from './rfc2217';
 
 const DetectedBinding = autoDetect();
 
+// replay:// paths play back a recorded session and rfc2217:// paths open a port on a remote server
+function getBinding(path: string): BindingInterface {
+    if (SerialSession.isReplayPath(path)) {
+        return SerialSession.ReplayBinding;
+    } else if (SocketPortUtils.isRfc2217Path(path)) {
+        return Rfc2217.Rfc2217Binding;
+    }
+
+    return DetectedBinding;
+}
+
 export type SerialPortOpenOptions<T extends AutoDetectTypes> = Omit<StreamOptions<T>, 'binding'> & OpenOptionsFromBinding<T>
 
 export class SerialPort<T extends AutoDetectTypes = AutoDetectTypes> extends SerialPortStream<T> {
@@ -15,7 +30,7 @@ export class SerialPort<T extends AutoDetectTypes = AutoDetectTypes> extends Ser
 
     constructor(options: SerialPortOpenOptions<T>, openCallback?: ErrorCallback) {
         const opts: OpenOptions<T> = {
-            binding: DetectedBinding as T,
+            binding: getBinding(options.path) as T,
             ...options,
         };
         super(opts, openCallback);
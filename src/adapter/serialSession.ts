@@ -0,0 +1,186 @@
+import fs from 'fs';
+import {Duplex} from 'stream';
+import Debug from "debug";
+import {
+    BindingInterface, BindingPortInterface, BindingsErrorInterface, OpenOptions, PortStatus,
+} from '@serialport/bindings-interface';
+
+const debug = Debug("zigbee-herdsman:adapter:serialSession");
+
+type Direction = 'read' | 'write';
+
+/**
+ * One line of a recording, the data is hex encoded and the time is relative to the start of the recording.
+ */
+interface Entry {
+    time: number;
+    direction: Direction;
+    data: string;
+}
+
+function isReplayPath(path: string): boolean {
+    // replay path must be:
+    // replay://<recording>
+    return typeof path === 'string' && path.startsWith('replay://');
+}
+
+function parseReplayPath(path: string): string {
+    return path.replace('replay://', '');
+}
+
+/**
+ * Records the raw bytes read from and written to the port as JSON lines to the given file, the file is truncated
+ * first so it only contains this session. Does nothing when no recording file is given.
+ */
+function record(port: Duplex, path: string): void {
+    if (!path) {
+        return;
+    }
+
+    debug(`Recording session to '${path}'`);
+    fs.writeFileSync(path, '');
+    const start = Date.now();
+    const append = (direction: Direction, data: Buffer): void => {
+        const entry: Entry = {time: Date.now() - start, direction, data: data.toString('hex')};
+        fs.appendFileSync(path, `${JSON.stringify(entry)}\n`);
+    };
+
+    port.on('data', (data: Buffer) => append('read', data));
+
+    const hookWrite = (): void => {
+        const write = port.write.bind(port);
+        port.write = ((chunk: Buffer | string, ...args: unknown[]): boolean => {
+            append('write', Buffer.from(chunk));
+            return write(chunk, ...args);
+        }) as typeof port.write;
+    };
+
+    hookWrite();
+    // net.Socket restores its own write() when connecting
+    port.on('connect', hookWrite);
+}
+
+/**
+ * Fake port playing back a recording. Everything the driver writes has to match the recorded writes, after each
+ * matched write the recorded reads up to the next write become available. Reads are played back as fast as the
+ * driver consumes them, the recorded timing is not reproduced.
+ */
+class ReplayPort implements BindingPortInterface {
+    public readonly openOptions: Required<OpenOptions>;
+    public isOpen: boolean;
+    private entries: Entry[];
+    private written: Buffer;
+    private readable: Buffer;
+    private pendingRead: () => void;
+
+    public constructor(options: Required<OpenOptions>, entries: Entry[]) {
+        this.openOptions = options;
+        this.isOpen = true;
+        this.entries = entries;
+        this.written = Buffer.alloc(0);
+        this.readable = Buffer.alloc(0);
+        this.pendingRead = null;
+        this.releaseReads();
+    }
+
+    public async close(): Promise<void> {
+        this.isOpen = false;
+        this.pendingRead?.();
+    }
+
+    public async read(buffer: Buffer, offset: number, length: number): Promise<{buffer: Buffer; bytesRead: number}> {
+        while (this.isOpen && this.readable.length === 0) {
+            await new Promise<void>((resolve) => this.pendingRead = resolve);
+            this.pendingRead = null;
+        }
+
+        if (!this.isOpen) {
+            const error: BindingsErrorInterface = new Error('Replay port is closed');
+            error.canceled = true;
+            throw error;
+        }
+
+        const bytesRead = this.readable.copy(buffer, offset, 0, length);
+        this.readable = this.readable.slice(bytesRead);
+        return {buffer, bytesRead};
+    }
+
+    public async write(buffer: Buffer): Promise<void> {
+        this.written = Buffer.concat([this.written, buffer]);
+        while (this.written.length > 0) {
+            const entry = this.entries[0];
+            if (!entry) {
+                throw new Error(`Replay ended, but '${this.written.toString('hex')}' was written`);
+            }
+
+            const expected = Buffer.from(entry.data, 'hex');
+            const compared = Math.min(expected.length, this.written.length);
+            if (!expected.slice(0, compared).equals(this.written.slice(0, compared))) {
+                throw new Error(
+                    `Replay expected '${entry.data}' to be written, but '${this.written.toString('hex')}' was written`
+                );
+            }
+
+            if (compared < expected.length) {
+                break;
+            }
+
+            this.entries.shift();
+            this.written = this.written.slice(compared);
+            this.releaseReads();
+        }
+    }
+
+    public async update(): Promise<void> {
+        // Nothing to update, the recording is independent of the port settings
+    }
+
+    public async set(): Promise<void> {
+        // Control flags have no effect on the recording
+    }
+
+    public async get(): Promise<PortStatus> {
+        return {cts: true, dsr: true, dcd: true};
+    }
+
+    public async getBaudRate(): Promise<{baudRate: number}> {
+        return {baudRate: this.openOptions.baudRate};
+    }
+
+    public async flush(): Promise<void> {
+        this.written = Buffer.alloc(0);
+    }
+
+    public async drain(): Promise<void> {
+        // Writes are handled synchronously
+    }
+
+    private releaseReads(): void {
+        while (this.entries.length > 0 && this.entries[0].direction === 'read') {
+            this.readable = Buffer.concat([this.readable, Buffer.from(this.entries.shift().data, 'hex')]);
+        }
+
+        this.pendingRead?.();
+    }
+}
+
+/**
+ * SerialPort binding opening `replay://<recording>` paths as a ReplayPort.
+ */
+const ReplayBinding: BindingInterface<ReplayPort> = {
+    async list() {
+        return [];
+    },
+    async open(options) {
+        const path = parseReplayPath(options.path);
+        debug(`Replaying session from '${path}'`);
+        const entries = fs.readFileSync(path, 'utf8').split('\n').filter((line) => line.trim().length > 0)
+            .map((line) => JSON.parse(line) as Entry);
+        return new ReplayPort({
+            dataBits: 8, lock: true, stopBits: 1, parity: 'none', rtscts: false, xon: false, xoff: false,
+            xany: false, hupcl: true, ...options,
+        }, entries);
+    },
+};
+
+export default {isReplayPath, record, ReplayBinding};
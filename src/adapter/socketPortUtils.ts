@@ -1,16 +1,67 @@
+import fs from 'fs';
+import net from 'net';
+import tls from 'tls';
+
+/**
+ * Sockets returned by createSocket() for tls:// paths, mapped to the plain socket they are layered on.
+ */
+const tlsSockets = new WeakMap<net.Socket, net.Socket>();
+
 function isTcpPath(path: string): boolean {
     // tcp path must be:
     // tcp://<host>:<port>
-    const regex = /^(?:tcp:\/\/)[\w.-]+[:][\d]+$/gm;
+    // or for an encrypted connection:
+    // tls://<host>:<port>[?ca=<file>&cert=<file>&key=<file>]
+    const regex = /^(?:tcp:\/\/[\w.-]+[:][\d]+|tls:\/\/[\w.-]+[:][\d]+(?:\?\S*)?)$/gm;
+    return regex.test(path);
+}
+
+function isTlsPath(path: string): boolean {
+    return isTcpPath(path) && path.startsWith("tls://");
+}
+
+function isRfc2217Path(path: string): boolean {
+    // rfc2217 path must be:
+    // rfc2217://<host>:<port>
+    const regex = /^(?:rfc2217:\/\/)[\w.-]+[:][\d]+$/gm;
     return regex.test(path);
 }
 
 function parseTcpPath(path: string): {host: string; port: number} {
-    const str = path.replace("tcp://", "");
+    const str = path.replace(/^\w+:\/\//, "").replace(/\?.*$/, "");
     return {
         host: str.substring(0, str.indexOf(":")),
         port: Number(str.substring(str.indexOf(":") + 1)),
     };
 }
 
-export default {isTcpPath, parseTcpPath};
\ No newline at end of file
+/**
+ * Creates the socket for a tcp:// or tls:// path, it is connected by connect() so listeners can be registered first.
+ * For tls:// paths the "ready" event is emitted once the handshake succeeded, the CA and client certificate are read
+ * from the files given in the path.
+ */
+function createSocket(path: string): net.Socket {
+    const socket = new net.Socket();
+    if (!isTlsPath(path)) {
+        return socket;
+    }
+
+    const {host} = parseTcpPath(path);
+    const options = new URL(path).searchParams;
+    const read = (name: string): Buffer => options.has(name) ? fs.readFileSync(options.get(name)) : undefined;
+    const tlsSocket = tls.connect({
+        socket, ca: read("ca"), cert: read("cert"), key: read("key"),
+        // Server name indication is not allowed for IP addresses
+        servername: net.isIP(host) ? undefined : host,
+    });
+    tlsSocket.once("secureConnect", () => tlsSocket.emit("ready"));
+    tlsSockets.set(tlsSocket, socket);
+    return tlsSocket;
+}
+
+function connect(socket: net.Socket, path: string): void {
+    const info = parseTcpPath(path);
+    (tlsSockets.get(socket) ?? socket).connect(info.port, info.host);
+}
+
+export default {isTcpPath, isRfc2217Path, parseTcpPath, createSocket, connect};
@@ -10,7 +10,42 @@ interface SerialPortOptions {
     baudRate?: number;
     rtscts?: boolean;
     path?: string;
-    adapter?: 'zstack' | 'deconz' | 'zigate' | 'ezsp' | 'auto';
+    adapter?: 'zstack' | 'deconz' | 'zigate' | 'ezsp' | 'virtual' | 'auto';
+    /**
+     * File the raw bytes exchanged with the adapter are recorded to, play it back with a `replay://<file>` path.
+     */
+    record?: string;
+}
+
+interface CaptureOptions {
+    /**
+     * pcapng file the frames are appended to.
+     */
+    path: string;
+    /**
+     * Adds the network key as comment to the capture, the frames itself are not encrypted.
+     */
+    includeNetworkKey?: boolean;
+}
+
+interface FirmwareUpdateOptions {
+    path: string;
+    /**
+     * zstack flashes a .bin or Intel HEX image with the TI serial bootloader, ezsp uploads a .gbl image to the Gecko
+     * bootloader.
+     */
+    adapter: 'zstack' | 'ezsp';
+    baudRate?: number;
+    /**
+     * zstack only, keeps the flash sectors the image leaves blank, which hold the NV (network settings). Without it
+     * the whole flash is erased.
+     */
+    keepNv?: boolean;
+}
+
+interface FirmwareUpdateProgress {
+    written: number;
+    total: number;
 }
 
 interface AdapterOptions {
@@ -18,6 +53,10 @@ interface AdapterOptions {
     delay?: number;
     disableLED: boolean;
     forceStartWithInconsistentAdapterConfiguration?: boolean;
+    capture?: CaptureOptions;
+    restoreCoordinatorIeeeAddress?: boolean;
+    // Fail to start instead of forming a new network, e.g. when reconnecting to a network which must be resumed
+    preventReset?: boolean;
 }
 
 interface CoordinatorVersion {
@@ -60,6 +99,12 @@ interface RoutingTable {
     table: RoutingTableEntry[];
 }
 
+interface EnergyScanResult {
+    channel: number;
+    // Energy detected on the channel, 0 - 255 like in a Mgmt_NWK_Update_notify
+    energy: number;
+}
+
 interface SimpleDescriptor {
     profileID: number;
     endpointID: number;
@@ -91,12 +136,58 @@ interface Backup {
 
 interface NetworkParameters {
     panID: number;
-    extendedPanID: number;
+    // As used in frames over the air, e.g. '0xdddddddddddddddd'
+    extendedPanID: string;
     channel: number;
+    networkUpdateID: number;
+}
+
+interface AdapterCapabilities {
+    backup: boolean;
+    // Restoring a backup when the adapter is started on an empty or different network
+    restore: boolean;
+    installCodes: boolean;
+    interPAN: boolean;
+    routingTable: boolean;
+    reset: ('soft' | 'hard')[];
+    transmitPower: boolean;
+    channelChange: boolean;
+    networkKeyRotation: boolean;
+    energyScan: boolean;
+    // Adapter discovers a new route itself when a unicast to a device fails
+    sourceRouting: boolean;
+}
+
+interface DiscoveredCoordinator {
+    /**
+     * mDNS instance name, select this coordinator with a `mdns://<type>/<name>` path.
+     */
+    name: string;
+    type: string;
+    adapter: SerialPortOptions['adapter'];
+    baudRate: number;
+    address: string;
+    port: number;
+    path: string;
+}
+
+interface ProbeResult {
+    path: string;
+    adapter: SerialPortOptions['adapter'];
+    /**
+     * Reported by the adapter during the handshake, null when only the USB IDs matched.
+     */
+    firmwareVersion: string;
+    /**
+     * high: handshake succeeded and the USB IDs match the adapter, medium: only the handshake succeeded,
+     * low: only the USB IDs match.
+     */
+    confidence: 'high' | 'medium' | 'low';
 }
 
 export {
     SerialPortOptions, NetworkOptions, Coordinator, CoordinatorVersion, NodeDescriptor,
     DeviceType, ActiveEndpoints, SimpleDescriptor, LQI, LQINeighbor, RoutingTable, Backup, NetworkParameters,
-    StartResult, RoutingTableEntry, AdapterOptions,
+    StartResult, RoutingTableEntry, AdapterOptions, EnergyScanResult, AdapterCapabilities, CaptureOptions,
+    DiscoveredCoordinator, ProbeResult, FirmwareUpdateOptions, FirmwareUpdateProgress,
 };
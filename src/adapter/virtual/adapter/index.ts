@@ -0,0 +1,5 @@
+import VirtualAdapter from './virtualAdapter';
+
+export {
+    VirtualAdapter,
+};
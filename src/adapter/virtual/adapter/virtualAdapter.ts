@@ -0,0 +1,364 @@
+import {
+    NetworkOptions, SerialPortOptions, Coordinator, CoordinatorVersion, NodeDescriptor, ActiveEndpoints,
+    SimpleDescriptor, LQI, RoutingTable, NetworkParameters, StartResult, AdapterOptions, EnergyScanResult,
+    AdapterCapabilities,
+} from '../../tstype';
+import * as Events from '../../events';
+import Adapter from '../../adapter';
+import {VirtualNetwork} from '../driver';
+import {ZclFrame, FrameType, Direction, Foundation} from '../../../zcl';
+import {Waitress} from '../../../utils';
+import Debug from "debug";
+import {LoggerStub} from "../../../controller/logger-stub";
+import * as Models from "../../../models";
+
+const debug = Debug("zigbee-herdsman:adapter:virtual:adapter");
+
+const PathPrefix = 'virtual://';
+
+interface WaitressMatcher {
+    address: number | string;
+    endpoint: number;
+    transactionSequenceNumber?: number;
+    frameType: FrameType;
+    clusterID: number;
+    commandIdentifier: number;
+    direction: number;
+}
+
+/**
+ * Adapter which doesn't talk to any hardware but to an in-memory `VirtualNetwork`, allowing to run the
+ * `Controller` against simulated devices (e.g. in tests or CI). Selected with `serialPort.adapter: 'virtual'`,
+ * the path (e.g. `virtual://office`) identifies the network, use `VirtualNetwork.get(path)` to populate it.
+ */
+class VirtualAdapter extends Adapter {
+    private network: VirtualNetwork;
+    private waitress: Waitress<Events.ZclDataPayload, WaitressMatcher>;
+    private networkListeners: {event: Events.Events; listener: (payload: unknown) => void}[];
+
+    public constructor(networkOptions: NetworkOptions,
+        serialPortOptions: SerialPortOptions, backupPath: string, adapterOptions: AdapterOptions, logger?: LoggerStub) {
+
+        super(networkOptions, serialPortOptions, backupPath, adapterOptions, logger);
+        this.network = VirtualNetwork.get(this.serialPortOptions.path);
+        this.waitress = new Waitress<Events.ZclDataPayload, WaitressMatcher>(
+            this.waitressValidator, this.waitressTimeoutFormatter
+        );
+        this.networkListeners = [];
+    }
+
+    /**
+     * Adapter methods
+     */
+    public async start(): Promise<StartResult> {
+        const forwarded = [
+            Events.Events.deviceJoined, Events.Events.deviceAnnounce, Events.Events.deviceLeave,
+        ];
+
+        for (const event of forwarded) {
+            this.listen(event, (payload) => this.emit(event, payload));
+        }
+
+        this.listen(Events.Events.zclData, (payload: Events.ZclDataPayload) => {
+            this.waitress.resolve(payload);
+            this.emit(Events.Events.zclData, payload);
+        });
+
+        const result = this.network.start(this.networkOptions, this.adapterOptions?.preventReset);
+        debug(`Started with result '${result}'`);
+        return result;
+    }
+
+    public async stop(): Promise<void> {
+        for (const {event, listener} of this.networkListeners) {
+            this.network.removeListener(event, listener);
+        }
+
+        this.networkListeners = [];
+        this.network.stop();
+    }
+
+    public static async isValidPath(path: string): Promise<boolean> {
+        return path.startsWith(PathPrefix);
+    }
+
+    public static async autoDetectPath(): Promise<string> {
+        return null;
+    }
+
+    public async getCoordinator(): Promise<Coordinator> {
+        return {
+            networkAddress: 0,
+            manufacturerID: 0,
+            ieeeAddr: this.network.coordinatorIeeeAddr,
+            endpoints: this.network.coordinatorEndpoints,
+        };
+    }
+
+    public async getCoordinatorVersion(): Promise<CoordinatorVersion> {
+        return {type: 'Virtual', meta: {}};
+    }
+
+    public async reset(type: 'soft' | 'hard'): Promise<void> {
+        this.network.reset(type);
+    }
+
+    public async supportsBackup(): Promise<boolean> {
+        return true;
+    }
+
+    /**
+     * The virtual network is persisted by the adapter itself, a backup can't be restored into it.
+     */
+    public async getCapabilities(): Promise<AdapterCapabilities> {
+        return {
+            backup: true,
+            restore: false,
+            installCodes: true,
+            interPAN: false,
+            routingTable: true,
+            reset: ['soft', 'hard'],
+            transmitPower: true,
+            channelChange: true,
+            networkKeyRotation: true,
+            energyScan: true,
+            sourceRouting: false,
+        };
+    }
+
+    public async backup(ieeeAddressesInDatabase: string[]): Promise<Models.Backup> {
+        const parameters = this.network.networkParameters;
+        if (!parameters) {
+            throw new Error('Cannot create backup, network is not formed');
+        }
+
+        const devices = this.network.devices.filter((d) => ieeeAddressesInDatabase.includes(d.ieeeAddr));
+        return {
+            networkOptions: {
+                panId: parameters.panID,
+                extendedPanId: Buffer.from(parameters.extendedPanID),
+                channelList: [parameters.channel],
+                networkKey: Buffer.from(parameters.networkKey),
+                networkKeyDistribute: false,
+            },
+            logicalChannel: parameters.channel,
+            networkKeyInfo: {
+                sequenceNumber: parameters.networkKeySequenceNumber,
+                frameCounter: parameters.frameCounter,
+            },
+            securityLevel: 5,
+            networkUpdateId: parameters.nwkUpdateId,
+            coordinatorIeeeAddress: Buffer.from(this.network.coordinatorIeeeAddr.substring(2), 'hex'),
+            devices: devices.map((d) => ({
+                networkAddress: d.networkAddress,
+                ieeeAddress: Buffer.from(d.ieeeAddr.substring(2), 'hex'),
+                isDirectChild: d.parent == null,
+            })),
+        };
+    }
+
+    public async getNetworkParameters(): Promise<NetworkParameters> {
+        const parameters = this.network.networkParameters;
+        return {
+            panID: parameters.panID,
+            extendedPanID: `0x${Buffer.from(parameters.extendedPanID).toString('hex')}`,
+            channel: parameters.channel,
+            networkUpdateID: parameters.nwkUpdateId,
+        };
+    }
+
+    public async setTransmitPower(value: number): Promise<void> {
+        this.network.transmitPower = value;
+    }
+
+    public async rotateNetworkKey(key: Buffer): Promise<void> {
+        this.network.rotateNetworkKey([...key]);
+    }
+
+    public async changeChannel(channel: number): Promise<void> {
+        this.network.changeChannel(channel);
+    }
+
+    public async addInstallCode(ieeeAddress: string, key: Buffer): Promise<void> {
+        this.network.installCodes.set(ieeeAddress, key);
+    }
+
+    public waitFor(
+        networkAddress: number, endpoint: number, frameType: FrameType, direction: Direction,
+        transactionSequenceNumber: number, clusterID: number, commandIdentifier: number, timeout: number,
+    ): {promise: Promise<Events.ZclDataPayload>; cancel: () => void} {
+        const waiter = this.waitForInternal(
+            networkAddress, endpoint, frameType, direction, transactionSequenceNumber, clusterID,
+            commandIdentifier, timeout,
+        );
+
+        return {cancel: waiter.cancel, promise: waiter.start().promise};
+    }
+
+    /**
+     * ZDO
+     */
+    public async permitJoin(seconds: number, networkAddress: number): Promise<void> {
+        this.network.permitJoin(seconds, networkAddress);
+    }
+
+    public async lqi(networkAddress: number): Promise<LQI> {
+        return {neighbors: this.network.lqi(networkAddress)};
+    }
+
+    public async routingTable(networkAddress: number): Promise<RoutingTable> {
+        return {table: this.network.routingTable(networkAddress)};
+    }
+
+    public async scanChannels(networkAddress: number, channels: number[]): Promise<EnergyScanResult[]> {
+        return this.network.scanChannels(networkAddress, channels);
+    }
+
+    public async nodeDescriptor(networkAddress: number): Promise<NodeDescriptor> {
+        const device = this.network.getReachableDevice(networkAddress);
+        return {type: device.type, manufacturerCode: device.manufacturerCode};
+    }
+
+    public async activeEndpoints(networkAddress: number): Promise<ActiveEndpoints> {
+        return {endpoints: this.network.getReachableDevice(networkAddress).endpointIDs};
+    }
+
+    public async simpleDescriptor(networkAddress: number, endpointID: number): Promise<SimpleDescriptor> {
+        return this.network.getReachableDevice(networkAddress).getSimpleDescriptor(endpointID);
+    }
+
+    public async bind(
+        destinationNetworkAddress: number, sourceIeeeAddress: string, sourceEndpoint: number,
+        clusterID: number, destinationAddressOrGroup: string | number, type: 'endpoint' | 'group',
+        destinationEndpoint?: number
+    ): Promise<void> {
+        this.network.getReachableDevice(destinationNetworkAddress).bind({
+            endpoint: sourceEndpoint, cluster: clusterID, type, destination: destinationAddressOrGroup,
+            destinationEndpoint: type === 'endpoint' ? destinationEndpoint : undefined,
+        });
+    }
+
+    public async unbind(
+        destinationNetworkAddress: number, sourceIeeeAddress: string, sourceEndpoint: number,
+        clusterID: number, destinationAddressOrGroup: string | number, type: 'endpoint' | 'group',
+        destinationEndpoint: number
+    ): Promise<void> {
+        this.network.getReachableDevice(destinationNetworkAddress).unbind({
+            endpoint: sourceEndpoint, cluster: clusterID, type, destination: destinationAddressOrGroup,
+            destinationEndpoint: type === 'endpoint' ? destinationEndpoint : undefined,
+        });
+    }
+
+    public async removeDevice(networkAddress: number, ieeeAddr: string): Promise<void> {
+        this.network.removeDevice(networkAddress, ieeeAddr);
+    }
+
+    /**
+     * ZCL
+     */
+    public async sendZclFrameToEndpoint(
+        ieeeAddr: string, networkAddress: number, endpoint: number, zclFrame: ZclFrame, timeout: number,
+        disableResponse: boolean,
+    ): Promise<Events.ZclDataPayload> {
+        debug('sendZclFrameToEndpoint %s:%i/%i', ieeeAddr, networkAddress, endpoint);
+        let response = null;
+        const command = zclFrame.getCommand();
+        if (command.hasOwnProperty('response') && disableResponse === false) {
+            response = this.waitForInternal(
+                networkAddress, endpoint, zclFrame.Header.frameControl.frameType, Direction.SERVER_TO_CLIENT,
+                zclFrame.Header.transactionSequenceNumber, zclFrame.Cluster.ID, command.response, timeout
+            );
+        } else if (!zclFrame.Header.frameControl.disableDefaultResponse) {
+            response = this.waitForInternal(
+                networkAddress, endpoint, FrameType.GLOBAL, Direction.SERVER_TO_CLIENT,
+                zclFrame.Header.transactionSequenceNumber, zclFrame.Cluster.ID, Foundation.defaultRsp.ID,
+                timeout,
+            );
+        }
+
+        try {
+            this.network.sendZclFrameToEndpoint(networkAddress, endpoint, zclFrame);
+        } catch (error) {
+            if (response !== null) response.cancel();
+            throw error;
+        }
+
+        if (response !== null) {
+            try {
+                return await response.start().promise;
+            } catch (error) {
+                throw new Error(`${error.message} (virtual device '${ieeeAddr}' did not respond)`);
+            }
+        } else {
+            return null;
+        }
+    }
+
+    public async sendZclFrameToGroup(groupID: number, zclFrame: ZclFrame): Promise<void> {
+        this.network.sendZclFrameToGroup(groupID, zclFrame);
+    }
+
+    public async sendZclFrameToAll(endpoint: number, zclFrame: ZclFrame): Promise<void> {
+        this.network.sendZclFrameToAll(endpoint, zclFrame);
+    }
+
+    /**
+     * InterPAN
+     */
+    public async setChannelInterPAN(): Promise<void> {
+        throw new Error('InterPAN is not supported by the virtual adapter');
+    }
+
+    public async sendZclFrameInterPANToIeeeAddr(): Promise<void> {
+        throw new Error('InterPAN is not supported by the virtual adapter');
+    }
+
+    public async sendZclFrameInterPANBroadcast(): Promise<Events.ZclDataPayload> {
+        throw new Error('InterPAN is not supported by the virtual adapter');
+    }
+
+    public async restoreChannelInterPAN(): Promise<void> {
+        throw new Error('InterPAN is not supported by the virtual adapter');
+    }
+
+    /**
+     * Private methods
+     */
+    private listen(event: Events.Events, listener: (payload: unknown) => void): void {
+        this.network.on(event, listener);
+        this.networkListeners.push({event, listener});
+    }
+
+    private waitForInternal(
+        networkAddress: number, endpoint: number, frameType: FrameType, direction: Direction,
+        transactionSequenceNumber: number, clusterID: number, commandIdentifier: number, timeout: number,
+    ): {start: () => {promise: Promise<Events.ZclDataPayload>}; cancel: () => void} {
+        const payload = {
+            address: networkAddress, endpoint, clusterID, commandIdentifier, frameType, direction,
+            transactionSequenceNumber,
+        };
+
+        const waiter = this.waitress.waitFor(payload, timeout);
+        const cancel = (): void => this.waitress.remove(waiter.ID);
+        return {start: waiter.start, cancel};
+    }
+
+    private waitressTimeoutFormatter(matcher: WaitressMatcher, timeout: number): string {
+        return `Timeout - ${matcher.address} - ${matcher.endpoint}` +
+            ` - ${matcher.transactionSequenceNumber} - ${matcher.clusterID}` +
+            ` - ${matcher.commandIdentifier} after ${timeout}ms`;
+    }
+
+    private waitressValidator(payload: Events.ZclDataPayload, matcher: WaitressMatcher): boolean {
+        const transactionSequenceNumber = payload.frame.Header.transactionSequenceNumber;
+        return (!matcher.address || payload.address === matcher.address) &&
+            payload.endpoint === matcher.endpoint &&
+            (!matcher.transactionSequenceNumber || transactionSequenceNumber === matcher.transactionSequenceNumber) &&
+            payload.frame.Cluster.ID === matcher.clusterID &&
+            matcher.frameType === payload.frame.Header.frameControl.frameType &&
+            matcher.commandIdentifier === payload.frame.Header.commandIdentifier &&
+            matcher.direction === payload.frame.Header.frameControl.direction;
+    }
+}
+
+export default VirtualAdapter;
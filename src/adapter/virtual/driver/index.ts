@@ -0,0 +1,10 @@
+import VirtualNetwork, {VirtualNetworkParameters} from './virtualNetwork';
+import VirtualDevice from './virtualDevice';
+import {
+    VirtualDeviceDefinition, VirtualEndpointDefinition, VirtualReportingConfiguration, VirtualBinding,
+} from './tstype';
+
+export {
+    VirtualNetwork, VirtualNetworkParameters, VirtualDevice, VirtualDeviceDefinition, VirtualEndpointDefinition,
+    VirtualReportingConfiguration, VirtualBinding,
+};
@@ -0,0 +1,47 @@
+import {KeyValue} from '../../../controller/tstype';
+
+interface VirtualEndpointDefinition {
+    ID: number;
+    profileID?: number;
+    deviceID?: number;
+    inputClusters: number[];
+    outputClusters: number[];
+    /**
+     * Initial attribute values, keyed by cluster name and attribute name, e.g.
+     * `{genBasic: {modelId: 'lumi.sensor_switch'}}`
+     */
+    attributes?: {[cluster: string]: KeyValue};
+}
+
+interface VirtualDeviceDefinition {
+    ieeeAddr: string;
+    networkAddress: number;
+    type: 'Router' | 'EndDevice';
+    manufacturerCode?: number;
+    /**
+     * IEEE address of the parent, when not provided the device is a direct child of the coordinator.
+     */
+    parent?: string;
+    linkquality?: number;
+    endpoints: VirtualEndpointDefinition[];
+}
+
+interface VirtualReportingConfiguration {
+    cluster: number;
+    attrId: number;
+    minRepIntval: number;
+    maxRepIntval: number;
+    repChange: number;
+}
+
+interface VirtualBinding {
+    endpoint: number;
+    cluster: number;
+    type: 'endpoint' | 'group';
+    destination: string | number;
+    destinationEndpoint?: number;
+}
+
+export {
+    VirtualEndpointDefinition, VirtualDeviceDefinition, VirtualReportingConfiguration, VirtualBinding,
+};
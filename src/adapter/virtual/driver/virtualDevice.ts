@@ -0,0 +1,260 @@
+import {ZclFrame, FrameType, Direction, Status, Utils as ZclUtils} from '../../../zcl';
+import {KeyValue} from '../../../controller/tstype';
+import {DeviceType, SimpleDescriptor} from '../../tstype';
+import {
+    VirtualDeviceDefinition, VirtualEndpointDefinition, VirtualReportingConfiguration, VirtualBinding,
+} from './tstype';
+
+interface VirtualEndpoint {
+    definition: VirtualEndpointDefinition;
+    attributes: {[cluster: string]: KeyValue};
+    groups: Set<number>;
+    reportings: VirtualReportingConfiguration[];
+}
+
+interface AttributeChange {
+    cluster: string;
+    attributes: KeyValue;
+}
+
+interface FrameResult {
+    response: ZclFrame;
+    changes: AttributeChange[];
+}
+
+/**
+ * Simulated Zigbee device, keeps the attribute state, group membership, bindings and reporting configuration
+ * of its endpoints and answers ZCL frames the way a well behaving device would.
+ */
+class VirtualDevice {
+    public readonly ieeeAddr: string;
+    public readonly type: DeviceType;
+    public readonly manufacturerCode: number;
+    public networkAddress: number;
+    public parent: string;
+    public linkquality: number;
+    public joined: boolean;
+    public sleeping: boolean;
+    private endpoints: Map<number, VirtualEndpoint>;
+    private bindings: VirtualBinding[];
+
+    public constructor(definition: VirtualDeviceDefinition) {
+        this.ieeeAddr = definition.ieeeAddr;
+        this.type = definition.type;
+        this.manufacturerCode = definition.manufacturerCode ?? 0;
+        this.networkAddress = definition.networkAddress;
+        this.parent = definition.parent ?? null;
+        this.linkquality = definition.linkquality ?? 255;
+        this.joined = false;
+        this.sleeping = false;
+        this.bindings = [];
+        this.endpoints = new Map();
+
+        for (const endpoint of definition.endpoints) {
+            const attributes: {[cluster: string]: KeyValue} = {};
+            for (const [clusterKey, values] of Object.entries(endpoint.attributes ?? {})) {
+                attributes[ZclUtils.getCluster(clusterKey).name] = {...values};
+            }
+
+            this.endpoints.set(endpoint.ID, {definition: endpoint, attributes, groups: new Set(), reportings: []});
+        }
+    }
+
+    public get endpointIDs(): number[] {
+        return Array.from(this.endpoints.keys());
+    }
+
+    public hasEndpoint(ID: number): boolean {
+        return this.endpoints.has(ID);
+    }
+
+    public getSimpleDescriptor(ID: number): SimpleDescriptor {
+        const endpoint = this.getEndpoint(ID);
+        return {
+            endpointID: ID,
+            profileID: endpoint.definition.profileID ?? 0x0104,
+            deviceID: endpoint.definition.deviceID ?? 0,
+            inputClusters: [...endpoint.definition.inputClusters],
+            outputClusters: [...endpoint.definition.outputClusters],
+        };
+    }
+
+    public getAttributes(endpointID: number, clusterKey: string | number): KeyValue {
+        const cluster = ZclUtils.getCluster(clusterKey).name;
+        return {...this.getEndpoint(endpointID).attributes[cluster]};
+    }
+
+    public setAttributes(endpointID: number, clusterKey: string | number, attributes: KeyValue): void {
+        const endpoint = this.getEndpoint(endpointID);
+        const cluster = ZclUtils.getCluster(clusterKey).name;
+        endpoint.attributes[cluster] = {...endpoint.attributes[cluster], ...attributes};
+    }
+
+    public getReportings(endpointID: number): VirtualReportingConfiguration[] {
+        return [...this.getEndpoint(endpointID).reportings];
+    }
+
+    public getBindings(): VirtualBinding[] {
+        return [...this.bindings];
+    }
+
+    public isGroupMember(endpointID: number, groupID: number): boolean {
+        return this.getEndpoint(endpointID).groups.has(groupID);
+    }
+
+    public bind(binding: VirtualBinding): void {
+        this.unbind(binding);
+        this.bindings.push(binding);
+    }
+
+    public unbind(binding: VirtualBinding): void {
+        this.bindings = this.bindings.filter((b) => !(b.endpoint === binding.endpoint &&
+            b.cluster === binding.cluster && b.type === binding.type && b.destination === binding.destination &&
+            b.destinationEndpoint === binding.destinationEndpoint));
+    }
+
+    /**
+     * Returns the attributes of a change that have reporting configured.
+     */
+    public getReportableChanges(endpointID: number, change: AttributeChange): KeyValue {
+        const cluster = ZclUtils.getCluster(change.cluster);
+        const reportings = this.getEndpoint(endpointID).reportings.filter((r) => r.cluster === cluster.ID);
+        const result: KeyValue = {};
+        for (const [name, value] of Object.entries(change.attributes)) {
+            if (cluster.hasAttribute(name) &&
+                reportings.find((r) => r.attrId === cluster.getAttribute(name).ID && r.maxRepIntval !== 0xFFFF)) {
+                result[name] = value;
+            }
+        }
+
+        return result;
+    }
+
+    public handleFrame(endpointID: number, frame: ZclFrame): FrameResult {
+        const endpoint = this.getEndpoint(endpointID);
+        const result: FrameResult = {response: null, changes: []};
+        const command = frame.getCommand();
+        let status = Status.SUCCESS;
+
+        if (frame.isGlobal()) {
+            const clusterName = frame.Cluster.name;
+            if (command.name === 'read') {
+                const payload = frame.Payload.map((item: {attrId: number}) => {
+                    const value = this.readAttribute(endpoint, frame, item.attrId);
+                    return value === undefined ? {attrId: item.attrId, status: Status.UNSUPPORTED_ATTRIBUTE} :
+                        {attrId: item.attrId, status: Status.SUCCESS, dataType: value.dataType, attrData: value.value};
+                });
+                result.response = this.createResponse(frame, FrameType.GLOBAL, 'readRsp', payload);
+            } else if (['write', 'writeUndiv', 'writeNoRsp'].includes(command.name)) {
+                const attributes: KeyValue = {};
+                for (const item of frame.Payload) {
+                    const name = frame.Cluster.hasAttribute(item.attrId) ?
+                        frame.Cluster.getAttribute(item.attrId).name : item.attrId.toString();
+                    attributes[name] = item.attrData;
+                }
+
+                this.setAttributes(endpointID, clusterName, attributes);
+                result.changes.push({cluster: clusterName, attributes});
+                if (command.name !== 'writeNoRsp') {
+                    result.response = this.createResponse(
+                        frame, FrameType.GLOBAL, 'writeRsp', [{status: Status.SUCCESS}]
+                    );
+                }
+            } else if (command.name === 'configReport') {
+                const payload = [];
+                for (const item of frame.Payload) {
+                    endpoint.reportings = endpoint.reportings.filter((r) =>
+                        !(r.cluster === frame.Cluster.ID && r.attrId === item.attrId));
+                    endpoint.reportings.push({
+                        cluster: frame.Cluster.ID, attrId: item.attrId, minRepIntval: item.minRepIntval,
+                        maxRepIntval: item.maxRepIntval, repChange: item.repChange,
+                    });
+                    payload.push({status: Status.SUCCESS, direction: item.direction, attrId: item.attrId});
+                }
+
+                result.response = this.createResponse(frame, FrameType.GLOBAL, 'configReportRsp', payload);
+            } else {
+                status = Status.UNSUP_GENERAL_COMMAND;
+            }
+        } else {
+            status = this.handleSpecificCommand(endpoint, frame, result);
+        }
+
+        if (!result.response && !frame.Header.frameControl.disableDefaultResponse) {
+            const payload = {cmdId: frame.Header.commandIdentifier, statusCode: status};
+            result.response = this.createResponse(frame, FrameType.GLOBAL, 'defaultRsp', payload);
+        }
+
+        return result;
+    }
+
+    private handleSpecificCommand(endpoint: VirtualEndpoint, frame: ZclFrame, result: FrameResult): Status {
+        const command = frame.getCommand().name;
+        const change = (cluster: string, attributes: KeyValue): void => {
+            this.setAttributes(endpoint.definition.ID, cluster, attributes);
+            result.changes.push({cluster, attributes});
+        };
+
+        if (frame.Cluster.name === 'genOnOff' && ['on', 'off', 'toggle'].includes(command)) {
+            const current = endpoint.attributes.genOnOff?.onOff;
+            change('genOnOff', {onOff: command === 'toggle' ? (current ? 0 : 1) : (command === 'on' ? 1 : 0)});
+        } else if (frame.Cluster.name === 'genLevelCtrl' &&
+            ['moveToLevel', 'moveToLevelWithOnOff'].includes(command)) {
+            change('genLevelCtrl', {currentLevel: frame.Payload.level});
+        } else if (frame.Cluster.name === 'genGroups' && ['add', 'remove'].includes(command)) {
+            const groupID = frame.Payload.groupid;
+            const known = endpoint.groups.has(groupID);
+            if (command === 'add') {
+                endpoint.groups.add(groupID);
+            } else {
+                endpoint.groups.delete(groupID);
+            }
+
+            const status = command === 'remove' && !known ? Status.NOT_FOUND : Status.SUCCESS;
+            result.response = this.createResponse(
+                frame, FrameType.SPECIFIC, `${command}Rsp`, {status, groupid: groupID}
+            );
+        } else if (frame.Cluster.name === 'genGroups' && command === 'removeAll') {
+            endpoint.groups.clear();
+        } else if (frame.Cluster.name === 'ssIasZone' && command === 'enrollRsp') {
+            change('ssIasZone', {zoneState: frame.Payload.enrollrspcode === 0 ? 1 : 0, zoneId: frame.Payload.zoneid});
+        } else if (!endpoint.definition.inputClusters.includes(frame.Cluster.ID)) {
+            return Status.UNSUPPORTED_CLUSTER;
+        }
+
+        return Status.SUCCESS;
+    }
+
+    private readAttribute(
+        endpoint: VirtualEndpoint, frame: ZclFrame, attrId: number
+    ): {dataType: number; value: unknown} {
+        if (!frame.Cluster.hasAttribute(attrId)) {
+            return undefined;
+        }
+
+        const attribute = frame.Cluster.getAttribute(attrId);
+        const value = endpoint.attributes[frame.Cluster.name]?.[attribute.name];
+        return value === undefined ? undefined : {dataType: attribute.type, value};
+    }
+
+    private createResponse(frame: ZclFrame, frameType: FrameType, command: string, payload: unknown): ZclFrame {
+        const direction = frame.Header.frameControl.direction === Direction.CLIENT_TO_SERVER ?
+            Direction.SERVER_TO_CLIENT : Direction.CLIENT_TO_SERVER;
+        return ZclFrame.create(
+            frameType, direction, true, frame.Header.manufacturerCode, frame.Header.transactionSequenceNumber,
+            command, frame.Cluster.ID, payload,
+        );
+    }
+
+    private getEndpoint(ID: number): VirtualEndpoint {
+        const endpoint = this.endpoints.get(ID);
+        if (!endpoint) {
+            throw new Error(`Virtual device '${this.ieeeAddr}' has no endpoint '${ID}'`);
+        }
+
+        return endpoint;
+    }
+}
+
+export default VirtualDevice;
+export {AttributeChange};
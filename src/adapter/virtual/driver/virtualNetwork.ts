@@ -0,0 +1,454 @@
+import events from 'events';
+import Debug from "debug";
+import equals from 'fast-deep-equal/es6';
+import {ZclFrame, FrameType, Direction, Utils as ZclUtils} from '../../../zcl';
+import {KeyValue} from '../../../controller/tstype';
+import * as Events from '../../events';
+import {NetworkOptions, StartResult, LQINeighbor, RoutingTableEntry} from '../../tstype';
+import {VirtualDeviceDefinition} from './tstype';
+import VirtualDevice, {AttributeChange} from './virtualDevice';
+
+const debug = Debug("zigbee-herdsman:adapter:virtual:network");
+
+const BroadcastEndpoint = 0xFF;
+
+const CoordinatorEndpoints = [
+    {
+        ID: 1, profileID: 0x0104, deviceID: 0x0005,
+        inputClusters: [0x0000, 0x0003, 0x0006, 0x000A, 0x0019, 0x001A, 0x0300],
+        outputClusters: [0x0000, 0x0003, 0x0004, 0x0005, 0x0006, 0x0008, 0x0020, 0x0300, 0x0400, 0x0402, 0x0405,
+            0x0406, 0x0500, 0x0B01, 0x0B03, 0x0B04, 0x0702, 0x1000, 0xFC01, 0xFC02],
+    },
+    {ID: 242, profileID: 0xA1E0, deviceID: 0x0061, inputClusters: [], outputClusters: [0x0021]},
+];
+
+interface VirtualNetworkParameters {
+    panID: number;
+    extendedPanID: number[];
+    channel: number;
+    networkKey: number[];
+    networkKeySequenceNumber: number;
+    frameCounter: number;
+    nwkUpdateId: number;
+}
+
+/**
+ * Simulated Zigbee network consisting of a coordinator and a population of virtual devices.
+ *
+ * Networks are looked up by the path of the `VirtualAdapter` (e.g. `virtual://office`), this allows a test to
+ * populate and script the network while the `Controller` talks to it through its public API.
+ */
+class VirtualNetwork extends events.EventEmitter {
+    private static networks: Map<string, VirtualNetwork> = new Map();
+
+    public coordinatorIeeeAddr: string;
+    public transmitPower: number;
+    public installCodes: Map<string, Buffer>;
+    /**
+     * Energy (0 - 255) reported by energy scans per channel, channels not in here report 0.
+     */
+    public channelEnergy: Map<number, number>;
+    private parameters: VirtualNetworkParameters;
+    private allDevices: Map<string, VirtualDevice>;
+    private joinPermitted: {networkAddress: number};
+    // eslint-disable-next-line
+    private permitJoinTimer: any;
+
+    public constructor() {
+        super();
+        this.coordinatorIeeeAddr = '0x00124b00ffffffff';
+        this.transmitPower = null;
+        this.installCodes = new Map();
+        this.channelEnergy = new Map();
+        this.parameters = null;
+        this.allDevices = new Map();
+        this.joinPermitted = null;
+        this.permitJoinTimer = null;
+    }
+
+    /**
+     * Get the network for a path, the network is created when it doesn't exist yet.
+     */
+    public static get(path: string): VirtualNetwork {
+        if (!VirtualNetwork.networks.has(path)) {
+            VirtualNetwork.networks.set(path, new VirtualNetwork());
+        }
+
+        return VirtualNetwork.networks.get(path);
+    }
+
+    public static remove(path: string): void {
+        VirtualNetwork.networks.delete(path);
+    }
+
+    public get networkParameters(): VirtualNetworkParameters {
+        return this.parameters ? {...this.parameters} : null;
+    }
+
+    public get coordinatorEndpoints(): typeof CoordinatorEndpoints {
+        return CoordinatorEndpoints.map((e) => ({...e}));
+    }
+
+    /**
+     * All devices which are currently part of the network.
+     */
+    public get devices(): VirtualDevice[] {
+        return Array.from(this.allDevices.values()).filter((d) => d.joined);
+    }
+
+    public start(options: NetworkOptions, preventReset = false): StartResult {
+        const formed = this.parameters != null &&
+            this.parameters.panID === options.panID &&
+            options.channelList.includes(this.parameters.channel) &&
+            (!options.extendedPanID || equals(this.parameters.extendedPanID, options.extendedPanID)) &&
+            (!options.networkKey || equals(this.parameters.networkKey, options.networkKey));
+
+        if (formed) {
+            debug(`Resuming network on channel '${this.parameters.channel}'`);
+            return 'resumed';
+        }
+
+        if (preventReset) {
+            throw new Error('Adapter is not on the configured network and reset is prevented');
+        }
+
+        this.parameters = {
+            panID: options.panID,
+            extendedPanID: options.extendedPanID ? [...options.extendedPanID] : [0xDD, 0xDD, 0xDD, 0xDD, 0xDD,
+                0xDD, 0xDD, 0xDD],
+            channel: options.channelList[0],
+            networkKey: options.networkKey ? [...options.networkKey] : Array.from({length: 16}, () => 0),
+            networkKeySequenceNumber: 0,
+            frameCounter: 0,
+            nwkUpdateId: 0,
+        };
+
+        for (const device of this.allDevices.values()) {
+            device.joined = false;
+        }
+
+        debug(`Formed network on channel '${this.parameters.channel}'`);
+        return 'reset';
+    }
+
+    public stop(): void {
+        clearTimeout(this.permitJoinTimer);
+        this.joinPermitted = null;
+    }
+
+    public reset(type: 'soft' | 'hard'): void {
+        this.stop();
+        if (type === 'hard') {
+            this.parameters = null;
+            for (const device of this.allDevices.values()) {
+                device.joined = false;
+            }
+        }
+    }
+
+    /**
+     * Population
+     */
+
+    public addDevice(definition: VirtualDeviceDefinition): VirtualDevice {
+        if (this.allDevices.has(definition.ieeeAddr)) {
+            throw new Error(`Virtual device '${definition.ieeeAddr}' already exists`);
+        }
+
+        const device = new VirtualDevice(definition);
+        this.allDevices.set(device.ieeeAddr, device);
+        return device;
+    }
+
+    public getDevice(ieeeAddr: string): VirtualDevice {
+        const device = this.allDevices.get(ieeeAddr);
+        if (!device) {
+            throw new Error(`Virtual device '${ieeeAddr}' does not exist`);
+        }
+
+        return device;
+    }
+
+    /**
+     * Scripting
+     */
+
+    /**
+     * Let a device join the network, joining has to be permitted (globally or through its parent).
+     */
+    public join(ieeeAddr: string): void {
+        const device = this.getDevice(ieeeAddr);
+        const parent = device.parent ? this.getDevice(device.parent).networkAddress : 0;
+        if (!this.joinPermitted || (this.joinPermitted.networkAddress != null &&
+            this.joinPermitted.networkAddress !== parent)) {
+            throw new Error(`Virtual device '${ieeeAddr}' cannot join, joining is not permitted`);
+        }
+
+        device.joined = true;
+        device.sleeping = false;
+        this.parameters.frameCounter++;
+        debug(`Device '${ieeeAddr}' joined`);
+
+        const payload: Events.DeviceJoinedPayload = {networkAddress: device.networkAddress, ieeeAddr};
+        this.emit(Events.Events.deviceJoined, payload);
+        this.announce(ieeeAddr);
+    }
+
+    /**
+     * Let a device announce itself, optionally with a new network address (e.g. after a rejoin).
+     */
+    public announce(ieeeAddr: string, networkAddress?: number): void {
+        const device = this.getJoinedDevice(ieeeAddr);
+        device.networkAddress = networkAddress ?? device.networkAddress;
+        const payload: Events.DeviceAnnouncePayload = {networkAddress: device.networkAddress, ieeeAddr};
+        this.emit(Events.Events.deviceAnnounce, payload);
+    }
+
+    public leave(ieeeAddr: string): void {
+        const device = this.getJoinedDevice(ieeeAddr);
+        device.joined = false;
+        debug(`Device '${ieeeAddr}' left`);
+        const payload: Events.DeviceLeavePayload = {networkAddress: device.networkAddress, ieeeAddr};
+        this.emit(Events.Events.deviceLeave, payload);
+    }
+
+    public sleep(ieeeAddr: string): void {
+        this.getJoinedDevice(ieeeAddr).sleeping = true;
+    }
+
+    public wake(ieeeAddr: string): void {
+        this.getJoinedDevice(ieeeAddr).sleeping = false;
+    }
+
+    /**
+     * Update attributes of a device and send an attribute report for them to the coordinator.
+     */
+    public report(ieeeAddr: string, endpoint: number, clusterKey: string | number, attributes: KeyValue): void {
+        const device = this.getJoinedDevice(ieeeAddr);
+        const cluster = ZclUtils.getCluster(clusterKey);
+        device.setAttributes(endpoint, cluster.name, attributes);
+        this.sendReport(device, endpoint, {cluster: cluster.name, attributes});
+    }
+
+    /**
+     * Send a cluster specific command from a device to the coordinator, e.g. a button press of a remote.
+     */
+    public command(
+        ieeeAddr: string, endpoint: number, clusterKey: string | number, command: string, payload: KeyValue,
+    ): void {
+        const device = this.getJoinedDevice(ieeeAddr);
+        const frame = ZclFrame.create(
+            FrameType.SPECIFIC, Direction.CLIENT_TO_SERVER, true, null, this.nextTransactionSequenceNumber(),
+            command, clusterKey, payload,
+        );
+        this.emitZclData(device, endpoint, frame);
+    }
+
+    /**
+     * Used by the adapter
+     */
+
+    public permitJoin(seconds: number, networkAddress: number): void {
+        clearTimeout(this.permitJoinTimer);
+        this.permitJoinTimer = null;
+        this.joinPermitted = seconds > 0 ? {networkAddress} : null;
+
+        if (seconds > 0 && seconds < 255) {
+            this.permitJoinTimer = setTimeout(() => {
+                this.joinPermitted = null;
+            }, seconds * 1000);
+        }
+    }
+
+    /**
+     * Returns the device with this network address, throws when the device cannot be reached.
+     */
+    public getReachableDevice(networkAddress: number): VirtualDevice {
+        const device = this.devices.find((d) => d.networkAddress === networkAddress);
+        if (!device) {
+            throw new Error(`Virtual device with network address '${networkAddress}' is not in the network`);
+        } else if (device.sleeping) {
+            throw new Error(`Virtual device with network address '${networkAddress}' is sleeping`);
+        }
+
+        return device;
+    }
+
+    public sendZclFrameToEndpoint(networkAddress: number, endpoint: number, zclFrame: ZclFrame): void {
+        if (networkAddress === 0) {
+            debug(`Frame is addressed to the coordinator itself, dropping it`);
+            return;
+        }
+
+        const device = this.getReachableDevice(networkAddress);
+        if (!device.hasEndpoint(endpoint)) {
+            debug(`Device '${device.ieeeAddr}' has no endpoint '${endpoint}', dropping frame`);
+            return;
+        }
+
+        this.deliver(device, endpoint, zclFrame, true);
+    }
+
+    public sendZclFrameToGroup(groupID: number, zclFrame: ZclFrame): void {
+        for (const device of this.devices.filter((d) => !d.sleeping)) {
+            for (const endpoint of device.endpointIDs.filter((e) => device.isGroupMember(e, groupID))) {
+                this.deliver(device, endpoint, zclFrame, false);
+            }
+        }
+    }
+
+    public sendZclFrameToAll(endpoint: number, zclFrame: ZclFrame): void {
+        for (const device of this.devices.filter((d) => !d.sleeping)) {
+            const endpoints = endpoint === BroadcastEndpoint ? device.endpointIDs :
+                device.endpointIDs.filter((e) => e === endpoint);
+            for (const ID of endpoints) {
+                this.deliver(device, ID, zclFrame, false);
+            }
+        }
+    }
+
+    public lqi(networkAddress: number): LQINeighbor[] {
+        const node = networkAddress === 0 ? null : this.getReachableDevice(networkAddress);
+        const neighbors: LQINeighbor[] = [];
+        if (node) {
+            const parent = node.parent ? this.devices.find((d) => d.ieeeAddr === node.parent) : null;
+            neighbors.push({
+                ieeeAddr: parent ? parent.ieeeAddr : this.coordinatorIeeeAddr,
+                networkAddress: parent ? parent.networkAddress : 0,
+                linkquality: node.linkquality, relationship: 0, depth: parent ? 1 : 0,
+            });
+        }
+
+        for (const child of this.getChildren(node)) {
+            neighbors.push({
+                ieeeAddr: child.ieeeAddr, networkAddress: child.networkAddress, linkquality: child.linkquality,
+                relationship: 1, depth: node ? 2 : 1,
+            });
+        }
+
+        return neighbors;
+    }
+
+    public routingTable(networkAddress: number): RoutingTableEntry[] {
+        const node = networkAddress === 0 ? null : this.getReachableDevice(networkAddress);
+        return this.getChildren(node).filter((d) => d.type === 'Router')
+            .map((d) => ({destinationAddress: d.networkAddress, status: 'ACTIVE', nextHop: d.networkAddress}));
+    }
+
+    /**
+     * Distribute a new network key to all devices and switch to it, sleeping devices receive it as well.
+     */
+    public rotateNetworkKey(key: number[]): void {
+        if (!this.parameters) {
+            throw new Error('Cannot rotate network key, network is not formed');
+        }
+
+        this.parameters.networkKey = [...key];
+        this.parameters.networkKeySequenceNumber = (this.parameters.networkKeySequenceNumber + 1) & 0xFF;
+        this.parameters.frameCounter = 0;
+        debug(`Switched to network key with sequence number '${this.parameters.networkKeySequenceNumber}'`);
+    }
+
+    /**
+     * Move the network to another channel, sleeping devices move along as well.
+     */
+    public changeChannel(channel: number): void {
+        if (!this.parameters) {
+            throw new Error('Cannot change channel, network is not formed');
+        }
+
+        this.parameters.channel = channel;
+        this.parameters.nwkUpdateId = (this.parameters.nwkUpdateId + 1) & 0xFF;
+        debug(`Moved network to channel '${channel}'`);
+    }
+
+    public scanChannels(networkAddress: number, channels: number[]): {channel: number; energy: number}[] {
+        if (networkAddress !== 0) {
+            this.getReachableDevice(networkAddress);
+        }
+
+        return channels.map((channel) => ({channel, energy: this.channelEnergy.get(channel) ?? 0}));
+    }
+
+    public removeDevice(networkAddress: number, ieeeAddr: string): void {
+        const device = this.getReachableDevice(networkAddress);
+        if (device.ieeeAddr !== ieeeAddr) {
+            throw new Error(`Virtual device with network address '${networkAddress}' is not '${ieeeAddr}'`);
+        }
+
+        this.leave(ieeeAddr);
+    }
+
+    /**
+     * Private
+     */
+
+    private getJoinedDevice(ieeeAddr: string): VirtualDevice {
+        const device = this.getDevice(ieeeAddr);
+        if (!device.joined) {
+            throw new Error(`Virtual device '${ieeeAddr}' is not in the network`);
+        }
+
+        return device;
+    }
+
+    private getChildren(node: VirtualDevice): VirtualDevice[] {
+        return this.devices.filter((d) => (d.parent ?? null) === (node ? node.ieeeAddr : null));
+    }
+
+    private deliver(device: VirtualDevice, endpoint: number, zclFrame: ZclFrame, respond: boolean): void {
+        // Serialize the frame like it would go over the air.
+        const frame = ZclFrame.fromBuffer(zclFrame.Cluster.ID, zclFrame.toBuffer());
+        const result = device.handleFrame(endpoint, frame);
+        this.parameters.frameCounter++;
+
+        if (respond && result.response) {
+            this.emitZclData(device, endpoint, result.response);
+        }
+
+        for (const change of result.changes) {
+            this.sendReport(device, endpoint, change);
+        }
+    }
+
+    private sendReport(device: VirtualDevice, endpoint: number, change: AttributeChange): void {
+        const attributes = device.getReportableChanges(endpoint, change);
+        if (Object.keys(attributes).length === 0) {
+            return;
+        }
+
+        const cluster = ZclUtils.getCluster(change.cluster);
+        const payload = Object.entries(attributes).map(([name, value]) => {
+            const attribute = cluster.getAttribute(name);
+            return {attrId: attribute.ID, dataType: attribute.type, attrData: value};
+        });
+
+        const frame = ZclFrame.create(
+            FrameType.GLOBAL, Direction.SERVER_TO_CLIENT, true, null, this.nextTransactionSequenceNumber(),
+            'report', cluster.ID, payload,
+        );
+        this.emitZclData(device, endpoint, frame);
+    }
+
+    private emitZclData(device: VirtualDevice, endpoint: number, zclFrame: ZclFrame): void {
+        const payload: Events.ZclDataPayload = {
+            frame: ZclFrame.fromBuffer(zclFrame.Cluster.ID, zclFrame.toBuffer()),
+            address: device.networkAddress,
+            endpoint,
+            linkquality: device.linkquality,
+            groupID: 0,
+            wasBroadcast: false,
+            destinationEndpoint: 1,
+        };
+
+        this.emit(Events.Events.zclData, payload);
+    }
+
+    private nextTransactionSequenceNumber(): number {
+        this.parameters.frameCounter++;
+        return this.parameters.frameCounter & 0xFF;
+    }
+}
+
+export default VirtualNetwork;
+export {VirtualNetworkParameters};
@@ -0,0 +1,219 @@
+/* eslint-disable max-len */
+import Debug from "debug";
+import {Znp} from "../znp";
+import * as Structs from "../structs";
+import * as ZStackModels from "../models";
+import {AdapterNvMemory} from "./adapter-nv-memory";
+import {NvItemsIds, NvSystemIds} from "../constants/common";
+import {Subsystem} from "../unpi/constants";
+import {ZnpVersion} from "./tstype";
+
+type NvItemName = keyof typeof NvItemsIds;
+type Decoder = (data: Buffer, alignment: Structs.StructMemoryAlignment) => unknown;
+
+/**
+ * Converts a struct into a JSON friendly object, buffers are represented as hex strings.
+ */
+const toPlain = (struct: Structs.BuiltStruct): Record<string, unknown> => {
+    const json = struct.toJSON();
+    return Object.keys(json).reduce((plain, key) => {
+        const member = json[key];
+        plain[key] = Buffer.isBuffer(member) ? member.toString("hex") : (member?.toJSON ? toPlain(member) : member);
+        return plain;
+    }, {} as Record<string, unknown>);
+};
+
+const struct = (factory: (data: Buffer) => Structs.BuiltStruct): Decoder =>
+    (data) => toPlain(factory(data));
+const table = (factory: (data: Buffer, alignment: Structs.StructMemoryAlignment) => {entries: Structs.BuiltStruct[]}): Decoder =>
+    (data, alignment) => factory(data, alignment).entries.map(toPlain);
+
+/**
+ * Items which have a known struct definition and are decoded within the dump.
+ */
+const ITEM_DECODERS: {[id: number]: Decoder} = {
+    [NvItemsIds.NIB]: struct(Structs.nib),
+    [NvItemsIds.ADDRMGR]: table(Structs.addressManagerTable),
+    [NvItemsIds.NWK_ACTIVE_KEY_INFO]: struct(Structs.nwkKeyDescriptor),
+    [NvItemsIds.NWK_ALTERN_KEY_INFO]: struct(Structs.nwkKeyDescriptor),
+    [NvItemsIds.APS_LINK_KEY_TABLE]: table(Structs.securityManagerTable),
+    [NvItemsIds.PRECFGKEY]: struct(Structs.nwkKey),
+    [NvItemsIds.PANID]: struct(Structs.nwkPanId),
+    [NvItemsIds.CHANLIST]: struct(Structs.channelList),
+    [NvItemsIds.TCLK_SEED]: struct(Structs.nwkKey),
+    [NvItemsIds.ZNP_HAS_CONFIGURED_ZSTACK1]: struct(Structs.hasConfigured),
+    [NvItemsIds.ZNP_HAS_CONFIGURED_ZSTACK3]: struct(Structs.hasConfigured),
+};
+
+/**
+ * Legacy tables occupy a range of NV items starting at the table id.
+ */
+const LEGACY_TABLES: {name: NvItemName, maxLength: number, decoder: Decoder}[] = [
+    {name: "LEGACY_NWK_SEC_MATERIAL_TABLE_START", maxLength: 12, decoder: struct(Structs.nwkSecMaterialDescriptorEntry)},
+    {name: "LEGACY_TCLK_TABLE_START", maxLength: 239, decoder: struct(Structs.apsTcLinkKeyEntry)},
+    {name: "APS_LINK_KEY_DATA_START", maxLength: 255, decoder: struct(Structs.apsLinkKeyDataEntry)},
+];
+
+/**
+ * Extended tables (Z-Stack 3.x.0+) are addressed by system id, item id and entry sub id.
+ */
+const EXTENDED_TABLES: {name: NvItemName, decoder: Decoder}[] = [
+    {name: "ZCD_NV_EX_ADDRMGR", decoder: struct(Structs.addressManagerEntry)},
+    {name: "EX_TCLK_TABLE", decoder: struct(Structs.apsTcLinkKeyEntry)},
+    {name: "ZCD_NV_EX_APS_KEY_DATA_TABLE", decoder: struct(Structs.apsLinkKeyDataEntry)},
+    {name: "EX_NWK_SEC_MATERIAL_TABLE", decoder: struct(Structs.nwkSecMaterialDescriptorEntry)},
+];
+
+/**
+ * Single legacy items, these are all item ids except for table ids. Ids shared by multiple names are read once.
+ */
+const LEGACY_ITEMS = (Object.keys(NvItemsIds) as NvItemName[])
+    .filter((name) => isNaN(Number(name)))
+    .filter((name) => ![...LEGACY_TABLES, ...EXTENDED_TABLES].some((t) => t.name === name))
+    .filter((name) => !["LEGACY_TCLK_TABLE_START_12", "APS_LINK_KEY_DATA_END"].includes(name))
+    .filter((name, index, names) => names.findIndex((n) => NvItemsIds[n] === NvItemsIds[name]) === index);
+
+/**
+ * Class providing a complete dump of ZNP adapter NV memory. Unlike the backup, which only covers network
+ * configuration, the dump contains every known item and can be used to snapshot and investigate adapter state.
+ */
+export class AdapterNvDump {
+
+    private znp: Znp;
+    private nv: AdapterNvMemory;
+    private debug = Debug("zigbee-herdsman:adapter:zStack:nvDump");
+
+    public constructor(znp: Znp, nv: AdapterNvMemory) {
+        this.znp = znp;
+        this.nv = nv;
+    }
+
+    /**
+     * Compares two dumps, an item is changed when its raw value differs.
+     *
+     * @param before Dump to compare against.
+     * @param after Dump to compare.
+     */
+    public static diff(before: ZStackModels.NvDump, after: ZStackModels.NvDump): ZStackModels.NvDumpDiff {
+        const address = (item: ZStackModels.NvDumpItem): string => `${item.sysId ?? "-"}:${item.id}:${item.subId ?? "-"}`;
+        const beforeItems = new Map(before.items.map((item) => [address(item), item]));
+        const afterItems = new Map(after.items.map((item) => [address(item), item]));
+        return {
+            added: after.items.filter((item) => !beforeItems.has(address(item))),
+            removed: before.items.filter((item) => !afterItems.has(address(item))),
+            changed: after.items
+                .filter((item) => beforeItems.has(address(item)) && beforeItems.get(address(item)).value.toLowerCase() !== item.value.toLowerCase())
+                .map((item) => ({before: beforeItems.get(address(item)), after: item})),
+        };
+    }
+
+    /**
+     * Reads all known NV items from connected ZNP adapter. Items which are not present or cannot be read are
+     * omitted from the dump.
+     */
+    public async createDump(): Promise<ZStackModels.NvDump> {
+        this.debug("creating nv dump");
+        const version = await this.getAdapterVersion();
+        const items: ZStackModels.NvDumpItem[] = [];
+
+        for (const name of LEGACY_ITEMS) {
+            const id = NvItemsIds[name];
+            let value: Buffer;
+            try {
+                value = await this.nv.readItem(id);
+            } catch (error) {
+                this.debug(`failed to read nv item ${name} (id=${id}): ${error.message}`);
+            }
+            if (value) {
+                items.push(this.createItem(name, {id}, value, ITEM_DECODERS[id]));
+            }
+        }
+
+        for (const {name, maxLength, decoder} of LEGACY_TABLES) {
+            const entries = await this.nv.readTable("legacy", NvItemsIds[name], maxLength);
+            entries.forEach((value, index) => items.push(this.createItem(`${name}[${index}]`, {id: NvItemsIds[name] + index}, value, decoder)));
+        }
+
+        if (version === ZnpVersion.zStack3x0) {
+            for (const {name, decoder} of EXTENDED_TABLES) {
+                const entries = await this.nv.readTable("extended", NvSystemIds.ZSTACK, NvItemsIds[name]);
+                entries.forEach((value, subId) => items.push(this.createItem(`${name}[${subId}]`, {id: NvItemsIds[name], sysId: NvSystemIds.ZSTACK, subId}, value, decoder)));
+            }
+        }
+
+        this.debug(`created nv dump (items=${items.length})`);
+        return {
+            metadata: {
+                format: "zigbee-herdsman/zstack-nv-dump",
+                version: 1,
+                date: new Date().toISOString(),
+                znpVersion: version,
+                memoryAlignment: this.nv.memoryAlignment,
+            },
+            items,
+        };
+    }
+
+    /**
+     * Writes a dump back to connected ZNP adapter. Only items which differ are written, items which are not
+     * part of the dump are left untouched. The dump has to originate from an adapter with the same Z-Stack
+     * version and memory alignment since raw item values are platform specific.
+     *
+     * @param dump Dump to restore.
+     */
+    public async restoreDump(dump: ZStackModels.NvDump): Promise<void> {
+        this.debug("restoring nv dump");
+        if (dump?.metadata?.format !== "zigbee-herdsman/zstack-nv-dump" || dump.metadata.version !== 1) {
+            throw new Error("Unsupported NV dump format");
+        }
+        const version = await this.getAdapterVersion();
+        if (dump.metadata.znpVersion !== version) {
+            throw new Error(`NV dump is from a different Z-Stack version (dump=${ZnpVersion[dump.metadata.znpVersion]}, adapter=${ZnpVersion[version]})`);
+        }
+        if (dump.metadata.memoryAlignment !== this.nv.memoryAlignment) {
+            throw new Error(`NV dump has different memory alignment (dump=${dump.metadata.memoryAlignment}, adapter=${this.nv.memoryAlignment})`);
+        }
+
+        let written = 0;
+        for (const item of dump.items) {
+            const value = Buffer.from(item.value, "hex");
+            if (item.sysId === undefined) {
+                const current = await this.nv.readItem(item.id);
+                if (current?.equals(value)) {
+                    continue;
+                }
+                /* items cannot be resized, re-create item with length of the dump */
+                if (current && current.length !== value.length) {
+                    await this.nv.deleteItem(item.id);
+                }
+                await this.nv.writeItem(item.id, value);
+            } else {
+                const current = await this.nv.readExtendedTableEntry(item.sysId, item.id, item.subId);
+                if (current?.equals(value)) {
+                    continue;
+                }
+                await this.nv.writeExtendedTableEntry(item.sysId, item.id, item.subId, value);
+            }
+            this.debug(`restored nv item ${item.name}`);
+            written++;
+        }
+        this.debug(`restored nv dump (items=${dump.items.length}, written=${written})`);
+    }
+
+    private createItem(name: string, address: {id: number, sysId?: number, subId?: number}, value: Buffer, decoder?: Decoder): ZStackModels.NvDumpItem {
+        const item: ZStackModels.NvDumpItem = {name, ...address, value: value.toString("hex")};
+        if (decoder) {
+            try {
+                item.decoded = decoder(value, this.nv.memoryAlignment);
+            } catch (error) {
+                this.debug(`failed to decode nv item ${name}: ${error.message}`);
+            }
+        }
+        return item;
+    }
+
+    private async getAdapterVersion(): Promise<ZnpVersion> {
+        const versionResponse = await this.znp.request(Subsystem.SYS, "version", {});
+        return versionResponse.payload.product;
+    }
+}
@@ -11,6 +11,7 @@ import * as Utils from "../utils";
 import * as ZnpConstants from "../constants";
 import {AdapterBackup} from "./adapter-backup";
 import {AdapterNvMemory} from "./adapter-nv-memory";
+import {AdapterNvDump} from "./adapter-nv-dump";
 import {Subsystem} from "../unpi/constants";
 import * as UnpiConstants from "../unpi/constants";
 import * as crypto from "crypto";
@@ -31,6 +32,7 @@ export class ZnpAdapterManager {
 
     public nv: AdapterNvMemory;
     public backup: AdapterBackup;
+    public nvDump: AdapterNvDump;
 
     private znp: Znp;
     private options: ZStackModels.StartupOptions;
@@ -47,6 +49,7 @@ export class ZnpAdapterManager {
         this.options = options;
         this.nv = new AdapterNvMemory(this.znp);
         this.backup = new AdapterBackup(this.znp, this.nv, this.options.backupPath);
+        this.nvDump = new AdapterNvDump(this.znp, this.nv);
         this.logger = logger;
     }
 
@@ -83,6 +86,9 @@ export class ZnpAdapterManager {
             break;
         }
         case "startCommissioning": {
+            if (this.options.adapterOptions.preventReset) {
+                throw new Error("Adapter is not on the configured network and reset is prevented");
+            }
             if (this.options.version === ZnpVersion.zStack12) {
                 const hasConfigured = await this.nv.readItem(NvItemsIds.ZNP_HAS_CONFIGURED_ZSTACK1, 0, Structs.hasConfigured);
                 await this.beginCommissioning(this.nwkOptions);
@@ -171,6 +177,9 @@ export class ZnpAdapterManager {
             if (this.options.version === ZnpVersion.zStack12 && backup && backup.znp?.version !== undefined && backup.znp.version !== ZnpVersion.zStack12) {
                 throw new Error(`your backup is from newer platform version (Z-Stack 3.0.x+) and cannot be restored onto Z-Stack 1.2 adapter - please remove backup before proceeding`);
             }
+            if (backup?.zigate?.frameCounterUnknown) {
+                throw new Error(`your backup is from a ZiGate adapter which doesn't expose its network frame counter and cannot be restored onto Z-Stack adapter - please remove backup before proceeding`);
+            }
         };
         
         /* Determine startup strategy */
@@ -1,7 +1,7 @@
 import {
     NetworkOptions, SerialPortOptions, Coordinator, CoordinatorVersion, NodeDescriptor,
     DeviceType, ActiveEndpoints, SimpleDescriptor, LQI, RoutingTable, NetworkParameters,
-    StartResult, LQINeighbor, RoutingTableEntry, AdapterOptions,
+    StartResult, LQINeighbor, RoutingTableEntry, AdapterOptions, EnergyScanResult, AdapterCapabilities,
 } from '../../tstype';
 import {ZnpVersion} from './tstype';
 import * as Events from '../../events';
@@ -11,11 +11,16 @@ import {Constants as UnpiConstants} from '../unpi';
 import {ZclFrame, FrameType, Direction, Foundation} from '../../../zcl';
 import {Queue, Waitress, Wait} from '../../../utils';
 import * as Constants from '../constants';
+import {NvItemsIds} from '../constants/common';
+import * as Structs from '../structs';
+import * as ZStackUtils from '../utils';
 import Debug from "debug";
 import debounce from 'debounce';
 import {LoggerStub} from "../../../controller/logger-stub";
 import {ZnpAdapterManager} from "./manager";
+import {AdapterNvDump} from "./adapter-nv-dump";
 import * as Models from "../../../models";
+import * as ZStackModels from "../models";
 import assert from 'assert';
 
 const debug = Debug("zigbee-herdsman:adapter:zStack:adapter");
@@ -23,6 +28,17 @@ const Subsystem = UnpiConstants.Subsystem;
 const Type = UnpiConstants.Type;
 const {ZnpCommandStatus, AddressMode} = Constants.COMMON;
 
+/**
+ * Time between broadcasting a new network key and switching to it, gives sleepy end devices the chance to poll
+ * their parent and receive the new key.
+ */
+const NetworkKeySwitchDelay = 10000;
+
+/**
+ * Devices switch to the new channel after the channel change request has been broadcasted through the network.
+ */
+const ChannelChangeDelay = 10000;
+
 const DataConfirmTimeout = 9999; // Not an actual code
 const DataConfirmErrorCodeLookup: {[k: number]: string} = {
     [DataConfirmTimeout]: 'Timeout',
@@ -72,7 +88,10 @@ class ZStackAdapter extends Adapter {
         serialPortOptions: SerialPortOptions, backupPath: string, adapterOptions: AdapterOptions, logger?: LoggerStub) {
 
         super(networkOptions, serialPortOptions, backupPath, adapterOptions, logger);
-        this.znp = new Znp(this.serialPortOptions.path, this.serialPortOptions.baudRate, this.serialPortOptions.rtscts);
+        this.znp = new Znp(
+            this.serialPortOptions.path, this.serialPortOptions.baudRate, this.serialPortOptions.rtscts,
+            this.serialPortOptions.record,
+        );
 
         this.transactionID = 0;
         this.deviceAnnounceRouteDiscoveryDebouncers = new Map();
@@ -158,6 +177,23 @@ class ZStackAdapter extends Adapter {
         return Znp.autoDetectPath();
     }
 
+    public static async probe(path: string): Promise<string> {
+        const znp = new Znp(path, 115200, false);
+        try {
+            await znp.open();
+            await znp.request(Subsystem.SYS, 'ping', {capabilities: 1}, null, 1000);
+            try {
+                const version = (await znp.request(Subsystem.SYS, 'version', {}, null, 1000)).payload;
+                return `${ZnpVersion[version.product]} ${version.revision}`;
+            } catch (error) {
+                // Old firmware does not support version
+                return ZnpVersion[ZnpVersion.zStack12];
+            }
+        } finally {
+            await znp.close();
+        }
+    }
+
     public async getCoordinator(): Promise<Coordinator> {
         return this.queue.execute<Coordinator>(async () => {
             this.checkInterpanLock();
@@ -662,12 +698,84 @@ class ZStackAdapter extends Adapter {
         }, networkAddress);
     }
 
+    public async scanChannels(
+        networkAddress: number, channels: number[], duration: number,
+    ): Promise<EnergyScanResult[]> {
+        return this.queue.execute<EnergyScanResult[]>(async (): Promise<EnergyScanResult[]> => {
+            this.checkInterpanLock();
+            // A channel is scanned for (2^duration + 1) superframes of 15.36 ms
+            const timeout = channels.length * (2 ** duration + 1) * 15.36 + 10000;
+            const response = this.znp.waitFor(
+                Type.AREQ, Subsystem.ZDO, 'mgmtNwkUpdateNotify', {srcaddr: networkAddress}, timeout,
+            );
+            const payload = {
+                dstaddr: networkAddress, dstaddrmode: AddressMode.ADDR_16BIT,
+                channelmask: ZStackUtils.packChannelList(channels), scanduration: duration, scancount: 1,
+                nwkmanageraddr: 0,
+            };
+            await this.znp.request(Subsystem.ZDO, 'mgmtNwkUpdateReq', payload, response.ID);
+            const result = await response.start().promise;
+            if (result.payload.status !== ZnpCommandStatus.SUCCESS) {
+                throw new Error(`Energy scan for '${networkAddress}' failed with error: '${
+                    ZnpCommandStatus[result.payload.status]}' (${result.payload.status})`);
+            }
+
+            const scanned = ZStackUtils.unpackChannelList(result.payload.scannedchannels);
+            return scanned.map((channel, index) => ({channel, energy: result.payload.energyvalues[index]}));
+        }, networkAddress);
+    }
+
     public async addInstallCode(ieeeAddress: string, key: Buffer): Promise<void> {
         assert(this.version.product !== ZnpVersion.zStack12, 'Install code is not supported for ZStack 1.2 adapter');
         const payload = {installCodeFormat: key.length === 18 ? 1 : 2, ieeeaddr: ieeeAddress, installCode: key};
         await this.znp.request(Subsystem.APP_CNF, 'bdbAddInstallCode', payload);
     }
 
+    public async rotateNetworkKey(key: Buffer): Promise<void> {
+        assert(
+            this.version.product !== ZnpVersion.zStack12,
+            'Network key rotation is not supported for ZStack 1.2 adapter',
+        );
+        return this.queue.execute<void>(async () => {
+            const activeKeyInfo = await this.adapterManager.nv.readItem(
+                NvItemsIds.NWK_ACTIVE_KEY_INFO, 0, Structs.nwkKeyDescriptor
+            );
+            const keyseqnum = (activeKeyInfo.keySeqNum + 1) & 0xFF;
+            debug(`Rotating network key, new key sequence number '${keyseqnum}'`);
+            await this.znp.request(Subsystem.ZDO, 'extUpdateNwkKey', {dstaddr: 0xFFFF, keyseqnum, key});
+            await Wait(NetworkKeySwitchDelay);
+            await this.znp.request(Subsystem.ZDO, 'extSwitchNwkKey', {dstaddr: 0xFFFF, keyseqnum});
+
+            /* keep the pre-configured key in sync, otherwise the adapter is re-commissioned on the next start */
+            await this.adapterManager.nv.writeItem(NvItemsIds.PRECFGKEY, key);
+        });
+    }
+
+    public async changeChannel(channel: number): Promise<void> {
+        return this.queue.execute<void>(async () => {
+            this.checkInterpanLock();
+            const channelmask = ZStackUtils.packChannelList([channel]);
+            const payload = {
+                dstaddr: 0xFFFD, dstaddrmode: AddressMode.ADDR_BROADCAST, channelmask, scanduration: 0xFE,
+                scancount: 0, nwkmanageraddr: 0,
+            };
+            await this.znp.request(Subsystem.ZDO, 'mgmtNwkUpdateReq', payload);
+            await Wait(ChannelChangeDelay);
+
+            const nib = await this.adapterManager.nv.readItem(NvItemsIds.NIB, 0, Structs.nib);
+            if (nib.nwkLogicalChannel !== channel) {
+                throw new Error(`Channel change failed, adapter is still on channel '${nib.nwkLogicalChannel}'`);
+            }
+
+            /* keep the channel list in sync, otherwise the adapter is re-commissioned on the next start */
+            nib.channelList = channelmask;
+            await this.adapterManager.nv.writeItem(NvItemsIds.NIB, nib);
+            const channelList = Structs.channelList();
+            channelList.channelList = channelmask;
+            await this.adapterManager.nv.updateItem(NvItemsIds.CHANLIST, channelList.serialize());
+        });
+    }
+
     public async bind(
         destinationNetworkAddress: number, sourceIeeeAddress: string, sourceEndpoint: number,
         clusterID: number, destinationAddressOrGroup: string | number, type: 'endpoint' | 'group',
@@ -842,9 +950,10 @@ class ZStackAdapter extends Adapter {
 
     public async getNetworkParameters(): Promise<NetworkParameters> {
         const result = await this.znp.request(Subsystem.ZDO, 'extNwkInfo', {});
+        const nib = await this.adapterManager.nv.readItem(NvItemsIds.NIB, 0, Structs.nib);
         return {
             panID: result.payload.panid, extendedPanID: result.payload.extendedpanid,
-            channel: result.payload.channel
+            channel: result.payload.channel, networkUpdateID: nib.nwkUpdateId,
         };
     }
 
@@ -852,10 +961,50 @@ class ZStackAdapter extends Adapter {
         return true;
     }
 
+    public async getCapabilities(): Promise<AdapterCapabilities> {
+        const zStack12 = this.version.product === ZnpVersion.zStack12;
+        return {
+            backup: true,
+            restore: true,
+            installCodes: !zStack12,
+            interPAN: true,
+            routingTable: true,
+            reset: ['soft', 'hard'],
+            transmitPower: true,
+            channelChange: true,
+            networkKeyRotation: !zStack12,
+            energyScan: true,
+            sourceRouting: true,
+        };
+    }
+
     public async backup(ieeeAddressesInDatabase: string[]): Promise<Models.Backup> {
         return this.adapterManager.backup.createBackup(ieeeAddressesInDatabase);
     }
 
+    /**
+     * Dumps all known NV items, including the ones not covered by the backup. The dump is JSON serializable.
+     */
+    public async dumpNv(): Promise<ZStackModels.NvDump> {
+        return this.queue.execute<ZStackModels.NvDump>(async () => {
+            return this.adapterManager.nvDump.createDump();
+        });
+    }
+
+    /**
+     * Writes a dump created by `dumpNv()` back to the adapter. Z-Stack loads most items on startup, so the adapter
+     * should be reset afterwards.
+     */
+    public async restoreNv(dump: ZStackModels.NvDump): Promise<void> {
+        return this.queue.execute<void>(async () => {
+            return this.adapterManager.nvDump.restoreDump(dump);
+        });
+    }
+
+    public static diffNv(before: ZStackModels.NvDump, after: ZStackModels.NvDump): ZStackModels.NvDumpDiff {
+        return AdapterNvDump.diff(before, after);
+    }
+
     public async setChannelInterPAN(channel: number): Promise<void> {
         return this.queue.execute<void>(async () => {
             this.interpanLock = true;
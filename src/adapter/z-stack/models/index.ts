@@ -1 +1,2 @@
-export * from "./startup-options";
\ No newline at end of file
+export * from "./startup-options";
+export * from "./nv-dump";
\ No newline at end of file
@@ -0,0 +1,41 @@
+import {StructMemoryAlignment} from "../structs";
+import {ZnpVersion} from "../adapter/tstype";
+
+/**
+ * Single NV item within a dump. Legacy items are addressed by `id` only, extended table entries (Z-Stack 3.x.0+)
+ * additionally by `sysId` and `subId`.
+ */
+export interface NvDumpItem {
+    /* item name, table entries are suffixed with their index (e.g. `EX_TCLK_TABLE[3]`) */
+    name: string;
+    id: number;
+    sysId?: number;
+    subId?: number;
+    /* raw item contents as hex string, this is what gets restored */
+    value: string;
+    /* decoded contents for items with a known struct, informational only */
+    decoded?: unknown;
+}
+
+/**
+ * Dump of all known NV items of a ZNP adapter.
+ */
+export interface NvDump {
+    metadata: {
+        format: "zigbee-herdsman/zstack-nv-dump";
+        version: 1;
+        date: string;
+        znpVersion: ZnpVersion;
+        memoryAlignment: StructMemoryAlignment;
+    };
+    items: NvDumpItem[];
+}
+
+/**
+ * Differences between two NV dumps, items are matched by their address (`sysId`, `id`, `subId`).
+ */
+export interface NvDumpDiff {
+    added: NvDumpItem[];
+    removed: NvDumpItem[];
+    changed: {before: NvDumpItem; after: NvDumpItem}[];
+}
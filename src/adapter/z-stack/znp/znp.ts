@@ -9,6 +9,7 @@ import {Wait, Queue, Waitress, RealpathSync} from '../../../utils';
 import {SerialPort} from '../../serialPort';
 import SerialPortUtils from '../../serialPortUtils';
 import SocketPortUtils from '../../socketPortUtils';
+import SerialSession from '../../serialSession';
 
 import * as Constants from '../constants';
 
@@ -56,6 +57,7 @@ class Znp extends events.EventEmitter {
     private path: string;
     private baudRate: number;
     private rtscts: boolean;
+    private record: string;
 
     private portType: 'serial' | 'socket';
     private serialPort: SerialPort;
@@ -66,12 +68,13 @@ class Znp extends events.EventEmitter {
     private queue: Queue;
     private waitress: Waitress<ZpiObject, WaitressMatcher>;
 
-    public constructor(path: string, baudRate: number, rtscts: boolean) {
+    public constructor(path: string, baudRate: number, rtscts: boolean, record?: string) {
         super();
 
         this.path = path;
         this.baudRate = typeof baudRate === 'number' ? baudRate : 115200;
         this.rtscts = typeof rtscts === 'boolean' ? rtscts : false;
+        this.record = record;
         this.portType = SocketPortUtils.isTcpPath(path) ? 'socket' : 'serial';
 
         this.initialized = false;
@@ -130,6 +133,7 @@ class Znp extends events.EventEmitter {
 
         debug.log(`Opening SerialPort with ${JSON.stringify(options)}`);
         this.serialPort = new SerialPort(options);
+        SerialSession.record(this.serialPort, this.record);
 
         this.unpiWriter = new UnpiWriter();
         // eslint-disable-next-line @typescript-eslint/ban-ts-comment
@@ -166,9 +170,10 @@ class Znp extends events.EventEmitter {
         const info = SocketPortUtils.parseTcpPath(this.path);
         debug.log(`Opening TCP socket with ${info.host}:${info.port}`);
 
-        this.socketPort = new net.Socket();
+        this.socketPort = SocketPortUtils.createSocket(this.path);
         this.socketPort.setNoDelay(true);
         this.socketPort.setKeepAlive(true, 15000);
+        SerialSession.record(this.socketPort, this.record);
 
         this.unpiWriter = new UnpiWriter();
         this.unpiWriter.pipe(this.socketPort);
@@ -199,7 +204,7 @@ class Znp extends events.EventEmitter {
                 self.initialized = false;
             });
 
-            this.socketPort.connect(info.port, info.host);
+            SocketPortUtils.connect(this.socketPort, this.path);
         });
     }
 
@@ -0,0 +1,155 @@
+/* istanbul ignore file */
+import {fs} from "mz";
+import Driver from '../driver/zigate';
+import {ZiGateCommandCode, ZPSNwkKeyState} from "../driver/constants";
+import {Debug} from "../debug";
+import * as Models from "../../../models";
+import * as TsType from "../../tstype";
+import {BackupUtils} from "../../../utils";
+import {LoggerStub} from "../../../controller/logger-stub";
+
+const debug = Debug('backup');
+
+/**
+ * Size of a single entry in the devices list response (0x8015).
+ */
+const DEVICES_LIST_ENTRY_SIZE = 13;
+
+export class ZiGateAdapterBackup {
+    private driver: Driver;
+    private defaultPath: string;
+    private networkOptions: TsType.NetworkOptions;
+    private logger?: LoggerStub;
+
+    public constructor(driver: Driver, path: string, networkOptions: TsType.NetworkOptions, logger?: LoggerStub) {
+        this.driver = driver;
+        this.defaultPath = path;
+        this.networkOptions = networkOptions;
+        this.logger = logger;
+    }
+
+    /**
+     * Loads currently stored backup and returns it in internal backup model.
+     */
+    public async getStoredBackup(): Promise<Models.Backup> {
+        try {
+            await fs.access(this.defaultPath);
+        } catch (error) {
+            return null;
+        }
+        let data;
+        try {
+            data = JSON.parse((await fs.readFile(this.defaultPath)).toString());
+        } catch (error) {
+            throw new Error('Coordinator backup is corrupted');
+        }
+        if (data.metadata?.format === "zigpy/open-coordinator-backup" && data.metadata?.version) {
+            if (data.metadata?.version !== 1) {
+                throw new Error(`Unsupported open coordinator backup version (version=${data.metadata?.version})`);
+            }
+            return BackupUtils.fromUnifiedBackup(data as Models.UnifiedBackupStorage);
+        } else if (data.adapterType === "zStack") {
+            return BackupUtils.fromLegacyBackup(data as Models.LegacyBackupStorage);
+        } else {
+            throw new Error("Unknown backup format");
+        }
+    }
+
+    /**
+     * Returns true when the backup describes the network configured by the user, only then it may be restored.
+     * The PAN ID is not compared since ZiGate picks it when the network is started.
+     */
+    public static matchesNetworkOptions(backup: Models.Backup, options: TsType.NetworkOptions): boolean {
+        const extendedPanId = Buffer.from(options.extendedPanID);
+        return (backup.networkOptions.extendedPanId.equals(Buffer.from(extendedPanId).reverse()) ||
+                backup.networkOptions.extendedPanId.equals(extendedPanId)) &&
+            backup.networkOptions.networkKey.equals(Buffer.from(options.networkKey)) &&
+            options.channelList.includes(backup.logicalChannel);
+    }
+
+    /**
+     * ZiGate doesn't expose its network key, frame counter and network update ID, the configured network key is used
+     * and the backup is marked with an unknown frame counter. Restoring it onto another stack would restart the frame
+     * counter lower than the one devices have seen, therefore it can only be restored onto a ZiGate.
+     */
+    public async createBackup(ieeeAddressesInDatabase: string[] = []): Promise<Models.Backup> {
+        debug.log("creating backup");
+        const state = (await this.driver.sendCommand(ZiGateCommandCode.GetNetworkState, {}, 10000)).payload;
+        const devices = await this.getDevices(ieeeAddressesInDatabase);
+
+        return {
+            networkOptions: {
+                panId: state.PANID,
+                /* the extended PAN ID is read big endian, reverse it to get the over-the-air order */
+                extendedPanId: Buffer.from(state.ExtPANID.slice(2), "hex").reverse(),
+                channelList: [state.Channel],
+                networkKey: Buffer.from(this.networkOptions.networkKey),
+                networkKeyDistribute: false,
+            },
+            logicalChannel: state.Channel,
+            networkKeyInfo: {
+                sequenceNumber: 0,
+                frameCounter: 0,
+            },
+            securityLevel: 5,
+            networkUpdateId: 0,
+            coordinatorIeeeAddress: Buffer.from(state.extendedAddress.slice(2), "hex"),
+            devices,
+            zigate: {
+                frameCounterUnknown: true,
+            },
+        };
+    }
+
+    /**
+     * Sets the channel, network key and extended PAN ID of the backup, the network has to be started afterwards.
+     * Only possible on a factory new ZiGate, e.g. after a firmware reflash.
+     *
+     * ZiGate can't set its network frame counter, which restarts at 0. Backups of other stacks are refused since
+     * devices would drop frames until the counter exceeds the one of the backup.
+     */
+    public async restoreBackup(backup: Models.Backup): Promise<void> {
+        if (!backup.zigate?.frameCounterUnknown) {
+            throw new Error(`Cannot restore backup of other stack on ZiGate adapter (network frame counter ` +
+                `${backup.networkKeyInfo.frameCounter} cannot be restored), remove the backup at ` +
+                `'${this.defaultPath}' to form a new network`);
+        }
+
+        debug.log("restoring backup");
+        await this.driver.sendCommand(ZiGateCommandCode.SetChannelMask, {channelMask: 2 ** backup.logicalChannel});
+        await this.driver.sendCommand(ZiGateCommandCode.SetSecurityStateKey, {
+            keyType: this.networkOptions.networkKeyDistribute ?
+                ZPSNwkKeyState.ZPS_ZDO_DISTRIBUTED_LINK_KEY :
+                ZPSNwkKeyState.ZPS_ZDO_PRECONFIGURED_LINK_KEY,
+            key: backup.networkOptions.networkKey,
+        });
+        await this.driver.sendCommand(ZiGateCommandCode.SetExtendedPANID, {
+            panId: Buffer.from(backup.networkOptions.extendedPanId).reverse(),
+        });
+    }
+
+    /**
+     * ZiGate has no command to set the PAN ID, it picks one when the network is started. Devices find the restored
+     * network through its extended PAN ID when they rejoin, a different PAN ID is therefore reported but not fatal.
+     */
+    public async checkRestoredNetwork(backup: Models.Backup): Promise<void> {
+        const state = (await this.driver.sendCommand(ZiGateCommandCode.GetNetworkState, {}, 10000)).payload;
+        if (state.PANID !== backup.networkOptions.panId) {
+            this.logger?.warn(`ZiGate started the restored network with PAN ID ${state.PANID} instead of ` +
+                `${backup.networkOptions.panId}, devices that don't rejoin need to be re-paired`);
+        }
+    }
+
+    private async getDevices(ieeeAddressesInDatabase: string[]): Promise<Models.Backup["devices"]> {
+        const response = await this.driver.sendCommand(ZiGateCommandCode.GetDevicesList, {}, 10000);
+        const list: Buffer = response.payload.devices;
+        const devices: Models.Backup["devices"] = [];
+        for (let offset = 0; offset + DEVICES_LIST_ENTRY_SIZE <= list.length; offset += DEVICES_LIST_ENTRY_SIZE) {
+            const ieeeAddress = list.slice(offset + 3, offset + 11);
+            if (ieeeAddressesInDatabase.includes(`0x${ieeeAddress.toString("hex")}`)) {
+                devices.push({networkAddress: list.readUInt16BE(offset + 1), ieeeAddress, isDirectChild: false});
+            }
+        }
+        return devices;
+    }
+}
@@ -5,7 +5,7 @@ import {ActiveEndpoints, DeviceType, LQI, LQINeighbor, NodeDescriptor, SimpleDes
 import * as Events from '../../events';
 import Adapter from '../../adapter';
 import {Direction, Foundation, FrameType, ZclFrame} from '../../../zcl';
-import {Queue, Wait, Waitress} from '../../../utils';
+import {InstallCodeUtils, Queue, Wait, Waitress} from '../../../utils';
 import Driver from '../driver/zigate';
 import {Debug} from "../debug";
 import {
@@ -16,11 +16,12 @@ import {
     ZiGateMessageCode,
     ZPSNwkKeyState
 } from "../driver/constants";
-import {RawAPSDataRequestPayload} from "../driver/commandType";
+import {equal, RawAPSDataRequestPayload} from "../driver/commandType";
 import ZiGateObject from "../driver/ziGateObject";
 import {Buffalo} from "../../../buffalo";
 import {LoggerStub} from "../../../controller/logger-stub";
 import * as Models from "../../../models";
+import {ZiGateAdapterBackup} from "./backup";
 
 const debug = Debug('adapter');
 const default_bind_group = 901;  // https://github.com/Koenkk/zigbee-herdsman-converters/blob/master/lib/constants.js#L3
@@ -45,6 +46,8 @@ class ZiGateAdapter extends Adapter {
     private waitress: Waitress<Events.ZclDataPayload, WaitressMatcher>;
     private closing: boolean;
     private queue: Queue;
+    private backupMan: ZiGateAdapterBackup;
+    private zdoTransactionID: number;
 
     public constructor(networkOptions: TsType.NetworkOptions,
                        serialPortOptions: TsType.SerialPortOptions,
@@ -56,7 +59,9 @@ class ZiGateAdapter extends Adapter {
         super(networkOptions, serialPortOptions, backupPath, adapterOptions, logger);
 
         this.joinPermitted = false;
+        this.zdoTransactionID = 0;
         this.driver = new Driver(serialPortOptions.path, serialPortOptions);
+        this.backupMan = new ZiGateAdapterBackup(this.driver, backupPath, networkOptions, logger);
         this.waitress = new Waitress<Events.ZclDataPayload, WaitressMatcher>(
             this.waitressValidator, this.waitressTimeoutFormatter
         );
@@ -88,7 +93,17 @@ class ZiGateAdapter extends Adapter {
             await this.driver.sendCommand(ZiGateCommandCode.SetDeviceType, {
                 deviceType: DEVICE_TYPE.coordinator
             });
-            await this.initNetwork();
+            // a factory new ZiGate (e.g. after a firmware reflash) gets the network of the backup
+            const backup = startResult === 'reset' ? await this.backupMan.getStoredBackup() : null;
+            if (backup && ZiGateAdapterBackup.matchesNetworkOptions(backup, this.networkOptions)) {
+                await this.initNetwork(backup);
+                await this.backupMan.checkRestoredNetwork(backup);
+                startResult = 'restored';
+            } else if (startResult === 'reset' && this.adapterOptions?.preventReset) {
+                throw new Error('Adapter is not on the configured network and reset is prevented');
+            } else {
+                await this.initNetwork();
+            }
 
             await this.driver.sendCommand(ZiGateCommandCode.AddGroup, {
                 addressMode: ADDRESS_MODE.short ,
@@ -166,8 +181,33 @@ class ZiGateAdapter extends Adapter {
         this.joinPermitted = result.payload.status === 0;
     };
 
+    /**
+     * Authenticate device (0x0028) adds the link key derived from the install code as unique link key of the device,
+     * the firmware confirms it with the out of band commissioning data (0x8028) which isn't used further.
+     */
     public async addInstallCode(ieeeAddress: string, key: Buffer): Promise<void> {
-        return Promise.reject(new Error('Add install code is not supported'));
+        debug.log('addInstallCode %s', ieeeAddress);
+        const linkKey = InstallCodeUtils.toLinkKey(key);
+        const response = await this.driver.sendCommand(
+            ZiGateCommandCode.AuthenticateDevice, {extendedAddress: ieeeAddress, key: linkKey},
+        ).catch(() => Promise.reject(new Error(`Add install code for '${ieeeAddress}' failed`)));
+        debug.log('addInstallCode active key sequence number %d', response.payload.activeKeySequenceNumber);
+    }
+
+    /**
+     * The serial protocol doesn't allow to broadcast the next network key and switch to it, only writing the
+     * network key of the adapter is possible which would disconnect all devices.
+     */
+    public async rotateNetworkKey(key: Buffer): Promise<void> {
+        return Promise.reject(new Error('Network key rotation is not supported'));
+    }
+
+    /**
+     * The firmware doesn't report the network update ID, a channel change request with the incremented ID can't be
+     * created.
+     */
+    public async changeChannel(channel: number): Promise<void> {
+        return Promise.reject(new Error('Channel change is not supported'));
     }
 
     public async reset(type: 'soft' | 'hard'): Promise<void> {
@@ -187,8 +227,10 @@ class ZiGateAdapter extends Adapter {
             .then((NetworkStateResponse) => {
                 const resultPayload: TsType.NetworkParameters = {
                     panID: <number>NetworkStateResponse.payload.PANID,
-                    extendedPanID: <number>NetworkStateResponse.payload.ExtPANID,
-                    channel: <number>NetworkStateResponse.payload.Channel
+                    extendedPanID: <string>NetworkStateResponse.payload.ExtPANID,
+                    channel: <number>NetworkStateResponse.payload.Channel,
+                    // Not reported by the firmware, it's only changed by a channel change which isn't supported
+                    networkUpdateID: 0,
                 }
                 return Promise.resolve(resultPayload)
             }).catch(() => Promise.reject(new Error("Get network parameters failed")));
@@ -199,11 +241,27 @@ class ZiGateAdapter extends Adapter {
      * pdm from host
      */
     public async supportsBackup(): Promise<boolean> {
-        return false;
+        return true;
+    };
+
+    public async getCapabilities(): Promise<TsType.AdapterCapabilities> {
+        return {
+            backup: true,
+            restore: true,
+            installCodes: true,
+            interPAN: false,
+            routingTable: true,
+            reset: ['soft', 'hard'],
+            transmitPower: true,
+            channelChange: false,
+            networkKeyRotation: false,
+            energyScan: false,
+            sourceRouting: false,
+        };
     };
 
-    public async backup(): Promise<Models.Backup> {
-        throw new Error("This adapter does not support backup");
+    public async backup(ieeeAddressesInDatabase: string[]): Promise<Models.Backup> {
+        return this.backupMan.createBackup(ieeeAddressesInDatabase);
     };
 
     public async setTransmitPower(value: number): Promise<void> {
@@ -290,12 +348,107 @@ class ZiGateAdapter extends Adapter {
         }, networkAddress);
     };
 
-    // @TODO
-    public routingTable(networkAddress: number): Promise<TsType.RoutingTable> {
-        debug.log('RoutingTable, %o', arguments)
-        return;
+    /**
+     * The ZiGate firmware has no Mgmt_Rtg_req command, the request is sent as raw APS frame to the ZDO endpoint.
+     */
+    public async routingTable(networkAddress: number): Promise<TsType.RoutingTable> {
+
+        return this.queue.execute<TsType.RoutingTable>(async (): Promise<TsType.RoutingTable> => {
+            debug.log('RoutingTable, %o', arguments)
+
+            const table: TsType.RoutingTableEntry[] = [];
+            const statusLookup: {[n: number]: string} = {
+                0: 'ACTIVE',
+                1: 'DISCOVERY_UNDERWAY',
+                2: 'DISCOVERY_FAILED',
+                3: 'INACTIVE',
+                4: 'VALIDATION_UNDERWAY',
+            };
+
+            const add = (list: Buffer[]) => {
+                for (const entry of list) {
+                    table.push({
+                        destinationAddress: entry.readUInt16LE(0),
+                        status: statusLookup[entry.readUInt8(2) & 0x07],
+                        nextHop: entry.readUInt16LE(3)
+                    });
+                }
+            };
+
+            const request = async (startIndex: number): Promise<any> => {
+                try {
+                    const transactionID = this.nextZdoTransactionID();
+                    const payload: RawAPSDataRequestPayload = {
+                        addressMode: ADDRESS_MODE.short,
+                        targetShortAddress: networkAddress,
+                        sourceEndpoint: 0,
+                        destinationEndpoint: 0,
+                        profileID: 0x0000,
+                        clusterID: 0x0032, // Mgmt_Rtg_req
+                        securityMode: 0x02,
+                        radius: 30,
+                        dataLength: 2,
+                        data: Buffer.from([transactionID, startIndex]),
+                    };
+                    const waiter = this.driver.waitFor({
+                        ziGateObject: null,
+                        rules: [
+                            {receivedProperty: 'code', matcher: equal, value: ZiGateMessageCode.DataIndication},
+                            {receivedProperty: 'payload.sourceAddress', matcher: equal, value: networkAddress},
+                            {receivedProperty: 'payload.profileID', matcher: equal, value: 0x0000},
+                            {receivedProperty: 'payload.clusterID', matcher: equal, value: 0x8032},
+                        ],
+                    }).start();
+                    await this.driver.sendCommand(ZiGateCommandCode.RawAPSDataRequest, payload);
+                    const data = <Buffer>(await waiter.promise).payload.payload;
+
+                    if (data[1] !== 0) { // status
+                        throw new Error(`Routing table for '${networkAddress}' failed`);
+                    }
+                    const tableList: Buffer[] = [];
+                    const response = {
+                        status: data[1],
+                        tableEntrys: data[2],
+                        startIndex: data[3],
+                        tableListCount: data[4],
+                        tableList: tableList
+                    }
+
+                    for (let i = 0; i < response.tableListCount; i++) { // one tableentry = 5 bytes
+                        response.tableList.push(data.slice(5 + (i * 5), 10 + (i * 5)));
+                    }
+
+                    debug.log("ROUTING_TABLE RESPONSE - addr: " + networkAddress.toString(16) + " status: "
+                        + response.status + " read " + (response.tableListCount + response.startIndex)
+                        + "/" + response.tableEntrys + " entrys");
+                    return response;
+                } catch (error) {
+                    const msg = "ROUTING_TABLE REQUEST FAILED - addr: 0x" + networkAddress.toString(16) + " " + error;
+                    debug.log(msg);
+                    return Promise.reject(new Error(msg));
+                }
+            };
+
+            let response = await request(0);
+            add(response.tableList);
+            let nextStartIndex = response.tableListCount;
+
+            while (table.length < response.tableEntrys) {
+                response = await request(nextStartIndex);
+                add(response.tableList);
+                nextStartIndex += response.tableListCount;
+            }
+
+            return {table};
+        }, networkAddress);
     };
 
+    public async scanChannels(
+        networkAddress: number, channels: number[], duration: number,
+    ): Promise<TsType.EnergyScanResult[]> {
+        return Promise.reject(new Error('Energy scan is not supported'));
+    }
+
     public async nodeDescriptor(networkAddress: number): Promise<TsType.NodeDescriptor> {
         return this.queue.execute<NodeDescriptor>(async () => {
             debug.log('nodeDescriptor, \n %o', arguments)
@@ -644,30 +797,37 @@ class ZiGateAdapter extends Adapter {
     /**
      * Supplementary functions
      */
-    private async initNetwork(): Promise<void> {
-        debug.log(`Set channel mask ${this.networkOptions.channelList} key`);
-        await this.driver.sendCommand(
-            ZiGateCommandCode.SetChannelMask,
-            {channelMask: channelsToMask(this.networkOptions.channelList)},
-        );
+    private async initNetwork(backup?: Models.Backup): Promise<void> {
+        if (backup) {
+            debug.log(`Restore network from backup on channel ${backup.logicalChannel}`);
+            await this.backupMan.restoreBackup(backup);
+        } else {
+            debug.log(`Set channel mask ${this.networkOptions.channelList} key`);
+            await this.driver.sendCommand(
+                ZiGateCommandCode.SetChannelMask,
+                {channelMask: channelsToMask(this.networkOptions.channelList)},
+            );
 
-        debug.log(`Set security key`);
-        await this.driver.sendCommand(
-            ZiGateCommandCode.SetSecurityStateKey,
-            {
-                keyType: this.networkOptions.networkKeyDistribute ?
-                    ZPSNwkKeyState.ZPS_ZDO_DISTRIBUTED_LINK_KEY :
-                    ZPSNwkKeyState.ZPS_ZDO_PRECONFIGURED_LINK_KEY,
-                key: this.networkOptions.networkKey,
-            },
-        );
+            debug.log(`Set security key`);
+            await this.driver.sendCommand(
+                ZiGateCommandCode.SetSecurityStateKey,
+                {
+                    keyType: this.networkOptions.networkKeyDistribute ?
+                        ZPSNwkKeyState.ZPS_ZDO_DISTRIBUTED_LINK_KEY :
+                        ZPSNwkKeyState.ZPS_ZDO_PRECONFIGURED_LINK_KEY,
+                    key: this.networkOptions.networkKey,
+                },
+            );
+        }
 
         try {
             // The block is wrapped in trapping because if the network is already created, the firmware does not accept the new key.
-            debug.log('Set EPanID %h', this.networkOptions.extendedPanID);
-            await this.driver.sendCommand(ZiGateCommandCode.SetExtendedPANID, {
-                panId: this.networkOptions.extendedPanID,
-            });
+            if (!backup) {
+                debug.log('Set EPanID %h', this.networkOptions.extendedPanID);
+                await this.driver.sendCommand(ZiGateCommandCode.SetExtendedPANID, {
+                    panId: this.networkOptions.extendedPanID,
+                });
+            }
 
             await this.driver.sendCommand(ZiGateCommandCode.StartNetwork, {});
         } catch (e) {
@@ -705,6 +865,18 @@ class ZiGateAdapter extends Adapter {
         return Driver.autoDetectPath();
     }
 
+    public static async probe(path: string): Promise<string> {
+        const driver = new Driver(path, {});
+        try {
+            await driver.open();
+            const result = await driver.sendCommand(ZiGateCommandCode.GetVersion, {}, 2000);
+            return `${parseInt(<string>result.payload.major).toString(16)}.` +
+                `${parseInt(<string>result.payload.revision).toString(16)}`;
+        } finally {
+            await driver.close();
+        }
+    }
+
     /**
      * InterPAN !!! not implemented
      */
@@ -731,6 +903,11 @@ class ZiGateAdapter extends Adapter {
     };
 
 
+    private nextZdoTransactionID(): number {
+        this.zdoTransactionID = (this.zdoTransactionID + 1) & 0xFF;
+        return this.zdoTransactionID;
+    }
+
     private deviceAnnounceListener(networkAddress: number, ieeeAddr: string): void {
         // @todo debounce
         const payload: Events.DeviceAnnouncePayload = {networkAddress, ieeeAddr};
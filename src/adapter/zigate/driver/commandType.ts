@@ -88,6 +88,14 @@ export const ZiGateCommand: { [key: string]: ZiGateCommandType } = {
     [ZiGateCommandCode.GetTimeServer]: { // 0x0017
         request: []
     },
+    [ZiGateCommandCode.GetDevicesList]: { // 0x0015
+        request: [],
+        response: [
+            [
+                {receivedProperty: 'code', matcher: equal, value: ZiGateMessageCode.GetDevicesList},
+            ],
+        ]
+    },
     [ZiGateCommandCode.ErasePersistentData]: { // 0x0012
         request: [],
         response: [
@@ -159,6 +167,17 @@ export const ZiGateCommand: { [key: string]: ZiGateCommandType } = {
 
         ],
     },
+    [ZiGateCommandCode.AuthenticateDevice]: { // 0x0028
+        request: [
+            {name: 'extendedAddress', parameterType: 'IEEEADDR'}, // <extended address: uint64_t>
+            {name: 'key', parameterType: 'BUFFER'}, // <link key: data>
+        ],
+        response: [
+            [
+                {receivedProperty: 'code', matcher: equal, value: ZiGateMessageCode.AuthenticateResponse},
+            ],
+        ]
+    },
     [ZiGateCommandCode.GetVersion]: {
         request: [],
         response: [
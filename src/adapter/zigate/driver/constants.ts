@@ -231,6 +231,7 @@ export enum ZiGateCommandCode {
     ManagementLeaveRequest = 0x0047,
     ManagementLQI = 0x004E,
     SetSecurityStateKey = 0x0022,
+    AuthenticateDevice = 0x0028,
     AddGroup = 0x0060,
 }
 
@@ -250,9 +251,11 @@ export enum ZiGateMessageCode {
     APSDataConfirm = 0x8012,
     APSDataConfirmFailed = 0x8702,
     NetworkJoined = 0x8024,
+    AuthenticateResponse = 0x8028,
     LeaveIndication = 0x8048,
     RouterDiscoveryConfirm = 0x8701,
     PermitJoinStatus = 0x8014,
+    GetDevicesList = 0x8015,
     GetTimeServer = 0x8017,
     ManagementLQIResponse = 0x804E,
     ManagementLeaveResponse = 0x8047,
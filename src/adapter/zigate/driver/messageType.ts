@@ -64,6 +64,13 @@ export const ZiGateMessage: { [k: number]: ZiGateMessageType } = {
             // {name: 'u8GetMaxApduUse', parameterType: 'MAYBE_UINT8'},
         ]
     },
+    [ZiGateMessageCode.GetDevicesList]: {
+        response: [
+            // <device list – data each entry is 13 bytes>
+            // <ID: uint8_t><Short address: uint16_t><IEEE address: uint64_t><Power Source: bool_t><LinkQuality: uint8_t>
+            {name: 'devices', parameterType: 'BUFFER_RAW'},
+        ]
+    },
     [ZiGateMessageCode.PermitJoinStatus]: {
         response: [
             {name: 'status', parameterType: 'UINT8'}, // <status:uint8_t>
@@ -173,6 +180,18 @@ export const ZiGateMessage: { [k: number]: ZiGateMessageType } = {
             {name: 'revision', parameterType: 'UINT16'},
         ]
     },
+    [ZiGateMessageCode.AuthenticateResponse]: {
+        response: [
+            {name: 'gatewayExtendedAddress', parameterType: 'IEEEADDR'}, // <IEEE address of the Gateway: uint64_t>
+            {name: 'encryptedKey', parameterType: 'BUFFER16'}, // <encrypted Key: 16 bytes>
+            {name: 'mic', parameterType: 'UINT32BE'}, // <MIC: 4 bytes>
+            {name: 'initiatingExtendedAddress', parameterType: 'IEEEADDR'}, // <IEEE address of initiating node: uint64_t>
+            {name: 'activeKeySequenceNumber', parameterType: 'UINT8'}, // <active key sequence number: uint8_t>
+            {name: 'channel', parameterType: 'UINT8'}, // <channel: uint8_t>
+            {name: 'panID', parameterType: 'UINT16BE'}, // <short PAN Id: uint16_t>
+            {name: 'extendedPanID', parameterType: 'IEEEADDR'}, // <extended PAN ID: uint64_t>
+        ]
+    },
     [ZiGateMessageCode.NetworkJoined]: {
         response: [
             {name: 'status', parameterType: 'UINT8'}, // <status: uint8_t>
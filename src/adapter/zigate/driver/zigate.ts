@@ -7,6 +7,7 @@ import {Debug} from '../debug';
 import {SerialPort} from '../../serialPort';
 import SerialPortUtils from "../../serialPortUtils";
 import SocketPortUtils from "../../socketPortUtils";
+import SerialSession from "../../serialSession";
 import net from "net";
 import {Queue, Wait} from "../../../utils";
 import {SerialPortOptions} from "../../tstype";
@@ -49,6 +50,7 @@ export default class ZiGate extends EventEmitter {
     private path: string;
     private baudRate: number;
     private rtscts: boolean;
+    private record: string;
     private initialized: boolean;
     // private timeoutResetTimeout: any;
     // private apsRequestFreeSlots: number;
@@ -68,6 +70,7 @@ export default class ZiGate extends EventEmitter {
         this.path = path;
         this.baudRate = typeof serialPortOptions.baudRate === 'number' ? serialPortOptions.baudRate : 115200;
         this.rtscts = typeof serialPortOptions.rtscts === 'boolean' ? serialPortOptions.rtscts : false;
+        this.record = serialPortOptions.record;
         this.portType = SocketPortUtils.isTcpPath(path) ? 'socket' : 'serial';
         this.initialized = false;
         this.queue = new Queue(1);
@@ -212,6 +215,7 @@ export default class ZiGate extends EventEmitter {
             lock: false,
             autoOpen: false
         });
+        SerialSession.record(this.serialPort, this.record);
         this.parser = this.serialPort.pipe(
             new DelimiterParser(
                 {delimiter: [ZiGateFrame.STOP_BYTE], includeDelimiter: true}
@@ -247,9 +251,10 @@ export default class ZiGate extends EventEmitter {
         const info = SocketPortUtils.parseTcpPath(this.path);
         debug.log(`Opening TCP socket with ${info.host}:${info.port}`);
 
-        this.socketPort = new net.Socket();
+        this.socketPort = SocketPortUtils.createSocket(this.path);
         this.socketPort.setNoDelay(true);
         this.socketPort.setKeepAlive(true, 15000);
+        SerialSession.record(this.socketPort, this.record);
 
 
         this.parser = this.socketPort.pipe(
@@ -281,7 +286,7 @@ export default class ZiGate extends EventEmitter {
                 self.initialized = false;
             });
 
-            this.socketPort.connect(info.port, info.host);
+            SocketPortUtils.connect(this.socketPort, this.path);
         });
     }
 
@@ -1,22 +1,27 @@
 import events from 'events';
 import Database from './database';
 import {TsType as AdapterTsType, Adapter, Events as AdapterEvents} from '../adapter';
-import {Entity, Device} from './model';
+import {Device, Registry} from './model';
 import {ZclFrameConverter} from './helpers';
 import * as Events from './events';
-import {KeyValue, DeviceType, GreenPowerEvents, GreenPowerDeviceJoinedPayload} from './tstype';
+import {
+    KeyValue, DeviceType, GreenPowerEvents, GreenPowerDeviceJoinedPayload, TouchlinkScanResult, ReconnectOptions,
+    JoinPolicyOptions, JoinRejectReason, ScheduledJoinWindow,
+} from './tstype';
 import Debug from "debug";
 import fs from 'fs';
+import crypto from 'crypto';
 import {Utils as ZclUtils, FrameControl} from '../zcl';
 import Touchlink from './touchlink';
 import GreenPower from './greenPower';
-import {BackupUtils} from "../utils";
+import {BackupUtils, Wait} from "../utils";
 import assert from 'assert';
 
 // eslint-disable-next-line @typescript-eslint/ban-ts-comment
 // @ts-ignore
 import mixin from 'mixin-deep';
 import Group from './model/group';
+import JoinPolicy from './joinPolicy';
 import {LoggerStub} from "./logger-stub";
 
 interface Options {
@@ -32,8 +37,40 @@ interface Options {
      * try to remove the device from the network.
      */
     acceptJoiningDeviceHandler: (ieeeAddr: string) => Promise<boolean>;
+    /**
+     * When set the controller tries to reconnect to the adapter after it got disconnected, e.g. because the
+     * USB stick was briefly unplugged. Without it the controller only emits `adapterDisconnected`.
+     */
+    reconnect: ReconnectOptions;
+    /**
+     * Policy deciding which devices are allowed to join, rejected devices are removed from the network and
+     * reported through `deviceJoinRejected`.
+     */
+    joinPolicy: JoinPolicyOptions;
 }
 
+/**
+ * Join window of a single router (or coordinator), `device` is undefined for the window of the whole network.
+ */
+interface JoinWindow {
+    device: Device;
+    // Remaining time in seconds, undefined when the window stays open until it is closed
+    timeout: number;
+}
+
+interface ScheduledJoinWindowInternal {
+    start: Date;
+    time: number;
+    device: Device;
+    // eslint-disable-next-line
+    timer: any;
+}
+
+/**
+ * Maximum delay supported by `setTimeout()`.
+ */
+const MAX_TIMER_DELAY = 0x7FFFFFFF;
+
 async function catcho(func: () => Promise<void>, errorMessage: string): Promise<void> {
     try {
         await func();
@@ -56,6 +93,8 @@ const DefaultOptions: Options = {
     backupPath: null,
     adapter: {disableLED: false},
     acceptJoiningDeviceHandler: null,
+    reconnect: null,
+    joinPolicy: null,
 };
 
 const debug = {
@@ -70,18 +109,25 @@ class Controller extends events.EventEmitter {
     private options: Options;
     private database: Database;
     private adapter: Adapter;
+    private registry: Registry;
     private greenPower: GreenPower;
     // eslint-disable-next-line
     private permitJoinNetworkClosedTimer: any;
     // eslint-disable-next-line
     private permitJoinTimeoutTimer: any;
-    private permitJoinTimeout: number;
+    private permitJoinReason: 'manual' | 'scheduled';
+    private joinWindows: Map<string, JoinWindow>;
+    private scheduledJoinWindows: Map<number, ScheduledJoinWindowInternal>;
+    private nextScheduledJoinWindowID: number;
     // eslint-disable-next-line
     private backupTimer: any;
     // eslint-disable-next-line
     private databaseSaveTimer: any;
     private touchlink: Touchlink;
+    private joinPolicy: JoinPolicy;
     private stopping: boolean;
+    private reconnecting: boolean;
+    private adapterStarting: Promise<AdapterTsType.StartResult>;
     private networkParametersCached: AdapterTsType.NetworkParameters;
     private logger?: LoggerStub;
 
@@ -93,8 +139,13 @@ class Controller extends events.EventEmitter {
     public constructor(options: Options, logger?: LoggerStub) {
         super();
         this.stopping = false;
+        this.reconnecting = false;
         this.options = mixin(JSON.parse(JSON.stringify(DefaultOptions)), options);
         this.logger = logger;
+        this.joinPolicy = new JoinPolicy(this.options.joinPolicy);
+        this.joinWindows = new Map();
+        this.scheduledJoinWindows = new Map();
+        this.nextScheduledJoinWindowID = 1;
 
         // Validate options
         for (const channel of this.options.network.channelList) {
@@ -121,32 +172,11 @@ class Controller extends events.EventEmitter {
      * Start the Herdsman controller
      */
     public async start(): Promise<AdapterTsType.StartResult> {
-        // Database (create end inject)
+        // Database (create and register)
         this.database = Database.open(this.options.databasePath);
-        Entity.injectDatabase(this.database);
+        this.registry = new Registry(this.database);
 
-        // Adapter (create and inject)
-        this.adapter = await Adapter.create(this.options.network,
-            this.options.serialPort, this.options.backupPath, this.options.adapter, this.logger);
-        debug.log(`Starting with options '${JSON.stringify(this.options)}'`);
-        const startResult = await this.adapter.start();
-        debug.log(`Started with result '${startResult}'`);
-        Entity.injectAdapter(this.adapter);
-
-        // log injection
-        debug.log(`Injected database: ${this.database != null}, adapter: ${this.adapter != null}`);
-
-        this.greenPower = new GreenPower(this.adapter);
-        this.greenPower.on(GreenPowerEvents.deviceJoined, this.onDeviceJoinedGreenPower.bind(this));
-
-        // Register adapter events
-        this.adapter.on(AdapterEvents.Events.deviceJoined, this.onDeviceJoined.bind(this));
-        this.adapter.on(AdapterEvents.Events.zclData, (data) => this.onZclOrRawData('zcl', data));
-        this.adapter.on(AdapterEvents.Events.rawData, (data) => this.onZclOrRawData('raw', data));
-        this.adapter.on(AdapterEvents.Events.disconnected, this.onAdapterDisconnected.bind(this));
-        this.adapter.on(AdapterEvents.Events.deviceAnnounce, this.onDeviceAnnounce.bind(this));
-        this.adapter.on(AdapterEvents.Events.deviceLeave, this.onDeviceLeave.bind(this));
-        this.adapter.on(AdapterEvents.Events.networkAddress, this.onNetworkAddress.bind(this));
+        const startResult = await this.startAdapter();
 
         if (startResult === 'reset') {
             if (this.options.databaseBackupPath && fs.existsSync(this.options.databasePath)) {
@@ -154,13 +184,18 @@ class Controller extends events.EventEmitter {
             }
 
             debug.log('Clearing database...');
-            for (const group of Group.all()) {
+            for (const group of Group.all(this.registry)) {
                 group.removeFromDatabase();
             }
 
-            for (const device of Device.all()) {
+            for (const device of Device.all(this.registry)) {
                 device.removeFromDatabase();
             }
+
+            // The install codes are lost together with the network
+            for (const entry of this.database.getEntries(['InstallCode'])) {
+                this.database.remove(entry.id);
+            }
         }
 
         if (startResult === 'reset' || (this.options.backupPath && !fs.existsSync(this.options.backupPath))) {
@@ -169,16 +204,16 @@ class Controller extends events.EventEmitter {
 
         // Add coordinator to the database if it is not there yet.
         const coordinator = await this.adapter.getCoordinator();
-        if (Device.byType('Coordinator').length === 0) {
+        if (Device.byType(this.registry, 'Coordinator').length === 0) {
             debug.log('No coordinator in database, querying...');
             Device.create(
-                'Coordinator', coordinator.ieeeAddr, coordinator.networkAddress, coordinator.manufacturerID,
-                undefined, undefined, undefined, true, coordinator.endpoints
+                this.registry, 'Coordinator', coordinator.ieeeAddr, coordinator.networkAddress,
+                coordinator.manufacturerID, undefined, undefined, undefined, true, coordinator.endpoints
             );
         }
 
         // Update coordinator ieeeAddr if changed, can happen due to e.g. reflashing
-        const databaseCoordinator = Device.byType('Coordinator')[0];
+        const databaseCoordinator = Device.byType(this.registry, 'Coordinator')[0];
         if (databaseCoordinator.ieeeAddr !== coordinator.ieeeAddr) {
             debug.log(`Coordinator address changed, updating to '${coordinator.ieeeAddr}'`);
             databaseCoordinator.changeIeeeAddress(coordinator.ieeeAddr);
@@ -190,6 +225,38 @@ class Controller extends events.EventEmitter {
         // Set database save timer to 1 hour.
         this.databaseSaveTimer = setInterval(() => this.databaseSave(), 3600000);
 
+        return startResult;
+    }
+
+    /**
+     * Creates and starts the adapter and registers its events, also used to reconnect after a disconnect.
+     */
+    private async startAdapter(
+        adapterOptions: AdapterTsType.AdapterOptions = this.options.adapter,
+    ): Promise<AdapterTsType.StartResult> {
+        // Adapter (create and register)
+        this.adapter = await Adapter.create(this.options.network,
+            this.options.serialPort, this.options.backupPath, adapterOptions, this.logger);
+        debug.log(`Starting with options '${JSON.stringify(this.options)}'`);
+        const startResult = await this.adapter.start();
+        debug.log(`Started with result '${startResult}'`);
+        this.registry.adapter = this.adapter;
+
+        // log registration
+        debug.log(`Registered database: ${this.database != null}, adapter: ${this.adapter != null}`);
+
+        this.greenPower = new GreenPower(this.adapter);
+        this.greenPower.on(GreenPowerEvents.deviceJoined, this.onDeviceJoinedGreenPower.bind(this));
+
+        // Register adapter events
+        this.adapter.on(AdapterEvents.Events.deviceJoined, this.onDeviceJoined.bind(this));
+        this.adapter.on(AdapterEvents.Events.zclData, (data) => this.onZclOrRawData('zcl', data));
+        this.adapter.on(AdapterEvents.Events.rawData, (data) => this.onZclOrRawData('raw', data));
+        this.adapter.on(AdapterEvents.Events.disconnected, this.onAdapterDisconnected.bind(this));
+        this.adapter.on(AdapterEvents.Events.deviceAnnounce, this.onDeviceAnnounce.bind(this));
+        this.adapter.on(AdapterEvents.Events.deviceLeave, this.onDeviceLeave.bind(this));
+        this.adapter.on(AdapterEvents.Events.networkAddress, this.onNetworkAddress.bind(this));
+
         this.touchlink = new Touchlink(this.adapter);
 
         return startResult;
@@ -199,7 +266,7 @@ class Controller extends events.EventEmitter {
         await this.touchlink.identify(ieeeAddr, channel);
     }
 
-    public async touchlinkScan(): Promise<{ieeeAddr: string; channel: number}[]> {
+    public async touchlinkScan(): Promise<TouchlinkScanResult[]> {
         return this.touchlink.scan();
     }
 
@@ -211,6 +278,30 @@ class Controller extends events.EventEmitter {
         return this.touchlink.factoryResetFirst();
     }
 
+    /**
+     * Commission a factory new touchlink device directly into the network, permit join doesn't have to be enabled.
+     * The device doesn't associate with the coordinator, therefore it's added as joined device afterwards.
+     */
+    public async touchlinkJoin(ieeeAddr: string, channel: number): Promise<void> {
+        const parameters = await this.getNetworkParameters();
+        const usedAddresses = Device.all(this.registry).map((d) => d.networkAddress);
+        let networkAddress;
+        do {
+            networkAddress = 1 + Math.floor(Math.random() * 0xFFF6);
+        } while (usedAddresses.includes(networkAddress));
+
+        await this.touchlink.join(ieeeAddr, channel, {
+            extendedPanID: parameters.extendedPanID,
+            networkKey: Buffer.from(this.options.network.networkKey),
+            panID: parameters.panID,
+            channel: parameters.channel,
+            networkUpdateID: parameters.networkUpdateID,
+            networkAddress,
+        });
+
+        await this.onDeviceJoined({ieeeAddr, networkAddress}, true);
+    }
+
     public async addInstallCode(installCode: string): Promise<void> {
         const aqaraMatch = installCode.match(/^G\$M:.+\$A:(.+)\$I:(.+)$/);
         let ieeeAddr, key;
@@ -228,61 +319,172 @@ class Controller extends events.EventEmitter {
         ieeeAddr = `0x${ieeeAddr}`;
         key = Buffer.from(key.match(/.{1,2}/g).map(d => parseInt(d, 16)));
         await this.adapter.addInstallCode(ieeeAddr, key);
+
+        // Remembered so the join policy still accepts the device after a restart
+        if (!this.hasInstallCode(ieeeAddr)) {
+            this.database.insert({id: this.database.newID(), type: 'InstallCode', ieeeAddr: ieeeAddr.toLowerCase()});
+        }
     }
 
+    /**
+     * Permits joining on the whole network or, when `device` is given, only through that router (or coordinator).
+     * Windows of different routers can be open at the same time, each with its own `time` in seconds. Disabling
+     * without `device` closes all windows.
+     */
     public async permitJoin(permit: boolean, device?: Device, time?: number): Promise<void> {
         await this.permitJoinInternal(permit, 'manual', device, time);
     }
 
     public async permitJoinInternal(
-        permit: boolean, reason: 'manual' | 'timer_expired', device?: Device, time?: number): Promise<void> {
+        permit: boolean, reason: 'manual' | 'scheduled', device?: Device, time?: number): Promise<void> {
+        this.stopPermitJoinTimers();
+        this.permitJoinReason = reason;
+
+        if (permit) {
+            const window: JoinWindow = {device, timeout: typeof time === 'number' ? time : undefined};
+            this.joinWindows.set(device ? device.ieeeAddr : null, window);
+            await this.adapter.permitJoin(254, !device ? null : device.networkAddress);
+            await this.greenPower.permitJoin(254, !device ? null : device.networkAddress);
+        } else if (device) {
+            await this.closeJoinWindow(device.ieeeAddr);
+        } else {
+            debug.log('Disable joining');
+            this.joinWindows.clear();
+            await this.greenPower.permitJoin(0, null);
+            await this.adapter.permitJoin(0, null);
+        }
+
+        this.startPermitJoinTimers();
+        this.emitPermitJoinChanged(reason);
+    }
+
+    /**
+     * Schedules a join window which opens at `start` and stays open for `time` seconds, on the whole network or
+     * only through `device` when given. Returns the id of the window which can be used to cancel it.
+     */
+    public scheduleJoinWindow(start: Date, time: number, device?: Device): number {
+        const delay = start.getTime() - Date.now();
+        assert(delay <= MAX_TIMER_DELAY, `Join windows can only be scheduled up to ${MAX_TIMER_DELAY} ms ahead`);
+        const id = this.nextScheduledJoinWindowID++;
+        const timer = setTimeout(async (): Promise<void> => {
+            this.scheduledJoinWindows.delete(id);
+            debug.log(`Opening scheduled join window '${id}'`);
+            await catcho(() => this.permitJoinInternal(true, 'scheduled', device, time),
+                `Failed to open scheduled join window '${id}'`);
+        }, Math.max(delay, 0));
+        this.scheduledJoinWindows.set(id, {start, time, device, timer});
+        return id;
+    }
+
+    public cancelScheduledJoinWindow(id: number): boolean {
+        const scheduled = this.scheduledJoinWindows.get(id);
+        if (scheduled) {
+            clearTimeout(scheduled.timer);
+            this.scheduledJoinWindows.delete(id);
+        }
+
+        return !!scheduled;
+    }
+
+    public getScheduledJoinWindows(): ScheduledJoinWindow[] {
+        return Array.from(this.scheduledJoinWindows.entries()).map(([id, scheduled]) => ({
+            id, start: scheduled.start, time: scheduled.time, ieeeAddr: scheduled.device?.ieeeAddr ?? null,
+        }));
+    }
+
+    private async closeJoinWindow(ieeeAddr: string): Promise<void> {
+        const window = this.joinWindows.get(ieeeAddr);
+        if (!window) {
+            return;
+        }
+
+        this.joinWindows.delete(ieeeAddr);
+        if (this.joinWindows.has(null)) {
+            // Joining is still permitted on the whole network, this includes the router of the closed window
+            return;
+        }
+
+        const networkAddress = window.device ? window.device.networkAddress : null;
+        debug.log(`Disable joining${window.device ? ` through '${ieeeAddr}'` : ''}`);
+        await this.greenPower.permitJoin(0, networkAddress);
+        await this.adapter.permitJoin(0, networkAddress);
+
+        if (!window.device) {
+            // Disabling joining on the whole network also closed the routers which still have an open window
+            for (const {device} of this.joinWindows.values()) {
+                await this.adapter.permitJoin(254, device.networkAddress);
+                await this.greenPower.permitJoin(254, device.networkAddress);
+            }
+        }
+    }
+
+    private stopPermitJoinTimers(): void {
         clearInterval(this.permitJoinNetworkClosedTimer);
         clearInterval(this.permitJoinTimeoutTimer);
         this.permitJoinNetworkClosedTimer = null;
         this.permitJoinTimeoutTimer = null;
-        this.permitJoinTimeout = undefined;
+    }
 
-        if (permit) {
-            await this.adapter.permitJoin(254, !device ? null : device.networkAddress);
-            await this.greenPower.permitJoin(254, !device ? null : device.networkAddress);
+    private startPermitJoinTimers(): void {
+        this.stopPermitJoinTimers();
+        if (this.joinWindows.size === 0) {
+            return;
+        }
 
-            // Zigbee 3 networks automatically close after max 255 seconds, keep network open.
-            this.permitJoinNetworkClosedTimer = setInterval(async (): Promise<void> => {
+        // Zigbee 3 networks automatically close after max 255 seconds, keep network open.
+        this.permitJoinNetworkClosedTimer = setInterval(async (): Promise<void> => {
+            for (const {device} of this.joinWindows.values()) {
                 await this.adapter.permitJoin(254, !device ? null : device.networkAddress);
                 await this.greenPower.permitJoin(254, !device ? null : device.networkAddress);
-            }, 200 * 1000);
-
-            if (typeof time === 'number') {
-                this.permitJoinTimeout = time;
-                this.permitJoinTimeoutTimer = setInterval(async (): Promise<void> => {
-                    this.permitJoinTimeout--;
-                    if (this.permitJoinTimeout <= 0) {
-                        await this.permitJoinInternal(false, 'timer_expired');
-                    } else {
-                        const data: Events.PermitJoinChangedPayload =
-                            {permitted: true, timeout: this.permitJoinTimeout, reason};
-                        this.emit(Events.Events.permitJoinChanged, data);
-                    }
-                }, 1000);
             }
+        }, 200 * 1000);
+
+        if (Array.from(this.joinWindows.values()).some((w) => w.timeout !== undefined)) {
+            this.permitJoinTimeoutTimer = setInterval(async (): Promise<void> => {
+                const expired = Array.from(this.joinWindows.entries())
+                    .filter(([, window]) => window.timeout !== undefined && --window.timeout <= 0);
+                if (expired.length > 0) {
+                    // Timers are restarted for the remaining windows once the expired ones are closed
+                    this.stopPermitJoinTimers();
+                    for (const [ieeeAddr] of expired) {
+                        await this.closeJoinWindow(ieeeAddr);
+                    }
 
-            const data: Events.PermitJoinChangedPayload = {permitted: true, reason, timeout: this.permitJoinTimeout};
-            this.emit(Events.Events.permitJoinChanged, data);
-        } else {
-            debug.log('Disable joining');
-            await this.greenPower.permitJoin(0, null);
-            await this.adapter.permitJoin(0, null);
-            const data: Events.PermitJoinChangedPayload = {permitted: false, reason, timeout: this.permitJoinTimeout};
-            this.emit(Events.Events.permitJoinChanged, data);
+                    this.startPermitJoinTimers();
+                }
+
+                this.emitPermitJoinChanged(expired.length > 0 ? 'timer_expired' : this.permitJoinReason);
+            }, 1000);
         }
     }
 
+    private emitPermitJoinChanged(reason: Events.PermitJoinChangedPayload['reason']): void {
+        const data: Events.PermitJoinChangedPayload = {
+            permitted: this.getPermitJoin(), reason, timeout: this.getPermitJoinTimeout(),
+            windows: this.getPermitJoinWindows(),
+        };
+        this.emit(Events.Events.permitJoinChanged, data);
+    }
+
     public getPermitJoin(): boolean {
-        return this.permitJoinNetworkClosedTimer != null;
+        return this.joinWindows.size > 0;
     }
 
+    /**
+     * Time in seconds until joining is disabled on all routers, undefined when it's not limited in time.
+     */
     public getPermitJoinTimeout(): number {
-        return this.permitJoinTimeout;
+        const windows = Array.from(this.joinWindows.values());
+        if (windows.length === 0 || windows.some((w) => w.timeout === undefined)) {
+            return undefined;
+        }
+
+        return Math.max(...windows.map((w) => w.timeout));
+    }
+
+    public getPermitJoinWindows(): Events.PermitJoinWindow[] {
+        return Array.from(this.joinWindows.entries())
+            .map(([ieeeAddr, window]) => ({ieeeAddr, timeout: window.timeout}));
     }
 
     public isStopping(): boolean {
@@ -301,20 +503,36 @@ class Controller extends events.EventEmitter {
         this.adapter.removeAllListeners(AdapterEvents.Events.deviceAnnounce);
         this.adapter.removeAllListeners(AdapterEvents.Events.deviceLeave);
 
-        await catcho(() => this.permitJoinInternal(false, 'manual'), "Failed to disable join on stop");
+        for (const id of Array.from(this.scheduledJoinWindows.keys())) {
+            this.cancelScheduledJoinWindow(id);
+        }
 
         clearInterval(this.backupTimer);
         clearInterval(this.databaseSaveTimer);
+
+        if (this.reconnecting) {
+            // The adapter is disconnected, only the adapter of a reconnect attempt in progress has to be stopped.
+            this.joinWindows.clear();
+            this.stopPermitJoinTimers();
+            if (this.adapterStarting) {
+                await catcho(async () => {await this.adapterStarting;}, 'Failed to reconnect to adapter on stop');
+                await catcho(() => this.adapter.stop(), 'Failed to stop adapter on stop');
+            }
+
+            return;
+        }
+
+        await catcho(() => this.permitJoinInternal(false, 'manual'), "Failed to disable join on stop");
         await this.backup();
         await this.adapter.stop();
     }
 
     private databaseSave(): void {
-        for (const device of Device.all()) {
+        for (const device of Device.all(this.registry)) {
             device.save(false);
         }
 
-        for (const group of Group.all()) {
+        for (const group of Group.all(this.registry)) {
             group.save(false);
         }
 
@@ -325,7 +543,7 @@ class Controller extends events.EventEmitter {
         this.databaseSave();
         if (this.options.backupPath && await this.adapter.supportsBackup()) {
             debug.log('Creating coordinator backup');
-            const backup = await this.adapter.backup(Device.all().map((d) => d.ieeeAddr));
+            const backup = await this.adapter.backup(Device.all(this.registry).map((d) => d.ieeeAddr));
             const unifiedBackup = await BackupUtils.toUnifiedBackup(backup);
             const tmpBackupPath = this.options.backupPath + '.tmp';
             fs.writeFileSync(tmpBackupPath, JSON.stringify(unifiedBackup, null, 2));
@@ -334,9 +552,70 @@ class Controller extends events.EventEmitter {
         }
     }
 
+    /**
+     * Distribute a new network key to all devices and switch the network to it. When no key is given a random one
+     * is generated. A backup is created afterwards, the returned key has to be persisted in the network options
+     * of the caller, otherwise the coordinator is re-commissioned with the old key on the next start.
+     */
+    public async rotateNetworkKey(newKey?: number[]): Promise<number[]> {
+        const key = newKey ?? [...crypto.randomBytes(16)];
+        if (key.length !== 16) {
+            throw new Error(`Network key must be 16 digits long, got ${key.length}.`);
+        }
+        if (key.some((b) => !Number.isInteger(b) || b < 0 || b > 255)) {
+            throw new Error(`Network key must only contain bytes (0 - 255).`);
+        }
+
+        debug.log('Rotating network key');
+        await this.adapter.rotateNetworkKey(Buffer.from(key));
+        this.options.network.networkKey = key;
+        await this.backup();
+        debug.log('Rotated network key');
+        return key;
+    }
+
+    /**
+     * Move the network to another channel without re-pairing devices. A backup is created afterwards, the channel
+     * has to be persisted in the channel list of the caller, otherwise the coordinator is re-commissioned on the
+     * next start.
+     */
+    public async changeChannel(channel: number): Promise<void> {
+        if (channel < 11 || channel > 26) {
+            throw new Error(`'${channel}' is an invalid channel, use a channel between 11 - 26.`);
+        }
+
+        debug.log(`Changing channel to '${channel}'`);
+        await this.adapter.changeChannel(channel);
+        this.options.network.channelList = [channel];
+        this.networkParametersCached = null;
+        await this.backup();
+        debug.log(`Changed channel to '${channel}'`);
+    }
+
+    /**
+     * Energy scan on the given channels performed by the coordinator, use `Device.scanChannels()` to scan with a
+     * router. Each channel is scanned for (2^durationExponent + 1) * 15.36 ms, the energy ranges from 0 (quiet)
+     * to 255.
+     */
+    public async scanChannels(
+        channels: number[], durationExponent: number,
+    ): Promise<AdapterTsType.EnergyScanResult[]> {
+        for (const channel of channels) {
+            if (channel < 11 || channel > 26) {
+                throw new Error(`'${channel}' is an invalid channel, use a channel between 11 - 26.`);
+            }
+        }
+
+        if (durationExponent < 0 || durationExponent > 5) {
+            throw new Error(`Scan duration exponent must be between 0 - 5, got ${durationExponent}.`);
+        }
+
+        return this.adapter.scanChannels(0, channels, durationExponent);
+    }
+
     public async coordinatorCheck(): Promise<{missingRouters: Device[]}> {
         if (await this.adapter.supportsBackup()) {
-            const backup = await this.adapter.backup(Device.all().map((d) => d.ieeeAddr));
+            const backup = await this.adapter.backup(Device.all(this.registry).map((d) => d.ieeeAddr));
             const devicesInBackup = backup.devices.map((d) => `0x${d.ieeeAddress.toString('hex')}`);
             const missingRouters = this.getDevices()
                 .filter((d) => d.type === 'Router' && !devicesInBackup.includes(d.ieeeAddr));
@@ -354,6 +633,13 @@ class Controller extends events.EventEmitter {
         return this.adapter.getCoordinatorVersion();
     }
 
+    /**
+     * Features supported by the adapter, can be used to hide unsupported functionality.
+     */
+    public async getCapabilities(): Promise<AdapterTsType.AdapterCapabilities> {
+        return this.adapter.getCapabilities();
+    }
+
     public async getNetworkParameters(): Promise<AdapterTsType.NetworkParameters> {
         // Cache network parameters as they don't change anymore after start.
         if (!this.networkParametersCached) {
@@ -367,49 +653,49 @@ class Controller extends events.EventEmitter {
      * Get all devices
      */
     public getDevices(): Device[] {
-        return Device.all();
+        return Device.all(this.registry);
     }
 
     /**
      * Get all devices with a specific type
      */
     public getDevicesByType(type: DeviceType): Device[] {
-        return Device.byType(type);
+        return Device.byType(this.registry, type);
     }
 
     /**
      * Get device by ieeeAddr
      */
     public getDeviceByIeeeAddr(ieeeAddr: string): Device {
-        return Device.byIeeeAddr(ieeeAddr);
+        return Device.byIeeeAddr(this.registry, ieeeAddr);
     }
 
     /**
      * Get device by networkAddress
      */
     public getDeviceByNetworkAddress(networkAddress: number): Device {
-        return Device.byNetworkAddress(networkAddress);
+        return Device.byNetworkAddress(this.registry, networkAddress);
     }
 
     /**
      * Get group by ID
      */
     public getGroupByID(groupID: number): Group {
-        return Group.byGroupID(groupID);
+        return Group.byGroupID(this.registry, groupID);
     }
 
     /**
      * Get all groups
      */
     public getGroups(): Group[] {
-        return Group.all();
+        return Group.all(this.registry);
     }
 
     /**
      * Create a Group
      */
     public createGroup(groupID: number): Group {
-        return Group.create(groupID);
+        return Group.create(this.registry, groupID);
     }
 
     /**
@@ -421,7 +707,7 @@ class Controller extends events.EventEmitter {
 
     private onNetworkAddress(payload: AdapterEvents.NetworkAddressPayload): void {
         debug.log(`Network address '${payload.ieeeAddr}'`);
-        const device = Device.byIeeeAddr(payload.ieeeAddr);
+        const device = Device.byIeeeAddr(this.registry, payload.ieeeAddr);
 
         if (!device) {
             debug.log(`Network address is from unknown device '${payload.ieeeAddr}'`);
@@ -441,9 +727,15 @@ class Controller extends events.EventEmitter {
         }
     }
 
-    private onDeviceAnnounce(payload: AdapterEvents.DeviceAnnouncePayload): void {
+    private async onDeviceAnnounce(payload: AdapterEvents.DeviceAnnouncePayload): Promise<void> {
         debug.log(`Device announce '${payload.ieeeAddr}'`);
-        const device = Device.byIeeeAddr(payload.ieeeAddr);
+        const device = Device.byIeeeAddr(this.registry, payload.ieeeAddr);
+
+        const rejectReason = this.joinPolicy.evaluate(device ?? payload, !!device?.interviewCompleted);
+        if (rejectReason) {
+            await this.rejectDevice(payload.ieeeAddr, payload.networkAddress, rejectReason, device);
+            return;
+        }
 
         if (!device) {
             debug.log(`Device announce is from unknown device '${payload.ieeeAddr}'`);
@@ -468,7 +760,7 @@ class Controller extends events.EventEmitter {
     private onDeviceLeave(payload: AdapterEvents.DeviceLeavePayload): void {
         debug.log(`Device leave '${payload.ieeeAddr}'`);
 
-        const device = Device.byIeeeAddr(payload.ieeeAddr);
+        const device = Device.byIeeeAddr(this.registry, payload.ieeeAddr);
         if (device) {
             debug.log(`Removing device from database '${payload.ieeeAddr}'`);
             device.removeFromDatabase();
@@ -483,7 +775,87 @@ class Controller extends events.EventEmitter {
 
         await catcho(() => this.adapter.stop(), 'Failed to stop adapter on disconnect');
 
-        this.emit(Events.Events.adapterDisconnected);
+        // The adapter doesn't permit joining anymore, also when it reconnects
+        this.stopPermitJoinTimers();
+        if (this.joinWindows.size > 0) {
+            this.joinWindows.clear();
+            this.emitPermitJoinChanged('adapter_disconnected');
+        }
+
+        if (this.options.reconnect && !this.stopping) {
+            this.reconnecting = true;
+            const reconnected = await this.reconnect();
+            this.reconnecting = false;
+            if (reconnected) {
+                return;
+            }
+        }
+
+        if (!this.stopping) {
+            this.emit(Events.Events.adapterDisconnected);
+        }
+    }
+
+    /**
+     * Re-opens the adapter with an exponential backoff between the attempts, returns false when giving up.
+     * Reconnecting must never form a new network, therefore the adapter is started with reset prevented.
+     * When the controller is stopped during an attempt, `stop()` stops the adapter of that attempt.
+     */
+    private async reconnect(): Promise<boolean> {
+        const {maxAttempts, initialDelay, maxDelay} = this.options.reconnect;
+        this.adapter.removeAllListeners();
+
+        let delay = initialDelay;
+        for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+            debug.log(`Reconnecting to adapter in ${delay}ms (attempt ${attempt} of ${maxAttempts})`);
+            await Wait(delay);
+            if (this.stopping) {
+                return false;
+            }
+
+            let startResult;
+            try {
+                this.adapterStarting = this.startAdapter({...this.options.adapter, preventReset: true});
+                startResult = await this.adapterStarting;
+            } catch (error) {
+                debug.error(`Failed to reconnect to adapter: ${error}`);
+                if (this.stopping) {
+                    return false;
+                }
+
+                await catcho(() => this.adapter.stop(), 'Failed to stop adapter after failed reconnect');
+                delay = Math.min(delay * 2, maxDelay);
+                continue;
+            } finally {
+                this.adapterStarting = null;
+            }
+
+            if (this.stopping) {
+                return false;
+            }
+
+            if (startResult === 'reset') {
+                debug.error('Adapter formed a new network while reconnecting, giving up');
+                await catcho(() => this.adapter.stop(), 'Failed to stop adapter after reconnect');
+                return false;
+            }
+
+            debug.log(`Reconnected to adapter with result '${startResult}'`);
+            this.networkParametersCached = null;
+
+            // Requests which failed while disconnected have been queued, end devices get theirs on check-in.
+            for (const device of Device.all(this.registry)) {
+                if (device.type !== 'EndDevice') {
+                    device.implicitCheckin();
+                }
+            }
+
+            this.emit(Events.Events.adapterReconnected);
+            return true;
+        }
+
+        debug.error(`Failed to reconnect to adapter after ${maxAttempts} attempts`);
+        return false;
     }
 
     private async onDeviceJoinedGreenPower(payload: GreenPowerDeviceJoinedPayload): Promise<void> {
@@ -496,12 +868,12 @@ class Controller extends events.EventEmitter {
         // Green power devices dont' have a modelID, create a modelID based on the deviceID (=type)
         const modelID = `GreenPower_${payload.deviceID}`;
 
-        let device = Device.byIeeeAddr(ieeeAddr, true);
+        let device = Device.byIeeeAddr(this.registry, ieeeAddr, true);
         if (!device) {
             debug.log(`New green power device '${ieeeAddr}' joined`);
             debug.log(`Creating device '${ieeeAddr}'`);
             device = Device.create(
-                'GreenPower', ieeeAddr, payload.networkAddress, null,
+                this.registry, 'GreenPower', ieeeAddr, payload.networkAddress, null,
                 undefined, undefined, modelID, true, [],
             );
             device.save();
@@ -527,26 +899,36 @@ class Controller extends events.EventEmitter {
         this.emit(event, data);
     }
 
-    private async onDeviceJoined(payload: AdapterEvents.DeviceJoinedPayload): Promise<void> {
+    private async onDeviceJoined(payload: AdapterEvents.DeviceJoinedPayload, touchlink = false): Promise<void> {
         debug.log(`Device '${payload.ieeeAddr}' joined`);
 
         if (this.options.acceptJoiningDeviceHandler) {
             if (!(await this.options.acceptJoiningDeviceHandler(payload.ieeeAddr))) {
-                debug.log(`Device '${payload.ieeeAddr}' rejected by handler, removing it`);
-                await catcho(() => this.adapter.removeDevice(payload.networkAddress, payload.ieeeAddr), 
-                    'Failed to remove rejected device');
+                await this.rejectDevice(payload.ieeeAddr, payload.networkAddress, 'handler');
                 return;
             } else {
                 debug.log(`Device '${payload.ieeeAddr}' accepted by handler`);
             }
         }
 
-        let device = Device.byIeeeAddr(payload.ieeeAddr, true);
+        // Deleted devices have been removed from the network, when they rejoin they are treated as new devices
+        const known = Device.byIeeeAddr(this.registry, payload.ieeeAddr);
+        const rejectReason = this.joinPolicy.evaluate(known ?? payload, !!known?.interviewCompleted) ??
+            (known ? null : this.joinPolicy.evaluateNewDevice(
+                this.getDevices().filter((d) => d.type !== 'Coordinator').length,
+                touchlink || this.hasInstallCode(payload.ieeeAddr),
+            ));
+        if (rejectReason) {
+            await this.rejectDevice(payload.ieeeAddr, payload.networkAddress, rejectReason, known);
+            return;
+        }
+
+        let device = Device.byIeeeAddr(this.registry, payload.ieeeAddr, true);
         if (!device) {
             debug.log(`New device '${payload.ieeeAddr}' joined`);
             debug.log(`Creating device '${payload.ieeeAddr}'`);
             device = Device.create(
-                'Unknown', payload.ieeeAddr, payload.networkAddress, undefined,
+                this.registry, 'Unknown', payload.ieeeAddr, payload.networkAddress, undefined,
                 undefined, undefined, undefined, false, []
             );
             this.selfAndDeviceEmit(device, Events.Events.deviceJoined, {device} as Events.DeviceJoinedPayload);
@@ -578,6 +960,14 @@ class Controller extends events.EventEmitter {
             try {
                 await device.interview();
                 debug.log(`Succesfully interviewed '${device.ieeeAddr}'`);
+
+                // Manufacturer name and model are known now, check them against the join policy
+                const rejectReason = this.joinPolicy.evaluate(device, true);
+                if (rejectReason) {
+                    await this.rejectDevice(device.ieeeAddr, device.networkAddress, rejectReason, device);
+                    return;
+                }
+
                 const event: Events.DeviceInterviewPayload = {status: 'successful', device};
                 this.selfAndDeviceEmit(device, Events.Events.deviceInterview, event);
             } catch (error) {
@@ -593,6 +983,23 @@ class Controller extends events.EventEmitter {
         }
     }
 
+    private hasInstallCode(ieeeAddr: string): boolean {
+        return this.database.getEntries(['InstallCode']).some((e) => e.ieeeAddr === ieeeAddr.toLowerCase());
+    }
+
+    /**
+     * Removes a device which is not allowed to join from the network (and database when it is already known).
+     */
+    private async rejectDevice(
+        ieeeAddr: string, networkAddress: number, reason: JoinRejectReason, device?: Device,
+    ): Promise<void> {
+        debug.log(`Device '${ieeeAddr}' rejected (${reason}), removing it`);
+        await catcho(() => this.adapter.removeDevice(networkAddress, ieeeAddr), 'Failed to remove rejected device');
+        await device?.removeFromDatabase();
+        const data: Events.DeviceJoinRejectedPayload = {ieeeAddr, reason};
+        this.selfAndDeviceEmit(device, Events.Events.deviceJoinRejected, data);
+    }
+
     private isZclDataPayload(
         dataPayload: AdapterEvents.ZclDataPayload | AdapterEvents.RawDataPayload, type: 'zcl' | 'raw'
     ): dataPayload is AdapterEvents.ZclDataPayload {
@@ -613,16 +1020,18 @@ class Controller extends events.EventEmitter {
         if (this.isZclDataPayload(dataPayload, dataType)) {
             if (dataPayload.frame.Cluster.name === 'touchlink') {
                 // This is handled by touchlink
+                this.touchlink.onZclData(dataPayload);
                 return;
             } else if (dataPayload.frame.Cluster.name === 'greenPower') {
                 await this.greenPower.onZclGreenPowerData(dataPayload);
                 // lookup encapsulated gpDevice for further processing
-                gpDevice = Device.byNetworkAddress(dataPayload.frame.Payload.srcID & 0xFFFF);
+                gpDevice = Device.byNetworkAddress(this.registry, dataPayload.frame.Payload.srcID & 0xFFFF);
             }
         }
 
         let device = gpDevice ? gpDevice : (typeof dataPayload.address === 'string' ?
-            Device.byIeeeAddr(dataPayload.address) : Device.byNetworkAddress(dataPayload.address));
+            Device.byIeeeAddr(this.registry, dataPayload.address) :
+            Device.byNetworkAddress(this.registry, dataPayload.address));
         
         /**
          * Handling of re-transmitted Xiaomi messages.
@@ -638,7 +1047,7 @@ class Controller extends events.EventEmitter {
          */
         if (device?.manufacturerName === 'LUMI' && device?.type == 'Router' && dataPayload.groupID) {
             debug.log(`Handling re-transmitted Xiaomi message ${device.networkAddress} -> ${dataPayload.groupID}`);
-            device = Device.byNetworkAddress(dataPayload.groupID);
+            device = Device.byNetworkAddress(this.registry, dataPayload.groupID);
         }
 
         if (!device) {
@@ -1,11 +1,13 @@
 import {FrameControl} from "../zcl";
 import {Device, Endpoint} from "./model";
-import {KeyValue} from "./tstype";
+import {KeyValue, JoinRejectReason} from "./tstype";
 
 enum Events {
     message = "message",
     adapterDisconnected = "adapterDisconnected",
+    adapterReconnected = "adapterReconnected",
     deviceJoined = "deviceJoined",
+    deviceJoinRejected = "deviceJoinRejected",
     deviceInterview = "deviceInterview",
     deviceAnnounce = "deviceAnnounce",
     deviceNetworkAddressChanged = "deviceNetworkAddressChanged",
@@ -18,6 +20,11 @@ interface DeviceJoinedPayload {
     device: Device;
 }
 
+interface DeviceJoinRejectedPayload {
+    ieeeAddr: string;
+    reason: JoinRejectReason;
+}
+
 interface DeviceInterviewPayload {
     status: 'started' | 'successful' | 'failed';
     device: Device;
@@ -35,8 +42,20 @@ interface DeviceLeavePayload {
     ieeeAddr: string;
 }
 
+interface PermitJoinWindow {
+    /**
+     * Router (or coordinator) joining is permitted through, null when joining is permitted on the whole network.
+     */
+    ieeeAddr: string;
+    /**
+     * Remaining time in seconds, undefined when the window stays open until it is closed.
+     */
+    timeout: number;
+}
+
 interface PermitJoinChangedPayload {
-    permitted: boolean, reason: 'timer_expired' | 'manual', timeout: number
+    permitted: boolean, reason: 'timer_expired' | 'manual' | 'scheduled' | 'adapter_disconnected', timeout: number,
+    windows: PermitJoinWindow[],
 }
 
 interface LastSeenChangedPayload {
@@ -180,6 +199,6 @@ interface MessagePayload {
 
 export {
     Events, MessagePayload, MessagePayloadType, CommandsLookup, DeviceInterviewPayload, DeviceAnnouncePayload,
-    DeviceLeavePayload, DeviceJoinedPayload, PermitJoinChangedPayload, DeviceNetworkAddressChangedPayload,
-    LastSeenChangedPayload,
+    DeviceLeavePayload, DeviceJoinedPayload, DeviceJoinRejectedPayload, PermitJoinChangedPayload, PermitJoinWindow,
+    DeviceNetworkAddressChangedPayload, LastSeenChangedPayload,
 };
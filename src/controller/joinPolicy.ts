@@ -0,0 +1,73 @@
+import {JoinPolicyOptions, JoinPolicyRule, JoinRejectReason} from './tstype';
+
+/**
+ * Properties of a device the join policy rules are evaluated against.
+ */
+interface JoinPolicyDevice {
+    ieeeAddr: string;
+    manufacturerName?: string;
+    modelID?: string;
+}
+
+const normalizeAddress = (address: string): string => address.toLowerCase().replace(/^0x/, '');
+
+class JoinPolicy {
+    private options: JoinPolicyOptions;
+
+    public constructor(options: JoinPolicyOptions) {
+        this.options = options ?? {};
+    }
+
+    /**
+     * Evaluates the allow- and denylist, returns the reason when the device has to be rejected. As long as the
+     * device has not been interviewed rules on its manufacturer name or model are not applied.
+     */
+    public evaluate(device: JoinPolicyDevice, interviewed: boolean): JoinRejectReason {
+        if ((this.options.deny ?? []).some((rule) => this.matches(rule, device, interviewed) === true)) {
+            return 'denylist';
+        }
+
+        const allow = this.options.allow ?? [];
+        if (allow.length > 0 && allow.every((rule) => this.matches(rule, device, interviewed) === false)) {
+            return 'allowlist';
+        }
+
+        return null;
+    }
+
+    /**
+     * Evaluates the rules which only apply to devices that are not part of the network yet, `authorized` tells
+     * whether an install code was added for the device or it was commissioned through touchlink.
+     */
+    public evaluateNewDevice(deviceCount: number, authorized: boolean): JoinRejectReason {
+        if (this.options.installCodeRequired && !authorized) {
+            return 'installCodeRequired';
+        }
+
+        if (this.options.maxDevices != null && deviceCount >= this.options.maxDevices) {
+            return 'maxDevices';
+        }
+
+        return null;
+    }
+
+    /**
+     * Returns undefined when the rule cannot be decided yet because the device has not been interviewed.
+     */
+    private matches(rule: JoinPolicyRule, device: JoinPolicyDevice, interviewed: boolean): boolean {
+        const ieeeAddr = normalizeAddress(device.ieeeAddr);
+        const results = [
+            rule.ieeeAddr == null || normalizeAddress(rule.ieeeAddr) === ieeeAddr,
+            rule.oui == null || ieeeAddr.startsWith(normalizeAddress(rule.oui)),
+            ...(['manufacturerName', 'modelID'] as const).map((key) => {
+                if (rule[key] == null) return true;
+                return interviewed ? rule[key] === device[key] : undefined;
+            }),
+        ];
+
+        if (results.includes(false)) return false;
+        return results.includes(undefined) ? undefined : true;
+    }
+}
+
+export default JoinPolicy;
@@ -3,6 +3,7 @@ import {Events as AdapterEvents} from '../../adapter';
 import ZclTransactionSequenceNumber from '../helpers/zclTransactionSequenceNumber';
 import Endpoint from './endpoint';
 import Entity from './entity';
+import Registry from './registry';
 import {Wait} from '../../utils';
 import Debug from "debug";
 import * as Zcl from '../../zcl';
@@ -30,6 +31,11 @@ interface RoutingTable {
     table: {destinationAddress: number; status: string; nextHop: number}[];
 }
 
+interface EnergyScanResult {
+    channel: number;
+    energy: number;
+}
+
 class Device extends Entity {
     private readonly ID: number;
     private _applicationVersion?: number;
@@ -112,10 +118,6 @@ class Device extends Entity {
 
     public meta: KeyValue;
 
-    // This lookup contains all devices that are queried from the database, this is to ensure that always
-    // the same instance is returned.
-    private static devices: {[ieeeAddr: string]: Device} = null;
-
     public static readonly ReportablePropertiesMapping: {[s: string]: {
         set: (value: string | number, device: Device) => void;
         key: 'modelID' | 'manufacturerName' | 'applicationVersion' | 'zclVersion' | 'powerSource' | 'stackVersion' |
@@ -133,14 +135,14 @@ class Device extends Entity {
         };
 
     private constructor(
-        ID: number, type: DeviceType, ieeeAddr: string, networkAddress: number,
+        registry: Registry, ID: number, type: DeviceType, ieeeAddr: string, networkAddress: number,
         manufacturerID: number, endpoints: Endpoint[], manufacturerName: string,
         powerSource: string, modelID: string, applicationVersion: number, stackVersion: number, zclVersion: number,
         hardwareVersion: number, dateCode: string, softwareBuildID: string, interviewCompleted: boolean, meta: KeyValue,
         lastSeen: number, defaultSendRequestWhen: SendRequestWhen, checkinInterval: number,
         pendingRequestTimeout: number
     ) {
-        super();
+        super(registry);
         this.ID = ID;
         this._type = type;
         this.ieeeAddr = ieeeAddr;
@@ -172,16 +174,18 @@ class Device extends Entity {
             throw new Error(`Device '${this.ieeeAddr}' already has an endpoint '${ID}'`);
         }
 
-        const endpoint = Endpoint.create(ID, undefined, undefined, [], [], this.networkAddress, this.ieeeAddr);
+        const endpoint = Endpoint.create(
+            this.registry, ID, undefined, undefined, [], [], this.networkAddress, this.ieeeAddr,
+        );
         this.endpoints.push(endpoint);
         this.save();
         return endpoint;
     }
 
     public changeIeeeAddress(ieeeAddr: string): void {
-        delete Device.devices[this.ieeeAddr];
+        delete this.registry.devices[this.ieeeAddr];
         this.ieeeAddr = ieeeAddr;
-        Device.devices[this.ieeeAddr] = this;
+        this.registry.devices[this.ieeeAddr] = this;
         this.endpoints.forEach((e) => e.deviceIeeeAddress = ieeeAddr);
         this.save();
     }
@@ -331,11 +335,11 @@ class Device extends Entity {
      * CRUD
      */
 
-    private static fromDatabaseEntry(entry: DatabaseEntry): Device {
+    private static fromDatabaseEntry(registry: Registry, entry: DatabaseEntry): Device {
         const networkAddress = entry.nwkAddr;
         const ieeeAddr = entry.ieeeAddr;
         const endpoints = Object.values(entry.endpoints).map((e): Endpoint => {
-            return Endpoint.fromDatabaseRecord(e, networkAddress, ieeeAddr);
+            return Endpoint.fromDatabaseRecord(registry, e, networkAddress, ieeeAddr);
         });
 
         const meta = entry.meta ? entry.meta : {};
@@ -371,7 +375,7 @@ class Device extends Entity {
         debug.log (`Request Queue (${ieeeAddr}): default expiration timeout set to ${pendingRequestTimeout}`);
 
         return new Device(
-            entry.id, entry.type, ieeeAddr, networkAddress, entry.manufId, endpoints,
+            registry, entry.id, entry.type as DeviceType, ieeeAddr, networkAddress, entry.manufId, endpoints,
             entry.manufName, entry.powerSource, entry.modelId, entry.appVersion,
             entry.stackVersion, entry.zclVersion, entry.hwVersion, entry.dateCode, entry.swBuildId,
             entry.interviewCompleted, meta, entry.lastSeen || null, defaultSendRequestWhen, entry.checkinInterval,
@@ -398,74 +402,76 @@ class Device extends Entity {
     }
 
     public save(writeDatabase=true): void {
-        Entity.database.update(this.toDatabaseEntry(), writeDatabase);
+        this.registry.database.update(this.toDatabaseEntry(), writeDatabase);
     }
 
-    private static loadFromDatabaseIfNecessary(): void {
-        if (!Device.devices) {
-            Device.devices = {};
-            const entries = Entity.database.getEntries(['Coordinator', 'EndDevice', 'Router', 'GreenPower', 'Unknown']);
+    private static loadFromDatabaseIfNecessary(registry: Registry): void {
+        if (!registry.devices) {
+            registry.devices = {};
+            const entries = registry.database.getEntries(
+                ['Coordinator', 'EndDevice', 'Router', 'GreenPower', 'Unknown'],
+            );
             for (const entry of entries) {
-                const device = Device.fromDatabaseEntry(entry);
-                Device.devices[device.ieeeAddr] = device;
+                const device = Device.fromDatabaseEntry(registry, entry);
+                registry.devices[device.ieeeAddr] = device;
             }
         }
     }
 
-    public static byIeeeAddr(ieeeAddr: string, includeDeleted=false): Device {
-        Device.loadFromDatabaseIfNecessary();
-        const device = Device.devices[ieeeAddr];
+    public static byIeeeAddr(registry: Registry, ieeeAddr: string, includeDeleted=false): Device {
+        Device.loadFromDatabaseIfNecessary(registry);
+        const device = registry.devices[ieeeAddr];
         return device?._deleted && !includeDeleted ? undefined : device;
     }
 
-    public static byNetworkAddress(networkAddress: number): Device {
-        return Device.all().find(d => d.networkAddress === networkAddress);
+    public static byNetworkAddress(registry: Registry, networkAddress: number): Device {
+        return Device.all(registry).find(d => d.networkAddress === networkAddress);
     }
 
-    public static byType(type: DeviceType): Device[] {
-        return Device.all().filter(d => d.type === type);
+    public static byType(registry: Registry, type: DeviceType): Device[] {
+        return Device.all(registry).filter(d => d.type === type);
     }
 
-    public static all(): Device[] {
-        Device.loadFromDatabaseIfNecessary();
-        return Object.values(Device.devices).filter(d => !d._deleted);
+    public static all(registry: Registry): Device[] {
+        Device.loadFromDatabaseIfNecessary(registry);
+        return Object.values(registry.devices).filter(d => !d._deleted);
     }
 
     public undelete(interviewCompleted?: boolean): void {
         assert(this._deleted, `Device '${this.ieeeAddr}' is not deleted`);
         this._deleted = false;
         this._interviewCompleted = interviewCompleted ?? this._interviewCompleted;
-        Entity.database.insert(this.toDatabaseEntry());
+        this.registry.database.insert(this.toDatabaseEntry());
     }
 
     public static create(
-        type: DeviceType, ieeeAddr: string, networkAddress: number,
+        registry: Registry, type: DeviceType, ieeeAddr: string, networkAddress: number,
         manufacturerID: number, manufacturerName: string,
         powerSource: string, modelID: string, interviewCompleted: boolean,
         endpoints: {
             ID: number; profileID: number; deviceID: number; inputClusters: number[]; outputClusters: number[];
         }[],
     ): Device {
-        Device.loadFromDatabaseIfNecessary();
-        if (Device.devices[ieeeAddr] && !Device.devices[ieeeAddr]._deleted) {
+        Device.loadFromDatabaseIfNecessary(registry);
+        if (registry.devices[ieeeAddr] && !registry.devices[ieeeAddr]._deleted) {
             throw new Error(`Device with ieeeAddr '${ieeeAddr}' already exists`);
         }
 
         const endpointsMapped = endpoints.map((e): Endpoint => {
             return Endpoint.create(
-                e.ID, e.profileID, e.deviceID, e.inputClusters, e.outputClusters, networkAddress, ieeeAddr
+                registry, e.ID, e.profileID, e.deviceID, e.inputClusters, e.outputClusters, networkAddress, ieeeAddr
             );
         });
 
-        const ID = Entity.database.newID();
+        const ID = registry.database.newID();
         const device = new Device(
-            ID, type, ieeeAddr, networkAddress, manufacturerID, endpointsMapped, manufacturerName,
+            registry, ID, type, ieeeAddr, networkAddress, manufacturerID, endpointsMapped, manufacturerName,
             powerSource, modelID, undefined, undefined, undefined, undefined, undefined, undefined,
             interviewCompleted, {}, null, 'immediate', undefined, 0
         );
 
-        Entity.database.insert(device.toDatabaseEntry());
-        Device.devices[device.ieeeAddr] = device;
+        registry.database.insert(device.toDatabaseEntry());
+        registry.devices[device.ieeeAddr] = device;
         return device;
     }
 
@@ -565,7 +571,7 @@ class Device extends Entity {
 
     private async interviewInternal(): Promise<void> {
         const nodeDescriptorQuery = async (): Promise<void> => {
-            const nodeDescriptor = await Entity.adapter.nodeDescriptor(this.networkAddress);
+            const nodeDescriptor = await this.registry.adapter.nodeDescriptor(this.networkAddress);
             this._manufacturerID = nodeDescriptor.manufacturerCode;
             this._type = nodeDescriptor.type;
             debug.log(`Interview - got node descriptor for device '${this.ieeeAddr}'`);
@@ -610,7 +616,9 @@ class Device extends Entity {
             // https://github.com/Koenkk/zigbee2mqtt/issues/7553
             debug.log("Interview - Detected potential TuYa end device, reading modelID and manufacturerName...");
             try {
-                const endpoint = Endpoint.create(1, undefined, undefined, [], [], this.networkAddress, this.ieeeAddr);
+                const endpoint = Endpoint.create(
+                    this.registry, 1, undefined, undefined, [], [], this.networkAddress, this.ieeeAddr,
+                );
                 const result = await endpoint.read('genBasic', ['modelId', 'manufacturerName'], 
                     {sendWhen: 'immediate'});
                 Object.entries(result)
@@ -626,7 +634,7 @@ class Device extends Entity {
         let activeEndpoints;
         for (let attempt = 0; attempt < 2; attempt++) {
             try {
-                activeEndpoints = await Entity.adapter.activeEndpoints(this.networkAddress);
+                activeEndpoints = await this.registry.adapter.activeEndpoints(this.networkAddress);
                 break;
             } catch (error) {
                 debug.log(`Interview - active endpoints request failed for '${this.ieeeAddr}', attempt ${attempt + 1}`);
@@ -643,12 +651,14 @@ class Device extends Entity {
         // This is not a valid endpoint number according to the ZCL, requesting a simple descriptor will result
         // into an error. Therefore we filter it, more info: https://github.com/Koenkk/zigbee-herdsman/issues/82
         activeEndpoints.endpoints.filter((e) => e !== 0 && !this.getEndpoint(e)).forEach((e) =>
-            this._endpoints.push(Endpoint.create(e, undefined, undefined, [], [], this.networkAddress, this.ieeeAddr)));
+            this._endpoints.push(Endpoint.create(
+                this.registry, e, undefined, undefined, [], [], this.networkAddress, this.ieeeAddr,
+            )));
         debug.log(`Interview - got active endpoints for device '${this.ieeeAddr}'`);
 
         for (const endpointID of activeEndpoints.endpoints.filter((e) => e !== 0)) {
             const endpoint = this.getEndpoint(endpointID);
-            const simpleDescriptor = await Entity.adapter.simpleDescriptor(this.networkAddress, endpoint.ID);
+            const simpleDescriptor = await this.registry.adapter.simpleDescriptor(this.networkAddress, endpoint.ID);
             endpoint.profileID = simpleDescriptor.profileID;
             endpoint.deviceID = simpleDescriptor.deviceID;
             endpoint.inputClusters = simpleDescriptor.inputClusters;
@@ -692,7 +702,7 @@ class Device extends Entity {
             }
         }
 
-        const coordinator = Device.byType('Coordinator')[0];
+        const coordinator = Device.byType(this.registry, 'Coordinator')[0];
 
         // Enroll IAS device
         for (const endpoint of this.endpoints.filter((e): boolean => e.supportsInputCluster('ssIasZone'))) {
@@ -776,20 +786,20 @@ class Device extends Entity {
                 null, ZclTransactionSequenceNumber.next(), 'pairing', 33, payload
             );
 
-            await Entity.adapter.sendZclFrameToAll(242, frame, 242);
-        } else await Entity.adapter.removeDevice(this.networkAddress, this.ieeeAddr);
+            await this.registry.adapter.sendZclFrameToAll(242, frame, 242);
+        } else await this.registry.adapter.removeDevice(this.networkAddress, this.ieeeAddr);
         await this.removeFromDatabase();
     }
 
     public async removeFromDatabase(): Promise<void> {
-        Device.loadFromDatabaseIfNecessary();
+        Device.loadFromDatabaseIfNecessary(this.registry);
 
         for (const endpoint of this.endpoints) {
             endpoint.removeFromAllGroupsDatabase();
         }
 
-        if (Entity.database.has(this.ID)) {
-            Entity.database.remove(this.ID);
+        if (this.registry.database.has(this.ID)) {
+            this.registry.database.remove(this.ID);
         }
 
         this._deleted = true;
@@ -800,18 +810,25 @@ class Device extends Entity {
         this.meta = {};
         const newEndpoints: Endpoint[] = [];
         for (const endpoint of this.endpoints) {
-            newEndpoints.push(Endpoint.create(endpoint.ID, endpoint.profileID, endpoint.deviceID, 
+            newEndpoints.push(Endpoint.create(this.registry, endpoint.ID, endpoint.profileID, endpoint.deviceID, 
                 endpoint.inputClusters, endpoint.outputClusters, this.networkAddress, this.ieeeAddr));
         }
         this._endpoints = newEndpoints;
     }
 
     public async lqi(): Promise<LQI> {
-        return Entity.adapter.lqi(this.networkAddress);
+        return this.registry.adapter.lqi(this.networkAddress);
     }
 
     public async routingTable(): Promise<RoutingTable> {
-        return Entity.adapter.routingTable(this.networkAddress);
+        return this.registry.adapter.routingTable(this.networkAddress);
+    }
+
+    /**
+     * Energy scan performed by this device (router), see `Controller.scanChannels()`.
+     */
+    public async scanChannels(channels: number[], durationExponent: number): Promise<EnergyScanResult[]> {
+        return this.registry.adapter.scanChannels(this.networkAddress, channels, durationExponent);
     }
 
     public async ping(disableRecovery = true): Promise<void> {
@@ -1,4 +1,5 @@
 import Entity from './entity';
+import Registry from './registry';
 import {KeyValue, SendRequestWhen, SendPolicy} from '../tstype';
 import * as Zcl from '../../zcl';
 import ZclTransactionSequenceNumber from '../helpers/zclTransactionSequenceNumber';
@@ -95,12 +96,12 @@ class Endpoint extends Entity {
         return this._binds.map((entry) => {
             let target: Group | Endpoint = null;
             if (entry.type === 'endpoint') {
-                const device = Device.byIeeeAddr(entry.deviceIeeeAddress);
+                const device = Device.byIeeeAddr(this.registry, entry.deviceIeeeAddress);
                 if (device) {
                     target = device.getEndpoint(entry.endpointID);
                 }
             } else {
-                target = Group.byGroupID(entry.groupID);
+                target = Group.byGroupID(this.registry, entry.groupID);
             }
 
             if (target) {
@@ -137,12 +138,13 @@ class Endpoint extends Entity {
     }
 
     private constructor(
-        ID: number, profileID: number, deviceID: number, inputClusters: number[], outputClusters: number[],
-        deviceNetworkAddress: number, deviceIeeeAddress: string, clusters: Clusters, binds: BindInternal[],
+        registry: Registry, ID: number, profileID: number, deviceID: number, inputClusters: number[],
+        outputClusters: number[], deviceNetworkAddress: number, deviceIeeeAddress: string, clusters: Clusters,
+        binds: BindInternal[],
         configuredReportings: ConfiguredReportingInternal[],
         meta: KeyValue,
     ) {
-        super();
+        super(registry);
         this.ID = ID;
         this.profileID = profileID;
         this.deviceID = deviceID;
@@ -162,7 +164,7 @@ class Endpoint extends Entity {
      * Get device of this endpoint
      */
     public getDevice(): Device {
-        return Device.byIeeeAddr(this.deviceIeeeAddress);
+        return Device.byIeeeAddr(this.registry, this.deviceIeeeAddress);
     }
 
     /**
@@ -206,7 +208,7 @@ class Endpoint extends Entity {
      */
 
     public static fromDatabaseRecord(
-        record: KeyValue, deviceNetworkAddress: number, deviceIeeeAddress: string,
+        registry: Registry, record: KeyValue, deviceNetworkAddress: number, deviceIeeeAddress: string,
     ): Endpoint {
         // Migrate attrs to attributes
         for (const entry of Object.values(record.clusters).filter((e) => e.hasOwnProperty('attrs'))) {
@@ -219,9 +221,9 @@ class Endpoint extends Entity {
         }
 
         return new Endpoint(
-            record.epId, record.profId, record.devId, record.inClusterList, record.outClusterList, deviceNetworkAddress,
-            deviceIeeeAddress, record.clusters, record.binds || [], record.configuredReportings || [],
-            record.meta || {},
+            registry, record.epId, record.profId, record.devId, record.inClusterList, record.outClusterList,
+            deviceNetworkAddress, deviceIeeeAddress, record.clusters, record.binds || [],
+            record.configuredReportings || [], record.meta || {},
         );
     }
 
@@ -234,11 +236,11 @@ class Endpoint extends Entity {
     }
 
     public static create(
-        ID: number, profileID: number, deviceID: number, inputClusters: number[], outputClusters: number[],
-        deviceNetworkAddress: number, deviceIeeeAddress: string,
+        registry: Registry, ID: number, profileID: number, deviceID: number, inputClusters: number[],
+        outputClusters: number[], deviceNetworkAddress: number, deviceIeeeAddress: string,
     ): Endpoint {
         return new Endpoint(
-            ID, profileID, deviceID, inputClusters, outputClusters, deviceNetworkAddress,
+            registry, ID, profileID, deviceID, inputClusters, outputClusters, deviceNetworkAddress,
             deviceIeeeAddress, {}, [], [], {},
         );
     }
@@ -372,7 +374,7 @@ class Endpoint extends Entity {
         func: (frame: Zcl.ZclFrame) => Promise<Type>): Promise<Type>;
     private async sendRequest<Type>(frame: Zcl.ZclFrame, options: Options,
         func: (d: Zcl.ZclFrame) => Promise<Type> = (d: Zcl.ZclFrame): Promise<Type> => {
-            return Entity.adapter.sendZclFrameToEndpoint(
+            return this.registry.adapter.sendZclFrameToEndpoint(
                 this.deviceIeeeAddress, this.deviceNetworkAddress, this.ID, d, options.timeout,
                 options.disableResponse, options.disableRecovery, options.srcEndpoint) as Promise<Type>;
         }): Promise<Type> {
@@ -611,7 +613,7 @@ class Endpoint extends Entity {
     public addBinding(clusterKey: number | string, target: Endpoint | Group | number): void {
         const cluster = Zcl.Utils.getCluster(clusterKey);
         if (typeof target === 'number') {
-            target = Group.byGroupID(target) || Group.create(target);
+            target = Group.byGroupID(this.registry, target) || Group.create(this.registry, target);
         }
 
         if (!this.binds.find((b) => b.cluster.ID === cluster.ID && b.target === target)) {
@@ -632,7 +634,7 @@ class Endpoint extends Entity {
         const cluster = Zcl.Utils.getCluster(clusterKey);
         const type = target instanceof Endpoint ? 'endpoint' : 'group';
         if (typeof target === 'number') {
-            target = Group.byGroupID(target) || Group.create(target);
+            target = Group.byGroupID(this.registry, target) || Group.create(this.registry, target);
         }
 
         const destinationAddress = target instanceof Endpoint ? target.deviceIeeeAddress : target.groupID;
@@ -642,7 +644,7 @@ class Endpoint extends Entity {
         debug.info(log);
 
         try {
-            await Entity.adapter.bind(
+            await this.registry.adapter.bind(
                 this.deviceNetworkAddress, this.deviceIeeeAddress, this.ID, cluster.ID, destinationAddress, type,
                 target instanceof Endpoint ? target.ID : null,
             );
@@ -671,13 +673,13 @@ class Endpoint extends Entity {
         debug.info(log);
 
         try {
-            await Entity.adapter.unbind(
+            await this.registry.adapter.unbind(
                 this.deviceNetworkAddress, this.deviceIeeeAddress, this.ID, cluster.ID, destinationAddress, type,
                 target instanceof Endpoint ? target.ID : null,
             );
 
-            if (typeof target === 'number' && Group.byGroupID(target)) {
-                target = Group.byGroupID(target);
+            if (typeof target === 'number' && Group.byGroupID(this.registry, target)) {
+                target = Group.byGroupID(this.registry, target);
             }
 
             const index = this.binds.findIndex((b) => b.cluster.ID === cluster.ID && b.target === target);
@@ -866,9 +868,9 @@ class Endpoint extends Entity {
             await this.sendRequest(frame, options, async (f) => {
                 // Broadcast Green Power responses
                 if (this.ID === 242) {
-                    await Entity.adapter.sendZclFrameToAll(242, f, 242);
+                    await this.registry.adapter.sendZclFrameToAll(242, f, 242);
                 } else {
-                    await Entity.adapter.sendZclFrameToEndpoint(
+                    await this.registry.adapter.sendZclFrameToEndpoint(
                         this.deviceIeeeAddress, this.deviceNetworkAddress, this.ID, f, options.timeout,
                         options.disableResponse, options.disableRecovery, options.srcEndpoint
                     );
@@ -886,7 +888,7 @@ class Endpoint extends Entity {
     ): {promise: Promise<{header: Zcl.ZclHeader; payload: KeyValue}>; cancel: () => void} {
         const cluster = Zcl.Utils.getCluster(clusterKey);
         const command = cluster.getCommand(commandKey);
-        const waiter = Entity.adapter.waitFor(
+        const waiter = this.registry.adapter.waitFor(
             this.deviceNetworkAddress, this.ID, Zcl.FrameType.SPECIFIC, Zcl.Direction.CLIENT_TO_SERVER,
             transactionSequenceNumber, cluster.ID, command.ID, timeout
         );
@@ -944,7 +946,7 @@ class Endpoint extends Entity {
     }
 
     public removeFromAllGroupsDatabase(): void {
-        for (const group of Group.all()) {
+        for (const group of Group.all(this.registry)) {
             if (group.hasMember(this)) {
                 group.removeMember(this);
             }
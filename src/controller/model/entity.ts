@@ -1,18 +1,14 @@
-import Database from '../database';
-import {Adapter} from '../../adapter';
+import Registry from './registry';
 import events from 'events';
 
 abstract class Entity extends events.EventEmitter {
-    protected static database: Database = null;
-    protected static adapter: Adapter = null;
+    // Not enumerable so the registry (and with it all other entities) is not included when serializing an entity.
+    protected readonly registry: Registry;
 
-    public static injectDatabase(database: Database): void {
-        Entity.database = database;
-    }
-
-    public static injectAdapter(adapter: Adapter): void {
-        Entity.adapter = adapter;
+    protected constructor(registry: Registry) {
+        super();
+        Object.defineProperty(this, 'registry', {value: registry, enumerable: false});
     }
 }
 
-export default Entity;
\ No newline at end of file
+export default Entity;
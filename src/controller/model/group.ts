@@ -1,5 +1,6 @@
 import {DatabaseEntry, KeyValue} from '../tstype';
 import Entity from './entity';
+import Registry from './registry';
 import ZclTransactionSequenceNumber from '../helpers/zclTransactionSequenceNumber';
 import * as Zcl from '../../zcl';
 import Endpoint from './endpoint';
@@ -28,12 +29,10 @@ class Group extends Entity {
     // Can be used by applications to store data.
     public readonly meta: KeyValue;
 
-    // This lookup contains all groups that are queried from the database, this is to ensure that always
-    // the same instance is returned.
-    private static groups: {[groupID: number]: Group} = null;
-
-    private constructor(databaseID: number, groupID: number, members: Set<Endpoint>, meta: KeyValue) {
-        super();
+    private constructor(
+        registry: Registry, databaseID: number, groupID: number, members: Set<Endpoint>, meta: KeyValue,
+    ) {
+        super(registry);
         this.databaseID = databaseID;
         this.groupID = groupID;
         this._members = members;
@@ -44,17 +43,17 @@ class Group extends Entity {
      * CRUD
      */
 
-    private static fromDatabaseEntry(entry: DatabaseEntry): Group {
+    private static fromDatabaseEntry(registry: Registry, entry: DatabaseEntry): Group {
         const members = new Set<Endpoint>();
         for (const member of entry.members) {
-            const device = Device.byIeeeAddr(member.deviceIeeeAddr);
+            const device = Device.byIeeeAddr(registry, member.deviceIeeeAddr);
             if (device) {
                 const endpoint = device.getEndpoint(member.endpointID);
                 members.add(endpoint);
             }
         }
 
-        return new Group(entry.id, entry.groupID, members, entry.meta);
+        return new Group(registry, entry.id, entry.groupID, members, entry.meta);
     }
 
     private toDatabaseRecord(): DatabaseEntry {
@@ -65,39 +64,39 @@ class Group extends Entity {
         return {id: this.databaseID, type: 'Group', groupID: this.groupID, members, meta: this.meta};
     }
 
-    private static loadFromDatabaseIfNecessary(): void {
-        if (!Group.groups) {
-            Group.groups = {};
-            const entries = Entity.database.getEntries(['Group']);
+    private static loadFromDatabaseIfNecessary(registry: Registry): void {
+        if (!registry.groups) {
+            registry.groups = {};
+            const entries = registry.database.getEntries(['Group']);
             for (const entry of entries) {
-                const group = Group.fromDatabaseEntry(entry);
-                Group.groups[group.groupID] = group;
+                const group = Group.fromDatabaseEntry(registry, entry);
+                registry.groups[group.groupID] = group;
             }
         }
     }
 
-    public static byGroupID(groupID: number): Group {
-        Group.loadFromDatabaseIfNecessary();
-        return Group.groups[groupID];
+    public static byGroupID(registry: Registry, groupID: number): Group {
+        Group.loadFromDatabaseIfNecessary(registry);
+        return registry.groups[groupID];
     }
 
-    public static all(): Group[] {
-        Group.loadFromDatabaseIfNecessary();
-        return Object.values(Group.groups);
+    public static all(registry: Registry): Group[] {
+        Group.loadFromDatabaseIfNecessary(registry);
+        return Object.values(registry.groups);
     }
 
-    public static create(groupID: number): Group {
+    public static create(registry: Registry, groupID: number): Group {
         assert(typeof groupID === 'number', 'GroupID must be a number');
-        Group.loadFromDatabaseIfNecessary();
-        if (Group.groups[groupID]) {
+        Group.loadFromDatabaseIfNecessary(registry);
+        if (registry.groups[groupID]) {
             throw new Error(`Group with groupID '${groupID}' already exists`);
         }
 
-        const databaseID = Entity.database.newID();
-        const group = new Group(databaseID, groupID, new Set(), {});
-        Entity.database.insert(group.toDatabaseRecord());
+        const databaseID = registry.database.newID();
+        const group = new Group(registry, databaseID, groupID, new Set(), {});
+        registry.database.insert(group.toDatabaseRecord());
 
-        Group.groups[group.groupID] = group;
+        registry.groups[group.groupID] = group;
         return group;
     }
 
@@ -110,17 +109,17 @@ class Group extends Entity {
     }
 
     public removeFromDatabase(): void {
-        Group.loadFromDatabaseIfNecessary();
+        Group.loadFromDatabaseIfNecessary(this.registry);
 
-        if (Entity.database.has(this.databaseID)) {
-            Entity.database.remove(this.databaseID);
+        if (this.registry.database.has(this.databaseID)) {
+            this.registry.database.remove(this.databaseID);
         }
 
-        delete Group.groups[this.groupID];
+        delete this.registry.groups[this.groupID];
     }
 
     public save(writeDatabase=true): void {
-        Entity.database.update(this.toDatabaseRecord(), writeDatabase);
+        this.registry.database.update(this.toDatabaseRecord(), writeDatabase);
     }
 
     public addMember(endpoint: Endpoint): void {
@@ -167,7 +166,7 @@ class Group extends Entity {
                 options.manufacturerCode, options.transactionSequenceNumber ?? ZclTransactionSequenceNumber.next(),
                 'write', cluster.ID, payload, options.reservedBits
             );
-            await Entity.adapter.sendZclFrameToGroup(this.groupID, frame, options.srcEndpoint);
+            await this.registry.adapter.sendZclFrameToGroup(this.groupID, frame, options.srcEndpoint);
         } catch (error) {
             error.message = `${log} failed (${error.message})`;
             debug.error(error.message);
@@ -195,7 +194,7 @@ class Group extends Entity {
         debug.info(log);
 
         try {
-            await Entity.adapter.sendZclFrameToGroup(this.groupID, frame, options.srcEndpoint);
+            await this.registry.adapter.sendZclFrameToGroup(this.groupID, frame, options.srcEndpoint);
         } catch (error) {
             error.message = `${log} failed (${error.message})`;
             debug.error(error.message);
@@ -219,7 +218,7 @@ class Group extends Entity {
                 options.transactionSequenceNumber || ZclTransactionSequenceNumber.next(),
                 command.ID, cluster.ID, payload, options.reservedBits
             );
-            await Entity.adapter.sendZclFrameToGroup(this.groupID, frame, options.srcEndpoint);
+            await this.registry.adapter.sendZclFrameToGroup(this.groupID, frame, options.srcEndpoint);
         } catch (error) {
             error.message = `${log} failed (${error.message})`;
             debug.error(error.message);
@@ -2,7 +2,8 @@ import Device from './device';
 import Endpoint from './endpoint';
 import Entity from './entity';
 import Group from './group';
+import Registry from './registry';
 
 export {
-    Device, Endpoint, Entity, Group,
+    Device, Endpoint, Entity, Group, Registry,
 };
\ No newline at end of file
@@ -0,0 +1,24 @@
+import Database from '../database';
+import {Adapter} from '../../adapter';
+import Device from './device';
+import Group from './group';
+
+/**
+ * Holds the database, adapter and entity lookups of a single controller. Every entity belongs to exactly one
+ * registry, this allows multiple controllers (networks) to be managed side by side in the same process.
+ */
+class Registry {
+    public readonly database: Database;
+    public adapter: Adapter = null;
+
+    // These lookups contain all devices and groups that are queried from the database, this is to ensure that
+    // always the same instance is returned. They are loaded from the database on first use.
+    public devices: {[ieeeAddr: string]: Device} = null;
+    public groups: {[groupID: number]: Group} = null;
+
+    public constructor(database: Database) {
+        this.database = database;
+    }
+}
+
+export default Registry;
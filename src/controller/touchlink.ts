@@ -1,18 +1,77 @@
-import {Adapter} from '../adapter';
+import {Adapter, Events as AdapterEvents} from '../adapter';
 import * as Zcl from '../zcl';
-import {Wait, AssertString} from '../utils';
+import {Wait, AssertString, Waitress} from '../utils';
+import {KeyValue, TouchlinkScanResult, TouchlinkEndpoint} from './tstype';
 import Debug from "debug";
+import crypto from 'crypto';
 
 const debug = Debug('zigbee-herdsman:controller:touchlink');
 const scanChannels = [11, 15, 20, 25, 12, 13, 14, 16, 17, 18, 19, 21, 22, 23, 24, 26];
 
+/**
+ * Time to wait for scan responses of other devices after the first one has been received.
+ */
+const SCAN_RESPONSE_WINDOW = 500;
+
+/**
+ * Keys used to encrypt the network key in the network join requests, indexed by their bit in the key bitmask of
+ * the scan response. The master key is used by production devices, the certification key by test devices.
+ */
+const TOUCHLINK_KEYS: {[keyIndex: number]: Buffer} = {
+    4: Buffer.from([0x9F, 0x55, 0x95, 0xF1, 0x02, 0x57, 0xC8, 0xA4, 0x69, 0xCB, 0xF4, 0x2B, 0xC9, 0x3F, 0xEE, 0x31]),
+    15: Buffer.from([0xC0, 0xC1, 0xC2, 0xC3, 0xC4, 0xC5, 0xC6, 0xC7, 0xC8, 0xC9, 0xCA, 0xCB, 0xCC, 0xCD, 0xCE, 0xCF]),
+};
+
+/**
+ * Logical device type as contained in the lower bits of the Zigbee information of the scan response.
+ */
+const LOGICAL_TYPE_ROUTER = 0x01;
+
+interface TouchlinkNetwork {
+    extendedPanID: string;
+    networkKey: Buffer;
+    panID: number;
+    channel: number;
+    networkUpdateID: number;
+    networkAddress: number;
+}
+
+interface WaitressMatcher {
+    ieeeAddr: string;
+    transactionID: number;
+    commandIdentifier: number;
+}
+
 class Touchlink {
     private adapter: Adapter;
     private locked: boolean;
+    private waitress: Waitress<AdapterEvents.ZclDataPayload, WaitressMatcher>;
+    private scanTransaction: number;
+    private scanResponses: Map<string, AdapterEvents.ZclDataPayload>;
 
     public constructor(adapter: Adapter) {
         this.adapter = adapter;
         this.locked = false;
+        this.waitress = new Waitress<AdapterEvents.ZclDataPayload, WaitressMatcher>(
+            this.waitressValidator, this.waitressTimeoutFormatter
+        );
+        this.scanTransaction = null;
+        this.scanResponses = new Map();
+    }
+
+    /**
+     * Touchlink frames received by the controller, scan responses of the running scan are collected since
+     * multiple devices can answer a single scan request.
+     */
+    public onZclData(dataPayload: AdapterEvents.ZclDataPayload): void {
+        const commandIdentifier = Zcl.Utils.getCluster('touchlink').getCommandResponse('scanResponse').ID;
+        if (this.scanTransaction !== null && typeof dataPayload.address === 'string' &&
+            dataPayload.frame.Header.commandIdentifier === commandIdentifier &&
+            dataPayload.frame.Payload.transactionID === this.scanTransaction) {
+            this.scanResponses.set(dataPayload.address, dataPayload);
+        }
+
+        this.waitress.resolve(dataPayload);
     }
 
     private lock(lock: boolean): void {
@@ -27,25 +86,21 @@ class Touchlink {
         return Math.floor(Math.random() * 0xFFFFFFFF);
     }
 
-    public async scan(): Promise<{ieeeAddr: string; channel: number}[]> {
+    public async scan(): Promise<TouchlinkScanResult[]> {
         this.lock(true);
-        const result = [];
+        const result: TouchlinkScanResult[] = [];
 
         try {
             for (const channel of scanChannels) {
                 debug(`Set InterPAN channel to '${channel}'`);
                 await this.adapter.setChannelInterPAN(channel);
 
-                try {
-                    // TODO: multiple responses are not handled yet.
-                    const response = await this.adapter.sendZclFrameInterPANBroadcast(
-                        this.createScanRequestFrame(this.transactionNumber()), 500
-                    );
-                    debug(`Got scan response on channel '${channel}' of '${response.address}'`);
-                    AssertString(response.address);
-                    result.push({ieeeAddr: response.address, channel});
-                } catch (error) {
-                    debug(`Scan request failed or was not answered: '${error}'`);
+                const transaction = this.transactionNumber();
+                const responses = await this.collectScanResponses(transaction);
+                for (const [ieeeAddr, response] of responses) {
+                    debug(`Got scan response on channel '${channel}' of '${ieeeAddr}'`);
+                    const endpoints = await this.getEndpoints(ieeeAddr, transaction, response.frame.Payload);
+                    result.push(this.createScanResult(ieeeAddr, channel, response, endpoints));
                 }
             }
         } finally {
@@ -57,6 +112,61 @@ class Touchlink {
         return result;
     }
 
+    /**
+     * Commissions the device into the given network without permit join, the network key is sent encrypted
+     * with one of the touchlink keys.
+     */
+    public async join(ieeeAddr: string, channel: number, network: TouchlinkNetwork): Promise<void> {
+        this.lock(true);
+
+        try {
+            const transaction = this.transactionNumber();
+
+            debug(`Set InterPAN channel to '${channel}'`);
+            await this.adapter.setChannelInterPAN(channel);
+
+            const scanResponse = (await this.collectScanResponses(transaction)).get(ieeeAddr);
+            if (!scanResponse) {
+                throw new Error(`Device '${ieeeAddr}' did not respond to the scan request on channel '${channel}'`);
+            }
+
+            const {keyBitmask, responseID, zigbeeInformation} = scanResponse.frame.Payload;
+            const keyIndex = [4, 15].find((index) => keyBitmask & (1 << index));
+            if (keyIndex === undefined) {
+                throw new Error(`Device '${ieeeAddr}' doesn't support a known touchlink key (bitmask '${keyBitmask}')`);
+            }
+
+            const router = (zigbeeInformation & 0x03) === LOGICAL_TYPE_ROUTER;
+            debug(`Joining '${ieeeAddr}' as ${router ? 'router' : 'end device'} with key index '${keyIndex}'`);
+            const frame = this.createNetworkJoinRequestFrame(router, {
+                transactionID: transaction,
+                extendedPanID: network.extendedPanID,
+                keyIndex,
+                encryptedNetworkKey: this.encryptNetworkKey(keyIndex, transaction, responseID, network.networkKey),
+                networkUpdateID: network.networkUpdateID,
+                logicalChannel: network.channel,
+                panID: network.panID,
+                networkAddress: network.networkAddress,
+                groupIdentifiersBegin: 0,
+                groupIdentifiersEnd: 0,
+                freeNetworkAddressRangeBegin: 0,
+                freeNetworkAddressRangeEnd: 0,
+                freeGroupIdentifierRangeBegin: 0,
+                freeGroupIdentifierRangeEnd: 0,
+            });
+
+            const response = await this.sendAndWaitForResponse(frame, ieeeAddr, transaction, 5000);
+            const status = response.frame.Payload.status;
+            if (status !== 0) {
+                throw new Error(`Touchlink join of '${ieeeAddr}' failed with status '${status}'`);
+            }
+        } finally {
+            debug(`Restore InterPAN channel`);
+            await this.adapter.restoreChannelInterPAN();
+            this.lock(false);
+        }
+    }
+
     public async identify(ieeeAddr: string, channel: number): Promise<void> {
         this.lock(true);
 
@@ -152,6 +262,135 @@ class Touchlink {
         return done;
     }
 
+    /**
+     * Devices with a single sub-device include its info in the scan response, for other devices it has to be
+     * requested. Must be called while the InterPAN channel is still set to the channel of the device.
+     */
+    private async getEndpoints(
+        ieeeAddr: string, transaction: number, scanResponse: KeyValue,
+    ): Promise<TouchlinkEndpoint[]> {
+        if (scanResponse.numberOfSubDevices === 1 && scanResponse.endpointID !== undefined) {
+            return [{
+                endpointID: scanResponse.endpointID,
+                profileID: scanResponse.profileID,
+                deviceID: scanResponse.deviceID,
+                version: scanResponse.version,
+                groupIdentifierCount: scanResponse.groupIdentifierCount,
+            }];
+        }
+
+        const endpoints: TouchlinkEndpoint[] = [];
+        try {
+            while (endpoints.length < scanResponse.numberOfSubDevices) {
+                const response = await this.sendAndWaitForResponse(
+                    this.createDeviceInformationRequestFrame(transaction, endpoints.length), ieeeAddr, transaction, 500,
+                );
+                const records: KeyValue[] = response.frame.Payload.deviceInfoRecords;
+                if (records.length === 0) break;
+                for (const {endpointID, profileID, deviceID, version, groupIdentifierCount} of records) {
+                    endpoints.push({endpointID, profileID, deviceID, version, groupIdentifierCount});
+                }
+            }
+        } catch (error) {
+            debug(`Device information request of '${ieeeAddr}' failed: '${error}'`);
+        }
+
+        return endpoints;
+    }
+
+    /**
+     * Sends the scan request and collects the responses of all devices which answer it.
+     */
+    private async collectScanResponses(transaction: number): Promise<Map<string, AdapterEvents.ZclDataPayload>> {
+        this.scanTransaction = transaction;
+        this.scanResponses = new Map();
+
+        try {
+            const response = await this.adapter.sendZclFrameInterPANBroadcast(
+                this.createScanRequestFrame(transaction), 500
+            );
+            AssertString(response.address);
+            this.scanResponses.set(response.address, response);
+            await Wait(SCAN_RESPONSE_WINDOW);
+        } catch (error) {
+            debug(`Scan request failed or was not answered: '${error}'`);
+        } finally {
+            this.scanTransaction = null;
+        }
+
+        return this.scanResponses;
+    }
+
+    private async sendAndWaitForResponse(
+        frame: Zcl.ZclFrame, ieeeAddr: string, transaction: number, timeout: number,
+    ): Promise<AdapterEvents.ZclDataPayload> {
+        const command = Zcl.Utils.getCluster('touchlink').getCommand(frame.Header.commandIdentifier);
+        const matcher = {ieeeAddr, transactionID: transaction, commandIdentifier: command.response};
+        const waiter = this.waitress.waitFor(matcher, timeout);
+        try {
+            await this.adapter.sendZclFrameInterPANToIeeeAddr(frame, ieeeAddr);
+        } catch (error) {
+            this.waitress.remove(waiter.ID);
+            throw error;
+        }
+
+        return waiter.start().promise;
+    }
+
+    /**
+     * The transport key is the expanded transaction and response identifiers encrypted with the touchlink key,
+     * the network key is encrypted with the transport key.
+     */
+    private encryptNetworkKey(keyIndex: number, transaction: number, responseID: number, networkKey: Buffer): Buffer {
+        const expanded = Buffer.alloc(16);
+        expanded.writeUInt32BE(transaction, 0);
+        expanded.writeUInt32BE(transaction, 4);
+        expanded.writeUInt32BE(responseID, 8);
+        expanded.writeUInt32BE(responseID, 12);
+
+        const encrypt = (key: Buffer, data: Buffer): Buffer => {
+            const cipher = crypto.createCipheriv('aes-128-ecb', key, null);
+            cipher.setAutoPadding(false);
+            return Buffer.concat([cipher.update(data), cipher.final()]);
+        };
+
+        return encrypt(encrypt(TOUCHLINK_KEYS[keyIndex], expanded), networkKey);
+    }
+
+    private createScanResult(
+        ieeeAddr: string, channel: number, response: AdapterEvents.ZclDataPayload, endpoints: TouchlinkEndpoint[],
+    ): TouchlinkScanResult {
+        const payload = response.frame.Payload;
+        return {
+            ieeeAddr,
+            channel,
+            linkquality: response.linkquality,
+            rssiCorrection: payload.rssiCorrection,
+            zigbeeInformation: payload.zigbeeInformation,
+            touchlinkInformation: payload.touchlinkInformation,
+            keyBitmask: payload.keyBitmask,
+            extendedPanID: payload.extendedPanID,
+            panID: payload.panID,
+            networkAddress: payload.networkAddress,
+            networkUpdateID: payload.networkUpdateID,
+            logicalChannel: payload.logicalChannel,
+            numberOfSubDevices: payload.numberOfSubDevices,
+            totalGroupIdentifiers: payload.totalGroupIdentifiers,
+            endpoints,
+        };
+    }
+
+    private waitressTimeoutFormatter(matcher: WaitressMatcher, timeout: number): string {
+        return `Timeout - ${matcher.ieeeAddr} - ${matcher.transactionID} - ${matcher.commandIdentifier}` +
+            ` after ${timeout}ms`;
+    }
+
+    private waitressValidator(payload: AdapterEvents.ZclDataPayload, matcher: WaitressMatcher): boolean {
+        return payload.address === matcher.ieeeAddr &&
+            payload.frame.Header.commandIdentifier === matcher.commandIdentifier &&
+            payload.frame.Payload.transactionID === matcher.transactionID;
+    }
+
     private createScanRequestFrame(transaction: number): Zcl.ZclFrame {
         return Zcl.ZclFrame.create(
             Zcl.FrameType.SPECIFIC, Zcl.Direction.CLIENT_TO_SERVER, true,
@@ -160,6 +399,22 @@ class Touchlink {
         );
     }
 
+    private createDeviceInformationRequestFrame(transaction: number, startIndex: number): Zcl.ZclFrame {
+        return Zcl.ZclFrame.create(
+            Zcl.FrameType.SPECIFIC, Zcl.Direction.CLIENT_TO_SERVER, true,
+            null, 0, 'deviceInformationRequest', Zcl.Utils.getCluster('touchlink').ID,
+            {transactionID: transaction, startIndex}
+        );
+    }
+
+    private createNetworkJoinRequestFrame(router: boolean, payload: KeyValue): Zcl.ZclFrame {
+        return Zcl.ZclFrame.create(
+            Zcl.FrameType.SPECIFIC, Zcl.Direction.CLIENT_TO_SERVER, true,
+            null, 0, router ? 'networkJoinRouterRequest' : 'networkJoinEndDeviceRequest',
+            Zcl.Utils.getCluster('touchlink').ID, payload,
+        );
+    }
+
     private createIdentifyRequestFrame(transaction: number): Zcl.ZclFrame {
         return Zcl.ZclFrame.create(
             Zcl.FrameType.SPECIFIC, Zcl.Direction.CLIENT_TO_SERVER, true,
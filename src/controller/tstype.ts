@@ -21,7 +21,7 @@ type SendPolicy = 'bulk' | 'queue' | 'immediate' | 'keep-payload' | 'keep-comman
 type SendRequestWhen = 'immediate' | 'fastpoll' | 'active';
 type DeviceType = 'Coordinator' | 'Router' | 'EndDevice' | 'Unknown' | 'GreenPower';
 
-type EntityType = DeviceType | 'Group';
+type EntityType = DeviceType | 'Group' | 'InstallCode';
 
 interface DatabaseEntry {
     id: number;
@@ -40,7 +40,101 @@ interface GreenPowerDeviceJoinedPayload {
     networkAddress: number;
 }
 
+interface ReconnectOptions {
+    /**
+     * Number of attempts after which the controller gives up and emits `adapterDisconnected`.
+     */
+    maxAttempts: number;
+    /**
+     * Delay in ms before the first attempt, it's doubled after every failed attempt.
+     */
+    initialDelay: number;
+    /**
+     * Upper limit in ms of the delay between two attempts.
+     */
+    maxDelay: number;
+}
+
+/**
+ * Rule of a join policy list, a device matches when it matches all properties which are set.
+ */
+interface JoinPolicyRule {
+    ieeeAddr?: string;
+    /**
+     * Organizationally unique identifier, the first 3 bytes of the IEEE address (e.g. `0x00124b`).
+     */
+    oui?: string;
+    /**
+     * Manufacturer name and model are only known after the device has been interviewed.
+     */
+    manufacturerName?: string;
+    modelID?: string;
+}
+
+interface JoinPolicyOptions {
+    /**
+     * When not empty only devices matching one of these rules are allowed to join.
+     */
+    allow?: JoinPolicyRule[];
+    /**
+     * Devices matching one of these rules are never allowed to join, takes precedence over `allow`.
+     */
+    deny?: JoinPolicyRule[];
+    /**
+     * Only allow new devices for which an install code has been added through `Controller.addInstallCode()`,
+     * devices commissioned through `Controller.touchlinkJoin()` are exempt. The added install codes are kept in the
+     * database until the adapter forms a new network.
+     */
+    installCodeRequired?: boolean;
+    /**
+     * Maximum number of devices (excluding the coordinator) in the network.
+     */
+    maxDevices?: number;
+}
+
+type JoinRejectReason = 'handler' | 'denylist' | 'allowlist' | 'installCodeRequired' | 'maxDevices';
+
+interface ScheduledJoinWindow {
+    id: number;
+    start: Date;
+    /**
+     * Time in seconds the window stays open.
+     */
+    time: number;
+    /**
+     * Router (or coordinator) joining will be permitted through, null for the whole network.
+     */
+    ieeeAddr: string;
+}
+
+interface TouchlinkEndpoint {
+    endpointID: number;
+    profileID: number;
+    deviceID: number;
+    version: number;
+    groupIdentifierCount: number;
+}
+
+interface TouchlinkScanResult {
+    ieeeAddr: string;
+    channel: number;
+    linkquality: number;
+    rssiCorrection: number;
+    zigbeeInformation: number;
+    touchlinkInformation: number;
+    keyBitmask: number;
+    extendedPanID: string;
+    panID: number;
+    networkAddress: number;
+    networkUpdateID: number;
+    logicalChannel: number;
+    numberOfSubDevices: number;
+    totalGroupIdentifiers: number;
+    endpoints: TouchlinkEndpoint[];
+}
+
 export {
     KeyValue, DatabaseEntry, EntityType, DeviceType, GreenPowerEvents, GreenPowerDeviceJoinedPayload,
-    SendRequestWhen, SendPolicy
+    SendRequestWhen, SendPolicy, TouchlinkScanResult, TouchlinkEndpoint, ReconnectOptions, JoinPolicyRule,
+    JoinPolicyOptions, JoinRejectReason, ScheduledJoinWindow,
 };
\ No newline at end of file
@@ -26,6 +26,9 @@ export interface UnifiedBackupStorage {
         ezsp?: {
             hashed_tclk?: string;
         };
+        zigate?: {
+            frame_counter_unknown: boolean;
+        };
     };
     coordinator_ieee: string;
     pan_id: string;
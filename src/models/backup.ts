@@ -5,6 +5,9 @@ import {NetworkOptions} from "./network-options";
  * Internal representation of stored backup. Contains all essential network information.
  * 
  * Additional `znp` object may contain extra information specific to Z-Stack based coordinators.
+ *
+ * Backups of ZiGate coordinators contain a `zigate` object, ZiGate doesn't expose its network frame counter so these
+ * backups can only be restored onto a ZiGate.
  */
 export interface Backup {
     networkOptions: NetworkOptions;
@@ -34,4 +37,7 @@ export interface Backup {
         version?: number;
         hashed_tclk?: Buffer;
     };
+    zigate?: {
+        frameCounterUnknown: boolean;
+    };
 }
@@ -43,6 +43,11 @@ export const toUnifiedBackup = async (backup: Models.Backup): Promise<Models.Uni
                 ezsp: {
                     hashed_tclk: backup.ezsp?.hashed_tclk?.toString("hex") || undefined
                 }
+            } : undefined,
+            ...(backup.zigate) ? {
+                zigate: {
+                    frame_counter_unknown: backup.zigate.frameCounterUnknown
+                }
             } : undefined
         },
         coordinator_ieee: backup.coordinatorIeeeAddress?.toString("hex") || null,
@@ -81,6 +86,8 @@ export const toUnifiedBackup = async (backup: Models.Backup): Promise<Models.Uni
  */
 export const fromUnifiedBackup = (backup: Models.UnifiedBackupStorage): Models.Backup => {
     const tclkSeedString = backup.stack_specific?.zstack?.tclk_seed || null;
+    const hashedTclkString = backup.stack_specific?.ezsp?.hashed_tclk || null;
+    const ezspVersion = backup.metadata.internal?.ezspVersion;
     /* istanbul ignore next */
     return {
         networkOptions: {
@@ -111,7 +118,18 @@ export const fromUnifiedBackup = (backup: Models.UnifiedBackupStorage): Models.B
         znp: {
             version: backup.metadata.internal?.znpVersion || undefined,
             trustCenterLinkKeySeed: tclkSeedString ? Buffer.from(tclkSeedString, "hex") : undefined,
-        }
+        },
+        ...(hashedTclkString || ezspVersion) ? {
+            ezsp: {
+                version: ezspVersion || undefined,
+                hashed_tclk: hashedTclkString ? Buffer.from(hashedTclkString, "hex") : undefined,
+            }
+        } : undefined,
+        ...(backup.stack_specific?.zigate) ? {
+            zigate: {
+                frameCounterUnknown: backup.stack_specific.zigate.frame_counter_unknown
+            }
+        } : undefined
     };
 };
 
@@ -6,8 +6,9 @@ import EqualsPartial from './equalsPartial';
 import RealpathSync from './realpathSync';
 import AssertString from './assertString';
 import * as BackupUtils from './backup';
+import * as InstallCodeUtils from './installCode';
 
 export {
     Wait, IsNumberArray, Queue, Waitress, EqualsPartial, RealpathSync,
-    AssertString, BackupUtils, 
+    AssertString, BackupUtils, InstallCodeUtils,
 };
\ No newline at end of file
@@ -0,0 +1,70 @@
+import crypto from 'crypto';
+
+/**
+ * Valid install code lengths in bytes, including the 2 byte CRC.
+ */
+const INSTALL_CODE_LENGTHS = [8, 10, 14, 18];
+
+const AES_BLOCK_SIZE = 16;
+
+/**
+ * CRC-16/X-25 as used for the CRC appended to install codes.
+ */
+const crc16 = (data: Buffer): number => {
+    let crc = 0xFFFF;
+    for (const byte of data) {
+        crc ^= byte;
+        for (let i = 0; i < 8; i++) {
+            crc = (crc & 1) ? (crc >> 1) ^ 0x8408 : crc >> 1;
+        }
+    }
+    return ~crc & 0xFFFF;
+};
+
+/**
+ * Matyas-Meyer-Oseas hash with AES-128 as described in the Zigbee specification (B.6).
+ *
+ * @param data Data to hash, at most 8191 bytes.
+ */
+export const aesMmoHash = (data: Buffer): Buffer => {
+    /* pad with a single 1 bit, zeros and the bit length as 16 bit big endian number */
+    const paddedLength = Math.ceil((data.length + 3) / AES_BLOCK_SIZE) * AES_BLOCK_SIZE;
+    const padded = Buffer.alloc(paddedLength);
+    data.copy(padded);
+    padded[data.length] = 0x80;
+    padded.writeUInt16BE(data.length * 8, paddedLength - 2);
+
+    let hash = Buffer.alloc(AES_BLOCK_SIZE);
+    for (let offset = 0; offset < paddedLength; offset += AES_BLOCK_SIZE) {
+        const block = padded.slice(offset, offset + AES_BLOCK_SIZE);
+        const cipher = crypto.createCipheriv('aes-128-ecb', hash, null);
+        cipher.setAutoPadding(false);
+        const encrypted = Buffer.concat([cipher.update(block), cipher.final()]);
+        hash = Buffer.from(encrypted.map((byte, i) => byte ^ block[i]));
+    }
+
+    return hash;
+};
+
+/**
+ * Derives the link key from an install code, for adapters which can't do this themselves. Keys of 16 bytes are
+ * assumed to be derived already and are returned as is.
+ *
+ * @param code Install code including CRC or derived link key.
+ */
+export const toLinkKey = (code: Buffer): Buffer => {
+    if (code.length === AES_BLOCK_SIZE) {
+        return code;
+    }
+
+    if (!INSTALL_CODE_LENGTHS.includes(code.length)) {
+        throw new Error(`Wrong install code length '${code.length}'`);
+    }
+
+    const crc = code.readUInt16LE(code.length - 2);
+    if (crc16(code.slice(0, code.length - 2)) !== crc) {
+        throw new Error('Install code CRC is invalid');
+    }
+
+    return aesMmoHash(code);
+};
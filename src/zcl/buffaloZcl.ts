@@ -134,6 +134,16 @@ interface MiboxerZone {
     groupId: number;
 }
 
+interface TouchlinkDeviceInfo {
+    ieeeAddr: string;
+    endpointID: number;
+    profileID: number;
+    deviceID: number;
+    version: number;
+    groupIdentifierCount: number;
+    sort: number;
+}
+
 class BuffaloZcl extends Buffalo {
     private readUseDataType(options: BuffaloZclOptions): TsType.Value {
         return this.read(options.dataType, options);
@@ -281,6 +291,35 @@ class BuffaloZcl extends Buffalo {
         return value;
     }
 
+    private writeListTouchlinkDeviceInfo(values: TouchlinkDeviceInfo[]): void {
+        for (const value of values) {
+            this.writeIeeeAddr(value.ieeeAddr);
+            this.writeUInt8(value.endpointID);
+            this.writeUInt16(value.profileID);
+            this.writeUInt16(value.deviceID);
+            this.writeUInt8(value.version);
+            this.writeUInt8(value.groupIdentifierCount);
+            this.writeUInt8(value.sort);
+        }
+    }
+
+    private readListTouchlinkDeviceInfo(options: TsType.Options): TouchlinkDeviceInfo[] {
+        const value = [];
+        for (let i = 0; i < options.length; i++) {
+            value.push({
+                ieeeAddr: this.readIeeeAddr(),
+                endpointID: this.readUInt8(),
+                profileID: this.readUInt16(),
+                deviceID: this.readUInt16(),
+                version: this.readUInt8(),
+                groupIdentifierCount: this.readUInt8(),
+                sort: this.readUInt8(),
+            });
+        }
+
+        return value;
+    }
+
     private readListThermoTransitions(options: TsType.Options): ThermoTransition[] {
         const heat = options.payload['mode'] & 1;
         const cool = options.payload['mode'] & 2;
@@ -614,6 +653,8 @@ class BuffaloZcl extends Buffalo {
             return this.writeListTuyaDataPointValues(value);
         } else if (type === 'LIST_MIBOXER_ZONES') {
             return this.writeListMiboxerZones(value);
+        } else if (type === 'LIST_TOUCHLINK_DEVICE_INFO') {
+            return this.writeListTouchlinkDeviceInfo(value);
         } else if (type === 'BIG_ENDIAN_UINT24') {
             return this.writeBigEndianUInt24(value);
         } else if (type === 'GDP_FRAME') {
@@ -662,6 +703,8 @@ class BuffaloZcl extends Buffalo {
             return this.readListTuyaDataPointValues();
         } else if (type === 'LIST_MIBOXER_ZONES') {
             return this.readListMiboxerZones();
+        } else if (type === 'LIST_TOUCHLINK_DEVICE_INFO') {
+            return this.readListTouchlinkDeviceInfo(options);
         } else if (type === 'BIG_ENDIAN_UINT24') {
             return this.readBigEndianUInt24();
         } else if (type === 'uint40') {
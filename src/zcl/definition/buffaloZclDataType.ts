@@ -13,6 +13,7 @@ enum BuffaloZclDataType {
     LIST_TUYA_DATAPOINT_VALUES = 1011,
     LIST_MIBOXER_ZONES = 1012,
     BIG_ENDIAN_UINT24 = 1013,
+    LIST_TOUCHLINK_DEVICE_INFO = 1014,
 }
 
 export default BuffaloZclDataType;
\ No newline at end of file
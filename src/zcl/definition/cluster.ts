@@ -4028,6 +4028,14 @@ const Cluster: {
                     {name: 'touchlinkInformation', type: DataType.bitmap8},
                 ],
             },
+            deviceInformationRequest: {
+                ID: 2,
+                response: 3,
+                parameters: [
+                    {name: 'transactionID', type: DataType.uint32},
+                    {name: 'startIndex', type: DataType.uint8},
+                ],
+            },
             identifyRequest: {
                 ID: 6,
                 parameters: [
@@ -4041,6 +4049,46 @@ const Cluster: {
                     {name: 'transactionID', type: DataType.uint32},
                 ],
             },
+            networkJoinRouterRequest: {
+                ID: 18,
+                response: 19,
+                parameters: [
+                    {name: 'transactionID', type: DataType.uint32},
+                    {name: 'extendedPanID', type: DataType.ieeeAddr},
+                    {name: 'keyIndex', type: DataType.uint8},
+                    {name: 'encryptedNetworkKey', type: DataType.secKey},
+                    {name: 'networkUpdateID', type: DataType.uint8},
+                    {name: 'logicalChannel', type: DataType.uint8},
+                    {name: 'panID', type: DataType.uint16},
+                    {name: 'networkAddress', type: DataType.uint16},
+                    {name: 'groupIdentifiersBegin', type: DataType.uint16},
+                    {name: 'groupIdentifiersEnd', type: DataType.uint16},
+                    {name: 'freeNetworkAddressRangeBegin', type: DataType.uint16},
+                    {name: 'freeNetworkAddressRangeEnd', type: DataType.uint16},
+                    {name: 'freeGroupIdentifierRangeBegin', type: DataType.uint16},
+                    {name: 'freeGroupIdentifierRangeEnd', type: DataType.uint16},
+                ],
+            },
+            networkJoinEndDeviceRequest: {
+                ID: 20,
+                response: 21,
+                parameters: [
+                    {name: 'transactionID', type: DataType.uint32},
+                    {name: 'extendedPanID', type: DataType.ieeeAddr},
+                    {name: 'keyIndex', type: DataType.uint8},
+                    {name: 'encryptedNetworkKey', type: DataType.secKey},
+                    {name: 'networkUpdateID', type: DataType.uint8},
+                    {name: 'logicalChannel', type: DataType.uint8},
+                    {name: 'panID', type: DataType.uint16},
+                    {name: 'networkAddress', type: DataType.uint16},
+                    {name: 'groupIdentifiersBegin', type: DataType.uint16},
+                    {name: 'groupIdentifiersEnd', type: DataType.uint16},
+                    {name: 'freeNetworkAddressRangeBegin', type: DataType.uint16},
+                    {name: 'freeNetworkAddressRangeEnd', type: DataType.uint16},
+                    {name: 'freeGroupIdentifierRangeBegin', type: DataType.uint16},
+                    {name: 'freeGroupIdentifierRangeEnd', type: DataType.uint16},
+                ],
+            },
         },
         commandsResponse: {
             scanResponse: {
@@ -4059,15 +4107,42 @@ const Cluster: {
                     {name: 'networkAddress', type: DataType.uint16},
                     {name: 'numberOfSubDevices', type: DataType.uint8},
                     {name: 'totalGroupIdentifiers', type: DataType.uint8},
-                    // Below are optional according to the spec, not all devices send these.
+                    // Below are only present when the device has one sub-device, not all devices send these.
                     // e.g. https://github.com/Koenkk/zigbee2mqtt/issues/8535#issuecomment-909199162
-                    // Since we don't have a way to deal with optional attributes yet and since we don't
-                    // use these attributes anyway, disable them for now.
-                    // {name: 'endpointID', type: DataType.uint8},
-                    // {name: 'profileID', type: DataType.uint16},
-                    // {name: 'deviceID', type: DataType.uint16},
-                    // {name: 'version', type: DataType.uint8},
-                    // {name: 'groupIdentifierCount', type: DataType.uint8},
+                    {name: 'endpointID', type: DataType.uint8,
+                        conditions: [{type: 'minimumRemainingBufferBytes', value: 7}]},
+                    {name: 'profileID', type: DataType.uint16,
+                        conditions: [{type: 'minimumRemainingBufferBytes', value: 6}]},
+                    {name: 'deviceID', type: DataType.uint16,
+                        conditions: [{type: 'minimumRemainingBufferBytes', value: 4}]},
+                    {name: 'version', type: DataType.uint8,
+                        conditions: [{type: 'minimumRemainingBufferBytes', value: 2}]},
+                    {name: 'groupIdentifierCount', type: DataType.uint8,
+                        conditions: [{type: 'minimumRemainingBufferBytes', value: 1}]},
+                ],
+            },
+            deviceInformationResponse: {
+                ID: 3,
+                parameters: [
+                    {name: 'transactionID', type: DataType.uint32},
+                    {name: 'numberOfSubDevices', type: DataType.uint8},
+                    {name: 'startIndex', type: DataType.uint8},
+                    {name: 'deviceInfoRecordCount', type: DataType.uint8},
+                    {name: 'deviceInfoRecords', type: BuffaloZclDataType.LIST_TOUCHLINK_DEVICE_INFO},
+                ],
+            },
+            networkJoinRouterResponse: {
+                ID: 19,
+                parameters: [
+                    {name: 'transactionID', type: DataType.uint32},
+                    {name: 'status', type: DataType.uint8},
+                ],
+            },
+            networkJoinEndDeviceResponse: {
+                ID: 21,
+                parameters: [
+                    {name: 'transactionID', type: DataType.uint32},
+                    {name: 'status', type: DataType.uint8},
                 ],
             },
         },
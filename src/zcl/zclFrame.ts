@@ -17,6 +17,7 @@ const ListTypes: number[] = [
     BuffaloZclDataType.LIST_UINT24,
     BuffaloZclDataType.LIST_UINT32,
     BuffaloZclDataType.LIST_ZONEINFO,
+    BuffaloZclDataType.LIST_TOUCHLINK_DEVICE_INFO,
 ];
 
 class ZclFrame {
@@ -340,8 +341,10 @@ class ZclFrame {
                     return (entry[condition.param] & condition.mask) !== condition.mask;
                 } else if(condition.type == 'bitFieldEnum') {
                     return ((entry[condition.param] >> condition.offset) & ((1<<condition.size)-1)) !== condition.value;
-                } else if (remainingBufferBytes != null && condition.type == 'minimumRemainingBufferBytes') {
-                    return remainingBufferBytes < (condition.value as number);
+                } else if (condition.type == 'minimumRemainingBufferBytes') {
+                    // When writing the parameter is optional, it's only written when present
+                    return remainingBufferBytes != null ?
+                        remainingBufferBytes < (condition.value as number) : !entry.hasOwnProperty(parameter.name);
                 } else  {
                     /* istanbul ignore else */
                     if (condition.type == 'dataTypeValueTypeEquals') {
@@ -0,0 +1,272 @@
+import "regenerator-runtime/runtime";
+import fs from 'fs';
+import path from 'path';
+import {Adapter, Events} from '../../src/adapter';
+import {VirtualNetwork} from '../../src/adapter/virtual/driver';
+import * as Zcl from '../../src/zcl';
+
+const networkPath = 'virtual://capture';
+
+const networkOptions = {
+    panID: 0x1a62,
+    extendedPanID: [0xDD, 0xDD, 0xDD, 0xDD, 0xDD, 0xDD, 0xDD, 0xDD],
+    channelList: [15],
+    networkKey: [1, 3, 5, 7, 9, 11, 13, 15, 0, 2, 4, 6, 8, 10, 12, 13],
+};
+
+const capturePath = path.join(path.resolve('temp'), 'capture.pcapng');
+
+interface Block {
+    type: number;
+    body: Buffer;
+}
+
+const readBlocks = (): Block[] => {
+    const buffer = fs.readFileSync(capturePath);
+    const blocks = [];
+    let offset = 0;
+    while (offset < buffer.length) {
+        const length = buffer.readUInt32LE(offset + 4);
+        expect(buffer.readUInt32LE(offset + length - 4)).toBe(length);
+        blocks.push({type: buffer.readUInt32LE(offset), body: buffer.slice(offset + 8, offset + length - 4)});
+        offset += length;
+    }
+
+    return blocks;
+};
+
+const packets = (): Buffer[] => {
+    return readBlocks().filter((b) => b.type === 6).map((b) => b.body.slice(20, 20 + b.body.readUInt32LE(12)));
+};
+
+const readFrame = (): Zcl.ZclFrame => {
+    return Zcl.ZclFrame.create(
+        Zcl.FrameType.GLOBAL, Zcl.Direction.CLIENT_TO_SERVER, true, null, 10, 'read', 0, [{attrId: 5}],
+    );
+};
+
+const mockLogger = {error: jest.fn(), warn: jest.fn(), info: jest.fn(), debug: jest.fn()};
+
+const createAdapter = async (includeNetworkKey: boolean, path = capturePath): Promise<Adapter> => {
+    const adapter = await Adapter.create(
+        networkOptions, {path: networkPath, adapter: 'virtual'}, null,
+        {disableLED: false, capture: {path, includeNetworkKey}}, mockLogger,
+    );
+    await adapter.start();
+    return adapter;
+};
+
+describe('Capture', () => {
+    beforeEach(() => {
+        mockLogger.error.mockClear();
+        fs.mkdirSync(path.dirname(capturePath), {recursive: true});
+        if (fs.existsSync(capturePath)) {
+            fs.unlinkSync(capturePath);
+        }
+
+        VirtualNetwork.remove(networkPath);
+        VirtualNetwork.get(networkPath).addDevice({
+            ieeeAddr: '0x000b57fffec6a5b2', networkAddress: 0x1001, type: 'Router',
+            endpoints: [{ID: 1, inputClusters: [0x0000], outputClusters: [], attributes: {genBasic: {modelId: 'bulb'}}}],
+        });
+    });
+
+    afterAll(() => {
+        fs.unlinkSync(capturePath);
+    });
+
+    it('Writes section header and interface description', async () => {
+        const adapter = await createAdapter(false);
+        await adapter.stop();
+
+        const blocks = readBlocks();
+        expect(blocks.map((b) => b.type)).toStrictEqual([0x0A0D0D0A, 1]);
+        expect(blocks[0].body).toStrictEqual(Buffer.from([
+            0x4D, 0x3C, 0x2B, 0x1A, 0x01, 0x00, 0x00, 0x00, 0xFF, 0xFF, 0xFF, 0xFF, 0xFF, 0xFF, 0xFF, 0xFF,
+        ]));
+        expect(blocks[1].body).toStrictEqual(Buffer.from([0xE6, 0x00, 0x00, 0x00, 0x00, 0x00, 0x00, 0x00]));
+    });
+
+    it('Includes the network key', async () => {
+        const adapter = await createAdapter(true);
+        await adapter.stop();
+
+        const sectionHeader = readBlocks()[0].body;
+        const comment = 'Zigbee network key: 01:03:05:07:09:0b:0d:0f:00:02:04:06:08:0a:0c:0d';
+        expect(sectionHeader.readUInt16LE(16)).toBe(1);
+        expect(sectionHeader.readUInt16LE(18)).toBe(comment.length);
+        expect(sectionHeader.slice(20, 20 + comment.length).toString()).toBe(comment);
+        expect(sectionHeader.slice(-4)).toStrictEqual(Buffer.alloc(4));
+    });
+
+    it('Captures sent and received frames', async () => {
+        const adapter = await createAdapter(false);
+        await adapter.permitJoin(254, null);
+        VirtualNetwork.get(networkPath).join('0x000b57fffec6a5b2');
+        const response = await adapter.sendZclFrameToEndpoint(
+            '0x000b57fffec6a5b2', 0x1001, 1, readFrame(), 1000, false, false,
+        );
+        await adapter.sendZclFrameToGroup(0x0102, readFrame());
+        await adapter.sendZclFrameToAll(242, readFrame(), 242);
+        await adapter.stop();
+
+        expect(packets()).toStrictEqual([
+            Buffer.from([
+                0x41, 0x88, 0x00, 0x62, 0x1a, 0x01, 0x10, 0x00, 0x00,
+                0x08, 0x00, 0x01, 0x10, 0x00, 0x00, 0x1e, 0x00,
+                0x00, 0x01, 0x00, 0x00, 0x04, 0x01, 0x01, 0x00,
+                0x10, 0x0a, 0x00, 0x05, 0x00,
+            ]),
+            Buffer.concat([
+                Buffer.from([
+                    0x41, 0x88, 0x01, 0x62, 0x1a, 0x00, 0x00, 0x01, 0x10,
+                    0x08, 0x00, 0x00, 0x00, 0x01, 0x10, 0x1e, 0x01,
+                    0x00, 0x01, 0x00, 0x00, 0x04, 0x01, 0x01, 0x01,
+                ]),
+                response.frame.toBuffer(),
+            ]),
+            Buffer.from([
+                0x41, 0x88, 0x02, 0x62, 0x1a, 0xff, 0xff, 0x00, 0x00,
+                0x08, 0x00, 0xfd, 0xff, 0x00, 0x00, 0x1e, 0x02,
+                0x0c, 0x02, 0x01, 0x00, 0x00, 0x04, 0x01, 0x01, 0x02,
+                0x10, 0x0a, 0x00, 0x05, 0x00,
+            ]),
+            Buffer.from([
+                0x41, 0x88, 0x03, 0x62, 0x1a, 0xff, 0xff, 0x00, 0x00,
+                0x08, 0x00, 0xfd, 0xff, 0x00, 0x00, 0x1e, 0x03,
+                0x08, 0xf2, 0x00, 0x00, 0x04, 0x01, 0xf2, 0x03,
+                0x10, 0x0a, 0x00, 0x05, 0x00,
+            ]),
+        ]);
+    });
+
+    it('Captures raw, broadcast and group data, but not inter-PAN frames', async () => {
+        const adapter = await createAdapter(false);
+        const payload = {
+            address: 0x1001, endpoint: 0, linkquality: 100, groupID: 0, wasBroadcast: true, destinationEndpoint: 0,
+        };
+        adapter.emit(Events.Events.rawData, {...payload, clusterID: 0x0013, data: Buffer.from([0x01, 0x02])});
+        adapter.emit(Events.Events.rawData, {...payload, endpoint: 1, wasBroadcast: false, clusterID: 0x0006,
+            data: Buffer.from([0x03])});
+        adapter.emit(Events.Events.rawData, {...payload, endpoint: 1, groupID: 0x0102, clusterID: 0x0006,
+            data: Buffer.from([0x05])});
+        adapter.emit(Events.Events.rawData, {...payload, address: '0x000b57fffec6a5b2', clusterID: 0x1000,
+            data: Buffer.from([0x04])});
+        adapter.emit(Events.Events.zclData, {...payload, address: '0x000b57fffec6a5b2', frame: readFrame()});
+        await adapter.stop();
+
+        expect(packets()).toStrictEqual([
+            Buffer.from([
+                0x41, 0x88, 0x00, 0x62, 0x1a, 0xff, 0xff, 0x01, 0x10,
+                0x08, 0x00, 0xfd, 0xff, 0x01, 0x10, 0x1e, 0x00,
+                0x08, 0x00, 0x13, 0x00, 0x00, 0x00, 0x00, 0x00,
+                0x01, 0x02,
+            ]),
+            Buffer.from([
+                0x41, 0x88, 0x01, 0x62, 0x1a, 0x00, 0x00, 0x01, 0x10,
+                0x08, 0x00, 0x00, 0x00, 0x01, 0x10, 0x1e, 0x01,
+                0x00, 0x00, 0x06, 0x00, 0x04, 0x01, 0x01, 0x01,
+                0x03,
+            ]),
+            Buffer.from([
+                0x41, 0x88, 0x02, 0x62, 0x1a, 0xff, 0xff, 0x01, 0x10,
+                0x08, 0x00, 0xfd, 0xff, 0x01, 0x10, 0x1e, 0x02,
+                0x0c, 0x02, 0x01, 0x06, 0x00, 0x04, 0x01, 0x01, 0x02,
+                0x05,
+            ]),
+        ]);
+    });
+
+    it('Captures ZDO requests', async () => {
+        const adapter = await createAdapter(false);
+        await adapter.permitJoin(254, null);
+        VirtualNetwork.get(networkPath).join('0x000b57fffec6a5b2');
+        await adapter.nodeDescriptor(0x1001);
+        await adapter.simpleDescriptor(0x1001, 1);
+        await adapter.lqi(0x1001);
+        await adapter.bind(0x1001, '0x000b57fffec6a5b2', 1, 0x0006, '0x00124b0018ed23a1', 'endpoint', 1);
+        await adapter.unbind(0x1001, '0x000b57fffec6a5b2', 1, 0x0006, 0x0102, 'group', null);
+        await adapter.activeEndpoints(0x1001);
+        await adapter.routingTable(0x1001);
+        await adapter.removeDevice(0x1001, '0x000b57fffec6a5b2');
+        await adapter.stop();
+
+        expect(packets()).toStrictEqual([
+            Buffer.from([
+                0x41, 0x88, 0x00, 0x62, 0x1a, 0x01, 0x10, 0x00, 0x00,
+                0x08, 0x00, 0x01, 0x10, 0x00, 0x00, 0x1e, 0x00,
+                0x00, 0x00, 0x02, 0x00, 0x00, 0x00, 0x00, 0x00,
+                0x00, 0x01, 0x10,
+            ]),
+            Buffer.from([
+                0x41, 0x88, 0x01, 0x62, 0x1a, 0x01, 0x10, 0x00, 0x00,
+                0x08, 0x00, 0x01, 0x10, 0x00, 0x00, 0x1e, 0x01,
+                0x00, 0x00, 0x04, 0x00, 0x00, 0x00, 0x00, 0x01,
+                0x01, 0x01, 0x10, 0x01,
+            ]),
+            Buffer.from([
+                0x41, 0x88, 0x02, 0x62, 0x1a, 0x01, 0x10, 0x00, 0x00,
+                0x08, 0x00, 0x01, 0x10, 0x00, 0x00, 0x1e, 0x02,
+                0x00, 0x00, 0x31, 0x00, 0x00, 0x00, 0x00, 0x02,
+                0x02, 0x00,
+            ]),
+            Buffer.from([
+                0x41, 0x88, 0x03, 0x62, 0x1a, 0x01, 0x10, 0x00, 0x00,
+                0x08, 0x00, 0x01, 0x10, 0x00, 0x00, 0x1e, 0x03,
+                0x00, 0x00, 0x21, 0x00, 0x00, 0x00, 0x00, 0x03,
+                0x03, 0xb2, 0xa5, 0xc6, 0xfe, 0xff, 0x57, 0x0b, 0x00, 0x01, 0x06, 0x00,
+                0x03, 0xa1, 0x23, 0xed, 0x18, 0x00, 0x4b, 0x12, 0x00, 0x01,
+            ]),
+            Buffer.from([
+                0x41, 0x88, 0x04, 0x62, 0x1a, 0x01, 0x10, 0x00, 0x00,
+                0x08, 0x00, 0x01, 0x10, 0x00, 0x00, 0x1e, 0x04,
+                0x00, 0x00, 0x22, 0x00, 0x00, 0x00, 0x00, 0x04,
+                0x04, 0xb2, 0xa5, 0xc6, 0xfe, 0xff, 0x57, 0x0b, 0x00, 0x01, 0x06, 0x00,
+                0x01, 0x02, 0x01,
+            ]),
+            Buffer.from([
+                0x41, 0x88, 0x05, 0x62, 0x1a, 0x01, 0x10, 0x00, 0x00,
+                0x08, 0x00, 0x01, 0x10, 0x00, 0x00, 0x1e, 0x05,
+                0x00, 0x00, 0x05, 0x00, 0x00, 0x00, 0x00, 0x05,
+                0x05, 0x01, 0x10,
+            ]),
+            Buffer.from([
+                0x41, 0x88, 0x06, 0x62, 0x1a, 0x01, 0x10, 0x00, 0x00,
+                0x08, 0x00, 0x01, 0x10, 0x00, 0x00, 0x1e, 0x06,
+                0x00, 0x00, 0x32, 0x00, 0x00, 0x00, 0x00, 0x06,
+                0x06, 0x00,
+            ]),
+            Buffer.from([
+                0x41, 0x88, 0x07, 0x62, 0x1a, 0x01, 0x10, 0x00, 0x00,
+                0x08, 0x00, 0x01, 0x10, 0x00, 0x00, 0x1e, 0x07,
+                0x00, 0x00, 0x34, 0x00, 0x00, 0x00, 0x00, 0x07,
+                0x07, 0xb2, 0xa5, 0xc6, 0xfe, 0xff, 0x57, 0x0b, 0x00, 0x00,
+            ]),
+        ]);
+    });
+
+    it('Logs write errors without failing the adapter', async () => {
+        const adapter = await createAdapter(false, path.join(path.dirname(capturePath), 'missing', 'capture.pcapng'));
+        // Opening the file fails asynchronously
+        while (mockLogger.error.mock.calls.length === 0) {
+            await new Promise((resolve) => setImmediate(resolve));
+        }
+
+        await adapter.permitJoin(254, null);
+        VirtualNetwork.get(networkPath).join('0x000b57fffec6a5b2');
+        const response = await adapter.sendZclFrameToEndpoint(
+            '0x000b57fffec6a5b2', 0x1001, 1, readFrame(), 1000, false, false,
+        );
+        await adapter.stop();
+
+        expect(response.frame.getCommand().name).toBe('readRsp');
+        expect(mockLogger.error).toHaveBeenCalledTimes(1);
+        expect(mockLogger.error.mock.calls[0][0]).toMatch(/^Failed to write capture to '.*missing.*', stopped capturing/);
+    });
+
+    it('Appends a new section to an existing capture', async () => {
+        await (await createAdapter(false)).stop();
+        await (await createAdapter(false)).stop();
+        expect(readBlocks().map((b) => b.type)).toStrictEqual([0x0A0D0D0A, 1, 0x0A0D0D0A, 1]);
+    });
+});
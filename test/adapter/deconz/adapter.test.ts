@@ -0,0 +1,78 @@
+import "regenerator-runtime/runtime";
+import {DeconzAdapter} from '../../../src/adapter/deconz/adapter';
+import PARAM from '../../../src/adapter/deconz/driver/constants';
+
+const mockReadParameterRequest = jest.fn();
+const mockWriteParameterRequest = jest.fn();
+const mockDriverIsInUse = jest.fn();
+jest.mock('../../../src/adapter/deconz/driver/driver', () => ({
+    __esModule: true,
+    default: Object.assign(jest.fn().mockImplementation(() => ({
+        setDelay: jest.fn(),
+        on: jest.fn(),
+        generalArrayToString: (array: number[], length: number) => `0x${Buffer.from(array.slice(0, length)).toString('hex')}`,
+        macAddrArrayToString: (array: number[]) => `0x${Buffer.from(array).reverse().toString('hex')}`,
+        readParameterRequest: mockReadParameterRequest,
+        writeParameterRequest: mockWriteParameterRequest,
+    })), {isInUse: () => mockDriverIsInUse()}),
+}));
+
+const Driver = require('../../../src/adapter/deconz/driver/driver').default;
+
+const frameParserEvents = require('../../../src/adapter/deconz/driver/frameParser').frameParserEvents;
+
+const networkOptions = {
+    panID: 0x1a62, extendedPanID: [0x00, 0x11, 0x22, 0x33, 0x44, 0x55, 0x66, 0x77], channelList: [11],
+    networkKey: [0x01, 0x03, 0x05, 0x07, 0x09, 0x0B, 0x0D, 0x0F, 0x00, 0x02, 0x04, 0x06, 0x08, 0x0A, 0x0C, 0x0D],
+    networkKeyDistribute: false,
+};
+
+describe('deCONZ adapter', () => {
+    let adapter: DeconzAdapter;
+
+    beforeEach(() => {
+        jest.useFakeTimers();
+        frameParserEvents.removeAllListeners();
+        mockReadParameterRequest.mockReset();
+        mockWriteParameterRequest.mockReset();
+        adapter = new DeconzAdapter(networkOptions, {path: '/dev/ttyACM0'}, 'backup.json', {disableLED: false});
+    });
+
+    afterEach(() => {
+        jest.clearAllTimers();
+        jest.useRealTimers();
+    });
+
+    it('Does not rotate the network key', async () => {
+        expect((await adapter.getCapabilities()).networkKeyRotation).toBe(false);
+        await expect(adapter.rotateNetworkKey(Buffer.alloc(16, 1))).rejects.toThrow(
+            new Error('Network key rotation is not supported'),
+        );
+        expect(mockWriteParameterRequest).not.toHaveBeenCalled();
+    });
+
+    it('Does not probe while a driver is in use', async () => {
+        mockDriverIsInUse.mockReturnValueOnce(true);
+        Driver.mockClear();
+        await expect(DeconzAdapter.probe('/dev/ttyACM1')).rejects.toThrow(
+            new Error(`Cannot probe '/dev/ttyACM1' while a deCONZ adapter is in use`),
+        );
+        expect(Driver).not.toHaveBeenCalled();
+    });
+
+    it('Get network parameters in over the air byte order', async () => {
+        // The firmware is written the configured extended PAN ID most significant byte first
+        const Network = PARAM.PARAM.Network;
+        const parameters = {
+            [Network.PAN_ID]: 0x1a62, [Network.APS_EXT_PAN_ID]: '0x0011223344556677', [Network.CHANNEL]: 11,
+            [Network.NETWORK_KEY]: {sequenceNumber: 0, key: `0x${Buffer.from(networkOptions.networkKey).toString('hex')}`},
+            [Network.NWK_UPDATE_ID]: 2,
+        };
+        mockReadParameterRequest.mockImplementation(async (id: number) => parameters[id]);
+
+        expect(await adapter.getNetworkParameters()).toStrictEqual({
+            panID: 0x1a62, extendedPanID: '0x0011223344556677', channel: 11, networkUpdateID: 2,
+        });
+        expect(mockWriteParameterRequest).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,28 @@
+import "regenerator-runtime/runtime";
+import Driver from '../../../src/adapter/deconz/driver/driver';
+
+const frameParserEvents = require('../../../src/adapter/deconz/driver/frameParser').frameParserEvents;
+
+describe('deCONZ driver', () => {
+    beforeEach(() => {
+        jest.useFakeTimers();
+    });
+
+    afterEach(() => {
+        jest.clearAllTimers();
+        jest.useRealTimers();
+    });
+
+    it('Is in use until closed and removes its frame parser listener', async () => {
+        const listeners = frameParserEvents.listenerCount('receivedDataNotification');
+        expect(Driver.isInUse()).toBe(false);
+
+        const driver = new Driver('/dev/ttyACM0');
+        expect(Driver.isInUse()).toBe(true);
+        expect(frameParserEvents.listenerCount('receivedDataNotification')).toBe(listeners + 1);
+
+        await driver.close();
+        expect(Driver.isInUse()).toBe(false);
+        expect(frameParserEvents.listenerCount('receivedDataNotification')).toBe(listeners);
+    });
+});
@@ -0,0 +1,24 @@
+import "regenerator-runtime/runtime";
+import {EZSPAdapter} from '../../../src/adapter/ezsp/adapter';
+
+const mockNetworkParams = {panId: 0x1a62, extendedPanId: [], radioChannel: 15, nwkUpdateId: 3};
+jest.mock('../../../src/adapter/ezsp/driver/driver', () => ({
+    Driver: jest.fn().mockImplementation(() => ({networkParams: mockNetworkParams, on: jest.fn()})),
+}));
+
+const networkOptions = {
+    panID: 0x1a62, extendedPanID: [0x00, 0x11, 0x22, 0x33, 0x44, 0x55, 0x66, 0x77], channelList: [15],
+    networkKey: [0x01, 0x03, 0x05, 0x07, 0x09, 0x0B, 0x0D, 0x0F, 0x00, 0x02, 0x04, 0x06, 0x08, 0x0A, 0x0C, 0x0D],
+    networkKeyDistribute: false,
+};
+
+describe('EZSP adapter', () => {
+    it('Get network parameters in over the air byte order', async () => {
+        // EmberZNet stores the configured extended PAN ID as is, it's transmitted least significant byte first
+        mockNetworkParams.extendedPanId = [...networkOptions.extendedPanID];
+        const adapter = new EZSPAdapter(networkOptions, {path: '/dev/ttyUSB0'}, 'backup.json', {disableLED: false});
+        expect(await adapter.getNetworkParameters()).toStrictEqual({
+            panID: 0x1a62, extendedPanID: '0x7766554433221100', channel: 15, networkUpdateID: 3,
+        });
+    });
+});
@@ -0,0 +1,315 @@
+import "regenerator-runtime/runtime";
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {Driver} from '../../../src/adapter/ezsp/driver';
+import {EZSPAdapterBackup} from '../../../src/adapter/ezsp/adapter/backup';
+import {
+    EmberNetworkStatus, EmberNodeType, EmberStatus, EzspConfigId, EzspMfgTokenId, EzspValueId,
+} from '../../../src/adapter/ezsp/driver/types';
+import * as Models from '../../../src/models';
+import {BackupUtils} from '../../../src/utils';
+
+const mockMulticastStartup = jest.fn();
+jest.mock('../../../src/adapter/ezsp/driver/multicast', () => ({
+    Multicast: jest.fn().mockImplementation(() => ({startup: mockMulticastStartup, subscribe: jest.fn()})),
+}));
+
+jest.mock('../../../src/utils/wait', () => ({
+    __esModule: true,
+    default: jest.fn().mockResolvedValue(undefined),
+}));
+
+let mockEzsp;
+jest.mock('../../../src/adapter/ezsp/driver/ezsp', () => ({
+    Ezsp: jest.fn().mockImplementation(() => mockEzsp),
+}));
+
+const networkKey = [0x01, 0x03, 0x05, 0x07, 0x09, 0x0B, 0x0D, 0x0F, 0x00, 0x02, 0x04, 0x06, 0x08, 0x0A, 0x0C, 0x0D];
+const extendedPanID = [0xDD, 0xDD, 0xDD, 0xDD, 0xDD, 0xDD, 0xDD, 0xDD];
+const networkOptions = {panID: 0x1a62, extendedPanID, channelList: [11], networkKey, networkKeyDistribute: false};
+const coordinatorIeee = Buffer.from('00124b0009d69f77', 'hex');
+const hashedTclk = Buffer.from('c5fbd6b1ac1c21cb9b63b7eb8a4b9b2f', 'hex');
+const logger = {error: jest.fn(), warn: jest.fn(), info: jest.fn(), debug: jest.fn()};
+
+let networkParameters;
+let customEui64: Buffer;
+let keyTableSize: number;
+
+const createBackup = (devices: Models.Backup["devices"] = []): Models.Backup => ({
+    networkOptions: {
+        panId: networkOptions.panID,
+        extendedPanId: Buffer.from(extendedPanID),
+        channelList: [11],
+        networkKey: Buffer.from(networkKey),
+        networkKeyDistribute: false,
+    },
+    logicalChannel: 11,
+    networkKeyInfo: {sequenceNumber: 2, frameCounter: 10000},
+    securityLevel: 5,
+    networkUpdateId: 3,
+    coordinatorIeeeAddress: coordinatorIeee,
+    devices,
+    ezsp: {hashed_tclk: hashedTclk},
+});
+
+const device = (ieee: string, nwk: number, key = true): Models.Backup["devices"][0] => ({
+    networkAddress: nwk,
+    ieeeAddress: Buffer.from(ieee, 'hex'),
+    isDirectChild: false,
+    linkKey: key ? {key: Buffer.from('0123456789abcdef0123456789abcdef', 'hex'), rxCounter: 0, txCounter: 0} : undefined,
+});
+
+/* backup of a CC2652 coordinator as created by the Z-Stack adapter */
+const zStackBackup = JSON.parse(`
+{
+    "metadata": {
+        "format": "zigpy/open-coordinator-backup",
+        "version": 1,
+        "source": "zigbee-herdsman@0.13.65",
+        "internal": {
+            "date": "2021-03-03T19:15:40.524Z",
+            "znpVersion": 2
+        }
+    },
+    "stack_specific": {
+        "zstack": {
+            "tclk_seed": "928a2c479e72a9a53e3b5133fc55021f"
+        }
+    },
+    "coordinator_ieee": "00124b0009d80ba7",
+    "pan_id": "007b",
+    "extended_pan_id": "00124b0009d69f77",
+    "nwk_update_id": 0,
+    "security_level": 5,
+    "channel": 21,
+    "channel_mask": [21],
+    "network_key": {
+        "key": "01030507090b0d0f00020406080a0c0d",
+        "sequence_number": 0,
+        "frame_counter": 16754
+    },
+    "devices": [
+        {
+            "nwk_address": "ddf6",
+            "ieee_address": "00124b002226ef87"
+        },
+        {
+            "nwk_address": "c2dc",
+            "ieee_address": "04cf8cdf3c79455f",
+            "link_key": {
+                "key": "0e768569dd935d8e7302e74e7629f13f",
+                "rx_counter": 0,
+                "tx_counter": 275
+            }
+        }
+    ]
+}
+`);
+const zStackNetworkOptions = {
+    panID: 0x007b, extendedPanID: [0x00, 0x12, 0x4b, 0x00, 0x09, 0xd6, 0x9f, 0x77], channelList: [21], networkKey,
+    networkKeyDistribute: false,
+};
+
+const execResults = (name: string): Record<string, unknown> => {
+    switch (name) {
+    case 'networkState':
+        return {status: EmberNetworkStatus.JOINED_NETWORK};
+    case 'getEui64':
+        return {eui64: Buffer.from('00124b0000000001', 'hex')};
+    case 'getMfgToken':
+        return {status: EmberStatus.SUCCESS, tokenData: customEui64};
+    case 'getNetworkParameters':
+        return {status: EmberStatus.SUCCESS, nodeType: EmberNodeType.COORDINATOR, parameters: networkParameters};
+    case 'getNodeId':
+        return {nodeId: 0};
+    default:
+        return {status: EmberStatus.SUCCESS};
+    }
+};
+
+const execCalls = (name: string): unknown[][] => mockEzsp.execCommand.mock.calls.filter((c) => c[0] === name);
+
+describe('EZSP backup', () => {
+    let driver: Driver;
+
+    beforeEach(() => {
+        networkParameters = {panId: 0x1234, extendedPanId: extendedPanID, radioChannel: 11};
+        customEui64 = Buffer.alloc(8, 0xFF);
+        keyTableSize = 4;
+        mockEzsp = {
+            on: jest.fn(),
+            connect: jest.fn(),
+            version: jest.fn(),
+            updateConfig: jest.fn(),
+            updatePolicies: jest.fn(),
+            setSourceRouting: jest.fn(),
+            networkInit: jest.fn().mockResolvedValue(true),
+            leaveNetwork: jest.fn().mockResolvedValue(EmberStatus.NETWORK_DOWN),
+            setInitialSecurityState: jest.fn(),
+            formNetwork: jest.fn(),
+            setValue: jest.fn(),
+            getValue: jest.fn().mockResolvedValue(Buffer.from([0x10, 0x00, 7, 1, 0, 0, 0])),
+            getConfigurationValue: jest.fn().mockImplementation((id) =>
+                id === EzspConfigId.CONFIG_KEY_TABLE_SIZE ? keyTableSize : 0),
+            execCommand: jest.fn().mockImplementation(async (name) => execResults(name)),
+        };
+        driver = new Driver();
+        driver.ezsp = mockEzsp;
+        logger.warn.mockClear();
+    });
+
+    it('Restores matching backup with keys, frame counter and link keys', async () => {
+        const backupMan = new EZSPAdapterBackup(driver, 'backup.json', {disableLED: false}, logger);
+        const devices = [device('00158d0001d82999', 0x1234), device('00158d0001d82998', 0x5678, false)];
+        await backupMan.restoreBackup(createBackup(devices));
+
+        expect(mockEzsp.leaveNetwork).toHaveBeenCalledTimes(1);
+        const security = mockEzsp.setInitialSecurityState.mock.calls[0][0];
+        expect(Buffer.from(security.networkKey.contents)).toStrictEqual(Buffer.from(networkKey));
+        expect(security.networkKeySequenceNumber).toBe(2);
+        expect(security.preconfiguredKey.contents).toStrictEqual(hashedTclk);
+        const frameCounter = execCalls('setValue').find((c) =>
+            (c[1] as {valueId: number}).valueId === EzspValueId.VALUE_NWK_FRAME_COUNTER);
+        expect((frameCounter[1] as {value: Buffer}).value).toStrictEqual(Buffer.from([0xD4, 0x30, 0x00, 0x00]));
+        const parameters = mockEzsp.formNetwork.mock.calls[0][0];
+        expect(parameters.panId).toBe(0x1a62);
+        expect(parameters.extendedPanId).toStrictEqual(extendedPanID);
+        expect(parameters.radioChannel).toBe(11);
+        expect(parameters.nwkUpdateId).toBe(3);
+        expect(execCalls('setKeyTableEntry')).toHaveLength(1);
+        expect(execCalls('setKeyTableEntry')[0][1]).toStrictEqual(expect.objectContaining({index: 0, linkKey: true}));
+        expect(logger.warn).toHaveBeenCalledTimes(1);
+    });
+
+    it('Does not write coordinator IEEE address when not enabled', async () => {
+        const backupMan = new EZSPAdapterBackup(driver, 'backup.json', {disableLED: false}, logger);
+        await backupMan.restoreBackup(createBackup());
+        expect(execCalls('getMfgToken')).toHaveLength(0);
+        expect(execCalls('setMfgToken')).toHaveLength(0);
+        expect(logger.warn).toHaveBeenCalledWith(expect.stringContaining("enable 'restoreCoordinatorIeeeAddress'"));
+    });
+
+    it('Writes coordinator IEEE address when enabled', async () => {
+        const options = {disableLED: false, restoreCoordinatorIeeeAddress: true};
+        const backupMan = new EZSPAdapterBackup(driver, 'backup.json', options, logger);
+        await backupMan.restoreBackup(createBackup());
+        expect(execCalls('setMfgToken')).toHaveLength(1);
+        expect(execCalls('setMfgToken')[0][1]).toStrictEqual({
+            tokenId: EzspMfgTokenId.MFG_CUSTOM_EUI_64, tokenData: Buffer.from(coordinatorIeee).reverse(),
+        });
+        expect(logger.warn).toHaveBeenCalledWith(
+            'Permanently writing coordinator IEEE address 0x00124b0009d69f77 to the adapter');
+    });
+
+    it('Does not write coordinator IEEE address when already written', async () => {
+        customEui64 = Buffer.from('0100000000000000', 'hex');
+        const options = {disableLED: false, restoreCoordinatorIeeeAddress: true};
+        const backupMan = new EZSPAdapterBackup(driver, 'backup.json', options, logger);
+        await backupMan.restoreBackup(createBackup());
+        expect(execCalls('setMfgToken')).toHaveLength(0);
+        expect(logger.warn).toHaveBeenCalledWith(
+            'Custom IEEE address of the adapter is already written, cannot restore 0x00124b0009d69f77');
+    });
+
+    it('Warns about devices that do not fit in the key table', async () => {
+        keyTableSize = 1;
+        const backupMan = new EZSPAdapterBackup(driver, 'backup.json', {disableLED: false}, logger);
+        const devices = [device('00158d0001d82999', 0x1234), device('00158d0001d82998', 0x5678)];
+        await backupMan.restoreBackup(createBackup(devices));
+        expect(execCalls('setKeyTableEntry')).toHaveLength(1);
+        expect(logger.warn).toHaveBeenCalledWith('Key table can hold 1 of 2 link keys, the following devices ' +
+            'need to be re-paired: 0x00158d0001d82998');
+    });
+
+    it('Does not restore the network address of devices only known from the key table', async () => {
+        const keyStruct = (partnerEUI64: Buffer): Record<string, unknown> => ({
+            key: {contents: Buffer.from('0123456789abcdef0123456789abcdef', 'hex')}, partnerEUI64,
+            incomingFrameCounter: 1, outgoingFrameCounter: 2, sequenceNumber: 0,
+        });
+        networkParameters = {panId: 0x1a62, extendedPanId: extendedPanID, radioChannel: 11, nwkUpdateId: 3};
+        mockEzsp.execCommand.mockImplementation(async (name, params) => {
+            switch (name) {
+            case 'getKey':
+                return {status: EmberStatus.SUCCESS, keyStruct: keyStruct(Buffer.alloc(8))};
+            case 'getKeyTableEntry':
+                return params.index === 0 ?
+                    {status: EmberStatus.SUCCESS, keyStruct: keyStruct(Buffer.from('00158d0001d82999', 'hex'))} :
+                    {status: EmberStatus.TABLE_ENTRY_ERASED};
+            default:
+                return execResults(name);
+            }
+        });
+        const setNode = jest.spyOn(driver, 'setNode').mockImplementation(() => undefined);
+        const backupMan = new EZSPAdapterBackup(driver, 'backup.json', {disableLED: false}, logger);
+
+        const unified = await BackupUtils.toUnifiedBackup(await backupMan.createBackup(['0x00158d0001d82999']));
+        expect(unified.devices).toStrictEqual([{
+            nwk_address: 'fffe', ieee_address: '00158d0001d82999', is_child: false,
+            link_key: {key: '0123456789abcdef0123456789abcdef', rx_counter: 1, tx_counter: 2},
+        }]);
+        await backupMan.restoreBackup(BackupUtils.fromUnifiedBackup(unified));
+        expect(execCalls('setKeyTableEntry')).toHaveLength(1);
+        expect(setNode).toHaveBeenCalledTimes(0);
+    });
+
+    it('Restores Z-Stack backup with a new hashed trust center link key and the device link keys', async () => {
+        const backupPath = path.join(os.tmpdir(), 'ezsp-zstack-backup.json');
+        fs.writeFileSync(backupPath, JSON.stringify(zStackBackup));
+        try {
+            const backupMan = new EZSPAdapterBackup(driver, backupPath, {disableLED: false}, logger);
+            const backup = await backupMan.getStoredBackup();
+            expect(EZSPAdapterBackup.matchesNetworkOptions(backup, zStackNetworkOptions)).toBe(true);
+            await backupMan.restoreBackup(backup);
+        } finally {
+            fs.unlinkSync(backupPath);
+        }
+
+        expect(mockEzsp.leaveNetwork).toHaveBeenCalledTimes(1);
+        const security = mockEzsp.setInitialSecurityState.mock.calls[0][0];
+        expect(security.preconfiguredKey.contents).toHaveLength(16);
+        expect(Buffer.from(security.preconfiguredKey.contents).equals(Buffer.alloc(16))).toBe(false);
+        expect(mockEzsp.formNetwork.mock.calls[0][0].extendedPanId)
+            .toStrictEqual([0x00, 0x12, 0x4b, 0x00, 0x09, 0xd6, 0x9f, 0x77]);
+        expect(execCalls('setKeyTableEntry')).toHaveLength(1);
+        const entry = execCalls('setKeyTableEntry')[0][1] as {address: object; keyData: {contents: Buffer}};
+        expect(entry.address.toString()).toBe('04cf8cdf3c79455f');
+        expect(entry.keyData.contents).toStrictEqual(Buffer.from('0e768569dd935d8e7302e74e7629f13f', 'hex'));
+    });
+
+    it('Resumes network restored from Z-Stack backup with reversed extended PAN ID', async () => {
+        networkParameters = {
+            panId: 0x007b, extendedPanId: [...zStackNetworkOptions.extendedPanID].reverse(), radioChannel: 21,
+        };
+        const backupMan = new EZSPAdapterBackup(driver, 'backup.json', {disableLED: false}, logger);
+        const restore = jest.spyOn(backupMan, 'restoreBackup');
+        const result = await driver.startup('/dev/ttyACM0', {}, zStackNetworkOptions, 0x0b84, backupMan);
+        expect(result).toBe('resumed');
+        expect(restore).toHaveBeenCalledTimes(0);
+        expect(mockEzsp.formNetwork).toHaveBeenCalledTimes(0);
+    });
+
+    it('Restores backup on startup when it matches the configured network', async () => {
+        const backupMan = new EZSPAdapterBackup(driver, 'backup.json', {disableLED: false}, logger);
+        jest.spyOn(backupMan, 'getStoredBackup').mockResolvedValue(createBackup());
+        const restore = jest.spyOn(backupMan, 'restoreBackup');
+        const result = await driver.startup('/dev/ttyACM0', {}, networkOptions, 0x0b84, backupMan);
+        expect(result).toBe('restored');
+        expect(restore).toHaveBeenCalledTimes(1);
+    });
+
+    it('Forms new network on startup when backup does not match the configured network', async () => {
+        const backupMan = new EZSPAdapterBackup(driver, 'backup.json', {disableLED: false}, logger);
+        const backup = createBackup();
+        backup.networkOptions.panId = 0x9999;
+        jest.spyOn(backupMan, 'getStoredBackup').mockResolvedValue(backup);
+        const restore = jest.spyOn(backupMan, 'restoreBackup');
+        const result = await driver.startup('/dev/ttyACM0', {}, networkOptions, 0x0b84, backupMan);
+        expect(result).toBe('reset');
+        expect(restore).toHaveBeenCalledTimes(0);
+        expect(mockEzsp.leaveNetwork).toHaveBeenCalledTimes(1);
+        expect(mockEzsp.formNetwork).toHaveBeenCalledTimes(1);
+        expect(mockEzsp.formNetwork.mock.calls[0][0].panId).toBe(0x1a62);
+        expect(mockEzsp.formNetwork.mock.calls[0][0].nwkUpdateId).toBe(0);
+    });
+});
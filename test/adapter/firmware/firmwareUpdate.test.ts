@@ -0,0 +1,171 @@
+import "regenerator-runtime/runtime";
+import {FirmwareUpdate} from '../../../src/adapter';
+import Adapter from '../../../src/adapter/adapter';
+import {Wait} from '../../../src/utils';
+import {GeckoStandIn, TiBslStandIn, gbl, tiImage} from './standIns';
+
+const mockLaunchBootloader = jest.fn();
+
+jest.mock('../../../src/utils/wait', () => {
+    return jest.fn().mockImplementation(() => {
+        return new Promise<void>((resolve) => resolve());
+    });
+});
+
+jest.mock('../../../src/adapter/ezsp/driver', () => {
+    return {
+        Ezsp: jest.fn().mockImplementation(() => {
+            return {launchBootloader: mockLaunchBootloader};
+        }),
+    };
+});
+
+const intelHex = (image: Buffer): string => {
+    const record = (type: number, address: number, data: Buffer): string => {
+        const bytes = Buffer.concat([Buffer.from([data.length, address >> 8, address & 0xFF, type]), data]);
+        const checksum = (0x100 - (bytes.reduce((sum, byte) => sum + byte, 0) & 0xFF)) & 0xFF;
+        return ':' + Buffer.concat([bytes, Buffer.from([checksum])]).toString('hex').toUpperCase();
+    };
+
+    const lines = [record(0x04, 0, Buffer.from([0x00, 0x00]))];
+    for (let offset = 0; offset < image.length; offset += 32) {
+        lines.push(record(0x00, offset, image.slice(offset, offset + 32)));
+    }
+
+    lines.push(record(0x01, 0, Buffer.alloc(0)));
+    return lines.join('\n') + '\n';
+};
+
+describe('Firmware update', () => {
+    let probeAdapters: jest.SpyInstance;
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+        probeAdapters = jest.spyOn(Adapter, 'probeAdapters').mockImplementation(async (paths) => {
+            return [{path: paths[0], adapter: 'zstack', firmwareVersion: 'zStack3x0 20230507', confidence: 'high'}];
+        });
+    });
+
+    afterEach(() => {
+        probeAdapters.mockRestore();
+    });
+
+    describe('Z-Stack', () => {
+        let standIn: TiBslStandIn;
+
+        beforeEach(async () => {
+            standIn = new TiBslStandIn(2);
+            await standIn.start();
+        });
+
+        afterEach(async () => {
+            await standIn.stop();
+        });
+
+        it('Flashes binary image and probes adapter', async () => {
+            const image = tiImage(2);
+            const update = new FirmwareUpdate({path: standIn.path, adapter: 'zstack'});
+            const progress = [];
+            update.on('progress', (p) => progress.push(p));
+            const result = await update.flash(image);
+            expect(standIn.flash).toStrictEqual(image);
+            expect(standIn.resets).toBe(1);
+            expect(progress[progress.length - 1]).toStrictEqual({written: image.length, total: image.length});
+            expect(Wait).toHaveBeenCalledWith(1000);
+            expect(probeAdapters).toHaveBeenCalledWith([standIn.path]);
+            expect(result).toStrictEqual(
+                {path: standIn.path, adapter: 'zstack', firmwareVersion: 'zStack3x0 20230507', confidence: 'high'},
+            );
+        });
+
+        it('Flashes Intel HEX image', async () => {
+            const image = tiImage(2);
+            probeAdapters.mockResolvedValueOnce([]);
+            const update = new FirmwareUpdate({path: standIn.path, adapter: 'zstack', baudRate: 500000});
+            expect(await update.flash(Buffer.from(intelHex(image)))).toBeNull();
+            expect(standIn.flash).toStrictEqual(image);
+        });
+
+        it('Keeps the NV when requested', async () => {
+            // The image leaves the second sector blank
+            const image = tiImage(3);
+            await standIn.stop();
+            standIn = new TiBslStandIn(3);
+            await standIn.start();
+            standIn.flash.fill(0x5A, 0x2000, 0x4000);
+            const update = new FirmwareUpdate({path: standIn.path, adapter: 'zstack', keepNv: true});
+            await update.flash(image);
+            expect(standIn.flash.slice(0x2000, 0x4000)).toStrictEqual(Buffer.alloc(0x2000, 0x5A));
+            expect(standIn.flash.slice(0x4000)).toStrictEqual(image.slice(0x4000));
+        });
+
+        it('Closes port when flashing fails', async () => {
+            const update = new FirmwareUpdate({path: standIn.path, adapter: 'zstack'});
+            await expect(update.flash(tiImage(1))).rejects.toThrow(/^Image size 8192 does not match/);
+            expect(probeAdapters).toHaveBeenCalledTimes(0);
+            // The stand-in accepts a new connection once the previous one is closed
+            await update.flash(tiImage(2));
+            expect(standIn.connections).toBe(2);
+        });
+    });
+
+    describe('EZSP', () => {
+        let standIn: GeckoStandIn;
+
+        beforeEach(async () => {
+            standIn = new GeckoStandIn();
+            await standIn.start();
+        });
+
+        afterEach(async () => {
+            await standIn.stop();
+        });
+
+        it('Uploads image to running bootloader', async () => {
+            const image = gbl(1000);
+            const update = new FirmwareUpdate({path: standIn.path, adapter: 'ezsp'});
+            const progress = [];
+            update.on('progress', (p) => progress.push(p));
+            await update.flash(image);
+            expect(standIn.uploaded.slice(0, image.length)).toStrictEqual(image);
+            expect(progress.length).toBe(Math.ceil(image.length / 128));
+            expect(mockLaunchBootloader).toHaveBeenCalledTimes(0);
+            expect(probeAdapters).toHaveBeenCalledWith([standIn.path]);
+        });
+
+        it('Launches bootloader from EZSP firmware', async () => {
+            standIn.inBootloader = false;
+            mockLaunchBootloader.mockImplementationOnce(async () => {
+                standIn.inBootloader = true;
+            });
+            const image = gbl(1000);
+            const update = new FirmwareUpdate({path: standIn.path, adapter: 'ezsp'});
+            await update.flash(image);
+            expect(mockLaunchBootloader).toHaveBeenCalledWith(standIn.path, {baudRate: 115200, rtscts: false});
+            expect(standIn.connections).toBe(2);
+            expect(standIn.uploaded.slice(0, image.length)).toStrictEqual(image);
+        });
+
+        it('Rejects invalid image without touching the adapter', async () => {
+            const update = new FirmwareUpdate({path: standIn.path, adapter: 'ezsp', baudRate: 57600});
+            await expect(update.flash(tiImage(1))).rejects.toThrow(new Error('Image is not a GBL file, header tag is missing'));
+            expect(standIn.connections).toBe(0);
+        });
+
+        it('Closes port when launching bootloader fails', async () => {
+            standIn.inBootloader = false;
+            mockLaunchBootloader.mockRejectedValueOnce(new Error('Failure to connect'));
+            const update = new FirmwareUpdate({path: standIn.path, adapter: 'ezsp', baudRate: 57600});
+            await expect(update.flash(gbl(1000))).rejects.toThrow(new Error('Failure to connect'));
+            expect(mockLaunchBootloader).toHaveBeenCalledWith(standIn.path, {baudRate: 57600, rtscts: false});
+            expect(probeAdapters).toHaveBeenCalledTimes(0);
+        });
+    });
+
+    it('Fails for unsupported adapter', async () => {
+        // @ts-expect-error unsupported adapter
+        const update = new FirmwareUpdate({path: '/dev/ttyACM0', adapter: 'deconz'});
+        await expect(update.flash(Buffer.alloc(10)))
+            .rejects.toThrow(new Error(`Firmware update is not supported for adapter 'deconz'`));
+    });
+});
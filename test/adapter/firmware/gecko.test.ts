@@ -0,0 +1,94 @@
+import "regenerator-runtime/runtime";
+import Transport from '../../../src/adapter/firmware/transport';
+import {GeckoBootloader, validateGbl} from '../../../src/adapter/firmware/gecko';
+import {GeckoStandIn, gbl} from './standIns';
+
+describe('Gecko bootloader', () => {
+    let standIn: GeckoStandIn;
+    let transport: Transport;
+
+    beforeEach(async () => {
+        standIn = new GeckoStandIn();
+        await standIn.start();
+        transport = new Transport(standIn.path, 115200);
+        await transport.open();
+    });
+
+    afterEach(async () => {
+        await transport.close();
+        await standIn.stop();
+    });
+
+    it('Uploads and runs image', async () => {
+        const image = gbl(300);
+        const progress = [];
+        const bootloader = new GeckoBootloader(transport);
+        await bootloader.waitForMenu();
+        await bootloader.upload(image, (written, total) => progress.push([written, total]));
+        await bootloader.run();
+        await new Promise((resolve) => setTimeout(resolve, 50));
+        expect(standIn.uploaded.length).toBe(384);
+        expect(standIn.uploaded.slice(0, image.length)).toStrictEqual(image);
+        expect(standIn.uploaded.slice(image.length)).toStrictEqual(Buffer.alloc(384 - image.length, 0xFF));
+        expect(progress).toStrictEqual([[128, image.length], [256, image.length], [image.length, image.length]]);
+        expect(standIn.ran).toBe(true);
+    });
+
+    it('Retries not acknowledged block', async () => {
+        standIn.nakBlock = 2;
+        const image = gbl(300);
+        const bootloader = new GeckoBootloader(transport);
+        await bootloader.waitForMenu();
+        await bootloader.upload(image, jest.fn());
+        expect(standIn.uploaded.slice(0, image.length)).toStrictEqual(image);
+    });
+
+    it('Fails when block is never acknowledged', async () => {
+        standIn.nakBlock = 2;
+        standIn.naks = 10;
+        const bootloader = new GeckoBootloader(transport);
+        await bootloader.waitForMenu();
+        await expect(bootloader.upload(gbl(300), jest.fn()))
+            .rejects.toThrow(new Error('Bootloader did not acknowledge block 2 (0x15)'));
+    });
+
+    it('Fails when upload is cancelled', async () => {
+        standIn.cancelBlock = 2;
+        const bootloader = new GeckoBootloader(transport);
+        await bootloader.waitForMenu();
+        await expect(bootloader.upload(gbl(300), jest.fn()))
+            .rejects.toThrow(new Error('Bootloader cancelled the upload at block 2'));
+    });
+
+    it('Fails when bootloader rejects image', async () => {
+        standIn.failUpload = true;
+        const bootloader = new GeckoBootloader(transport);
+        await bootloader.waitForMenu();
+        await expect(bootloader.upload(gbl(300), jest.fn())).rejects.toThrow(/^Upload failed 'Serial upload aborted/);
+    });
+
+    it('Fails when not in bootloader', async () => {
+        standIn.inBootloader = false;
+        await expect(new GeckoBootloader(transport).waitForMenu(100))
+            .rejects.toThrow(new Error(`Timeout while waiting for 'BL >' after 100ms`));
+    });
+});
+
+describe('GBL validation', () => {
+    it('Accepts GBL file', () => {
+        expect(() => validateGbl(gbl(100))).not.toThrow();
+    });
+
+    it('Rejects other files', () => {
+        expect(() => validateGbl(Buffer.alloc(4))).toThrow(new Error('Image is not a GBL file, header tag is missing'));
+        expect(() => validateGbl(Buffer.alloc(100))).toThrow(new Error('Image is not a GBL file, header tag is missing'));
+    });
+
+    it('Rejects damaged GBL file', () => {
+        const image = gbl(100);
+        expect(() => validateGbl(Buffer.concat([image, Buffer.alloc(3)])))
+            .toThrow(new Error('GBL image has 3 bytes after the end tag'));
+        expect(() => validateGbl(image.slice(0, image.length - 12)))
+            .toThrow(new Error('GBL image is truncated, end tag is missing'));
+    });
+});
@@ -0,0 +1,263 @@
+import net from 'net';
+import {crc16ccitt} from '../../../src/adapter/ezsp/driver/utils';
+import {crc32} from '../../../src/adapter/firmware/tiBsl';
+
+const ACK = [0x00, 0xCC];
+const NACK = [0x00, 0x33];
+
+/**
+ * Listens on a local port and hands every connection to the stand-in, like a bootloader behind a TCP serial bridge.
+ */
+abstract class StandIn {
+    public path: string;
+    public connections = 0;
+    protected socket: net.Socket;
+    protected received = Buffer.alloc(0);
+    private server: net.Server;
+
+    public async start(): Promise<void> {
+        this.server = net.createServer((socket) => {
+            this.connections++;
+            this.socket = socket;
+            this.received = Buffer.alloc(0);
+            this.connected();
+            socket.on('data', (data) => {
+                this.received = Buffer.concat([this.received, data]);
+                this.process();
+            });
+        });
+        await new Promise<void>((resolve) => this.server.listen(0, '127.0.0.1', resolve));
+        this.path = `tcp://127.0.0.1:${(this.server.address() as net.AddressInfo).port}`;
+    }
+
+    public async stop(): Promise<void> {
+        this.socket?.destroy();
+        await new Promise((resolve) => this.server.close(resolve));
+    }
+
+    protected send(data: Buffer | number[] | string): void {
+        this.socket.write(typeof data === 'string' ? Buffer.from(data) : Buffer.from(data));
+    }
+
+    protected connected(): void {}
+
+    protected abstract process(): void;
+}
+
+/**
+ * TI ROM serial bootloader with a flash of the given number of 8 KiB sectors.
+ */
+class TiBslStandIn extends StandIn {
+    public static readonly chipId = 0x3282F000;
+    public flash: Buffer;
+    public resets = 0;
+    public commands: number[] = [];
+    public nackCommand: number = null;
+    public failCommand: number = null;
+    public corruptCrc = false;
+    public corruptPacket = false;
+    private synced = false;
+    private status = 0x40;
+    private address = 0;
+
+    public constructor(sectors: number) {
+        super();
+        this.flash = Buffer.alloc(sectors * 0x2000, 0xAA);
+    }
+
+    protected connected(): void {
+        this.synced = false;
+    }
+
+    protected process(): void {
+        while (this.received.length >= 2) {
+            if (!this.synced) {
+                if (this.received[0] === 0x55 && this.received[1] === 0x55) {
+                    this.synced = true;
+                    this.send(ACK);
+                }
+
+                this.received = this.received.slice(2);
+                continue;
+            }
+
+            // Acknowledgements of packets sent by the stand-in
+            if (this.received[0] === 0x00) {
+                this.received = this.received.slice(2);
+                continue;
+            }
+
+            const size = this.received[0];
+            if (this.received.length < size) {
+                return;
+            }
+
+            const command = this.received[2];
+            const data = this.received.slice(3, size);
+            this.received = this.received.slice(size);
+            this.handle(command, data);
+        }
+    }
+
+    private handle(command: number, data: Buffer): void {
+        this.commands.push(command);
+        if (command === this.nackCommand) {
+            this.send(NACK);
+            return;
+        }
+
+        this.send(ACK);
+        if (command !== 0x23) {
+            this.status = command === this.failCommand ? 0x42 : 0x40;
+        }
+
+        switch (command) {
+        case 0x23:
+            this.sendPacket([this.status]);
+            break;
+        case 0x28:
+            this.sendPacket(Buffer.from(TiBslStandIn.chipId.toString(16), 'hex'));
+            break;
+        case 0x2A: {
+            const value = Buffer.alloc(4);
+            value.writeUInt32LE(this.flash.length / 0x2000);
+            this.sendPacket(value);
+            break;
+        }
+        case 0x26:
+            this.flash.fill(0xFF, data.readUInt32BE(0), data.readUInt32BE(0) + 0x2000);
+            break;
+        case 0x2C:
+            this.flash.fill(0xFF);
+            break;
+        case 0x21:
+            this.address = data.readUInt32BE(0);
+            break;
+        case 0x24:
+            data.copy(this.flash, this.address);
+            this.address += data.length;
+            break;
+        case 0x27: {
+            const crc = crc32(this.flash.slice(data.readUInt32BE(0), data.readUInt32BE(0) + data.readUInt32BE(4)));
+            const value = Buffer.alloc(4);
+            value.writeUInt32BE(this.corruptCrc ? crc ^ 1 : crc);
+            this.sendPacket(value);
+            break;
+        }
+        case 0x25:
+            this.resets++;
+            this.synced = false;
+            break;
+        }
+    }
+
+    private sendPacket(data: Buffer | number[]): void {
+        const checksum = (data as number[]).reduce((sum: number, byte: number) => sum + byte, 0) & 0xFF;
+        this.send([data.length + 2, this.corruptPacket ? checksum ^ 1 : checksum, ...data]);
+    }
+}
+
+const MENU = '\r\nGecko Bootloader v1.12.0\r\n1. upload gbl\r\n2. run\r\n3. ebl info\r\nBL > ';
+
+/**
+ * Gecko bootloader menu with XMODEM-CRC upload, when not in the bootloader the adapter ignores the menu keys like
+ * EZSP firmware would.
+ */
+class GeckoStandIn extends StandIn {
+    public inBootloader = true;
+    public uploaded = Buffer.alloc(0);
+    public ran = false;
+    public nakBlock: number = null;
+    public naks = 1;
+    public cancelBlock: number = null;
+    public failUpload = false;
+    private uploading = false;
+
+    protected process(): void {
+        if (!this.inBootloader) {
+            this.received = Buffer.alloc(0);
+        } else if (this.uploading) {
+            this.processXmodem();
+        } else {
+            for (const key of this.received.toString()) {
+                if (key === '\n') {
+                    this.send(MENU);
+                } else if (key === '1') {
+                    this.uploading = true;
+                    this.uploaded = Buffer.alloc(0);
+                    this.send('\r\nbegin upload\r\n');
+                    this.send('C');
+                } else if (key === '2') {
+                    this.ran = true;
+                }
+            }
+
+            this.received = Buffer.alloc(0);
+        }
+    }
+
+    private processXmodem(): void {
+        while (this.received.length > 0) {
+            if (this.received[0] === 0x04) {
+                this.received = this.received.slice(1);
+                this.uploading = false;
+                this.send([0x06]);
+                this.send(this.failUpload ? '\r\nSerial upload aborted\r\n' : '\r\nSerial upload complete\r\n');
+                this.send(MENU);
+                return;
+            }
+
+            if (this.received.length < 133) {
+                return;
+            }
+
+            const packet = this.received.slice(0, 133);
+            this.received = this.received.slice(133);
+            const block = packet[1];
+            const data = packet.slice(3, 131);
+            if (block === this.cancelBlock) {
+                this.send([0x18]);
+            } else if (block === this.nakBlock || packet[2] !== 0xFF - block ||
+                packet.readUInt16BE(131) !== crc16ccitt(data, 0)) {
+                this.nakBlock = --this.naks > 0 ? this.nakBlock : null;
+                this.send([0x15]);
+            } else {
+                this.uploaded = Buffer.concat([this.uploaded, data]);
+                this.send([0x06]);
+            }
+        }
+    }
+}
+
+/**
+ * GBL file with a header, an application tag with the given size and an end tag.
+ */
+function gbl(applicationSize: number): Buffer {
+    const tag = (id: number, data: Buffer): Buffer => {
+        const header = Buffer.alloc(8);
+        header.writeUInt32LE(id, 0);
+        header.writeUInt32LE(data.length, 4);
+        return Buffer.concat([header, data]);
+    };
+
+    return Buffer.concat([
+        tag(0x03A617EB, Buffer.from([0x00, 0x00, 0x00, 0x03, 0x00, 0x00, 0x00, 0x00])),
+        tag(0xF40A0AF4, Buffer.alloc(applicationSize, 0x5A)),
+        tag(0xFC0404FC, Buffer.from([0x01, 0x02, 0x03, 0x04])),
+    ]);
+}
+
+/**
+ * Flash image for the TI stand-in which keeps the serial bootloader enabled in the CCFG.
+ */
+function tiImage(sectors: number, bootloaderConfig = 0xC5FE0FC5): Buffer {
+    const image = Buffer.alloc(sectors * 0x2000, 0xFF);
+    for (let i = 0; i < 1000; i++) {
+        image[i] = i & 0xFF;
+    }
+
+    image.writeUInt32LE(bootloaderConfig, image.length - 0x30);
+    return image;
+}
+
+export {TiBslStandIn, GeckoStandIn, gbl, tiImage};
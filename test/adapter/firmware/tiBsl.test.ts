@@ -0,0 +1,159 @@
+import "regenerator-runtime/runtime";
+import net from 'net';
+import Transport from '../../../src/adapter/firmware/transport';
+import {TiBsl, parseIntelHex} from '../../../src/adapter/firmware/tiBsl';
+import {TiBslStandIn, tiImage} from './standIns';
+
+const record = (type: number, address: number, data: number[]): string => {
+    const bytes = [data.length, address >> 8, address & 0xFF, type, ...data];
+    const checksum = (0x100 - (bytes.reduce((sum, byte) => sum + byte, 0) & 0xFF)) & 0xFF;
+    return ':' + Buffer.from([...bytes, checksum]).toString('hex').toUpperCase();
+};
+
+describe('TI serial bootloader', () => {
+    let standIn: TiBslStandIn;
+    let transport: Transport;
+
+    beforeEach(async () => {
+        standIn = new TiBslStandIn(2);
+        await standIn.start();
+        transport = new Transport(standIn.path, 115200);
+        await transport.open();
+    });
+
+    afterEach(async () => {
+        await transport.close();
+        await standIn.stop();
+    });
+
+    it('Flashes and verifies image', async () => {
+        const image = tiImage(2);
+        const progress = [];
+        await new TiBsl(transport).flash(image, (written, total) => progress.push([written, total]));
+        expect(standIn.flash).toStrictEqual(image);
+        expect(standIn.resets).toBe(1);
+        expect(progress.length).toBe(Math.ceil(image.length / 248));
+        expect(progress[0]).toStrictEqual([248, image.length]);
+        expect(progress[progress.length - 1]).toStrictEqual([image.length, image.length]);
+    });
+
+    it('Flashes only the programmed sectors when keeping the NV', async () => {
+        await standIn.stop();
+        standIn = new TiBslStandIn(3);
+        await standIn.start();
+        await transport.close();
+        transport = new Transport(standIn.path, 115200);
+        await transport.open();
+        // The first sector is blank in the image, it holds the NV on the adapter
+        const image = tiImage(3);
+        image.fill(0xFF, 0, 0x2000);
+        image.fill(0x11, 0x2000, 0x4000);
+        standIn.flash.fill(0x5A, 0, 0x2000);
+        const progress = [];
+
+        await new TiBsl(transport).flash(image, (written, total) => progress.push([written, total]), true);
+        expect(standIn.flash).toStrictEqual(Buffer.concat([Buffer.alloc(0x2000, 0x5A), image.slice(0x2000)]));
+        expect(standIn.commands).not.toContain(0x2C);
+        expect(standIn.commands.filter((c) => c === 0x26)).toHaveLength(2);
+        expect(standIn.resets).toBe(1);
+        expect(progress[progress.length - 1]).toStrictEqual([0x4000, 0x4000]);
+    });
+
+    it('Reads chip ID and flash size', async () => {
+        const bsl = new TiBsl(transport);
+        await bsl.sync();
+        expect(await bsl.getChipId()).toBe(TiBslStandIn.chipId);
+        expect(await bsl.getFlashSize()).toBe(0x4000);
+    });
+
+    it('Reads CRC most significant byte first', async () => {
+        standIn.flash.write('123456789', 0);
+        const bsl = new TiBsl(transport);
+        await bsl.sync();
+        expect(await bsl.crc32(0, 9)).toBe(0xCBF43926);
+    });
+
+    it('Rejects image not matching the flash size', async () => {
+        await expect(new TiBsl(transport).flash(tiImage(1), jest.fn()))
+            .rejects.toThrow(new Error('Image size 8192 does not match the flash size 16384 of the adapter'));
+        expect(standIn.commands).not.toContain(0x2C);
+        expect(standIn.flash[0]).toBe(0xAA);
+    });
+
+    it.each([
+        ['0xfe0fc5', 0x00FE0FC5],
+        ['0xc5fe0f00', 0xC5FE0F00],
+    ])('Rejects image disabling the bootloader with BL_CONFIG %s', async (formatted, bootloaderConfig) => {
+        await expect(new TiBsl(transport).flash(tiImage(2, bootloaderConfig), jest.fn()))
+            .rejects.toThrow(new Error(`Image disables the serial bootloader (BL_CONFIG ${formatted})`));
+        expect(standIn.commands).not.toContain(0x2C);
+    });
+
+    it('Fails when verification fails', async () => {
+        standIn.corruptCrc = true;
+        await expect(new TiBsl(transport).flash(tiImage(2), jest.fn())).rejects.toThrow(/^Verification failed/);
+        expect(standIn.resets).toBe(0);
+    });
+
+    it('Fails on not acknowledged command', async () => {
+        standIn.nackCommand = 0x28;
+        await expect(new TiBsl(transport).flash(tiImage(2), jest.fn()))
+            .rejects.toThrow(new Error('Bootloader did not acknowledge command 0x28'));
+    });
+
+    it('Fails on command status', async () => {
+        standIn.failCommand = 0x2C;
+        await expect(new TiBsl(transport).flash(tiImage(2), jest.fn()))
+            .rejects.toThrow(new Error('bankErase failed with status 0x42'));
+    });
+
+    it('Fails on packet with invalid checksum', async () => {
+        standIn.corruptPacket = true;
+        await expect(new TiBsl(transport).flash(tiImage(2), jest.fn())).rejects.toThrow(/^Invalid checksum in packet/);
+    });
+
+    it('Fails on unexpected response', async () => {
+        const server = net.createServer((socket) => socket.on('data', () => socket.write(Buffer.from([0x12, 0x34]))));
+        await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+        const other = new Transport(`tcp://127.0.0.1:${(server.address() as net.AddressInfo).port}`, 115200);
+        await other.open();
+        await expect(new TiBsl(other).sync()).rejects.toThrow(new Error(`Unexpected response '1234' to sync`));
+        await other.close();
+        await new Promise((resolve) => server.close(resolve));
+    });
+
+    it('Enters bootloader with DTR and RTS', async () => {
+        const setSignals = jest.fn();
+        const serial = {isSocket: () => false, setSignals} as unknown as Transport;
+        await new TiBsl(serial).enter();
+        expect(setSignals.mock.calls).toStrictEqual([
+            [{dtr: true, rts: false}], [{dtr: true, rts: true}], [{dtr: true, rts: false}], [{dtr: false, rts: false}],
+        ]);
+    });
+});
+
+describe('Intel HEX', () => {
+    it('Parses records', () => {
+        const hex = [
+            record(0x02, 0, [0x00, 0x00]),
+            record(0x00, 0x0000, [0x01, 0x02]),
+            record(0x00, 0x0004, [0x03]),
+            record(0x04, 0, [0x00, 0x01]),
+            record(0x00, 0x0002, [0x04]),
+            record(0x05, 0, [0x00, 0x00, 0x00, 0x00]),
+            record(0x01, 0, []),
+            '',
+        ].join('\r\n');
+        const image = parseIntelHex(hex);
+        expect(image.length).toBe(0x10003);
+        expect(image.slice(0, 6)).toStrictEqual(Buffer.from([0x01, 0x02, 0xFF, 0xFF, 0x03, 0xFF]));
+        expect(image[0x10002]).toBe(0x04);
+        expect(parseIntelHex(record(0x01, 0, []))).toStrictEqual(Buffer.alloc(0));
+    });
+
+    it('Rejects invalid records', () => {
+        expect(() => parseIntelHex('0200000000FE')).toThrow(new Error(`Invalid Intel HEX record '0200000000FE'`));
+        expect(() => parseIntelHex(':0300000000FD')).toThrow(new Error(`Invalid Intel HEX record ':0300000000FD'`));
+        expect(() => parseIntelHex(':00000001FE')).toThrow(new Error(`Invalid checksum in Intel HEX record ':00000001FE'`));
+    });
+});
@@ -0,0 +1,155 @@
+import "regenerator-runtime/runtime";
+import events from 'events';
+import net from 'net';
+import Transport from '../../../src/adapter/firmware/transport';
+import {SerialPort} from '../../../src/adapter/serialPort';
+
+let mockSerialPortOpenError: Error = null;
+let mockSerialPortWriteError: Error = null;
+let mockSerialPortSetError: Error = null;
+const mockSerialPortWrite = jest.fn();
+const mockSerialPortSet = jest.fn();
+const mockSerialPortClose = jest.fn();
+
+jest.mock('../../../src/adapter/serialPort', () => {
+    // eslint-disable-next-line @typescript-eslint/no-var-requires
+    const {EventEmitter} = require('events');
+    return {
+        SerialPort: jest.fn().mockImplementation(() => {
+            const port = new EventEmitter();
+            port.isOpen = false;
+            port.open = (cb): void => {
+                port.isOpen = !mockSerialPortOpenError;
+                cb(mockSerialPortOpenError);
+            };
+            port.write = (data, cb): void => {
+                mockSerialPortWrite(data);
+                cb(mockSerialPortWriteError);
+            };
+            port.set = (signals, cb): void => {
+                mockSerialPortSet(signals);
+                cb(mockSerialPortSetError);
+            };
+            port.close = (cb): void => {
+                mockSerialPortClose();
+                port.isOpen = false;
+                cb(null);
+            };
+            return port;
+        }),
+    };
+});
+
+const serialPort = (): events.EventEmitter =>
+    (SerialPort as unknown as jest.Mock).mock.results[(SerialPort as unknown as jest.Mock).mock.results.length - 1].value;
+
+describe('Firmware transport', () => {
+    beforeEach(() => {
+        mockSerialPortOpenError = null;
+        mockSerialPortWriteError = null;
+        mockSerialPortSetError = null;
+        jest.clearAllMocks();
+    });
+
+    it('Reads and writes serial port', async () => {
+        const transport = new Transport('/dev/ttyACM0', 115200);
+        expect(transport.isSocket()).toBe(false);
+        await transport.open();
+        expect(SerialPort).toHaveBeenCalledWith({path: '/dev/ttyACM0', baudRate: 115200, autoOpen: false});
+
+        await transport.write(Buffer.from([0x01, 0x02]));
+        expect(mockSerialPortWrite).toHaveBeenCalledWith(Buffer.from([0x01, 0x02]));
+        await transport.setSignals({dtr: true, rts: false});
+        expect(mockSerialPortSet).toHaveBeenCalledWith({dtr: true, rts: false});
+
+        serialPort().emit('data', Buffer.from([0x10]));
+        transport.discard();
+        const read = transport.read(3, 1000);
+        serialPort().emit('data', Buffer.from([0x01, 0x02]));
+        serialPort().emit('data', Buffer.from('\r\nBL > rest'));
+        expect(await read).toStrictEqual(Buffer.from([0x01, 0x02, 0x0D]));
+        expect(await transport.readUntil('BL >', 1000)).toStrictEqual(Buffer.from('\nBL >'));
+        expect(await transport.read(5, 1000)).toStrictEqual(Buffer.from(' rest'));
+
+        serialPort().emit('error', new Error('Framing error'));
+        await transport.close();
+        expect(mockSerialPortClose).toHaveBeenCalledTimes(1);
+        await transport.close();
+        expect(mockSerialPortClose).toHaveBeenCalledTimes(1);
+    });
+
+    it('Fails to open serial port', async () => {
+        mockSerialPortOpenError = new Error('Port busy');
+        const transport = new Transport('/dev/ttyACM0', 115200);
+        await expect(transport.open()).rejects.toThrow(new Error('Port busy'));
+        await transport.close();
+        expect(mockSerialPortClose).toHaveBeenCalledTimes(0);
+    });
+
+    it('Fails to write', async () => {
+        mockSerialPortWriteError = new Error('Port gone');
+        const transport = new Transport('/dev/ttyACM0', 115200);
+        await transport.open();
+        await expect(transport.write(Buffer.from([0x01]))).rejects.toThrow(new Error('Port gone'));
+    });
+
+    it('Fails to set signals', async () => {
+        mockSerialPortSetError = new Error('Not supported');
+        const transport = new Transport('/dev/ttyACM0', 115200);
+        await transport.open();
+        await expect(transport.setSignals({dtr: false, rts: false})).rejects.toThrow(new Error('Not supported'));
+    });
+
+    it('Ignores events of previously opened port', async () => {
+        const transport = new Transport('/dev/ttyACM0', 115200);
+        await transport.open();
+        const previous = serialPort();
+        await transport.close();
+        await transport.open();
+        previous.emit('data', Buffer.from([0x01]));
+        previous.emit('close');
+        serialPort().emit('data', Buffer.from([0x02]));
+        expect(await transport.read(1, 1000)).toStrictEqual(Buffer.from([0x02]));
+    });
+
+    it('Times out waiting for data', async () => {
+        const transport = new Transport('/dev/ttyACM0', 115200);
+        await transport.open();
+        serialPort().emit('data', Buffer.from([0x01]));
+        await expect(transport.read(2, 50)).rejects.toThrow(new Error('Timeout while waiting for 2 bytes after 50ms'));
+    });
+
+    it('Fails when port closes while waiting', async () => {
+        const transport = new Transport('/dev/ttyACM0', 115200);
+        await transport.open();
+        const read = transport.readUntil('BL >\r\n', 1000);
+        serialPort().emit('close');
+        await expect(read).rejects.toThrow(new Error(`Port closed while waiting for 'BL >'`));
+        await expect(transport.read(1, 1000)).rejects.toThrow(new Error('Port closed while waiting for 1 bytes'));
+    });
+
+    it('Reads and writes socket', async () => {
+        const server = net.createServer((socket) => socket.on('data', (data) => socket.write(data)));
+        await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+        const transport = new Transport(`tcp://127.0.0.1:${(server.address() as net.AddressInfo).port}`, 115200);
+        expect(transport.isSocket()).toBe(true);
+        await transport.open();
+        await transport.setSignals({dtr: true, rts: true});
+        await transport.write(Buffer.from('echo'));
+        expect(await transport.read(4, 1000)).toStrictEqual(Buffer.from('echo'));
+        await transport.close();
+        expect(SerialPort).toHaveBeenCalledTimes(0);
+        expect(mockSerialPortSet).toHaveBeenCalledTimes(0);
+        await new Promise((resolve) => server.close(resolve));
+    });
+
+    it('Fails to connect socket', async () => {
+        const server = net.createServer();
+        await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+        const port = (server.address() as net.AddressInfo).port;
+        await new Promise((resolve) => server.close(resolve));
+        const transport = new Transport(`tcp://127.0.0.1:${port}`, 115200);
+        await expect(transport.open()).rejects.toThrow(/ECONNREFUSED/);
+        await transport.close();
+    });
+});
@@ -0,0 +1,204 @@
+import "regenerator-runtime/runtime";
+import net from 'net';
+import Rfc2217 from '../../src/adapter/rfc2217';
+import {SerialPort} from '../../src/adapter/serialPort';
+
+const IAC = 255;
+const SB = 250;
+const SE = 240;
+const COM_PORT = 44;
+
+const negotiation = [
+    IAC, 251, 0, IAC, 251, 3, IAC, 251, COM_PORT,
+    IAC, 253, 0, IAC, 253, 3,
+];
+
+const command = (...data: number[]): number[] => [IAC, SB, COM_PORT, ...data, IAC, SE];
+
+let server: net.Server;
+let connection: net.Socket;
+let received: Buffer;
+let path: string;
+
+const receive = async (length: number): Promise<Buffer> => {
+    while (received.length < length) {
+        await new Promise((resolve) => setTimeout(resolve, 5));
+    }
+
+    const data = received.slice(0, length);
+    received = received.slice(length);
+    return data;
+};
+
+const open = async (options = {}): Promise<ReturnType<typeof Rfc2217.Rfc2217Binding.open>> => {
+    const port = await Rfc2217.Rfc2217Binding.open({path, baudRate: 115200, ...options});
+    await receive(negotiation.length + 10 + 4 * 7);
+    return port;
+};
+
+describe('RFC 2217', () => {
+    beforeEach(async () => {
+        received = Buffer.alloc(0);
+        connection = null;
+        server = net.createServer((socket) => {
+            connection = socket;
+            socket.on('data', (data) => received = Buffer.concat([received, data]));
+        });
+        await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+        path = `rfc2217://127.0.0.1:${(server.address() as net.AddressInfo).port}`;
+    });
+
+    afterEach(async () => {
+        connection?.destroy();
+        await new Promise((resolve) => server.close(resolve));
+    });
+
+    it('List', async () => {
+        expect(await Rfc2217.Rfc2217Binding.list()).toStrictEqual([]);
+    });
+
+    it('Negotiates com port control and configures the port', async () => {
+        const port = await Rfc2217.Rfc2217Binding.open({
+            path, baudRate: 115200, dataBits: 7, parity: 'even', stopBits: 1.5, rtscts: true,
+        });
+        expect(await receive(negotiation.length + 10 + 4 * 7)).toStrictEqual(Buffer.from([
+            ...negotiation,
+            ...command(1, 0x00, 0x01, 0xC2, 0x00),
+            ...command(2, 7),
+            ...command(3, 3),
+            ...command(4, 3),
+            ...command(5, 3),
+        ]));
+        expect(port.openOptions).toStrictEqual({
+            path, baudRate: 115200, dataBits: 7, lock: true, stopBits: 1.5, parity: 'even', rtscts: true,
+            xon: false, xoff: false, xany: false, hupcl: true,
+        });
+        await port.close();
+    });
+
+    it('Defaults to 8N1 without flow control', async () => {
+        await Rfc2217.Rfc2217Binding.open({path, baudRate: 115200});
+        expect((await receive(negotiation.length + 10 + 4 * 7)).slice(negotiation.length + 10)).toStrictEqual(
+            Buffer.from([...command(2, 8), ...command(3, 1), ...command(4, 1), ...command(5, 1)]),
+        );
+    });
+
+    it('Configures software flow control', async () => {
+        await Rfc2217.Rfc2217Binding.open({path, baudRate: 115200, xon: true, xoff: true});
+        expect((await receive(negotiation.length + 10 + 4 * 7)).slice(-7)).toStrictEqual(Buffer.from(command(5, 2)));
+    });
+
+    it('Prefers hardware over software flow control', async () => {
+        await Rfc2217.Rfc2217Binding.open({path, baudRate: 115200, rtscts: true, xon: true});
+        expect((await receive(negotiation.length + 10 + 4 * 7)).slice(-7)).toStrictEqual(Buffer.from(command(5, 3)));
+    });
+
+    it('Changes baud rate', async () => {
+        const port = await open();
+        await port.update({baudRate: 65535});
+        expect(await receive(12)).toStrictEqual(Buffer.from(command(1, 0x00, 0x00, IAC, IAC, IAC, IAC)));
+        expect(await port.getBaudRate()).toStrictEqual({baudRate: 65535});
+    });
+
+    it('Sets control lines', async () => {
+        const port = await open();
+        await port.set({});
+        expect(await receive(21)).toStrictEqual(Buffer.from([...command(5, 6), ...command(5, 8), ...command(5, 11)]));
+        await port.set({brk: true, dtr: false, rts: false});
+        expect(await receive(21)).toStrictEqual(Buffer.from([...command(5, 5), ...command(5, 9), ...command(5, 12)]));
+    });
+
+    it('Writes data with escaped IAC', async () => {
+        const port = await open();
+        await port.write(Buffer.from([0x01, IAC, 0x02]));
+        await port.drain();
+        expect(await receive(4)).toStrictEqual(Buffer.from([0x01, IAC, IAC, 0x02]));
+    });
+
+    it('Reads data and handles telnet commands', async () => {
+        const port = await open();
+        connection.write(Buffer.from(command(107, 0x80)));
+        while (!(await port.get()).dcd) {
+            await new Promise((resolve) => setTimeout(resolve, 5));
+        }
+
+        connection.write(Buffer.from([
+            0x01, IAC, IAC, 0x02,
+            // NOP
+            IAC, 241,
+            // DO terminal type, WILL echo, DO com port control, WILL suppress go ahead, WONT com port control
+            IAC, 253, 24, IAC, 251, 1, IAC, 253, COM_PORT, IAC, 251, 3, IAC, 252, COM_PORT,
+            // Modem state CTS and DSR, baud rate with escaped IAC, unknown option
+            ...command(107, 0x30), ...command(101, 0x00, 0x00, IAC, IAC, IAC, IAC), IAC, SB, 24, 0, IAC, SE,
+            0x03,
+        ]));
+
+        const buffer = Buffer.alloc(10);
+        let length = 0;
+        while (length < 4) {
+            length += (await port.read(buffer, length, 10 - length)).bytesRead;
+        }
+
+        expect(buffer.slice(0, length)).toStrictEqual(Buffer.from([0x01, IAC, 0x02, 0x03]));
+        expect(await receive(6)).toStrictEqual(Buffer.from([IAC, 252, 24, IAC, 254, 1]));
+        expect(await port.get()).toStrictEqual({cts: true, dsr: true, dcd: false});
+    });
+
+    it('Flushes', async () => {
+        const port = await open();
+        connection.write(Buffer.from([0x01]));
+        await new Promise((resolve) => setTimeout(resolve, 50));
+        await port.flush();
+        expect(await receive(7)).toStrictEqual(Buffer.from(command(12, 3)));
+
+        connection.write(Buffer.from([0x02]));
+        const buffer = Buffer.alloc(1);
+        await port.read(buffer, 0, 1);
+        expect(buffer).toStrictEqual(Buffer.from([0x02]));
+    });
+
+    it('Close cancels pending read', async () => {
+        const port = await open();
+        const read = port.read(Buffer.alloc(1), 0, 1);
+        await port.close();
+        expect(port.isOpen).toBeFalsy();
+        await expect(read).rejects.toMatchObject({canceled: true, message: 'Port is closed'});
+        await expect(port.write(Buffer.from([1]))).rejects.toMatchObject({canceled: true});
+    });
+
+    it('Read fails when server closes the connection', async () => {
+        const port = await open();
+        const read = port.read(Buffer.alloc(1), 0, 1);
+        connection.destroy();
+        await expect(read).rejects.toThrow(new Error('Connection to RFC 2217 server closed'));
+    });
+
+    it('Write fails on destroyed socket', async () => {
+        const port = await open();
+        port['socket'].emit('error', new Error('reset'));
+        port['socket'].destroy();
+        await expect(port.write(Buffer.from([1]))).rejects.toThrow();
+    });
+
+    it('Open fails when server is not reachable', async () => {
+        await new Promise((resolve) => server.close(resolve));
+        server = net.createServer();
+        await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+        await expect(Rfc2217.Rfc2217Binding.open({path: 'rfc2217://127.0.0.1:1', baudRate: 115200}))
+            .rejects.toThrow('ECONNREFUSED');
+    });
+
+    it('Opens rfc2217 path as serial port', async () => {
+        const port = new SerialPort({path, baudRate: 115200, autoOpen: false});
+        await new Promise<void>((resolve, reject) => port.open((error) => error ? reject(error) : resolve()));
+        await receive(negotiation.length + 10 + 4 * 7);
+
+        const data = new Promise<Buffer>((resolve) => port.once('data', resolve));
+        connection.write(Buffer.from([0x01, 0x02]));
+        expect(await data).toStrictEqual(Buffer.from([0x01, 0x02]));
+
+        port.write(Buffer.from([0x03]));
+        expect(await receive(1)).toStrictEqual(Buffer.from([0x03]));
+        await new Promise((resolve) => port.close(resolve));
+    });
+});
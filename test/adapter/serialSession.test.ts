@@ -0,0 +1,192 @@
+import "regenerator-runtime/runtime";
+import fs from 'fs';
+import net from 'net';
+import path from 'path';
+import {PassThrough} from 'stream';
+import {Znp} from '../../src/adapter/z-stack/znp';
+import {Frame as UnpiFrame, Constants as UnpiConstants} from '../../src/adapter/z-stack/unpi';
+import SerialSession from '../../src/adapter/serialSession';
+
+const recordingPath = path.join(path.resolve('temp'), 'session.jsonl');
+const rerecordingPath = path.join(path.resolve('temp'), 'session-replayed.jsonl');
+
+jest.mock('../../src/utils/wait', () => {
+    return jest.fn();
+});
+
+const pingRequest = new UnpiFrame(
+    UnpiConstants.Type.SREQ, UnpiConstants.Subsystem.SYS, 1, Buffer.from([]),
+).toBuffer();
+
+const pingResponse = new UnpiFrame(
+    UnpiConstants.Type.SRSP, UnpiConstants.Subsystem.SYS, 1, Buffer.from([0x79, 0x01]),
+).toBuffer();
+
+const readRecording = (file = recordingPath): {direction: string; data: string}[] => {
+    return fs.readFileSync(file, 'utf8').trim().split('\n').map((line) => JSON.parse(line))
+        .map(({direction, data}) => ({direction, data}));
+};
+
+const writeRecording = (entries: {direction: string; data: Buffer}[]): void => {
+    fs.writeFileSync(recordingPath, entries.map((e, i) => {
+        return `${JSON.stringify({time: i, direction: e.direction, data: e.data.toString('hex')})}\n`;
+    }).join(''));
+};
+
+const openReplayPort = async (): Promise<ReturnType<typeof SerialSession.ReplayBinding.open>> => {
+    return SerialSession.ReplayBinding.open({path: `replay://${recordingPath}`, baudRate: 115200});
+};
+
+describe('Serial session', () => {
+    let server: net.Server;
+
+    beforeAll(() => {
+        fs.mkdirSync(path.dirname(recordingPath), {recursive: true});
+    });
+
+    afterEach(async () => {
+        if (server) {
+            await new Promise((resolve) => server.close(resolve));
+            server = null;
+        }
+    });
+
+    afterAll(() => {
+        fs.unlinkSync(recordingPath);
+        fs.unlinkSync(rerecordingPath);
+    });
+
+    it('Records a socket session', async () => {
+        server = net.createServer((socket) => {
+            socket.on('data', (data) => {
+                // the skip bootloader byte can arrive together with the ping
+                if (data.includes(pingRequest)) {
+                    socket.write(pingResponse);
+                }
+            });
+        });
+        await new Promise<void>((resolve) => server.listen(0, 'localhost', resolve));
+        const port = (server.address() as net.AddressInfo).port;
+
+        fs.writeFileSync(recordingPath, 'previous session\n');
+        const znp = new Znp(`tcp://localhost:${port}`, 115200, false, recordingPath);
+        await znp.open();
+        await znp.request(UnpiConstants.Subsystem.SYS, 'ping', {});
+        await znp.close();
+
+        expect(readRecording()).toStrictEqual([
+            {direction: 'write', data: 'ef'},
+            {direction: 'write', data: pingRequest.toString('hex')},
+            {direction: 'read', data: pingResponse.toString('hex')},
+        ]);
+    });
+
+    it('Replays a session as serial port', async () => {
+        writeRecording([
+            {direction: 'write', data: pingRequest},
+            {direction: 'read', data: pingResponse},
+            {direction: 'write', data: pingRequest},
+            {direction: 'read', data: pingResponse},
+        ]);
+        const recording = readRecording();
+
+        const znp = new Znp(`replay://${recordingPath}`, 115200, false, rerecordingPath);
+        await znp.open();
+        expect(znp.isInitialized()).toBeTruthy();
+        const result = await znp.request(UnpiConstants.Subsystem.SYS, 'ping', {});
+        expect(result.payload).toStrictEqual({capabilities: 377});
+        await znp.close();
+
+        expect(readRecording(rerecordingPath)).toStrictEqual(recording);
+    });
+
+    it('Records writes of strings', () => {
+        const port = new PassThrough();
+        SerialSession.record(port, recordingPath);
+        port.write('ab');
+        expect(readRecording()).toStrictEqual([
+            {direction: 'write', data: '6162'},
+            {direction: 'read', data: '6162'},
+        ]);
+    });
+
+    it('Does not record without recording file', () => {
+        fs.writeFileSync(recordingPath, '');
+        const port = new PassThrough();
+        SerialSession.record(port, undefined);
+        port.write(Buffer.from([1]));
+        expect(fs.readFileSync(recordingPath, 'utf8')).toBe('');
+    });
+
+    it('Is replay path', () => {
+        expect(SerialSession.isReplayPath('replay:///tmp/session.jsonl')).toBeTruthy();
+        expect(SerialSession.isReplayPath('/dev/ttyACM0')).toBeFalsy();
+        expect(SerialSession.isReplayPath(undefined)).toBeFalsy();
+    });
+
+    it('Replays reads after writes split over multiple chunks', async () => {
+        writeRecording([
+            {direction: 'read', data: Buffer.from([1])},
+            {direction: 'write', data: Buffer.from([2, 3])},
+            {direction: 'read', data: Buffer.from([4, 5])},
+            {direction: 'read', data: Buffer.from([6])},
+        ]);
+        const port = await openReplayPort();
+        const buffer = Buffer.alloc(4);
+        expect((await port.read(buffer, 0, 4)).bytesRead).toBe(1);
+        expect(buffer[0]).toBe(1);
+
+        const read = port.read(buffer, 0, 2);
+        await port.write(Buffer.from([2]));
+        await port.write(Buffer.from([3]));
+        expect((await read).bytesRead).toBe(2);
+        expect(buffer.slice(0, 2)).toStrictEqual(Buffer.from([4, 5]));
+        expect((await port.read(buffer, 1, 3)).bytesRead).toBe(1);
+        expect(buffer[1]).toBe(6);
+    });
+
+    it('Fails when written data differs from the recording', async () => {
+        writeRecording([{direction: 'write', data: Buffer.from([1, 2])}]);
+        const port = await openReplayPort();
+        await expect(port.write(Buffer.from([1, 3]))).rejects.toThrow(
+            new Error(`Replay expected '0102' to be written, but '0103' was written`),
+        );
+    });
+
+    it('Fails when writing after the end of the recording', async () => {
+        writeRecording([{direction: 'write', data: Buffer.from([1])}]);
+        const port = await openReplayPort();
+        await expect(port.write(Buffer.from([1, 2]))).rejects.toThrow(
+            new Error(`Replay ended, but '02' was written`),
+        );
+    });
+
+    it('Cancels pending read on close', async () => {
+        writeRecording([]);
+        const port = await openReplayPort();
+        const read = port.read(Buffer.alloc(1), 0, 1);
+        await port.close();
+        expect(port.isOpen).toBeFalsy();
+        await expect(read).rejects.toMatchObject({canceled: true, message: 'Replay port is closed'});
+    });
+
+    it('Replay port settings', async () => {
+        writeRecording([{direction: 'write', data: Buffer.from([1, 2])}]);
+        const port = await openReplayPort();
+        expect(await SerialSession.ReplayBinding.list()).toStrictEqual([]);
+        expect(port.openOptions).toStrictEqual({
+            path: `replay://${recordingPath}`, baudRate: 115200, dataBits: 8, lock: true, stopBits: 1,
+            parity: 'none', rtscts: false, xon: false, xoff: false, xany: false, hupcl: true,
+        });
+        await port.update({baudRate: 9600});
+        await port.set({dtr: false});
+        expect(await port.get()).toStrictEqual({cts: true, dsr: true, dcd: true});
+        expect(await port.getBaudRate()).toStrictEqual({baudRate: 115200});
+        await port.drain();
+        await port.write(Buffer.from([1]));
+        await port.flush();
+        await expect(port.write(Buffer.from([2]))).rejects.toThrow(
+            new Error(`Replay expected '0102' to be written, but '02' was written`),
+        );
+    });
+});
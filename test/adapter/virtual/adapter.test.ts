@@ -0,0 +1,579 @@
+import "regenerator-runtime/runtime";
+import fs from 'fs';
+import path from 'path';
+import {Controller} from '../../../src/controller';
+import {Device} from '../../../src/controller/model';
+import {Adapter} from '../../../src/adapter';
+import {VirtualAdapter} from '../../../src/adapter/virtual/adapter';
+import {VirtualNetwork, VirtualDeviceDefinition} from '../../../src/adapter/virtual/driver';
+import * as Zcl from '../../../src/zcl';
+
+jest.mock('../../../src/utils/wait', () => {
+    return jest.fn().mockImplementation(() => {
+        return new Promise<void>((resolve) => resolve());
+    });
+});
+
+const getTempFile = (filename: string): string => {
+    const tempPath = path.resolve('temp');
+    if (!fs.existsSync(tempPath)){
+        fs.mkdirSync(tempPath);
+    }
+
+    return path.join(tempPath, filename);
+};
+
+const networkPath = 'virtual://test';
+
+const networkOptions = {
+    panID: 0x1a62,
+    extendedPanID: [0xDD, 0xDD, 0xDD, 0xDD, 0xDD, 0xDD, 0xDD, 0xDD],
+    channelList: [15],
+    networkKey: [1, 3, 5, 7, 9, 11, 13, 15, 0, 2, 4, 6, 8, 10, 12, 13],
+};
+
+const options = {
+    network: networkOptions,
+    serialPort: {path: networkPath, adapter: 'virtual' as const},
+    databasePath: getTempFile('virtual_database.db'),
+    backupPath: getTempFile('virtual_coordinator_backup.json'),
+};
+
+const bulb: VirtualDeviceDefinition = {
+    ieeeAddr: '0x000b57fffec6a5b2',
+    networkAddress: 0x1001,
+    type: 'Router',
+    manufacturerCode: 4476,
+    endpoints: [
+        {
+            ID: 1, deviceID: 0x0100,
+            inputClusters: [0x0000, 0x0004, 0x0006, 0x0008], outputClusters: [0x0019],
+            attributes: {
+                genBasic: {modelId: 'TRADFRI bulb E27 W opal 1000lm', manufacturerName: 'IKEA of Sweden',
+                    powerSource: 1},
+                genOnOff: {onOff: 0},
+                genLevelCtrl: {currentLevel: 10},
+            },
+        },
+    ],
+};
+
+const sensor: VirtualDeviceDefinition = {
+    ieeeAddr: '0x00158d0001e1a1b1',
+    networkAddress: 0x2002,
+    type: 'EndDevice',
+    manufacturerCode: 4447,
+    parent: bulb.ieeeAddr,
+    linkquality: 120,
+    endpoints: [
+        {
+            ID: 1, deviceID: 0x0402,
+            inputClusters: [0x0000, 0x0500], outputClusters: [],
+            attributes: {
+                genBasic: {modelId: 'motion.sensor', manufacturerName: 'Virtual', powerSource: 3},
+                ssIasZone: {zoneState: 0, zoneType: 13, zoneStatus: 0, iasCieAddr: '0x0000000000000000'},
+            },
+        },
+    ],
+};
+
+const remote: VirtualDeviceDefinition = {
+    ieeeAddr: '0x90fd9ffffe0bcd11',
+    networkAddress: 0x3003,
+    type: 'EndDevice',
+    endpoints: [{ID: 1, inputClusters: [0x0000], outputClusters: [0x0006]}],
+};
+
+const removeFile = (file: string): void => {
+    if (fs.existsSync(file)) {
+        fs.unlinkSync(file);
+    }
+};
+
+describe('Virtual adapter', () => {
+    let network: VirtualNetwork;
+    let controller: Controller;
+
+    const start = async (): Promise<void> => {
+        controller = new Controller(options);
+        await controller.start();
+    };
+
+    const joinAndInterview = async (ieeeAddr: string): Promise<Device> => {
+        const interview = new Promise<Device>((resolve, reject) => {
+            controller.on('deviceInterview', (event) => {
+                if (event.device.ieeeAddr === ieeeAddr && event.status === 'successful') resolve(event.device);
+                if (event.device.ieeeAddr === ieeeAddr && event.status === 'failed') reject(new Error('Failed'));
+            });
+        });
+
+        network.join(ieeeAddr);
+        return interview;
+    };
+
+    beforeEach(() => {
+        removeFile(options.databasePath);
+        removeFile(options.backupPath);
+        VirtualNetwork.remove(networkPath);
+        network = VirtualNetwork.get(networkPath);
+        network.addDevice(bulb);
+        network.addDevice(sensor);
+        network.addDevice(remote);
+        controller = null;
+    });
+
+    afterEach(async () => {
+        if (controller) {
+            await controller.stop();
+        }
+    });
+
+    afterAll(() => {
+        removeFile(options.databasePath);
+        removeFile(options.backupPath);
+    });
+
+    it('Is created for adapter virtual', async () => {
+        const adapter = await Adapter.create(networkOptions, {path: networkPath, adapter: 'virtual'}, null, null);
+        expect(adapter).toBeInstanceOf(VirtualAdapter);
+    });
+
+    it('Is selected by path', async () => {
+        expect(await VirtualAdapter.isValidPath(networkPath)).toBeTruthy();
+        expect(await VirtualAdapter.isValidPath('/dev/ttyACM0')).toBeFalsy();
+        expect(await VirtualAdapter.autoDetectPath()).toBeNull();
+    });
+
+    it('Forms the network and resumes it afterwards', async () => {
+        await start();
+        expect(network.networkParameters).toStrictEqual({
+            panID: 0x1a62, extendedPanID: networkOptions.extendedPanID, channel: 15,
+            networkKey: networkOptions.networkKey, networkKeySequenceNumber: 0, frameCounter: 0, nwkUpdateId: 0,
+        });
+        expect(await controller.getCoordinatorVersion()).toStrictEqual({type: 'Virtual', meta: {}});
+        expect(await controller.getNetworkParameters()).toStrictEqual(
+            {panID: 0x1a62, extendedPanID: '0xdddddddddddddddd', channel: 15, networkUpdateID: 0}
+        );
+        expect(controller.getDevicesByType('Coordinator')[0].ieeeAddr).toBe(network.coordinatorIeeeAddr);
+        await controller.stop();
+
+        const adapter = await Adapter.create(networkOptions, {path: networkPath, adapter: 'virtual'}, null, null);
+        expect(await adapter.start()).toBe('resumed');
+        await adapter.stop();
+
+        const otherNetwork = {...networkOptions, panID: 0x1a63};
+        const other = await Adapter.create(otherNetwork, {path: networkPath, adapter: 'virtual'}, null, null);
+        expect(await other.start()).toBe('reset');
+        await other.reset('soft');
+        expect(network.networkParameters.panID).toBe(0x1a63);
+        await other.stop();
+        controller = null;
+    });
+
+    it('Does not form a network when reset is prevented', async () => {
+        const adapter = await Adapter.create(
+            networkOptions, {path: networkPath, adapter: 'virtual'}, null, {disableLED: false, preventReset: true},
+        );
+        await expect(adapter.start()).rejects.toThrow(
+            'Adapter is not on the configured network and reset is prevented'
+        );
+        expect(network.networkParameters).toBeNull();
+        await adapter.stop();
+    });
+
+    it('Forms the network with default extended PAN ID and network key', async () => {
+        const adapter = await Adapter.create(
+            {panID: 0x1a62, channelList: [11]}, {path: networkPath, adapter: 'virtual'}, null, null,
+        );
+        expect(await adapter.start()).toBe('reset');
+        expect(network.networkParameters.extendedPanID).toStrictEqual(networkOptions.extendedPanID);
+        expect(network.networkParameters.networkKey).toStrictEqual(Array(16).fill(0));
+        await adapter.stop();
+    });
+
+    it('Closes joining after the permit join time', async () => {
+        jest.useFakeTimers();
+        network.start(networkOptions);
+        network.permitJoin(10, null);
+        jest.advanceTimersByTime(10 * 1000);
+        expect(() => network.join(bulb.ieeeAddr)).toThrow(`joining is not permitted`);
+        network.permitJoin(254, null);
+        network.permitJoin(0, null);
+        expect(() => network.join(bulb.ieeeAddr)).toThrow(`joining is not permitted`);
+        jest.useRealTimers();
+    });
+
+    it('Rejects joins when joining is not permitted', async () => {
+        await start();
+        expect(() => network.join(bulb.ieeeAddr)).toThrow(`joining is not permitted`);
+
+        await controller.permitJoin(true, controller.getDevicesByType('Coordinator')[0]);
+        expect(() => network.join(sensor.ieeeAddr)).toThrow(`joining is not permitted`);
+        network.join(bulb.ieeeAddr);
+        await controller.permitJoin(false);
+        expect(network.devices.map((d) => d.ieeeAddr)).toStrictEqual([bulb.ieeeAddr]);
+    });
+
+    it('Joins and interviews devices', async () => {
+        await start();
+        await controller.permitJoin(true);
+        const device = await joinAndInterview(bulb.ieeeAddr);
+        expect(device.modelID).toBe('TRADFRI bulb E27 W opal 1000lm');
+        expect(device.manufacturerName).toBe('IKEA of Sweden');
+        expect(device.type).toBe('Router');
+        expect(device.manufacturerID).toBe(4476);
+        expect(device.powerSource).toBe('Mains (single phase)');
+        expect(device.getEndpoint(1).inputClusters).toStrictEqual([0x0000, 0x0004, 0x0006, 0x0008]);
+
+        const minimal = await joinAndInterview(remote.ieeeAddr);
+        expect(minimal.manufacturerID).toBe(0);
+        expect(minimal.getEndpoint(1).deviceID).toBe(0);
+        expect(minimal.modelID).toBeUndefined();
+
+        const endDevice = await joinAndInterview(sensor.ieeeAddr);
+        expect(endDevice.modelID).toBe('motion.sensor');
+        expect(network.getDevice(sensor.ieeeAddr).getAttributes(1, 'ssIasZone')).toStrictEqual(
+            {zoneState: 1, zoneType: 13, zoneStatus: 0, zoneId: 23, iasCieAddr: network.coordinatorIeeeAddr}
+        );
+        await controller.permitJoin(false);
+    });
+
+    it('Reads, writes and executes commands', async () => {
+        await start();
+        await controller.permitJoin(true);
+        const endpoint = (await joinAndInterview(bulb.ieeeAddr)).getEndpoint(1);
+
+        expect(await endpoint.read('genLevelCtrl', ['currentLevel'])).toStrictEqual({currentLevel: 10});
+        await expect(endpoint.read('genLevelCtrl', ['onOffTransitionTime'])).rejects.toThrow(
+            `Status 'UNSUPPORTED_ATTRIBUTE'`
+        );
+
+        await endpoint.write('genOnOff', {onTime: 20});
+        await endpoint.write('genOnOff', {0x9999: {value: 1, type: Zcl.DataType.uint8}});
+        await expect(endpoint.read('genOnOff', [0x9999])).rejects.toThrow(`Status 'UNSUPPORTED_ATTRIBUTE'`);
+        await endpoint.command('genOnOff', 'toggle', {});
+        await endpoint.command('genOnOff', 'toggle', {});
+        await endpoint.command('genOnOff', 'toggle', {});
+        await endpoint.command('genOnOff', 'offWithEffect', {effectid: 0, effectvariant: 0});
+        await endpoint.command('genLevelCtrl', 'moveToLevelWithOnOff', {level: 200, transtime: 0});
+        expect(network.getDevice(bulb.ieeeAddr).getAttributes(1, 'genOnOff')).toStrictEqual(
+            {onOff: 1, onTime: 20, '39321': 1}
+        );
+        expect(network.getDevice(bulb.ieeeAddr).getAttributes(1, 'genLevelCtrl')).toStrictEqual({currentLevel: 200});
+
+        expect(await endpoint.command('closuresWindowCovering', 'upOpen', {})).toStrictEqual(
+            {cmdId: 0, statusCode: Zcl.Status.UNSUPPORTED_CLUSTER}
+        );
+        await expect(endpoint.readResponse('genOnOff', 1, {onOff: 1})).resolves.toBeUndefined();
+
+        const adapter = controller['adapter'];
+        const writeNoRsp = Zcl.ZclFrame.create(
+            Zcl.FrameType.GLOBAL, Zcl.Direction.CLIENT_TO_SERVER, true, null, 10, 'writeNoRsp', 'genOnOff',
+            [{attrId: 0x4001, dataType: Zcl.DataType.uint16, attrData: 30}],
+        );
+        await adapter.sendZclFrameToEndpoint(bulb.ieeeAddr, 0x1001, 1, writeNoRsp, 1000, false, false);
+        expect(network.getDevice(bulb.ieeeAddr).getAttributes(1, 'genOnOff').onTime).toBe(30);
+
+        const reverse = Zcl.ZclFrame.create(
+            Zcl.FrameType.GLOBAL, Zcl.Direction.SERVER_TO_CLIENT, false, null, 11, 'report', 'genOnOff',
+            [{attrId: 0, dataType: Zcl.DataType.boolean, attrData: 1}],
+        );
+        const waiter = adapter.waitFor(0x1001, 1, Zcl.FrameType.GLOBAL, Zcl.Direction.CLIENT_TO_SERVER, 11, 6,
+            Zcl.Foundation.defaultRsp.ID, 1000);
+        network.sendZclFrameToEndpoint(0x1001, 1, reverse);
+        expect((await waiter.promise).frame.Payload).toStrictEqual(
+            {cmdId: Zcl.Foundation.report.ID, statusCode: Zcl.Status.UNSUP_GENERAL_COMMAND}
+        );
+        expect(() => network.getDevice(bulb.ieeeAddr).getAttributes(2, 'genOnOff')).toThrow(`has no endpoint '2'`);
+        await controller.permitJoin(false);
+    });
+
+    it('Handles groups and broadcasts', async () => {
+        await start();
+        await controller.permitJoin(true);
+        const endpoint = (await joinAndInterview(bulb.ieeeAddr)).getEndpoint(1);
+        const group = controller.createGroup(5);
+
+        await endpoint.addToGroup(group);
+        expect(network.getDevice(bulb.ieeeAddr).isGroupMember(1, 5)).toBeTruthy();
+        await group.command('genOnOff', 'on', {});
+        expect(network.getDevice(bulb.ieeeAddr).getAttributes(1, 'genOnOff').onOff).toBe(1);
+
+        await endpoint.removeFromGroup(group);
+        expect(await endpoint.command('genGroups', 'remove', {groupid: 5})).toStrictEqual({status: Zcl.Status.NOT_FOUND,
+            groupid: 5});
+        await endpoint.command('genGroups', 'add', {groupid: 6, groupname: ''});
+        await endpoint.removeFromAllGroups();
+        expect(network.getDevice(bulb.ieeeAddr).isGroupMember(1, 6)).toBeFalsy();
+
+        const frame = Zcl.ZclFrame.create(
+            Zcl.FrameType.SPECIFIC, Zcl.Direction.CLIENT_TO_SERVER, true, null, 1, 'off', 'genOnOff', {}
+        );
+        await controller['adapter'].sendZclFrameToAll(1, frame, 1);
+        expect(network.getDevice(bulb.ieeeAddr).getAttributes(1, 'genOnOff').onOff).toBe(0);
+        await controller['adapter'].sendZclFrameToAll(0xFF, frame, 1);
+        await controller['adapter'].sendZclFrameToAll(242, frame, 1);
+        await controller.permitJoin(false);
+    });
+
+    it('Configures reporting and sends reports', async () => {
+        await start();
+        await controller.permitJoin(true);
+        const endpoint = (await joinAndInterview(bulb.ieeeAddr)).getEndpoint(1);
+        const messages = [];
+        controller.on('message', (message) => messages.push(message));
+
+        await endpoint.configureReporting('genOnOff', [{
+            attribute: 'onTime', minimumReportInterval: 0, maximumReportInterval: 0xFFFF, reportableChange: 1,
+        }, {
+            attribute: 'onOff', minimumReportInterval: 0, maximumReportInterval: 60, reportableChange: 0,
+        }]);
+        await endpoint.configureReporting('genOnOff', [{
+            attribute: 'onOff', minimumReportInterval: 0, maximumReportInterval: 3600, reportableChange: 0,
+        }]);
+        expect(network.getDevice(bulb.ieeeAddr).getReportings(1)).toStrictEqual([
+            {cluster: 6, attrId: 0x4001, minRepIntval: 0, maxRepIntval: 0xFFFF, repChange: 1},
+            {cluster: 6, attrId: 0, minRepIntval: 0, maxRepIntval: 3600, repChange: undefined},
+        ]);
+
+        await endpoint.command('genOnOff', 'on', {});
+        network.report(bulb.ieeeAddr, 1, 'genOnOff', {onOff: 0, onTime: 10});
+        network.report(bulb.ieeeAddr, 1, 'genLevelCtrl', {currentLevel: 50});
+        await new Promise(setImmediate);
+
+        const reports = messages.filter((m) => m.type === 'attributeReport');
+        expect(reports.map((m) => m.data)).toStrictEqual([{onOff: 1}, {onOff: 0}]);
+        expect(reports[0].linkquality).toBe(255);
+        expect(endpoint.getClusterAttributeValue('genOnOff', 'onOff')).toBe(0);
+
+        network.command(bulb.ieeeAddr, 1, 'genOnOff', 'toggle', {});
+        await new Promise(setImmediate);
+        expect(messages[messages.length - 1].type).toBe('commandToggle');
+        await controller.permitJoin(false);
+    });
+
+    it('Binds, unbinds and reads network topology', async () => {
+        await start();
+        await controller.permitJoin(true);
+        const device = await joinAndInterview(bulb.ieeeAddr);
+        await joinAndInterview(sensor.ieeeAddr);
+        const coordinator = controller.getDevicesByType('Coordinator')[0];
+
+        await device.getEndpoint(1).bind('genOnOff', coordinator.getEndpoint(1));
+        await device.getEndpoint(1).bind('genOnOff', 5);
+        expect(network.getDevice(bulb.ieeeAddr).getBindings()).toStrictEqual([
+            {endpoint: 1, cluster: 6, type: 'endpoint', destination: coordinator.ieeeAddr, destinationEndpoint: 1},
+            {endpoint: 1, cluster: 6, type: 'group', destination: 5, destinationEndpoint: undefined},
+        ]);
+        await device.getEndpoint(1).unbind('genOnOff', coordinator.getEndpoint(1));
+        await device.getEndpoint(1).unbind('genOnOff', 5);
+        expect(network.getDevice(bulb.ieeeAddr).getBindings()).toStrictEqual([]);
+
+        expect(await coordinator.lqi()).toStrictEqual({neighbors: [
+            {ieeeAddr: bulb.ieeeAddr, networkAddress: 0x1001, linkquality: 255, relationship: 1, depth: 1},
+        ]});
+        expect(await device.lqi()).toStrictEqual({neighbors: [
+            {ieeeAddr: network.coordinatorIeeeAddr, networkAddress: 0, linkquality: 255, relationship: 0, depth: 0},
+            {ieeeAddr: sensor.ieeeAddr, networkAddress: 0x2002, linkquality: 120, relationship: 1, depth: 2},
+        ]});
+        expect(await controller.getDeviceByIeeeAddr(sensor.ieeeAddr).lqi()).toStrictEqual({neighbors: [
+            {ieeeAddr: bulb.ieeeAddr, networkAddress: 0x1001, linkquality: 120, relationship: 0, depth: 1},
+        ]});
+        expect(await coordinator.routingTable()).toStrictEqual({table: [
+            {destinationAddress: 0x1001, status: 'ACTIVE', nextHop: 0x1001},
+        ]});
+        expect(await device.routingTable()).toStrictEqual({table: []});
+        await expect(controller['adapter'].lqi(0x9999)).rejects.toThrow(`is not in the network`);
+        await controller.permitJoin(false);
+    });
+
+    it('Fails requests to sleeping or absent devices', async () => {
+        await start();
+        await controller.permitJoin(true);
+        const device = await joinAndInterview(sensor.ieeeAddr);
+        const endpoint = device.getEndpoint(1);
+
+        network.sleep(sensor.ieeeAddr);
+        await expect(endpoint.read('genBasic', ['modelId'])).rejects.toThrow(`is sleeping`);
+        await expect(endpoint.command('genBasic', 'resetFactDefault', {}, {disableDefaultResponse: true}))
+            .rejects.toThrow(`is sleeping`);
+        network.wake(sensor.ieeeAddr);
+        expect(await endpoint.read('genBasic', ['modelId'])).toStrictEqual({modelId: 'motion.sensor'});
+        await endpoint.command('ssIasZone', 'enrollRsp', {enrollrspcode: 1, zoneid: 10});
+        expect(network.getDevice(sensor.ieeeAddr).getAttributes(1, 'ssIasZone').zoneState).toBe(0);
+
+        await expect(device.getEndpoint(1).read('genBasic', ['modelId'], {timeout: 10})).resolves.toBeTruthy();
+        const missing = device.createEndpoint(3);
+        await expect(missing.read('genBasic', ['modelId'], {timeout: 10})).rejects.toThrow(`Timeout`);
+        await expect(missing.write('genBasic', {locationDesc: 'a'}, {timeout: 10, disableResponse: true}))
+            .resolves.toBeUndefined();
+        await controller.permitJoin(false);
+    });
+
+    it('Handles announces, leaves and removes', async () => {
+        await start();
+        await controller.permitJoin(true);
+        const device = await joinAndInterview(bulb.ieeeAddr);
+        await controller.permitJoin(false);
+        const events = {deviceAnnounce: [], deviceLeave: []};
+        controller.on('deviceAnnounce', (e) => events.deviceAnnounce.push(e.device.ieeeAddr));
+        controller.on('deviceLeave', (e) => events.deviceLeave.push(e.ieeeAddr));
+
+        network.announce(bulb.ieeeAddr, 0x1234);
+        expect(device.networkAddress).toBe(0x1234);
+        expect(events.deviceAnnounce).toStrictEqual([bulb.ieeeAddr]);
+
+        const backup = await controller.backup().then(() => JSON.parse(fs.readFileSync(options.backupPath).toString()));
+        expect(backup.devices).toStrictEqual([{ieee_address: '000b57fffec6a5b2', nwk_address: '1234', is_child: true}]);
+
+        await expect(controller['adapter'].removeDevice(0x1234, sensor.ieeeAddr)).rejects.toThrow(`is not`);
+        await device.removeFromNetwork();
+        expect(events.deviceLeave).toStrictEqual([bulb.ieeeAddr]);
+        expect(network.devices).toStrictEqual([]);
+        expect(() => network.leave(bulb.ieeeAddr)).toThrow(`is not in the network`);
+        expect(() => network.getDevice('0x1')).toThrow(`does not exist`);
+        expect(() => network.addDevice(bulb)).toThrow(`already exists`);
+    });
+
+    it('Stores install codes and transmit power', async () => {
+        await start();
+        const code = "RB01SG0D836591B3CC0010000000000000000000000D6F00179F2BC9DLKD0F471C9BBA2C0208608E91EED17E2B1";
+        await controller.addInstallCode(code);
+        await controller.setTransmitPower(10);
+        expect(network.installCodes.has('0x000D6F00179F2BC9')).toBeTruthy();
+        expect(network.transmitPower).toBe(10);
+    });
+
+    it('Rotates the network key', async () => {
+        await start();
+        await controller.permitJoin(true);
+        await joinAndInterview(bulb.ieeeAddr);
+        const key = [0x10, 0x11, 0x12, 0x13, 0x14, 0x15, 0x16, 0x17, 0x18, 0x19, 0x1A, 0x1B, 0x1C, 0x1D, 0x1E, 0x1F];
+        expect(await controller.rotateNetworkKey(key)).toStrictEqual(key);
+        expect(network.networkParameters.networkKey).toStrictEqual(key);
+        expect(network.networkParameters.networkKeySequenceNumber).toBe(1);
+        const backup = JSON.parse(fs.readFileSync(options.backupPath).toString());
+        expect(backup.network_key).toStrictEqual({key: Buffer.from(key).toString('hex'), sequence_number: 1, frame_counter: 0});
+        await controller.stop();
+
+        controller = new Controller({...options, network: {...networkOptions, networkKey: key}});
+        expect(await controller.start()).toBe('resumed');
+        expect(network.devices.map((d) => d.ieeeAddr)).toStrictEqual([bulb.ieeeAddr]);
+    });
+
+    it('Cannot rotate the network key when the network is not formed', async () => {
+        const adapter = await Adapter.create(networkOptions, {path: networkPath, adapter: 'virtual'}, null, null);
+        await expect(adapter.rotateNetworkKey(Buffer.alloc(16))).rejects.toThrow('network is not formed');
+    });
+
+    it('Changes the channel', async () => {
+        await start();
+        await controller.permitJoin(true);
+        await joinAndInterview(bulb.ieeeAddr);
+        await controller.changeChannel(25);
+        expect(network.networkParameters.channel).toBe(25);
+        expect(network.networkParameters.nwkUpdateId).toBe(1);
+        expect(await controller.getNetworkParameters()).toStrictEqual(
+            {panID: 0x1a62, extendedPanID: '0xdddddddddddddddd', channel: 25, networkUpdateID: 1}
+        );
+        const backup = JSON.parse(fs.readFileSync(options.backupPath).toString());
+        expect(backup.channel).toBe(25);
+        expect(backup.nwk_update_id).toBe(1);
+        await controller.stop();
+
+        controller = new Controller({...options, network: {...networkOptions, channelList: [25]}});
+        expect(await controller.start()).toBe('resumed');
+        expect(network.devices.map((d) => d.ieeeAddr)).toStrictEqual([bulb.ieeeAddr]);
+    });
+
+    it('Cannot change the channel when the network is not formed', async () => {
+        const adapter = await Adapter.create(networkOptions, {path: networkPath, adapter: 'virtual'}, null, null);
+        await expect(adapter.changeChannel(25)).rejects.toThrow('network is not formed');
+    });
+
+    it('Scans channels', async () => {
+        await start();
+        await controller.permitJoin(true);
+        const device = await joinAndInterview(bulb.ieeeAddr);
+        network.channelEnergy.set(20, 180);
+        expect(await controller.scanChannels([15, 20], 2)).toStrictEqual([{channel: 15, energy: 0}, {channel: 20, energy: 180}]);
+        expect(await device.scanChannels([20], 2)).toStrictEqual([{channel: 20, energy: 180}]);
+        network.sleep(bulb.ieeeAddr);
+        await expect(device.scanChannels([20], 2)).rejects.toThrow('is sleeping');
+    });
+
+    it('Does not support InterPAN', async () => {
+        const adapter = await Adapter.create(networkOptions, {path: networkPath, adapter: 'virtual'}, null, null);
+        await expect(adapter.setChannelInterPAN(11)).rejects.toThrow('not supported');
+        await expect(adapter.sendZclFrameInterPANToIeeeAddr(null, null)).rejects.toThrow('not supported');
+        await expect(adapter.sendZclFrameInterPANBroadcast(null, 10)).rejects.toThrow('not supported');
+        await expect(adapter.restoreChannelInterPAN()).rejects.toThrow('not supported');
+    });
+
+    it('Reports its capabilities', async () => {
+        const adapter = await Adapter.create(networkOptions, {path: networkPath, adapter: 'virtual'}, null, null);
+        const capabilities = await adapter.getCapabilities();
+        expect(capabilities.interPAN).toBe(false);
+        expect(capabilities.restore).toBe(false);
+        expect(capabilities.reset).toStrictEqual(['soft', 'hard']);
+    });
+
+    it('Cannot backup when the network is not formed', async () => {
+        const adapter = await Adapter.create(networkOptions, {path: networkPath, adapter: 'virtual'}, null, null);
+        await expect(adapter.backup([])).rejects.toThrow('network is not formed');
+        await adapter.start();
+        await adapter.reset('hard');
+        expect(network.networkParameters).toBeNull();
+        await adapter.stop();
+    });
+
+    it('Manages multiple networks side by side', async () => {
+        const otherPath = 'virtual://other';
+        const otherOptions = {
+            ...options, serialPort: {path: otherPath, adapter: 'virtual' as const},
+            databasePath: getTempFile('virtual_other_database.db'),
+            backupPath: getTempFile('virtual_other_coordinator_backup.json'),
+        };
+        removeFile(otherOptions.databasePath);
+        removeFile(otherOptions.backupPath);
+        VirtualNetwork.remove(otherPath);
+        const otherNetwork = VirtualNetwork.get(otherPath);
+        otherNetwork.addDevice(bulb);
+
+        await start();
+        const other = new Controller(otherOptions);
+        await other.start();
+        const otherInterview = new Promise<Device>((resolve) => other.on('deviceInterview', (event) => {
+            if (event.status === 'successful') resolve(event.device);
+        }));
+        await other.permitJoin(true);
+        otherNetwork.join(bulb.ieeeAddr);
+        const otherBulb = await otherInterview;
+        await controller.permitJoin(true);
+        const sensorDevice = await joinAndInterview(sensor.ieeeAddr);
+
+        expect(controller.getDevices().map((d) => d.ieeeAddr)).toStrictEqual(
+            [network.coordinatorIeeeAddr, sensor.ieeeAddr],
+        );
+        expect(other.getDevices().map((d) => d.ieeeAddr)).toStrictEqual(
+            [otherNetwork.coordinatorIeeeAddr, bulb.ieeeAddr],
+        );
+        expect(controller.getDeviceByIeeeAddr(bulb.ieeeAddr)).toBeUndefined();
+
+        const group = other.createGroup(5);
+        expect(controller.getGroupByID(5)).toBeUndefined();
+        expect(controller.createGroup(5)).not.toBe(group);
+
+        // Requests are sent through the adapter of the controller the device belongs to
+        await otherBulb.getEndpoint(1).command('genOnOff', 'on', {});
+        expect(otherNetwork.getDevice(bulb.ieeeAddr).getAttributes(1, 'genOnOff').onOff).toBe(1);
+        expect(await sensorDevice.getEndpoint(1).read('genBasic', ['modelId'])).toStrictEqual({modelId: 'motion.sensor'});
+
+        await other.permitJoin(false);
+        await controller.permitJoin(false);
+        await other.stop();
+        VirtualNetwork.remove(otherPath);
+        removeFile(otherOptions.databasePath);
+        removeFile(otherOptions.backupPath);
+    });
+});
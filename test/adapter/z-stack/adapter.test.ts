@@ -835,6 +835,17 @@ const baseZnpRequestMock = new ZnpRequestMockBuilder()
     .handle(Subsystem.UTIL, "assocAdd", () => ({payload: {}}))
     .handle(Subsystem.UTIL, "ledControl", () => ({}))
     .handle(Subsystem.APP_CNF, "bdbAddInstallCode", () => ({}))
+    .handle(Subsystem.ZDO, "extUpdateNwkKey", () => ({}))
+    .handle(Subsystem.ZDO, "extSwitchNwkKey", () => ({}))
+    .handle(Subsystem.ZDO, "mgmtNwkUpdateReq", (payload, handler) => {
+        if (channelChangeSucceeds) {
+            const item = handler.nvItems.find(e => e.id === NvItemsIds.NIB);
+            const nib = Structs.nib(item.value);
+            nib.nwkLogicalChannel = Math.log2(payload.channelmask);
+            item.value = nib.serialize("aligned");
+        }
+        return {};
+    })
     .handle(Subsystem.AF, "register", () => ({}))
     .handle(Subsystem.AF, "dataRequest", () => {
         if (dataRequestCode !== 0) {
@@ -1073,6 +1084,10 @@ const basicMocks = () => {
             }
         } else if (type === Type.AREQ && subsystem === Subsystem.ZDO && command === 'mgmtRtgRsp' && equals(payload, {srcaddr: 206})) {
             return waitForResult({payload: {status: 1}});
+        } else if (type === Type.AREQ && subsystem === Subsystem.ZDO && command === 'mgmtNwkUpdateNotify' && equals(payload, {srcaddr: 0})) {
+            return waitForResult({payload: {srcaddr: 0, status: 0, scannedchannels: 0x2108000, totaltrans: 0, transfails: 0, energylength: 3, energyvalues: [10, 200, 35]}});
+        } else if (type === Type.AREQ && subsystem === Subsystem.ZDO && command === 'mgmtNwkUpdateNotify' && equals(payload, {srcaddr: 207})) {
+            return waitForResult({payload: {status: 1}});
         } else if (type === Type.AREQ && subsystem === Subsystem.ZDO && command === 'bindRsp' && equals(payload, {srcaddr: 301})) {
             return waitForResult({});
         } else if (type === Type.AREQ && subsystem === Subsystem.ZDO && command === 'unbindRsp' && equals(payload, {srcaddr: 301})) {
@@ -1130,6 +1145,7 @@ let dataRequestCode = 0;
 let dataRequestExtCode = 0;
 let lastStartIndex = 0;
 let assocGetWithAddressNodeRelation;
+let channelChangeSucceeds = true;
 
 jest.mock('../../../src/adapter/z-stack/znp/znp', () => {
     return jest.fn().mockImplementation(() => {
@@ -1180,6 +1196,7 @@ describe("zstack-adapter", () => {
         dataRequestCode = 0;
         dataRequestExtCode = 0;
         assocGetWithAddressNodeRelation = 1;
+        channelChangeSucceeds = true;
         networkOptions.networkKeyDistribute = false;
         dataConfirmCodeReset = false;
         nodeDescRspErrorOnce = false;
@@ -1191,6 +1208,14 @@ describe("zstack-adapter", () => {
         expect(result).toBe("reset");
     });
 
+    it("should not commission network with 3.0.x adapter when reset is prevented", async () => {
+        mockZnpRequestWith(empty3AlignedRequestMock);
+        adapter = new ZStackAdapter(networkOptions, serialPortOptions, "backup.json", {disableLED: false, preventReset: true});
+        await expect(adapter.start()).rejects.toThrow(
+            "Adapter is not on the configured network and reset is prevented"
+        );
+    });
+
     it("should commission network with 3.0.x adapter - auto concurrency", async () => {
         mockZnpRequestWith(empty3AlignedRequestMock);
         adapter = new ZStackAdapter(networkOptions, serialPortOptions, "backup.json", {});
@@ -1409,6 +1434,86 @@ describe("zstack-adapter", () => {
         expect(missingDevice?.linkKey?.key.toString('hex')).toBe('bff550908aa1529ee90eea3c3bdc26fc');
     });
 
+    it("should dump, restore and diff nv with 3.0.x adapter", async () => {
+        mockZnpRequestWith(commissioned3AlignedRequestMock.clone()
+            .nv(NvItemsIds.PANID, Buffer.from([0x7b, 0x00, 0x00]))
+            .nv(NvItemsIds.USERDESC, Buffer.alloc(16, 0x20))
+            .handle(Subsystem.SYS, "osalNvReadExt", (payload, handler) => {
+                const item = handler.nvItems.find(e => e.id === payload.id);
+                return {payload: {status: payload.id === NvItemsIds.USERDESC ? 1 : 0, value: item?.value}};
+            }));
+        const result = await adapter.start();
+        expect(result).toBe("resumed");
+
+        const dump = JSON.parse(JSON.stringify(await adapter.dumpNv()));
+        expect(dump.metadata).toStrictEqual({format: "zigbee-herdsman/zstack-nv-dump", version: 1, date: expect.any(String), znpVersion: ZnpVersion.zStack30x, memoryAlignment: "aligned"});
+        const nib = dump.items.find(i => i.name === "NIB");
+        expect(nib.id).toBe(NvItemsIds.NIB);
+        expect(nib.decoded.nwkPanId).toBe(123);
+        expect(nib.decoded.extendedPANID).toBe("00124b0009d69f77");
+        expect(nib.decoded.spare1).toStrictEqual({keySeqNum: 0, key: "00000000000000000000000000000000"});
+        expect(dump.items.find(i => i.name === "ADDRMGR").decoded[0]).toStrictEqual({user: 1, nwkAddr: 14927, extAddr: "0000000000000008"});
+        expect(dump.items.find(i => i.name === "PANID")).toStrictEqual({name: "PANID", id: NvItemsIds.PANID, value: "7b0000"});
+        expect(dump.items.find(i => i.name === "USERDESC")).toBeUndefined();
+        expect(dump.items.find(i => i.name === "LEGACY_TCLK_TABLE_START[15]")).toStrictEqual({
+            name: "LEGACY_TCLK_TABLE_START[15]", id: NvItemsIds.LEGACY_TCLK_TABLE_START + 15, value: "0000000000000000000000000000000000000000",
+            decoded: {txFrmCntr: 0, rxFrmCntr: 0, extAddr: "0000000000000000", keyAttributes: 0, keyType: 0, SeedShift_IcIndex: 0},
+        });
+        expect(dump.items.filter(i => i.name.startsWith("APS_LINK_KEY_DATA_START")).length).toBe(16);
+        expect(dump.items.filter(i => i.sysId !== undefined)).toStrictEqual([]);
+
+        const modified = JSON.parse(JSON.stringify(dump));
+        modified.items.find(i => i.name === "NIB").value = nib.value.replace(/^fb/, "fc");
+        modified.items.find(i => i.name === "PRECFGKEYS_ENABLE").value = "0100";
+        modified.items.push({name: "START_DELAY", id: NvItemsIds.START_DELAY, value: "0A"});
+        await adapter.restoreNv(modified);
+
+        const restored = await adapter.dumpNv();
+        const diff = ZStackAdapter.diffNv(dump, restored);
+        expect(diff.added).toStrictEqual([{name: "START_DELAY", id: NvItemsIds.START_DELAY, value: "0a"}]);
+        expect(diff.removed).toStrictEqual([]);
+        expect(diff.changed.map(c => [c.before.name, c.after.value.substring(0, 4)])).toStrictEqual([["NIB", "fc05"], ["PRECFGKEYS_ENABLE", "0100"]]);
+        expect(ZStackAdapter.diffNv(restored, dump).removed.map(i => i.name)).toStrictEqual(["START_DELAY"]);
+        expect(ZStackAdapter.diffNv(modified, restored)).toStrictEqual({added: [], removed: [], changed: []});
+    });
+
+    it("should dump and restore nv with 3.x.0 adapter", async () => {
+        mockZnpRequestWith(commissioned3x0AlignedRequestMock);
+        const result = await adapter.start();
+        expect(result).toBe("resumed");
+
+        mockQueueExecute.mockClear();
+        const dump = await adapter.dumpNv();
+        expect(mockQueueExecute).toHaveBeenCalledTimes(1);
+        expect(dump.metadata.znpVersion).toBe(ZnpVersion.zStack3x0);
+        expect(dump.items.find(i => i.name === "ZCD_NV_EX_ADDRMGR[0]")).toStrictEqual({
+            name: "ZCD_NV_EX_ADDRMGR[0]", id: NvItemsIds.ZCD_NV_EX_ADDRMGR, sysId: NvSystemIds.ZSTACK, subId: 0, value: "01ff4f3a0800000000000000",
+            decoded: {user: 1, nwkAddr: 14927, extAddr: "0000000000000008"},
+        });
+        expect(dump.items.filter(i => i.name.startsWith("EX_TCLK_TABLE")).length).toBe(16);
+        expect(dump.items.filter(i => i.name.startsWith("LEGACY_TCLK_TABLE_START")).length).toBe(0);
+
+        const modified = JSON.parse(JSON.stringify(dump));
+        modified.items.find(i => i.name === "EX_TCLK_TABLE[3]").value = "0100000000000000000000000000000000000000";
+        await adapter.restoreNv(modified);
+        expect(mockQueueExecute).toHaveBeenCalledTimes(2);
+        const diff = ZStackAdapter.diffNv(dump, await adapter.dumpNv());
+        expect(diff.changed.map(c => [c.after.name, c.after.value])).toStrictEqual([["EX_TCLK_TABLE[3]", "0100000000000000000000000000000000000000"]]);
+    });
+
+    it("should fail to restore nv dump from other adapter", async () => {
+        mockZnpRequestWith(commissioned3AlignedRequestMock);
+        await adapter.start();
+        const dump = await adapter.dumpNv();
+
+        await expect(adapter.restoreNv({...dump, metadata: undefined})).rejects.toThrow("Unsupported NV dump format");
+        await expect(adapter.restoreNv({...dump, metadata: {...dump.metadata, version: 2 as 1}})).rejects.toThrow("Unsupported NV dump format");
+        await expect(adapter.restoreNv({...dump, metadata: {...dump.metadata, znpVersion: ZnpVersion.zStack3x0}}))
+            .rejects.toThrow("NV dump is from a different Z-Stack version (dump=zStack3x0, adapter=zStack30x)");
+        await expect(adapter.restoreNv({...dump, metadata: {...dump.metadata, memoryAlignment: "unaligned"}}))
+            .rejects.toThrow("NV dump has different memory alignment (dump=unaligned, adapter=aligned)");
+    });
+
     it("should fail when backup file is corrupted - Coordinator backup is corrupted", async () => {
         const backupFile = getTempFile();
         fs.writeFileSync(backupFile, "{", "utf8");
@@ -1502,6 +1607,19 @@ describe("zstack-adapter", () => {
         await expect(adapter.start()).rejects.toThrowError("your backup is from newer platform version (Z-Stack 3.0.x+) and cannot be restored onto Z-Stack 1.2 adapter - please remove backup before proceeding");
     });
 
+    it("should fail to restore unified backup with 3.0.x adapter - backup from ZiGate adapter", async () => {
+        const backupFile = getTempFile();
+        let backupData: UnifiedBackupStorage = JSON.parse(JSON.stringify(backupMatchingConfig));
+        delete backupData.stack_specific.zstack;
+        backupData.stack_specific.zigate = {frame_counter_unknown: true};
+        backupData.network_key.frame_counter = 0;
+        fs.writeFileSync(backupFile, JSON.stringify(backupData), "utf8");
+
+        mockZnpRequestWith(empty3AlignedRequestMock);
+        adapter = new ZStackAdapter(networkOptions, serialPortOptions, backupFile, {concurrent: 3});
+        await expect(adapter.start()).rejects.toThrowError("your backup is from a ZiGate adapter which doesn't expose its network frame counter and cannot be restored onto Z-Stack adapter - please remove backup before proceeding");
+    });
+
 
     it("should fail to create backup with 3.0.x adapter - unable to read ieee address", async () => {
         mockZnpRequestWith(commissioned3AlignedRequestMock.clone()
@@ -1772,6 +1890,43 @@ describe("zstack-adapter", () => {
         expect(mockZnpRequest).toHaveBeenCalledWith(Subsystem.APP_CNF, 'bdbAddInstallCode', payload);
     });
 
+    it("Rotate network key", async () => {
+        basicMocks();
+        await adapter.start();
+        const key = Buffer.from("101112131415161718191a1b1c1d1e1f", "hex");
+        mockZnpRequest.mockClear();
+        await adapter.rotateNetworkKey(key);
+        expect(mockZnpRequest).toHaveBeenCalledWith(Subsystem.ZDO, 'extUpdateNwkKey', {dstaddr: 0xFFFF, keyseqnum: 1, key});
+        expect(mockZnpRequest).toHaveBeenCalledWith(Subsystem.ZDO, 'extSwitchNwkKey', {dstaddr: 0xFFFF, keyseqnum: 1});
+        expect(mockZnpRequest).toHaveBeenCalledWith(Subsystem.SYS, 'osalNvWriteExt', expect.objectContaining({id: NvItemsIds.PRECFGKEY, value: key}));
+    });
+
+    it("Rotate network key is not supported on 1.2 adapter", async () => {
+        mockZnpRequestWith(commissioned12UnalignedRequestMock);
+        await adapter.start();
+        await expect(adapter.rotateNetworkKey(Buffer.alloc(16, 1))).rejects.toThrowError('Network key rotation is not supported for ZStack 1.2 adapter');
+    });
+
+    it("Change channel", async () => {
+        basicMocks();
+        await adapter.start();
+        mockZnpRequest.mockClear();
+        await adapter.changeChannel(25);
+        const payload = {dstaddr: 0xFFFD, dstaddrmode: 15, channelmask: 0x2000000, scanduration: 0xFE, scancount: 0, nwkmanageraddr: 0};
+        expect(mockZnpRequest).toHaveBeenCalledWith(Subsystem.ZDO, 'mgmtNwkUpdateReq', payload);
+        const nib = Structs.nib(mockZnpRequest.mock.calls.find((c) => c[1] === 'osalNvWriteExt' && c[2].id === NvItemsIds.NIB)[2].value);
+        expect(nib.nwkLogicalChannel).toBe(25);
+        expect(nib.channelList).toBe(0x2000000);
+        expect(mockZnpRequest).toHaveBeenCalledWith(Subsystem.SYS, 'osalNvWriteExt', expect.objectContaining({id: NvItemsIds.CHANLIST, value: Buffer.from([0x00, 0x00, 0x00, 0x02])}));
+    });
+
+    it("Change channel fails when adapter doesn't move", async () => {
+        basicMocks();
+        await adapter.start();
+        channelChangeSucceeds = false;
+        await expect(adapter.changeChannel(25)).rejects.toThrowError(`Channel change failed, adapter is still on channel '21'`);
+    });
+
     it("LED behaviour: disable LED true, firmware not handling leds", async () => {
         basicMocks();
         adapter = new ZStackAdapter(networkOptions, serialPortOptions, "backup.json", {disableLED: true});
@@ -1843,8 +1998,27 @@ describe("zstack-adapter", () => {
         expect(Znp.autoDetectPath).toHaveBeenCalledTimes(1);
     });
 
+    it('Probe', async () => {
+        mockZnpRequest.mockImplementation(async (subsystem, command) =>
+            command === 'version' ? {payload: {product: ZnpVersion.zStack3x0, revision: 20210430}} : {payload: {}});
+        expect(await ZStackAdapter.probe('/dev/ttyACM0')).toBe('zStack3x0 20210430');
+        expect(Znp).toHaveBeenLastCalledWith('/dev/ttyACM0', 115200, false);
+        expect(mockZnpOpen).toHaveBeenCalledTimes(1);
+        expect(mockZnpRequest).toHaveBeenCalledWith(Subsystem.SYS, 'ping', {capabilities: 1}, null, 1000);
+
+        mockZnpRequest.mockImplementation(async (subsystem, command) => {
+            if (command === 'version') throw new Error('timeout');
+            return {payload: {}};
+        });
+        expect(await ZStackAdapter.probe('/dev/ttyACM0')).toBe('zStack12');
+
+        mockZnpRequest.mockRejectedValue(new Error('timeout'));
+        await expect(ZStackAdapter.probe('/dev/ttyACM0')).rejects.toThrow('timeout');
+        expect(mockZnpClose).toHaveBeenCalledTimes(3);
+    });
+
     it('Call znp constructor', async () => {
-       expect(Znp).toBeCalledWith("dummy", 800, false);
+       expect(Znp).toBeCalledWith("dummy", 800, false, undefined);
     });
 
     it('Close adapter', async () => {
@@ -2556,6 +2730,23 @@ describe("zstack-adapter", () => {
         expect(await adapter.supportsBackup()).toBeTruthy();
     });
 
+    it('Get capabilities', async () => {
+        basicMocks();
+        await adapter.start();
+        expect(await adapter.getCapabilities()).toStrictEqual({
+            backup: true, restore: true, installCodes: true, interPAN: true, routingTable: true, reset: ['soft', 'hard'],
+            transmitPower: true, channelChange: true, networkKeyRotation: true, energyScan: true, sourceRouting: true,
+        });
+    });
+
+    it('Get capabilities 1.2 adapter', async () => {
+        mockZnpRequestWith(commissioned12UnalignedRequestMock);
+        await adapter.start();
+        const capabilities = await adapter.getCapabilities();
+        expect(capabilities.installCodes).toBe(false);
+        expect(capabilities.networkKeyRotation).toBe(false);
+    });
+
     it('LQI', async () => {
         basicMocks();
         await adapter.start();
@@ -2610,6 +2801,29 @@ describe("zstack-adapter", () => {
         expect(mockZnpRequest).toBeCalledWith(Subsystem.ZDO, 'mgmtRtgReq', {dstaddr: 206, startindex: 0}, 1)
     });
 
+    it('Scan channels', async () => {
+        basicMocks();
+        await adapter.start();
+        mockZnpRequest.mockClear();
+
+        const result = await adapter.scanChannels(0, [15, 20, 25], 3);
+        expect(mockQueueExecute.mock.calls[0][1]).toBe(0);
+        expect(mockZnpRequest).toBeCalledTimes(1);
+        expect(mockZnpRequest).toBeCalledWith(Subsystem.ZDO, 'mgmtNwkUpdateReq', {dstaddr: 0, dstaddrmode: 2, channelmask: 0x2108000, scanduration: 3, scancount: 1, nwkmanageraddr: 0}, 1);
+        expect(result).toStrictEqual([{channel: 15, energy: 10}, {channel: 20, energy: 200}, {channel: 25, energy: 35}]);
+    });
+
+    it('Scan channels fails', async () => {
+        basicMocks();
+        await adapter.start();
+        mockZnpRequest.mockClear();
+
+        let error;
+        try {await adapter.scanChannels(207, [15], 2)} catch (e) {error = e};
+        expect(error).toStrictEqual(new Error("Energy scan for '207' failed with error: 'FAILURE' (1)"));
+        expect(mockQueueExecute.mock.calls[0][1]).toBe(207);
+    });
+
     it('Bind endpoint', async () => {
         basicMocks();
         await adapter.start();
@@ -2790,9 +3004,10 @@ describe("zstack-adapter", () => {
         await adapter.start();
         mockZnpRequest.mockClear();
         const result = await adapter.getNetworkParameters();
-        expect(mockZnpRequest).toBeCalledTimes(1);
+        expect(mockZnpRequest).toBeCalledTimes(3);
         expect(mockZnpRequest).toBeCalledWith(Subsystem.ZDO, 'extNwkInfo', {});
-        expect(result).toStrictEqual({channel: 21, extendedPanID: "0x00124b0009d69f77", panID: 123});
+        expect(mockZnpRequest).toBeCalledWith(Subsystem.SYS, 'osalNvReadExt', {id: NvItemsIds.NIB, offset: 0});
+        expect(result).toStrictEqual({channel: 21, extendedPanID: "0x00124b0009d69f77", panID: 123, networkUpdateID: 0});
     });
 
     it('Set interpan channel', async () => {
@@ -2840,7 +3055,7 @@ describe("zstack-adapter", () => {
 
         expect(mockZnpRequest).toBeCalledTimes(1);
         expect(mockZnpRequest).toBeCalledWith(4, "dataRequestExt", {"clusterid": 4096, "data": touchlinkScanRequest.toBuffer(), "destendpoint": 254, "dstaddr": "0x000000000000ffff", "len": 9, "options": 0, "radius": 30, "srcendpoint": 12, "transid": 1, "dstaddrmode": 2, "dstpanid": 65535}, null);
-        expect(deepClone(result)).toStrictEqual({"wasBroadcast":false,"frame":{"Header":{"frameControl":{"frameType":1,"manufacturerSpecific":false,"direction":1,"disableDefaultResponse":false,"reservedBits":0},"transactionSequenceNumber":12,"manufacturerCode":null,"commandIdentifier":1},"Payload":{"transactionID":1,"rssiCorrection":10,"zigbeeInformation":5,"touchlinkInformation":6,"keyBitmask":12,"responseID":11,"extendedPanID":"0x0017210104d9cd33","networkUpdateID":1,"logicalChannel":12,"panID":13,"networkAddress":5,"numberOfSubDevices":10,"totalGroupIdentifiers":5},"Cluster":{"ID":4096,"attributes":{},"name":"touchlink","commands":{"scanRequest":{"ID":0,"response":1,"parameters":[{"name":"transactionID","type":35},{"name":"zigbeeInformation","type":24},{"name":"touchlinkInformation","type":24}],"name":"scanRequest"},"identifyRequest":{"ID":6,"parameters":[{"name":"transactionID","type":35},{"name":"duration","type":33}],"name":"identifyRequest"},"resetToFactoryNew":{"ID":7,"parameters":[{"name":"transactionID","type":35}],"name":"resetToFactoryNew"}},"commandsResponse":{"scanResponse":{"ID":1,"parameters":[{"name":"transactionID","type":35},{"name":"rssiCorrection","type":32},{"name":"zigbeeInformation","type":32},{"name":"touchlinkInformation","type":32},{"name":"keyBitmask","type":33},{"name":"responseID","type":35},{"name":"extendedPanID","type":240},{"name":"networkUpdateID","type":32},{"name":"logicalChannel","type":32},{"name":"panID","type":33},{"name":"networkAddress","type":33},{"name":"numberOfSubDevices","type":32},{"name":"totalGroupIdentifiers","type":32}],"name":"scanResponse"}}},"Command":{"ID":1,"parameters":[{"name":"transactionID","type":35},{"name":"rssiCorrection","type":32},{"name":"zigbeeInformation","type":32},{"name":"touchlinkInformation","type":32},{"name":"keyBitmask","type":33},{"name":"responseID","type":35},{"name":"extendedPanID","type":240},{"name":"networkUpdateID","type":32},{"name":"logicalChannel","type":32},{"name":"panID","type":33},{"name":"networkAddress","type":33},{"name":"numberOfSubDevices","type":32},{"name":"totalGroupIdentifiers","type":32}],"name":"scanResponse"}},"address":12394,"endpoint":254,"linkquality":101,"groupID":0});
+        expect(deepClone(result)).toStrictEqual({"wasBroadcast":false,"frame":{"Header":{"frameControl":{"frameType":1,"manufacturerSpecific":false,"direction":1,"disableDefaultResponse":false,"reservedBits":0},"transactionSequenceNumber":12,"manufacturerCode":null,"commandIdentifier":1},"Payload":{"transactionID":1,"rssiCorrection":10,"zigbeeInformation":5,"touchlinkInformation":6,"keyBitmask":12,"responseID":11,"extendedPanID":"0x0017210104d9cd33","networkUpdateID":1,"logicalChannel":12,"panID":13,"networkAddress":5,"numberOfSubDevices":10,"totalGroupIdentifiers":5},"Cluster":{"ID":4096,"attributes":{},"name":"touchlink","commands":{"scanRequest":{"ID":0,"response":1,"parameters":[{"name":"transactionID","type":35},{"name":"zigbeeInformation","type":24},{"name":"touchlinkInformation","type":24}],"name":"scanRequest"},"deviceInformationRequest":{"ID":2,"response":3,"parameters":[{"name":"transactionID","type":35},{"name":"startIndex","type":32}],"name":"deviceInformationRequest"},"identifyRequest":{"ID":6,"parameters":[{"name":"transactionID","type":35},{"name":"duration","type":33}],"name":"identifyRequest"},"resetToFactoryNew":{"ID":7,"parameters":[{"name":"transactionID","type":35}],"name":"resetToFactoryNew"},"networkJoinRouterRequest":{"ID":18,"response":19,"parameters":[{"name":"transactionID","type":35},{"name":"extendedPanID","type":240},{"name":"keyIndex","type":32},{"name":"encryptedNetworkKey","type":241},{"name":"networkUpdateID","type":32},{"name":"logicalChannel","type":32},{"name":"panID","type":33},{"name":"networkAddress","type":33},{"name":"groupIdentifiersBegin","type":33},{"name":"groupIdentifiersEnd","type":33},{"name":"freeNetworkAddressRangeBegin","type":33},{"name":"freeNetworkAddressRangeEnd","type":33},{"name":"freeGroupIdentifierRangeBegin","type":33},{"name":"freeGroupIdentifierRangeEnd","type":33}],"name":"networkJoinRouterRequest"},"networkJoinEndDeviceRequest":{"ID":20,"response":21,"parameters":[{"name":"transactionID","type":35},{"name":"extendedPanID","type":240},{"name":"keyIndex","type":32},{"name":"encryptedNetworkKey","type":241},{"name":"networkUpdateID","type":32},{"name":"logicalChannel","type":32},{"name":"panID","type":33},{"name":"networkAddress","type":33},{"name":"groupIdentifiersBegin","type":33},{"name":"groupIdentifiersEnd","type":33},{"name":"freeNetworkAddressRangeBegin","type":33},{"name":"freeNetworkAddressRangeEnd","type":33},{"name":"freeGroupIdentifierRangeBegin","type":33},{"name":"freeGroupIdentifierRangeEnd","type":33}],"name":"networkJoinEndDeviceRequest"}},"commandsResponse":{"scanResponse":{"ID":1,"parameters":[{"name":"transactionID","type":35},{"name":"rssiCorrection","type":32},{"name":"zigbeeInformation","type":32},{"name":"touchlinkInformation","type":32},{"name":"keyBitmask","type":33},{"name":"responseID","type":35},{"name":"extendedPanID","type":240},{"name":"networkUpdateID","type":32},{"name":"logicalChannel","type":32},{"name":"panID","type":33},{"name":"networkAddress","type":33},{"name":"numberOfSubDevices","type":32},{"name":"totalGroupIdentifiers","type":32},{"name":"endpointID","type":32,"conditions":[{"type":"minimumRemainingBufferBytes","value":7}]},{"name":"profileID","type":33,"conditions":[{"type":"minimumRemainingBufferBytes","value":6}]},{"name":"deviceID","type":33,"conditions":[{"type":"minimumRemainingBufferBytes","value":4}]},{"name":"version","type":32,"conditions":[{"type":"minimumRemainingBufferBytes","value":2}]},{"name":"groupIdentifierCount","type":32,"conditions":[{"type":"minimumRemainingBufferBytes","value":1}]}],"name":"scanResponse"},"deviceInformationResponse":{"ID":3,"parameters":[{"name":"transactionID","type":35},{"name":"numberOfSubDevices","type":32},{"name":"startIndex","type":32},{"name":"deviceInfoRecordCount","type":32},{"name":"deviceInfoRecords","type":1014}],"name":"deviceInformationResponse"},"networkJoinRouterResponse":{"ID":19,"parameters":[{"name":"transactionID","type":35},{"name":"status","type":32}],"name":"networkJoinRouterResponse"},"networkJoinEndDeviceResponse":{"ID":21,"parameters":[{"name":"transactionID","type":35},{"name":"status","type":32}],"name":"networkJoinEndDeviceResponse"}}},"Command":{"ID":1,"parameters":[{"name":"transactionID","type":35},{"name":"rssiCorrection","type":32},{"name":"zigbeeInformation","type":32},{"name":"touchlinkInformation","type":32},{"name":"keyBitmask","type":33},{"name":"responseID","type":35},{"name":"extendedPanID","type":240},{"name":"networkUpdateID","type":32},{"name":"logicalChannel","type":32},{"name":"panID","type":33},{"name":"networkAddress","type":33},{"name":"numberOfSubDevices","type":32},{"name":"totalGroupIdentifiers","type":32},{"name":"endpointID","type":32,"conditions":[{"type":"minimumRemainingBufferBytes","value":7}]},{"name":"profileID","type":33,"conditions":[{"type":"minimumRemainingBufferBytes","value":6}]},{"name":"deviceID","type":33,"conditions":[{"type":"minimumRemainingBufferBytes","value":4}]},{"name":"version","type":32,"conditions":[{"type":"minimumRemainingBufferBytes","value":2}]},{"name":"groupIdentifierCount","type":32,"conditions":[{"type":"minimumRemainingBufferBytes","value":1}]}],"name":"scanResponse"}},"address":12394,"endpoint":254,"linkquality":101,"groupID":0});
     });
 
     it('Send zcl frame interpan throw exception when command has no response', async () => {
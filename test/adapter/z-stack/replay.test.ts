@@ -0,0 +1,54 @@
+import "regenerator-runtime/runtime";
+import fs from 'fs';
+import path from 'path';
+import {ZStackAdapter} from '../../../src/adapter/z-stack/adapter';
+
+jest.mock('../../../src/utils/wait', () => {
+    return jest.fn();
+});
+
+// Recorded with the `record` serial port option while starting a commissioned Z-Stack 3.x.0 adapter on the
+// configured network, the adapter was emulated with the NV items of commissioned3x0AlignedRequestMock.
+const recordingPath = path.join(__dirname, 'recordings', 'start.jsonl');
+const backupPath = path.join(path.resolve('temp'), 'replay-backup.json');
+
+const networkOptions = {
+    panID: 123,
+    extendedPanID: [0x00, 0x12, 0x4b, 0x00, 0x09, 0xd6, 0x9f, 0x77],
+    channelList: [21],
+    networkKey: [1, 3, 5, 7, 9, 11, 13, 15, 0, 2, 4, 6, 8, 10, 12, 13],
+    networkKeyDistribute: false,
+};
+
+describe('Z-Stack adapter replay', () => {
+    beforeAll(() => {
+        fs.mkdirSync(path.dirname(backupPath), {recursive: true});
+        if (fs.existsSync(backupPath)) {
+            fs.unlinkSync(backupPath);
+        }
+    });
+
+    it('Starts from a recorded session', async () => {
+        const adapter = new ZStackAdapter(
+            networkOptions, {path: `replay://${recordingPath}`}, backupPath, {disableLED: false},
+        );
+
+        expect(await adapter.start()).toBe('resumed');
+        expect(await adapter.getNetworkParameters()).toStrictEqual({
+            panID: 123, extendedPanID: '0x00124b0009d69f77', channel: 21, networkUpdateID: 0,
+        });
+        await adapter.stop();
+    });
+
+    it('Does not reset the recorded adapter for another network when reset is prevented', async () => {
+        const adapter = new ZStackAdapter(
+            {...networkOptions, panID: 124}, {path: `replay://${recordingPath}`}, backupPath,
+            {disableLED: false, preventReset: true},
+        );
+
+        await expect(adapter.start()).rejects.toThrow(new Error(
+            'Adapter is not on the configured network and reset is prevented',
+        ));
+        await adapter.stop();
+    });
+});
@@ -0,0 +1,65 @@
+import "regenerator-runtime/runtime";
+import {ZiGateAdapter} from '../../../src/adapter/zigate/adapter';
+import ZiGateObject from '../../../src/adapter/zigate/driver/ziGateObject';
+import {ZiGateCommandCode, ZiGateMessageCode} from '../../../src/adapter/zigate/driver/constants';
+import {InstallCodeUtils} from '../../../src/utils';
+
+const mockSendCommand = jest.fn();
+jest.mock('../../../src/adapter/zigate/driver/zigate', () => ({
+    __esModule: true,
+    default: jest.fn().mockImplementation(() => ({sendCommand: mockSendCommand, on: jest.fn()})),
+}));
+
+const networkOptions = {
+    panID: 0x1a62, extendedPanID: [0xDD, 0xDD, 0xDD, 0xDD, 0xDD, 0xDD, 0xDD, 0xDD], channelList: [11],
+    networkKey: [0x01, 0x03, 0x05, 0x07, 0x09, 0x0B, 0x0D, 0x0F, 0x00, 0x02, 0x04, 0x06, 0x08, 0x0A, 0x0C, 0x0D],
+    networkKeyDistribute: false,
+};
+const installCode = Buffer.from('83fed3407a939723a5c639b26916d505c3b5', 'hex');
+
+const authenticateResponse = Buffer.from(
+    '00158d0001e1a2b3' + // IEEE address of the gateway
+    '0f0e0d0c0b0a09080706050403020100' + // encrypted network key
+    'a1b2c3d4' + // MIC
+    '00124b001cdd1234' + // IEEE address of the initiating node
+    '00' + // active key sequence number
+    '0b' + // channel
+    '1a62' + // PAN ID
+    'dddddddddddddddd', // extended PAN ID
+    'hex',
+);
+
+describe('ZiGate adapter', () => {
+    let adapter: ZiGateAdapter;
+
+    beforeEach(() => {
+        adapter = new ZiGateAdapter(networkOptions, {path: '/dev/ttyUSB0'}, 'backup.json', {disableLED: false});
+        mockSendCommand.mockReset();
+    });
+
+    it('Parses authenticate response', () => {
+        const object = ZiGateObject.fromBufer(ZiGateMessageCode.AuthenticateResponse, authenticateResponse);
+        expect(object.payload.encryptedKey).toStrictEqual(Buffer.from('0f0e0d0c0b0a09080706050403020100', 'hex'));
+        expect(object.payload.mic).toBe(0xa1b2c3d4);
+        expect(object.payload.activeKeySequenceNumber).toBe(0);
+        expect(object.payload.channel).toBe(11);
+        expect(object.payload.panID).toBe(0x1a62);
+    });
+
+    it('Add install code waits for authenticate response', async () => {
+        mockSendCommand.mockResolvedValueOnce(
+            ZiGateObject.fromBufer(ZiGateMessageCode.AuthenticateResponse, authenticateResponse),
+        );
+        await adapter.addInstallCode('0x00124b001cdd1234', installCode);
+        expect(mockSendCommand).toHaveBeenCalledTimes(1);
+        expect(mockSendCommand).toHaveBeenCalledWith(ZiGateCommandCode.AuthenticateDevice, {
+            extendedAddress: '0x00124b001cdd1234', key: InstallCodeUtils.toLinkKey(installCode),
+        });
+    });
+
+    it('Add install code fails when firmware rejects it', async () => {
+        mockSendCommand.mockRejectedValueOnce({code: ZiGateMessageCode.Status, payload: {status: 1}});
+        await expect(adapter.addInstallCode('0x00124b001cdd1234', installCode))
+            .rejects.toThrow(new Error(`Add install code for '0x00124b001cdd1234' failed`));
+    });
+});
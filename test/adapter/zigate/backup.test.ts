@@ -0,0 +1,94 @@
+import "regenerator-runtime/runtime";
+import {ZiGateAdapterBackup} from '../../../src/adapter/zigate/adapter/backup';
+import {ZiGateCommandCode, ZPSNwkKeyState} from '../../../src/adapter/zigate/driver/constants';
+import {BackupUtils} from '../../../src/utils';
+import * as Models from '../../../src/models';
+
+const networkKey = [0x01, 0x03, 0x05, 0x07, 0x09, 0x0B, 0x0D, 0x0F, 0x00, 0x02, 0x04, 0x06, 0x08, 0x0A, 0x0C, 0x0D];
+const networkOptions = {
+    panID: 0x1a62, extendedPanID: [0xDD, 0xDD, 0xDD, 0xDD, 0xDD, 0xDD, 0xDD, 0xDD], channelList: [11], networkKey,
+    networkKeyDistribute: false,
+};
+const logger = {error: jest.fn(), warn: jest.fn(), info: jest.fn(), debug: jest.fn()};
+
+const networkState = {
+    shortAddress: 0, extendedAddress: '0x00158d0001e1a2b3', PANID: 0x1a62, ExtPANID: '0x0807060504030201', Channel: 11,
+};
+const devicesList = Buffer.from([
+    0x00, 0x12, 0x34, 0x00, 0x15, 0x8d, 0x00, 0x01, 0xd8, 0x29, 0x99, 0x01, 0xFF,
+    0x01, 0x56, 0x78, 0x00, 0x15, 0x8d, 0x00, 0x01, 0xd8, 0x29, 0x98, 0x00, 0xC0,
+]);
+
+const mockSendCommand = jest.fn().mockImplementation(async (code) => {
+    if (code === ZiGateCommandCode.GetNetworkState) {
+        return {payload: networkState};
+    } else if (code === ZiGateCommandCode.GetDevicesList) {
+        return {payload: {devices: devicesList}};
+    }
+    return {payload: {}};
+});
+const driver = {sendCommand: mockSendCommand};
+
+describe('ZiGate backup', () => {
+    let backupMan: ZiGateAdapterBackup;
+
+    beforeEach(() => {
+        backupMan = new ZiGateAdapterBackup(driver as any, 'backup.json', networkOptions, logger);
+        mockSendCommand.mockClear();
+        logger.warn.mockClear();
+    });
+
+    it('Creates backup marked with unknown frame counter', async () => {
+        const backup = await backupMan.createBackup(['0x00158d0001d82999']);
+        expect(backup.networkOptions.panId).toBe(0x1a62);
+        expect(backup.networkOptions.extendedPanId).toStrictEqual(Buffer.from('0102030405060708', 'hex'));
+        expect(backup.networkOptions.networkKey).toStrictEqual(Buffer.from(networkKey));
+        expect(backup.networkKeyInfo.frameCounter).toBe(0);
+        expect(backup.coordinatorIeeeAddress).toStrictEqual(Buffer.from('00158d0001e1a2b3', 'hex'));
+        expect(backup.devices).toStrictEqual([{
+            networkAddress: 0x1234, ieeeAddress: Buffer.from('00158d0001d82999', 'hex'), isDirectChild: false,
+        }]);
+        expect(backup.zigate).toStrictEqual({frameCounterUnknown: true});
+
+        const unified = await BackupUtils.toUnifiedBackup(backup);
+        expect(unified.stack_specific.zigate).toStrictEqual({frame_counter_unknown: true});
+        expect(BackupUtils.fromUnifiedBackup(unified).zigate).toStrictEqual({frameCounterUnknown: true});
+    });
+
+    it('Restores backup of ZiGate', async () => {
+        const backup = await backupMan.createBackup([]);
+        mockSendCommand.mockClear();
+        await backupMan.restoreBackup(backup);
+        expect(mockSendCommand.mock.calls).toStrictEqual([
+            [ZiGateCommandCode.SetChannelMask, {channelMask: 2 ** 11}],
+            [ZiGateCommandCode.SetSecurityStateKey, {
+                keyType: ZPSNwkKeyState.ZPS_ZDO_PRECONFIGURED_LINK_KEY, key: Buffer.from(networkKey),
+            }],
+            [ZiGateCommandCode.SetExtendedPANID, {panId: Buffer.from('0807060504030201', 'hex')}],
+        ]);
+    });
+
+    it('Refuses to restore backup of other stack since the frame counter cannot be restored', async () => {
+        const backup: Models.Backup = {
+            ...await backupMan.createBackup([]),
+            networkKeyInfo: {sequenceNumber: 0, frameCounter: 16754},
+            zigate: undefined,
+        };
+        mockSendCommand.mockClear();
+        await expect(backupMan.restoreBackup(backup)).rejects.toThrow(new Error('Cannot restore backup of other ' +
+            `stack on ZiGate adapter (network frame counter 16754 cannot be restored), remove the backup at ` +
+            `'backup.json' to form a new network`));
+        expect(mockSendCommand).toHaveBeenCalledTimes(0);
+    });
+
+    it('Warns when restored network was started with other PAN ID', async () => {
+        const backup = await backupMan.createBackup([]);
+        await backupMan.checkRestoredNetwork(backup);
+        expect(logger.warn).toHaveBeenCalledTimes(0);
+
+        backup.networkOptions.panId = 0x1234;
+        await backupMan.checkRestoredNetwork(backup);
+        expect(logger.warn).toHaveBeenCalledWith('ZiGate started the restored network with PAN ID 6754 instead of ' +
+            '4660, devices that don\'t rejoin need to be re-paired');
+    });
+});
@@ -7,6 +7,7 @@ import equals from 'fast-deep-equal/es6';
 import fs from 'fs';
 import { ZclFrame } from "../src/zcl";
 import { Device, Group} from "../src/controller/model";
+import * as Events from '../src/controller/events';
 import * as Zcl from '../src/zcl';
 import zclTransactionSequenceNumber from '../src/controller/helpers/zclTransactionSequenceNumber';
 import Request from '../src/controller/helpers/request';
@@ -18,6 +19,8 @@ import * as Utils from "../src/utils";
 import { isTypedArray } from "util/types";
 import Bonjour, {BrowserConfig, Service} from 'bonjour-service';
 import {LoggerStub} from "../src/controller/logger-stub";
+import {SerialPort} from '../src/adapter/serialPort';
+import {PortInfo} from '@serialport/bindings-interface';
 const globalSetImmediate = setImmediate;
 const flushPromises = () => new Promise(globalSetImmediate);
 
@@ -43,6 +46,10 @@ const mockRestoreChannelInterPAN = jest.fn();
 const mockAdapterPermitJoin = jest.fn();
 const mockDiscoverRoute = jest.fn();
 const mockAdapterSupportsBackup = jest.fn().mockReturnValue(true);
+const mockCapabilities = {
+    backup: true, restore: true, installCodes: true, interPAN: true, routingTable: true, reset: ['soft', 'hard'],
+    transmitPower: true, channelChange: true, networkKeyRotation: true, energyScan: true, sourceRouting: true,
+};
 const mockAdapterReset = jest.fn();
 const mockAdapterStop = jest.fn();
 const mockAdapterStart = jest.fn().mockReturnValue('resumed');
@@ -62,6 +69,9 @@ const mockAdapterBind = jest.fn();
 const mocksendZclFrameToGroup = jest.fn();
 const mocksendZclFrameToAll = jest.fn();
 const mockAddInstallCode = jest.fn();
+const mockAdapterRotateNetworkKey = jest.fn();
+const mockAdapterChangeChannel = jest.fn();
+const mockAdapterScanChannels = jest.fn().mockImplementation((networkAddress, channels) => channels.map((channel) => ({channel, energy: networkAddress + channel})));
 const mockAdapterUnbind = jest.fn();
 const mockAdapterRemoveDevice = jest.fn();
 const mocksendZclFrameToEndpoint = jest.fn();
@@ -141,9 +151,27 @@ const restoreMocksendZclFrameToEndpoint = () => {
     })
 }
 
-const mocksClear = [mocksendZclFrameToEndpoint, mockAdapterReset, mocksendZclFrameToGroup, mockSetChannelInterPAN, mocksendZclFrameInterPANToIeeeAddr, mocksendZclFrameInterPANBroadcast, mockRestoreChannelInterPAN, mockAddInstallCode];
+const mocksClear = [mocksendZclFrameToEndpoint, mockAdapterReset, mocksendZclFrameToGroup, mockSetChannelInterPAN, mocksendZclFrameInterPANToIeeeAddr, mocksendZclFrameInterPANBroadcast, mockRestoreChannelInterPAN, mockAddInstallCode, mockAdapterRotateNetworkKey, mockAdapterChangeChannel, mockAdapterScanChannels, mockAdapterGetNetworkParameters];
 const deepClone = (obj) => JSON.parse(JSON.stringify(obj));
 
+const touchlinkPayload = (address, command, payload) => {
+    return {
+        address, endpoint: 0xFE, linkquality: 100, groupID: null, wasBroadcast: false, destinationEndpoint: 0xFE,
+        frame: Zcl.ZclFrame.create(
+            Zcl.FrameType.SPECIFIC, Zcl.Direction.SERVER_TO_CLIENT, true, null, 0, command,
+            Zcl.Utils.getCluster('touchlink').ID, payload,
+        ),
+    };
+};
+
+const touchlinkScanResponse = (address, transactionID, numberOfSubDevices, extra = {}) => {
+    return touchlinkPayload(address, 'scanResponse', {
+        transactionID, rssiCorrection: 2, zigbeeInformation: 5, touchlinkInformation: 0x11, keyBitmask: 0x10,
+        responseID: 1, extendedPanID: '0x0001020304050607', networkUpdateID: 0, logicalChannel: 15,
+        panID: 0x1a62, networkAddress: 0xfffe, numberOfSubDevices, totalGroupIdentifiers: 0, ...extra,
+    });
+};
+
 const equalsPartial = (object, expected) => {
     for (const [key, value] of Object.entries(expected)) {
         if (!equals(object[key], value)) {
@@ -335,6 +363,7 @@ jest.mock('../src/adapter/z-stack/adapter/zStackAdapter', () => {
             supportsBackup: mockAdapterSupportsBackup,
             backup: () => {return mockDummyBackup; },
             getCoordinatorVersion: () => {return {type: 'zStack', meta: {version: 1}}},
+            getCapabilities: () => {return {...mockCapabilities}},
             getNetworkParameters: mockAdapterGetNetworkParameters,
             waitFor: mockAdapterWaitFor,
             setTransmitPower: mockAdapterSetTransmitPower,
@@ -381,6 +410,9 @@ jest.mock('../src/adapter/z-stack/adapter/zStackAdapter', () => {
             sendZclFrameToGroup: mocksendZclFrameToGroup,
             sendZclFrameToAll: mocksendZclFrameToAll,
             addInstallCode: mockAddInstallCode,
+            rotateNetworkKey: mockAdapterRotateNetworkKey,
+            changeChannel: mockAdapterChangeChannel,
+            scanChannels: mockAdapterScanChannels,
             permitJoin: mockAdapterPermitJoin,
             supportsDiscoverRoute: mockAdapterSupportsDiscoverRoute,
             discoverRoute: mockDiscoverRoute,
@@ -440,22 +472,29 @@ const mockZStackAdapterIsValidPath = jest.fn().mockReturnValue(true);
 const mockZStackAdapterAutoDetectPath = jest.fn().mockReturnValue("/dev/autodetected");
 ZStackAdapter.isValidPath = mockZStackAdapterIsValidPath;
 ZStackAdapter.autoDetectPath = mockZStackAdapterAutoDetectPath;
+const mockZStackAdapterProbe = jest.fn();
+ZStackAdapter.probe = mockZStackAdapterProbe;
 
 const mockDeconzAdapterIsValidPath = jest.fn().mockReturnValue(true);
 const mockDeconzAdapterAutoDetectPath = jest.fn().mockReturnValue("/dev/autodetected");
 DeconzAdapter.isValidPath = mockDeconzAdapterIsValidPath;
 DeconzAdapter.autoDetectPath = mockDeconzAdapterAutoDetectPath;
+const mockDeconzAdapterProbe = jest.fn();
+DeconzAdapter.probe = mockDeconzAdapterProbe;
 
 const mockZiGateAdapterIsValidPath = jest.fn().mockReturnValue(true);
 const mockZiGateAdapterAutoDetectPath = jest.fn().mockReturnValue("/dev/autodetected");
 ZiGateAdapter.isValidPath = mockZiGateAdapterIsValidPath;
 ZiGateAdapter.autoDetectPath = mockZiGateAdapterAutoDetectPath;
+const mockZiGateAdapterProbe = jest.fn();
+ZiGateAdapter.probe = mockZiGateAdapterProbe;
 
 const mocksRestore = [
     mockAdapterStart, mockAdapterPermitJoin, mockAdapterStop, mockAdapterRemoveDevice, mocksendZclFrameToAll,
     mockZStackAdapterIsValidPath, mockZStackAdapterAutoDetectPath,
     mockDeconzAdapterIsValidPath, mockDeconzAdapterAutoDetectPath,
     mockZiGateAdapterIsValidPath, mockZiGateAdapterAutoDetectPath,
+    mockZStackAdapterProbe, mockDeconzAdapterProbe, mockZiGateAdapterProbe,
 ];
 
 const events = {
@@ -513,8 +552,6 @@ describe('Controller', () => {
         enroll170 = true;
         options.network.channelList = [15];
         Object.keys(events).forEach((key) => events[key] = []);
-        Device['devices'] = null;
-        Group['groups'] = null;
         if (fs.existsSync(options.databasePath)) {
             fs.unlinkSync(options.databasePath);
         }
@@ -669,36 +706,83 @@ describe('Controller', () => {
         expect(mockSetChannelInterPAN).toHaveBeenCalledWith(11);
         expect(mockSetChannelInterPAN).toHaveBeenCalledWith(15);
         expect(mocksendZclFrameInterPANBroadcast).toHaveBeenCalledTimes(2);
-        expect(deepClone(mocksendZclFrameInterPANBroadcast.mock.calls[0][0])).toStrictEqual({"Header":{"frameControl":{"reservedBits":0,"frameType":1,"direction":0,"disableDefaultResponse":true,"manufacturerSpecific":false},"transactionSequenceNumber":0,"manufacturerCode":null,"commandIdentifier":0},"Payload":{"transactionID":expect.any(Number),"zigbeeInformation":4,"touchlinkInformation":18},"Cluster":{"ID":4096,"attributes":{},"name":"touchlink","commands":{"scanRequest":{"ID":0,"response":1,"parameters":[{"name":"transactionID","type":35},{"name":"zigbeeInformation","type":24},{"name":"touchlinkInformation","type":24}],"name":"scanRequest"},"identifyRequest":{"ID":6,"parameters":[{"name":"transactionID","type":35},{"name":"duration","type":33}],"name":"identifyRequest"},"resetToFactoryNew":{"ID":7,"parameters":[{"name":"transactionID","type":35}],"name":"resetToFactoryNew"}},"commandsResponse":{"scanResponse":{"ID":1,"parameters":[{"name":"transactionID","type":35},{"name":"rssiCorrection","type":32},{"name":"zigbeeInformation","type":32},{"name":"touchlinkInformation","type":32},{"name":"keyBitmask","type":33},{"name":"responseID","type":35},{"name":"extendedPanID","type":240},{"name":"networkUpdateID","type":32},{"name":"logicalChannel","type":32},{"name":"panID","type":33},{"name":"networkAddress","type":33},{"name":"numberOfSubDevices","type":32},{"name":"totalGroupIdentifiers","type":32}],"name":"scanResponse"}}},"Command":{"ID":0,"response":1,"parameters":[{"name":"transactionID","type":35},{"name":"zigbeeInformation","type":24},{"name":"touchlinkInformation","type":24}],"name":"scanRequest"}});
-        expect(deepClone(mocksendZclFrameInterPANBroadcast.mock.calls[1][0])).toStrictEqual({"Header":{"frameControl":{"reservedBits":0,"frameType":1,"direction":0,"disableDefaultResponse":true,"manufacturerSpecific":false},"transactionSequenceNumber":0,"manufacturerCode":null,"commandIdentifier":0},"Payload":{"transactionID":expect.any(Number),"zigbeeInformation":4,"touchlinkInformation":18},"Cluster":{"ID":4096,"attributes":{},"name":"touchlink","commands":{"scanRequest":{"ID":0,"response":1,"parameters":[{"name":"transactionID","type":35},{"name":"zigbeeInformation","type":24},{"name":"touchlinkInformation","type":24}],"name":"scanRequest"},"identifyRequest":{"ID":6,"parameters":[{"name":"transactionID","type":35},{"name":"duration","type":33}],"name":"identifyRequest"},"resetToFactoryNew":{"ID":7,"parameters":[{"name":"transactionID","type":35}],"name":"resetToFactoryNew"}},"commandsResponse":{"scanResponse":{"ID":1,"parameters":[{"name":"transactionID","type":35},{"name":"rssiCorrection","type":32},{"name":"zigbeeInformation","type":32},{"name":"touchlinkInformation","type":32},{"name":"keyBitmask","type":33},{"name":"responseID","type":35},{"name":"extendedPanID","type":240},{"name":"networkUpdateID","type":32},{"name":"logicalChannel","type":32},{"name":"panID","type":33},{"name":"networkAddress","type":33},{"name":"numberOfSubDevices","type":32},{"name":"totalGroupIdentifiers","type":32}],"name":"scanResponse"}}},"Command":{"ID":0,"response":1,"parameters":[{"name":"transactionID","type":35},{"name":"zigbeeInformation","type":24},{"name":"touchlinkInformation","type":24}],"name":"scanRequest"}});
+        expect(deepClone(mocksendZclFrameInterPANBroadcast.mock.calls[0][0])).toStrictEqual({"Header":{"frameControl":{"reservedBits":0,"frameType":1,"direction":0,"disableDefaultResponse":true,"manufacturerSpecific":false},"transactionSequenceNumber":0,"manufacturerCode":null,"commandIdentifier":0},"Payload":{"transactionID":expect.any(Number),"zigbeeInformation":4,"touchlinkInformation":18},"Cluster":{"ID":4096,"attributes":{},"name":"touchlink","commands":{"scanRequest":{"ID":0,"response":1,"parameters":[{"name":"transactionID","type":35},{"name":"zigbeeInformation","type":24},{"name":"touchlinkInformation","type":24}],"name":"scanRequest"},"deviceInformationRequest":{"ID":2,"response":3,"parameters":[{"name":"transactionID","type":35},{"name":"startIndex","type":32}],"name":"deviceInformationRequest"},"identifyRequest":{"ID":6,"parameters":[{"name":"transactionID","type":35},{"name":"duration","type":33}],"name":"identifyRequest"},"resetToFactoryNew":{"ID":7,"parameters":[{"name":"transactionID","type":35}],"name":"resetToFactoryNew"},"networkJoinRouterRequest":{"ID":18,"response":19,"parameters":[{"name":"transactionID","type":35},{"name":"extendedPanID","type":240},{"name":"keyIndex","type":32},{"name":"encryptedNetworkKey","type":241},{"name":"networkUpdateID","type":32},{"name":"logicalChannel","type":32},{"name":"panID","type":33},{"name":"networkAddress","type":33},{"name":"groupIdentifiersBegin","type":33},{"name":"groupIdentifiersEnd","type":33},{"name":"freeNetworkAddressRangeBegin","type":33},{"name":"freeNetworkAddressRangeEnd","type":33},{"name":"freeGroupIdentifierRangeBegin","type":33},{"name":"freeGroupIdentifierRangeEnd","type":33}],"name":"networkJoinRouterRequest"},"networkJoinEndDeviceRequest":{"ID":20,"response":21,"parameters":[{"name":"transactionID","type":35},{"name":"extendedPanID","type":240},{"name":"keyIndex","type":32},{"name":"encryptedNetworkKey","type":241},{"name":"networkUpdateID","type":32},{"name":"logicalChannel","type":32},{"name":"panID","type":33},{"name":"networkAddress","type":33},{"name":"groupIdentifiersBegin","type":33},{"name":"groupIdentifiersEnd","type":33},{"name":"freeNetworkAddressRangeBegin","type":33},{"name":"freeNetworkAddressRangeEnd","type":33},{"name":"freeGroupIdentifierRangeBegin","type":33},{"name":"freeGroupIdentifierRangeEnd","type":33}],"name":"networkJoinEndDeviceRequest"}},"commandsResponse":{"scanResponse":{"ID":1,"parameters":[{"name":"transactionID","type":35},{"name":"rssiCorrection","type":32},{"name":"zigbeeInformation","type":32},{"name":"touchlinkInformation","type":32},{"name":"keyBitmask","type":33},{"name":"responseID","type":35},{"name":"extendedPanID","type":240},{"name":"networkUpdateID","type":32},{"name":"logicalChannel","type":32},{"name":"panID","type":33},{"name":"networkAddress","type":33},{"name":"numberOfSubDevices","type":32},{"name":"totalGroupIdentifiers","type":32},{"name":"endpointID","type":32,"conditions":[{"type":"minimumRemainingBufferBytes","value":7}]},{"name":"profileID","type":33,"conditions":[{"type":"minimumRemainingBufferBytes","value":6}]},{"name":"deviceID","type":33,"conditions":[{"type":"minimumRemainingBufferBytes","value":4}]},{"name":"version","type":32,"conditions":[{"type":"minimumRemainingBufferBytes","value":2}]},{"name":"groupIdentifierCount","type":32,"conditions":[{"type":"minimumRemainingBufferBytes","value":1}]}],"name":"scanResponse"},"deviceInformationResponse":{"ID":3,"parameters":[{"name":"transactionID","type":35},{"name":"numberOfSubDevices","type":32},{"name":"startIndex","type":32},{"name":"deviceInfoRecordCount","type":32},{"name":"deviceInfoRecords","type":1014}],"name":"deviceInformationResponse"},"networkJoinRouterResponse":{"ID":19,"parameters":[{"name":"transactionID","type":35},{"name":"status","type":32}],"name":"networkJoinRouterResponse"},"networkJoinEndDeviceResponse":{"ID":21,"parameters":[{"name":"transactionID","type":35},{"name":"status","type":32}],"name":"networkJoinEndDeviceResponse"}}},"Command":{"ID":0,"response":1,"parameters":[{"name":"transactionID","type":35},{"name":"zigbeeInformation","type":24},{"name":"touchlinkInformation","type":24}],"name":"scanRequest"}});
+        expect(deepClone(mocksendZclFrameInterPANBroadcast.mock.calls[1][0])).toStrictEqual({"Header":{"frameControl":{"reservedBits":0,"frameType":1,"direction":0,"disableDefaultResponse":true,"manufacturerSpecific":false},"transactionSequenceNumber":0,"manufacturerCode":null,"commandIdentifier":0},"Payload":{"transactionID":expect.any(Number),"zigbeeInformation":4,"touchlinkInformation":18},"Cluster":{"ID":4096,"attributes":{},"name":"touchlink","commands":{"scanRequest":{"ID":0,"response":1,"parameters":[{"name":"transactionID","type":35},{"name":"zigbeeInformation","type":24},{"name":"touchlinkInformation","type":24}],"name":"scanRequest"},"deviceInformationRequest":{"ID":2,"response":3,"parameters":[{"name":"transactionID","type":35},{"name":"startIndex","type":32}],"name":"deviceInformationRequest"},"identifyRequest":{"ID":6,"parameters":[{"name":"transactionID","type":35},{"name":"duration","type":33}],"name":"identifyRequest"},"resetToFactoryNew":{"ID":7,"parameters":[{"name":"transactionID","type":35}],"name":"resetToFactoryNew"},"networkJoinRouterRequest":{"ID":18,"response":19,"parameters":[{"name":"transactionID","type":35},{"name":"extendedPanID","type":240},{"name":"keyIndex","type":32},{"name":"encryptedNetworkKey","type":241},{"name":"networkUpdateID","type":32},{"name":"logicalChannel","type":32},{"name":"panID","type":33},{"name":"networkAddress","type":33},{"name":"groupIdentifiersBegin","type":33},{"name":"groupIdentifiersEnd","type":33},{"name":"freeNetworkAddressRangeBegin","type":33},{"name":"freeNetworkAddressRangeEnd","type":33},{"name":"freeGroupIdentifierRangeBegin","type":33},{"name":"freeGroupIdentifierRangeEnd","type":33}],"name":"networkJoinRouterRequest"},"networkJoinEndDeviceRequest":{"ID":20,"response":21,"parameters":[{"name":"transactionID","type":35},{"name":"extendedPanID","type":240},{"name":"keyIndex","type":32},{"name":"encryptedNetworkKey","type":241},{"name":"networkUpdateID","type":32},{"name":"logicalChannel","type":32},{"name":"panID","type":33},{"name":"networkAddress","type":33},{"name":"groupIdentifiersBegin","type":33},{"name":"groupIdentifiersEnd","type":33},{"name":"freeNetworkAddressRangeBegin","type":33},{"name":"freeNetworkAddressRangeEnd","type":33},{"name":"freeGroupIdentifierRangeBegin","type":33},{"name":"freeGroupIdentifierRangeEnd","type":33}],"name":"networkJoinEndDeviceRequest"}},"commandsResponse":{"scanResponse":{"ID":1,"parameters":[{"name":"transactionID","type":35},{"name":"rssiCorrection","type":32},{"name":"zigbeeInformation","type":32},{"name":"touchlinkInformation","type":32},{"name":"keyBitmask","type":33},{"name":"responseID","type":35},{"name":"extendedPanID","type":240},{"name":"networkUpdateID","type":32},{"name":"logicalChannel","type":32},{"name":"panID","type":33},{"name":"networkAddress","type":33},{"name":"numberOfSubDevices","type":32},{"name":"totalGroupIdentifiers","type":32},{"name":"endpointID","type":32,"conditions":[{"type":"minimumRemainingBufferBytes","value":7}]},{"name":"profileID","type":33,"conditions":[{"type":"minimumRemainingBufferBytes","value":6}]},{"name":"deviceID","type":33,"conditions":[{"type":"minimumRemainingBufferBytes","value":4}]},{"name":"version","type":32,"conditions":[{"type":"minimumRemainingBufferBytes","value":2}]},{"name":"groupIdentifierCount","type":32,"conditions":[{"type":"minimumRemainingBufferBytes","value":1}]}],"name":"scanResponse"},"deviceInformationResponse":{"ID":3,"parameters":[{"name":"transactionID","type":35},{"name":"numberOfSubDevices","type":32},{"name":"startIndex","type":32},{"name":"deviceInfoRecordCount","type":32},{"name":"deviceInfoRecords","type":1014}],"name":"deviceInformationResponse"},"networkJoinRouterResponse":{"ID":19,"parameters":[{"name":"transactionID","type":35},{"name":"status","type":32}],"name":"networkJoinRouterResponse"},"networkJoinEndDeviceResponse":{"ID":21,"parameters":[{"name":"transactionID","type":35},{"name":"status","type":32}],"name":"networkJoinEndDeviceResponse"}}},"Command":{"ID":0,"response":1,"parameters":[{"name":"transactionID","type":35},{"name":"zigbeeInformation","type":24},{"name":"touchlinkInformation","type":24}],"name":"scanRequest"}});
         expect(mockRestoreChannelInterPAN).toHaveBeenCalledTimes(1);
         expect(mocksendZclFrameInterPANToIeeeAddr).toHaveBeenCalledTimes(2);
-        expect(deepClone(mocksendZclFrameInterPANToIeeeAddr.mock.calls[0][0])).toStrictEqual({"Header":{"frameControl":{"reservedBits":0,"frameType":1,"direction":0,"disableDefaultResponse":true,"manufacturerSpecific":false},"transactionSequenceNumber":0,"manufacturerCode":null,"commandIdentifier":6},"Payload":{"transactionID":expect.any(Number),"duration":65535},"Cluster":{"ID":4096,"attributes":{},"name":"touchlink","commands":{"scanRequest":{"ID":0,"response":1,"parameters":[{"name":"transactionID","type":35},{"name":"zigbeeInformation","type":24},{"name":"touchlinkInformation","type":24}],"name":"scanRequest"},"identifyRequest":{"ID":6,"parameters":[{"name":"transactionID","type":35},{"name":"duration","type":33}],"name":"identifyRequest"},"resetToFactoryNew":{"ID":7,"parameters":[{"name":"transactionID","type":35}],"name":"resetToFactoryNew"}},"commandsResponse":{"scanResponse":{"ID":1,"parameters":[{"name":"transactionID","type":35},{"name":"rssiCorrection","type":32},{"name":"zigbeeInformation","type":32},{"name":"touchlinkInformation","type":32},{"name":"keyBitmask","type":33},{"name":"responseID","type":35},{"name":"extendedPanID","type":240},{"name":"networkUpdateID","type":32},{"name":"logicalChannel","type":32},{"name":"panID","type":33},{"name":"networkAddress","type":33},{"name":"numberOfSubDevices","type":32},{"name":"totalGroupIdentifiers","type":32}],"name":"scanResponse"}}},"Command":{"ID":6,"parameters":[{"name":"transactionID","type":35},{"name":"duration","type":33}],"name":"identifyRequest"}});
-        expect(deepClone(mocksendZclFrameInterPANToIeeeAddr.mock.calls[1][0])).toStrictEqual({"Header":{"frameControl":{"reservedBits":0,"frameType":1,"direction":0,"disableDefaultResponse":true,"manufacturerSpecific":false},"transactionSequenceNumber":0,"manufacturerCode":null,"commandIdentifier":7},"Payload":{"transactionID":expect.any(Number)},"Cluster":{"ID":4096,"attributes":{},"name":"touchlink","commands":{"scanRequest":{"ID":0,"response":1,"parameters":[{"name":"transactionID","type":35},{"name":"zigbeeInformation","type":24},{"name":"touchlinkInformation","type":24}],"name":"scanRequest"},"identifyRequest":{"ID":6,"parameters":[{"name":"transactionID","type":35},{"name":"duration","type":33}],"name":"identifyRequest"},"resetToFactoryNew":{"ID":7,"parameters":[{"name":"transactionID","type":35}],"name":"resetToFactoryNew"}},"commandsResponse":{"scanResponse":{"ID":1,"parameters":[{"name":"transactionID","type":35},{"name":"rssiCorrection","type":32},{"name":"zigbeeInformation","type":32},{"name":"touchlinkInformation","type":32},{"name":"keyBitmask","type":33},{"name":"responseID","type":35},{"name":"extendedPanID","type":240},{"name":"networkUpdateID","type":32},{"name":"logicalChannel","type":32},{"name":"panID","type":33},{"name":"networkAddress","type":33},{"name":"numberOfSubDevices","type":32},{"name":"totalGroupIdentifiers","type":32}],"name":"scanResponse"}}},"Command":{"ID":7,"parameters":[{"name":"transactionID","type":35}],"name":"resetToFactoryNew"}});
+        expect(deepClone(mocksendZclFrameInterPANToIeeeAddr.mock.calls[0][0])).toStrictEqual({"Header":{"frameControl":{"reservedBits":0,"frameType":1,"direction":0,"disableDefaultResponse":true,"manufacturerSpecific":false},"transactionSequenceNumber":0,"manufacturerCode":null,"commandIdentifier":6},"Payload":{"transactionID":expect.any(Number),"duration":65535},"Cluster":{"ID":4096,"attributes":{},"name":"touchlink","commands":{"scanRequest":{"ID":0,"response":1,"parameters":[{"name":"transactionID","type":35},{"name":"zigbeeInformation","type":24},{"name":"touchlinkInformation","type":24}],"name":"scanRequest"},"deviceInformationRequest":{"ID":2,"response":3,"parameters":[{"name":"transactionID","type":35},{"name":"startIndex","type":32}],"name":"deviceInformationRequest"},"identifyRequest":{"ID":6,"parameters":[{"name":"transactionID","type":35},{"name":"duration","type":33}],"name":"identifyRequest"},"resetToFactoryNew":{"ID":7,"parameters":[{"name":"transactionID","type":35}],"name":"resetToFactoryNew"},"networkJoinRouterRequest":{"ID":18,"response":19,"parameters":[{"name":"transactionID","type":35},{"name":"extendedPanID","type":240},{"name":"keyIndex","type":32},{"name":"encryptedNetworkKey","type":241},{"name":"networkUpdateID","type":32},{"name":"logicalChannel","type":32},{"name":"panID","type":33},{"name":"networkAddress","type":33},{"name":"groupIdentifiersBegin","type":33},{"name":"groupIdentifiersEnd","type":33},{"name":"freeNetworkAddressRangeBegin","type":33},{"name":"freeNetworkAddressRangeEnd","type":33},{"name":"freeGroupIdentifierRangeBegin","type":33},{"name":"freeGroupIdentifierRangeEnd","type":33}],"name":"networkJoinRouterRequest"},"networkJoinEndDeviceRequest":{"ID":20,"response":21,"parameters":[{"name":"transactionID","type":35},{"name":"extendedPanID","type":240},{"name":"keyIndex","type":32},{"name":"encryptedNetworkKey","type":241},{"name":"networkUpdateID","type":32},{"name":"logicalChannel","type":32},{"name":"panID","type":33},{"name":"networkAddress","type":33},{"name":"groupIdentifiersBegin","type":33},{"name":"groupIdentifiersEnd","type":33},{"name":"freeNetworkAddressRangeBegin","type":33},{"name":"freeNetworkAddressRangeEnd","type":33},{"name":"freeGroupIdentifierRangeBegin","type":33},{"name":"freeGroupIdentifierRangeEnd","type":33}],"name":"networkJoinEndDeviceRequest"}},"commandsResponse":{"scanResponse":{"ID":1,"parameters":[{"name":"transactionID","type":35},{"name":"rssiCorrection","type":32},{"name":"zigbeeInformation","type":32},{"name":"touchlinkInformation","type":32},{"name":"keyBitmask","type":33},{"name":"responseID","type":35},{"name":"extendedPanID","type":240},{"name":"networkUpdateID","type":32},{"name":"logicalChannel","type":32},{"name":"panID","type":33},{"name":"networkAddress","type":33},{"name":"numberOfSubDevices","type":32},{"name":"totalGroupIdentifiers","type":32},{"name":"endpointID","type":32,"conditions":[{"type":"minimumRemainingBufferBytes","value":7}]},{"name":"profileID","type":33,"conditions":[{"type":"minimumRemainingBufferBytes","value":6}]},{"name":"deviceID","type":33,"conditions":[{"type":"minimumRemainingBufferBytes","value":4}]},{"name":"version","type":32,"conditions":[{"type":"minimumRemainingBufferBytes","value":2}]},{"name":"groupIdentifierCount","type":32,"conditions":[{"type":"minimumRemainingBufferBytes","value":1}]}],"name":"scanResponse"},"deviceInformationResponse":{"ID":3,"parameters":[{"name":"transactionID","type":35},{"name":"numberOfSubDevices","type":32},{"name":"startIndex","type":32},{"name":"deviceInfoRecordCount","type":32},{"name":"deviceInfoRecords","type":1014}],"name":"deviceInformationResponse"},"networkJoinRouterResponse":{"ID":19,"parameters":[{"name":"transactionID","type":35},{"name":"status","type":32}],"name":"networkJoinRouterResponse"},"networkJoinEndDeviceResponse":{"ID":21,"parameters":[{"name":"transactionID","type":35},{"name":"status","type":32}],"name":"networkJoinEndDeviceResponse"}}},"Command":{"ID":6,"parameters":[{"name":"transactionID","type":35},{"name":"duration","type":33}],"name":"identifyRequest"}});
+        expect(deepClone(mocksendZclFrameInterPANToIeeeAddr.mock.calls[1][0])).toStrictEqual({"Header":{"frameControl":{"reservedBits":0,"frameType":1,"direction":0,"disableDefaultResponse":true,"manufacturerSpecific":false},"transactionSequenceNumber":0,"manufacturerCode":null,"commandIdentifier":7},"Payload":{"transactionID":expect.any(Number)},"Cluster":{"ID":4096,"attributes":{},"name":"touchlink","commands":{"scanRequest":{"ID":0,"response":1,"parameters":[{"name":"transactionID","type":35},{"name":"zigbeeInformation","type":24},{"name":"touchlinkInformation","type":24}],"name":"scanRequest"},"deviceInformationRequest":{"ID":2,"response":3,"parameters":[{"name":"transactionID","type":35},{"name":"startIndex","type":32}],"name":"deviceInformationRequest"},"identifyRequest":{"ID":6,"parameters":[{"name":"transactionID","type":35},{"name":"duration","type":33}],"name":"identifyRequest"},"resetToFactoryNew":{"ID":7,"parameters":[{"name":"transactionID","type":35}],"name":"resetToFactoryNew"},"networkJoinRouterRequest":{"ID":18,"response":19,"parameters":[{"name":"transactionID","type":35},{"name":"extendedPanID","type":240},{"name":"keyIndex","type":32},{"name":"encryptedNetworkKey","type":241},{"name":"networkUpdateID","type":32},{"name":"logicalChannel","type":32},{"name":"panID","type":33},{"name":"networkAddress","type":33},{"name":"groupIdentifiersBegin","type":33},{"name":"groupIdentifiersEnd","type":33},{"name":"freeNetworkAddressRangeBegin","type":33},{"name":"freeNetworkAddressRangeEnd","type":33},{"name":"freeGroupIdentifierRangeBegin","type":33},{"name":"freeGroupIdentifierRangeEnd","type":33}],"name":"networkJoinRouterRequest"},"networkJoinEndDeviceRequest":{"ID":20,"response":21,"parameters":[{"name":"transactionID","type":35},{"name":"extendedPanID","type":240},{"name":"keyIndex","type":32},{"name":"encryptedNetworkKey","type":241},{"name":"networkUpdateID","type":32},{"name":"logicalChannel","type":32},{"name":"panID","type":33},{"name":"networkAddress","type":33},{"name":"groupIdentifiersBegin","type":33},{"name":"groupIdentifiersEnd","type":33},{"name":"freeNetworkAddressRangeBegin","type":33},{"name":"freeNetworkAddressRangeEnd","type":33},{"name":"freeGroupIdentifierRangeBegin","type":33},{"name":"freeGroupIdentifierRangeEnd","type":33}],"name":"networkJoinEndDeviceRequest"}},"commandsResponse":{"scanResponse":{"ID":1,"parameters":[{"name":"transactionID","type":35},{"name":"rssiCorrection","type":32},{"name":"zigbeeInformation","type":32},{"name":"touchlinkInformation","type":32},{"name":"keyBitmask","type":33},{"name":"responseID","type":35},{"name":"extendedPanID","type":240},{"name":"networkUpdateID","type":32},{"name":"logicalChannel","type":32},{"name":"panID","type":33},{"name":"networkAddress","type":33},{"name":"numberOfSubDevices","type":32},{"name":"totalGroupIdentifiers","type":32},{"name":"endpointID","type":32,"conditions":[{"type":"minimumRemainingBufferBytes","value":7}]},{"name":"profileID","type":33,"conditions":[{"type":"minimumRemainingBufferBytes","value":6}]},{"name":"deviceID","type":33,"conditions":[{"type":"minimumRemainingBufferBytes","value":4}]},{"name":"version","type":32,"conditions":[{"type":"minimumRemainingBufferBytes","value":2}]},{"name":"groupIdentifierCount","type":32,"conditions":[{"type":"minimumRemainingBufferBytes","value":1}]}],"name":"scanResponse"},"deviceInformationResponse":{"ID":3,"parameters":[{"name":"transactionID","type":35},{"name":"numberOfSubDevices","type":32},{"name":"startIndex","type":32},{"name":"deviceInfoRecordCount","type":32},{"name":"deviceInfoRecords","type":1014}],"name":"deviceInformationResponse"},"networkJoinRouterResponse":{"ID":19,"parameters":[{"name":"transactionID","type":35},{"name":"status","type":32}],"name":"networkJoinRouterResponse"},"networkJoinEndDeviceResponse":{"ID":21,"parameters":[{"name":"transactionID","type":35},{"name":"status","type":32}],"name":"networkJoinEndDeviceResponse"}}},"Command":{"ID":7,"parameters":[{"name":"transactionID","type":35}],"name":"resetToFactoryNew"}});
     });
 
     it('Touchlink scan', async () => {
         await controller.start();
+        const scanResponse = touchlinkScanResponse;
+        const deviceInfoRecord = (endpointID) => {
+            return {ieeeAddr: '0x124', endpointID, profileID: 0xC05E, deviceID: 0x0210, version: 2, groupIdentifierCount: 0, sort: 0};
+        };
+
         let counter = 0;
-        mocksendZclFrameInterPANBroadcast.mockImplementation(() => {
+        mocksendZclFrameInterPANBroadcast.mockImplementation(async (frame) => {
             counter++;
+            const transactionID = frame.Payload.transactionID;
             if (counter === 1) {
                 throw new Error('no response')
             } else if (counter === 2) {
-                return {address: '0x123'};
+                const first = scanResponse('0x123', transactionID, 1,
+                    {endpointID: 11, profileID: 0xC05E, deviceID: 0x0100, version: 1, groupIdentifierCount: 0});
+                await mockAdapterEvents['zclData'](first);
+                await mockAdapterEvents['zclData'](scanResponse('0x124', transactionID, 3));
+                await mockAdapterEvents['zclData'](scanResponse('0x125', transactionID, 1));
+                await mockAdapterEvents['zclData'](scanResponse('0x126', transactionID, 2));
+                await mockAdapterEvents['zclData'](scanResponse('0x127', transactionID + 1, 1));
+                return first;
+            } else {
+                throw new Error('no response')
+            }
+        });
+        mocksendZclFrameInterPANToIeeeAddr.mockImplementation(async (frame, ieeeAddr) => {
+            const {transactionID, startIndex} = frame.Payload;
+            if (ieeeAddr === '0x124') {
+                const deviceInfoRecords = startIndex === 0 ? [deviceInfoRecord(11), deviceInfoRecord(12)] : [];
+                await mockAdapterEvents['zclData'](touchlinkPayload(ieeeAddr, 'deviceInformationResponse', {
+                    transactionID, numberOfSubDevices: 3, startIndex, deviceInfoRecordCount: deviceInfoRecords.length,
+                    deviceInfoRecords,
+                }));
+            } else if (ieeeAddr === '0x125') {
+                throw new Error('failed');
             }
         });
+
         const result = await controller.touchlinkScan();
-        expect(result).toStrictEqual([{ieeeAddr: '0x123', channel: 15}]);
+        const expected = {
+            channel: 15, linkquality: 100, rssiCorrection: 2, zigbeeInformation: 5, touchlinkInformation: 0x11,
+            keyBitmask: 0x10, extendedPanID: '0x0001020304050607', panID: 0x1a62, networkAddress: 0xfffe,
+            networkUpdateID: 0, logicalChannel: 15, totalGroupIdentifiers: 0,
+        };
+        expect(result).toStrictEqual([
+            {...expected, ieeeAddr: '0x123', numberOfSubDevices: 1, endpoints: [
+                {endpointID: 11, profileID: 0xC05E, deviceID: 0x0100, version: 1, groupIdentifierCount: 0},
+            ]},
+            {...expected, ieeeAddr: '0x124', numberOfSubDevices: 3, endpoints: [
+                {endpointID: 11, profileID: 0xC05E, deviceID: 0x0210, version: 2, groupIdentifierCount: 0},
+                {endpointID: 12, profileID: 0xC05E, deviceID: 0x0210, version: 2, groupIdentifierCount: 0},
+            ]},
+            {...expected, ieeeAddr: '0x125', numberOfSubDevices: 1, endpoints: []},
+            {...expected, ieeeAddr: '0x126', numberOfSubDevices: 2, endpoints: []},
+        ]);
 
         expect(mockSetChannelInterPAN).toHaveBeenCalledTimes(16);
         expect(mockSetChannelInterPAN).toHaveBeenCalledWith(11);
         expect(mockSetChannelInterPAN).toHaveBeenCalledWith(15);
         expect(mocksendZclFrameInterPANBroadcast).toHaveBeenCalledTimes(16);
-        expect(deepClone(mocksendZclFrameInterPANBroadcast.mock.calls[0][0])).toStrictEqual({"Header":{"frameControl":{"reservedBits":0,"frameType":1,"direction":0,"disableDefaultResponse":true,"manufacturerSpecific":false},"transactionSequenceNumber":0,"manufacturerCode":null,"commandIdentifier":0},"Payload":{"transactionID":expect.any(Number),"zigbeeInformation":4,"touchlinkInformation":18},"Cluster":{"ID":4096,"attributes":{},"name":"touchlink","commands":{"scanRequest":{"ID":0,"response":1,"parameters":[{"name":"transactionID","type":35},{"name":"zigbeeInformation","type":24},{"name":"touchlinkInformation","type":24}],"name":"scanRequest"},"identifyRequest":{"ID":6,"parameters":[{"name":"transactionID","type":35},{"name":"duration","type":33}],"name":"identifyRequest"},"resetToFactoryNew":{"ID":7,"parameters":[{"name":"transactionID","type":35}],"name":"resetToFactoryNew"}},"commandsResponse":{"scanResponse":{"ID":1,"parameters":[{"name":"transactionID","type":35},{"name":"rssiCorrection","type":32},{"name":"zigbeeInformation","type":32},{"name":"touchlinkInformation","type":32},{"name":"keyBitmask","type":33},{"name":"responseID","type":35},{"name":"extendedPanID","type":240},{"name":"networkUpdateID","type":32},{"name":"logicalChannel","type":32},{"name":"panID","type":33},{"name":"networkAddress","type":33},{"name":"numberOfSubDevices","type":32},{"name":"totalGroupIdentifiers","type":32}],"name":"scanResponse"}}},"Command":{"ID":0,"response":1,"parameters":[{"name":"transactionID","type":35},{"name":"zigbeeInformation","type":24},{"name":"touchlinkInformation","type":24}],"name":"scanRequest"}});
-        expect(deepClone(mocksendZclFrameInterPANBroadcast.mock.calls[1][0])).toStrictEqual({"Header":{"frameControl":{"reservedBits":0,"frameType":1,"direction":0,"disableDefaultResponse":true,"manufacturerSpecific":false},"transactionSequenceNumber":0,"manufacturerCode":null,"commandIdentifier":0},"Payload":{"transactionID":expect.any(Number),"zigbeeInformation":4,"touchlinkInformation":18},"Cluster":{"ID":4096,"attributes":{},"name":"touchlink","commands":{"scanRequest":{"ID":0,"response":1,"parameters":[{"name":"transactionID","type":35},{"name":"zigbeeInformation","type":24},{"name":"touchlinkInformation","type":24}],"name":"scanRequest"},"identifyRequest":{"ID":6,"parameters":[{"name":"transactionID","type":35},{"name":"duration","type":33}],"name":"identifyRequest"},"resetToFactoryNew":{"ID":7,"parameters":[{"name":"transactionID","type":35}],"name":"resetToFactoryNew"}},"commandsResponse":{"scanResponse":{"ID":1,"parameters":[{"name":"transactionID","type":35},{"name":"rssiCorrection","type":32},{"name":"zigbeeInformation","type":32},{"name":"touchlinkInformation","type":32},{"name":"keyBitmask","type":33},{"name":"responseID","type":35},{"name":"extendedPanID","type":240},{"name":"networkUpdateID","type":32},{"name":"logicalChannel","type":32},{"name":"panID","type":33},{"name":"networkAddress","type":33},{"name":"numberOfSubDevices","type":32},{"name":"totalGroupIdentifiers","type":32}],"name":"scanResponse"}}},"Command":{"ID":0,"response":1,"parameters":[{"name":"transactionID","type":35},{"name":"zigbeeInformation","type":24},{"name":"touchlinkInformation","type":24}],"name":"scanRequest"}});
+        expect(deepClone(mocksendZclFrameInterPANBroadcast.mock.calls[0][0])).toStrictEqual({"Header":{"frameControl":{"reservedBits":0,"frameType":1,"direction":0,"disableDefaultResponse":true,"manufacturerSpecific":false},"transactionSequenceNumber":0,"manufacturerCode":null,"commandIdentifier":0},"Payload":{"transactionID":expect.any(Number),"zigbeeInformation":4,"touchlinkInformation":18},"Cluster":{"ID":4096,"attributes":{},"name":"touchlink","commands":{"scanRequest":{"ID":0,"response":1,"parameters":[{"name":"transactionID","type":35},{"name":"zigbeeInformation","type":24},{"name":"touchlinkInformation","type":24}],"name":"scanRequest"},"deviceInformationRequest":{"ID":2,"response":3,"parameters":[{"name":"transactionID","type":35},{"name":"startIndex","type":32}],"name":"deviceInformationRequest"},"identifyRequest":{"ID":6,"parameters":[{"name":"transactionID","type":35},{"name":"duration","type":33}],"name":"identifyRequest"},"resetToFactoryNew":{"ID":7,"parameters":[{"name":"transactionID","type":35}],"name":"resetToFactoryNew"},"networkJoinRouterRequest":{"ID":18,"response":19,"parameters":[{"name":"transactionID","type":35},{"name":"extendedPanID","type":240},{"name":"keyIndex","type":32},{"name":"encryptedNetworkKey","type":241},{"name":"networkUpdateID","type":32},{"name":"logicalChannel","type":32},{"name":"panID","type":33},{"name":"networkAddress","type":33},{"name":"groupIdentifiersBegin","type":33},{"name":"groupIdentifiersEnd","type":33},{"name":"freeNetworkAddressRangeBegin","type":33},{"name":"freeNetworkAddressRangeEnd","type":33},{"name":"freeGroupIdentifierRangeBegin","type":33},{"name":"freeGroupIdentifierRangeEnd","type":33}],"name":"networkJoinRouterRequest"},"networkJoinEndDeviceRequest":{"ID":20,"response":21,"parameters":[{"name":"transactionID","type":35},{"name":"extendedPanID","type":240},{"name":"keyIndex","type":32},{"name":"encryptedNetworkKey","type":241},{"name":"networkUpdateID","type":32},{"name":"logicalChannel","type":32},{"name":"panID","type":33},{"name":"networkAddress","type":33},{"name":"groupIdentifiersBegin","type":33},{"name":"groupIdentifiersEnd","type":33},{"name":"freeNetworkAddressRangeBegin","type":33},{"name":"freeNetworkAddressRangeEnd","type":33},{"name":"freeGroupIdentifierRangeBegin","type":33},{"name":"freeGroupIdentifierRangeEnd","type":33}],"name":"networkJoinEndDeviceRequest"}},"commandsResponse":{"scanResponse":{"ID":1,"parameters":[{"name":"transactionID","type":35},{"name":"rssiCorrection","type":32},{"name":"zigbeeInformation","type":32},{"name":"touchlinkInformation","type":32},{"name":"keyBitmask","type":33},{"name":"responseID","type":35},{"name":"extendedPanID","type":240},{"name":"networkUpdateID","type":32},{"name":"logicalChannel","type":32},{"name":"panID","type":33},{"name":"networkAddress","type":33},{"name":"numberOfSubDevices","type":32},{"name":"totalGroupIdentifiers","type":32},{"name":"endpointID","type":32,"conditions":[{"type":"minimumRemainingBufferBytes","value":7}]},{"name":"profileID","type":33,"conditions":[{"type":"minimumRemainingBufferBytes","value":6}]},{"name":"deviceID","type":33,"conditions":[{"type":"minimumRemainingBufferBytes","value":4}]},{"name":"version","type":32,"conditions":[{"type":"minimumRemainingBufferBytes","value":2}]},{"name":"groupIdentifierCount","type":32,"conditions":[{"type":"minimumRemainingBufferBytes","value":1}]}],"name":"scanResponse"},"deviceInformationResponse":{"ID":3,"parameters":[{"name":"transactionID","type":35},{"name":"numberOfSubDevices","type":32},{"name":"startIndex","type":32},{"name":"deviceInfoRecordCount","type":32},{"name":"deviceInfoRecords","type":1014}],"name":"deviceInformationResponse"},"networkJoinRouterResponse":{"ID":19,"parameters":[{"name":"transactionID","type":35},{"name":"status","type":32}],"name":"networkJoinRouterResponse"},"networkJoinEndDeviceResponse":{"ID":21,"parameters":[{"name":"transactionID","type":35},{"name":"status","type":32}],"name":"networkJoinEndDeviceResponse"}}},"Command":{"ID":0,"response":1,"parameters":[{"name":"transactionID","type":35},{"name":"zigbeeInformation","type":24},{"name":"touchlinkInformation","type":24}],"name":"scanRequest"}});
+        expect(deepClone(mocksendZclFrameInterPANBroadcast.mock.calls[1][0])).toStrictEqual({"Header":{"frameControl":{"reservedBits":0,"frameType":1,"direction":0,"disableDefaultResponse":true,"manufacturerSpecific":false},"transactionSequenceNumber":0,"manufacturerCode":null,"commandIdentifier":0},"Payload":{"transactionID":expect.any(Number),"zigbeeInformation":4,"touchlinkInformation":18},"Cluster":{"ID":4096,"attributes":{},"name":"touchlink","commands":{"scanRequest":{"ID":0,"response":1,"parameters":[{"name":"transactionID","type":35},{"name":"zigbeeInformation","type":24},{"name":"touchlinkInformation","type":24}],"name":"scanRequest"},"deviceInformationRequest":{"ID":2,"response":3,"parameters":[{"name":"transactionID","type":35},{"name":"startIndex","type":32}],"name":"deviceInformationRequest"},"identifyRequest":{"ID":6,"parameters":[{"name":"transactionID","type":35},{"name":"duration","type":33}],"name":"identifyRequest"},"resetToFactoryNew":{"ID":7,"parameters":[{"name":"transactionID","type":35}],"name":"resetToFactoryNew"},"networkJoinRouterRequest":{"ID":18,"response":19,"parameters":[{"name":"transactionID","type":35},{"name":"extendedPanID","type":240},{"name":"keyIndex","type":32},{"name":"encryptedNetworkKey","type":241},{"name":"networkUpdateID","type":32},{"name":"logicalChannel","type":32},{"name":"panID","type":33},{"name":"networkAddress","type":33},{"name":"groupIdentifiersBegin","type":33},{"name":"groupIdentifiersEnd","type":33},{"name":"freeNetworkAddressRangeBegin","type":33},{"name":"freeNetworkAddressRangeEnd","type":33},{"name":"freeGroupIdentifierRangeBegin","type":33},{"name":"freeGroupIdentifierRangeEnd","type":33}],"name":"networkJoinRouterRequest"},"networkJoinEndDeviceRequest":{"ID":20,"response":21,"parameters":[{"name":"transactionID","type":35},{"name":"extendedPanID","type":240},{"name":"keyIndex","type":32},{"name":"encryptedNetworkKey","type":241},{"name":"networkUpdateID","type":32},{"name":"logicalChannel","type":32},{"name":"panID","type":33},{"name":"networkAddress","type":33},{"name":"groupIdentifiersBegin","type":33},{"name":"groupIdentifiersEnd","type":33},{"name":"freeNetworkAddressRangeBegin","type":33},{"name":"freeNetworkAddressRangeEnd","type":33},{"name":"freeGroupIdentifierRangeBegin","type":33},{"name":"freeGroupIdentifierRangeEnd","type":33}],"name":"networkJoinEndDeviceRequest"}},"commandsResponse":{"scanResponse":{"ID":1,"parameters":[{"name":"transactionID","type":35},{"name":"rssiCorrection","type":32},{"name":"zigbeeInformation","type":32},{"name":"touchlinkInformation","type":32},{"name":"keyBitmask","type":33},{"name":"responseID","type":35},{"name":"extendedPanID","type":240},{"name":"networkUpdateID","type":32},{"name":"logicalChannel","type":32},{"name":"panID","type":33},{"name":"networkAddress","type":33},{"name":"numberOfSubDevices","type":32},{"name":"totalGroupIdentifiers","type":32},{"name":"endpointID","type":32,"conditions":[{"type":"minimumRemainingBufferBytes","value":7}]},{"name":"profileID","type":33,"conditions":[{"type":"minimumRemainingBufferBytes","value":6}]},{"name":"deviceID","type":33,"conditions":[{"type":"minimumRemainingBufferBytes","value":4}]},{"name":"version","type":32,"conditions":[{"type":"minimumRemainingBufferBytes","value":2}]},{"name":"groupIdentifierCount","type":32,"conditions":[{"type":"minimumRemainingBufferBytes","value":1}]}],"name":"scanResponse"},"deviceInformationResponse":{"ID":3,"parameters":[{"name":"transactionID","type":35},{"name":"numberOfSubDevices","type":32},{"name":"startIndex","type":32},{"name":"deviceInfoRecordCount","type":32},{"name":"deviceInfoRecords","type":1014}],"name":"deviceInformationResponse"},"networkJoinRouterResponse":{"ID":19,"parameters":[{"name":"transactionID","type":35},{"name":"status","type":32}],"name":"networkJoinRouterResponse"},"networkJoinEndDeviceResponse":{"ID":21,"parameters":[{"name":"transactionID","type":35},{"name":"status","type":32}],"name":"networkJoinEndDeviceResponse"}}},"Command":{"ID":0,"response":1,"parameters":[{"name":"transactionID","type":35},{"name":"zigbeeInformation","type":24},{"name":"touchlinkInformation","type":24}],"name":"scanRequest"}});
         expect(mockRestoreChannelInterPAN).toHaveBeenCalledTimes(1);
-        expect(mocksendZclFrameInterPANToIeeeAddr).toHaveBeenCalledTimes(0);
+        expect(mocksendZclFrameInterPANToIeeeAddr).toHaveBeenCalledTimes(4);
+        expect(mocksendZclFrameInterPANToIeeeAddr.mock.calls[0][0].Payload).toStrictEqual({transactionID: expect.any(Number), startIndex: 0});
+        expect(mocksendZclFrameInterPANToIeeeAddr.mock.calls[0][1]).toBe('0x124');
+        expect(mocksendZclFrameInterPANToIeeeAddr.mock.calls[1][0].Payload).toStrictEqual({transactionID: expect.any(Number), startIndex: 2});
+        expect(mocksendZclFrameInterPANToIeeeAddr.mock.calls[1][1]).toBe('0x124');
     });
 
     it('Touchlink lock', async () => {
@@ -728,11 +812,11 @@ describe('Controller', () => {
         expect(mockSetChannelInterPAN).toHaveBeenCalledTimes(1);
         expect(mockSetChannelInterPAN).toHaveBeenCalledWith(15);
         expect(mocksendZclFrameInterPANBroadcast).toHaveBeenCalledTimes(1);
-        expect(deepClone(mocksendZclFrameInterPANBroadcast.mock.calls[0][0])).toStrictEqual({"Header":{"frameControl":{"reservedBits":0,"frameType":1,"direction":0,"disableDefaultResponse":true,"manufacturerSpecific":false},"transactionSequenceNumber":0,"manufacturerCode":null,"commandIdentifier":0},"Payload":{"transactionID":expect.any(Number),"zigbeeInformation":4,"touchlinkInformation":18},"Cluster":{"ID":4096,"attributes":{},"name":"touchlink","commands":{"scanRequest":{"ID":0,"response":1,"parameters":[{"name":"transactionID","type":35},{"name":"zigbeeInformation","type":24},{"name":"touchlinkInformation","type":24}],"name":"scanRequest"},"identifyRequest":{"ID":6,"parameters":[{"name":"transactionID","type":35},{"name":"duration","type":33}],"name":"identifyRequest"},"resetToFactoryNew":{"ID":7,"parameters":[{"name":"transactionID","type":35}],"name":"resetToFactoryNew"}},"commandsResponse":{"scanResponse":{"ID":1,"parameters":[{"name":"transactionID","type":35},{"name":"rssiCorrection","type":32},{"name":"zigbeeInformation","type":32},{"name":"touchlinkInformation","type":32},{"name":"keyBitmask","type":33},{"name":"responseID","type":35},{"name":"extendedPanID","type":240},{"name":"networkUpdateID","type":32},{"name":"logicalChannel","type":32},{"name":"panID","type":33},{"name":"networkAddress","type":33},{"name":"numberOfSubDevices","type":32},{"name":"totalGroupIdentifiers","type":32}],"name":"scanResponse"}}},"Command":{"ID":0,"response":1,"parameters":[{"name":"transactionID","type":35},{"name":"zigbeeInformation","type":24},{"name":"touchlinkInformation","type":24}],"name":"scanRequest"}});
+        expect(deepClone(mocksendZclFrameInterPANBroadcast.mock.calls[0][0])).toStrictEqual({"Header":{"frameControl":{"reservedBits":0,"frameType":1,"direction":0,"disableDefaultResponse":true,"manufacturerSpecific":false},"transactionSequenceNumber":0,"manufacturerCode":null,"commandIdentifier":0},"Payload":{"transactionID":expect.any(Number),"zigbeeInformation":4,"touchlinkInformation":18},"Cluster":{"ID":4096,"attributes":{},"name":"touchlink","commands":{"scanRequest":{"ID":0,"response":1,"parameters":[{"name":"transactionID","type":35},{"name":"zigbeeInformation","type":24},{"name":"touchlinkInformation","type":24}],"name":"scanRequest"},"deviceInformationRequest":{"ID":2,"response":3,"parameters":[{"name":"transactionID","type":35},{"name":"startIndex","type":32}],"name":"deviceInformationRequest"},"identifyRequest":{"ID":6,"parameters":[{"name":"transactionID","type":35},{"name":"duration","type":33}],"name":"identifyRequest"},"resetToFactoryNew":{"ID":7,"parameters":[{"name":"transactionID","type":35}],"name":"resetToFactoryNew"},"networkJoinRouterRequest":{"ID":18,"response":19,"parameters":[{"name":"transactionID","type":35},{"name":"extendedPanID","type":240},{"name":"keyIndex","type":32},{"name":"encryptedNetworkKey","type":241},{"name":"networkUpdateID","type":32},{"name":"logicalChannel","type":32},{"name":"panID","type":33},{"name":"networkAddress","type":33},{"name":"groupIdentifiersBegin","type":33},{"name":"groupIdentifiersEnd","type":33},{"name":"freeNetworkAddressRangeBegin","type":33},{"name":"freeNetworkAddressRangeEnd","type":33},{"name":"freeGroupIdentifierRangeBegin","type":33},{"name":"freeGroupIdentifierRangeEnd","type":33}],"name":"networkJoinRouterRequest"},"networkJoinEndDeviceRequest":{"ID":20,"response":21,"parameters":[{"name":"transactionID","type":35},{"name":"extendedPanID","type":240},{"name":"keyIndex","type":32},{"name":"encryptedNetworkKey","type":241},{"name":"networkUpdateID","type":32},{"name":"logicalChannel","type":32},{"name":"panID","type":33},{"name":"networkAddress","type":33},{"name":"groupIdentifiersBegin","type":33},{"name":"groupIdentifiersEnd","type":33},{"name":"freeNetworkAddressRangeBegin","type":33},{"name":"freeNetworkAddressRangeEnd","type":33},{"name":"freeGroupIdentifierRangeBegin","type":33},{"name":"freeGroupIdentifierRangeEnd","type":33}],"name":"networkJoinEndDeviceRequest"}},"commandsResponse":{"scanResponse":{"ID":1,"parameters":[{"name":"transactionID","type":35},{"name":"rssiCorrection","type":32},{"name":"zigbeeInformation","type":32},{"name":"touchlinkInformation","type":32},{"name":"keyBitmask","type":33},{"name":"responseID","type":35},{"name":"extendedPanID","type":240},{"name":"networkUpdateID","type":32},{"name":"logicalChannel","type":32},{"name":"panID","type":33},{"name":"networkAddress","type":33},{"name":"numberOfSubDevices","type":32},{"name":"totalGroupIdentifiers","type":32},{"name":"endpointID","type":32,"conditions":[{"type":"minimumRemainingBufferBytes","value":7}]},{"name":"profileID","type":33,"conditions":[{"type":"minimumRemainingBufferBytes","value":6}]},{"name":"deviceID","type":33,"conditions":[{"type":"minimumRemainingBufferBytes","value":4}]},{"name":"version","type":32,"conditions":[{"type":"minimumRemainingBufferBytes","value":2}]},{"name":"groupIdentifierCount","type":32,"conditions":[{"type":"minimumRemainingBufferBytes","value":1}]}],"name":"scanResponse"},"deviceInformationResponse":{"ID":3,"parameters":[{"name":"transactionID","type":35},{"name":"numberOfSubDevices","type":32},{"name":"startIndex","type":32},{"name":"deviceInfoRecordCount","type":32},{"name":"deviceInfoRecords","type":1014}],"name":"deviceInformationResponse"},"networkJoinRouterResponse":{"ID":19,"parameters":[{"name":"transactionID","type":35},{"name":"status","type":32}],"name":"networkJoinRouterResponse"},"networkJoinEndDeviceResponse":{"ID":21,"parameters":[{"name":"transactionID","type":35},{"name":"status","type":32}],"name":"networkJoinEndDeviceResponse"}}},"Command":{"ID":0,"response":1,"parameters":[{"name":"transactionID","type":35},{"name":"zigbeeInformation","type":24},{"name":"touchlinkInformation","type":24}],"name":"scanRequest"}});
         expect(mockRestoreChannelInterPAN).toHaveBeenCalledTimes(1);
         expect(mocksendZclFrameInterPANToIeeeAddr).toHaveBeenCalledTimes(2);
-        expect(deepClone(mocksendZclFrameInterPANToIeeeAddr.mock.calls[0][0])).toStrictEqual({"Header":{"frameControl":{"reservedBits":0,"frameType":1,"direction":0,"disableDefaultResponse":true,"manufacturerSpecific":false},"transactionSequenceNumber":0,"manufacturerCode":null,"commandIdentifier":6},"Payload":{"transactionID":expect.any(Number),"duration":65535},"Cluster":{"ID":4096,"attributes":{},"name":"touchlink","commands":{"scanRequest":{"ID":0,"response":1,"parameters":[{"name":"transactionID","type":35},{"name":"zigbeeInformation","type":24},{"name":"touchlinkInformation","type":24}],"name":"scanRequest"},"identifyRequest":{"ID":6,"parameters":[{"name":"transactionID","type":35},{"name":"duration","type":33}],"name":"identifyRequest"},"resetToFactoryNew":{"ID":7,"parameters":[{"name":"transactionID","type":35}],"name":"resetToFactoryNew"}},"commandsResponse":{"scanResponse":{"ID":1,"parameters":[{"name":"transactionID","type":35},{"name":"rssiCorrection","type":32},{"name":"zigbeeInformation","type":32},{"name":"touchlinkInformation","type":32},{"name":"keyBitmask","type":33},{"name":"responseID","type":35},{"name":"extendedPanID","type":240},{"name":"networkUpdateID","type":32},{"name":"logicalChannel","type":32},{"name":"panID","type":33},{"name":"networkAddress","type":33},{"name":"numberOfSubDevices","type":32},{"name":"totalGroupIdentifiers","type":32}],"name":"scanResponse"}}},"Command":{"ID":6,"parameters":[{"name":"transactionID","type":35},{"name":"duration","type":33}],"name":"identifyRequest"}});
-        expect(deepClone(mocksendZclFrameInterPANToIeeeAddr.mock.calls[1][0])).toStrictEqual({"Header":{"frameControl":{"reservedBits":0,"frameType":1,"direction":0,"disableDefaultResponse":true,"manufacturerSpecific":false},"transactionSequenceNumber":0,"manufacturerCode":null,"commandIdentifier":7},"Payload":{"transactionID":expect.any(Number)},"Cluster":{"ID":4096,"attributes":{},"name":"touchlink","commands":{"scanRequest":{"ID":0,"response":1,"parameters":[{"name":"transactionID","type":35},{"name":"zigbeeInformation","type":24},{"name":"touchlinkInformation","type":24}],"name":"scanRequest"},"identifyRequest":{"ID":6,"parameters":[{"name":"transactionID","type":35},{"name":"duration","type":33}],"name":"identifyRequest"},"resetToFactoryNew":{"ID":7,"parameters":[{"name":"transactionID","type":35}],"name":"resetToFactoryNew"}},"commandsResponse":{"scanResponse":{"ID":1,"parameters":[{"name":"transactionID","type":35},{"name":"rssiCorrection","type":32},{"name":"zigbeeInformation","type":32},{"name":"touchlinkInformation","type":32},{"name":"keyBitmask","type":33},{"name":"responseID","type":35},{"name":"extendedPanID","type":240},{"name":"networkUpdateID","type":32},{"name":"logicalChannel","type":32},{"name":"panID","type":33},{"name":"networkAddress","type":33},{"name":"numberOfSubDevices","type":32},{"name":"totalGroupIdentifiers","type":32}],"name":"scanResponse"}}},"Command":{"ID":7,"parameters":[{"name":"transactionID","type":35}],"name":"resetToFactoryNew"}});
+        expect(deepClone(mocksendZclFrameInterPANToIeeeAddr.mock.calls[0][0])).toStrictEqual({"Header":{"frameControl":{"reservedBits":0,"frameType":1,"direction":0,"disableDefaultResponse":true,"manufacturerSpecific":false},"transactionSequenceNumber":0,"manufacturerCode":null,"commandIdentifier":6},"Payload":{"transactionID":expect.any(Number),"duration":65535},"Cluster":{"ID":4096,"attributes":{},"name":"touchlink","commands":{"scanRequest":{"ID":0,"response":1,"parameters":[{"name":"transactionID","type":35},{"name":"zigbeeInformation","type":24},{"name":"touchlinkInformation","type":24}],"name":"scanRequest"},"deviceInformationRequest":{"ID":2,"response":3,"parameters":[{"name":"transactionID","type":35},{"name":"startIndex","type":32}],"name":"deviceInformationRequest"},"identifyRequest":{"ID":6,"parameters":[{"name":"transactionID","type":35},{"name":"duration","type":33}],"name":"identifyRequest"},"resetToFactoryNew":{"ID":7,"parameters":[{"name":"transactionID","type":35}],"name":"resetToFactoryNew"},"networkJoinRouterRequest":{"ID":18,"response":19,"parameters":[{"name":"transactionID","type":35},{"name":"extendedPanID","type":240},{"name":"keyIndex","type":32},{"name":"encryptedNetworkKey","type":241},{"name":"networkUpdateID","type":32},{"name":"logicalChannel","type":32},{"name":"panID","type":33},{"name":"networkAddress","type":33},{"name":"groupIdentifiersBegin","type":33},{"name":"groupIdentifiersEnd","type":33},{"name":"freeNetworkAddressRangeBegin","type":33},{"name":"freeNetworkAddressRangeEnd","type":33},{"name":"freeGroupIdentifierRangeBegin","type":33},{"name":"freeGroupIdentifierRangeEnd","type":33}],"name":"networkJoinRouterRequest"},"networkJoinEndDeviceRequest":{"ID":20,"response":21,"parameters":[{"name":"transactionID","type":35},{"name":"extendedPanID","type":240},{"name":"keyIndex","type":32},{"name":"encryptedNetworkKey","type":241},{"name":"networkUpdateID","type":32},{"name":"logicalChannel","type":32},{"name":"panID","type":33},{"name":"networkAddress","type":33},{"name":"groupIdentifiersBegin","type":33},{"name":"groupIdentifiersEnd","type":33},{"name":"freeNetworkAddressRangeBegin","type":33},{"name":"freeNetworkAddressRangeEnd","type":33},{"name":"freeGroupIdentifierRangeBegin","type":33},{"name":"freeGroupIdentifierRangeEnd","type":33}],"name":"networkJoinEndDeviceRequest"}},"commandsResponse":{"scanResponse":{"ID":1,"parameters":[{"name":"transactionID","type":35},{"name":"rssiCorrection","type":32},{"name":"zigbeeInformation","type":32},{"name":"touchlinkInformation","type":32},{"name":"keyBitmask","type":33},{"name":"responseID","type":35},{"name":"extendedPanID","type":240},{"name":"networkUpdateID","type":32},{"name":"logicalChannel","type":32},{"name":"panID","type":33},{"name":"networkAddress","type":33},{"name":"numberOfSubDevices","type":32},{"name":"totalGroupIdentifiers","type":32},{"name":"endpointID","type":32,"conditions":[{"type":"minimumRemainingBufferBytes","value":7}]},{"name":"profileID","type":33,"conditions":[{"type":"minimumRemainingBufferBytes","value":6}]},{"name":"deviceID","type":33,"conditions":[{"type":"minimumRemainingBufferBytes","value":4}]},{"name":"version","type":32,"conditions":[{"type":"minimumRemainingBufferBytes","value":2}]},{"name":"groupIdentifierCount","type":32,"conditions":[{"type":"minimumRemainingBufferBytes","value":1}]}],"name":"scanResponse"},"deviceInformationResponse":{"ID":3,"parameters":[{"name":"transactionID","type":35},{"name":"numberOfSubDevices","type":32},{"name":"startIndex","type":32},{"name":"deviceInfoRecordCount","type":32},{"name":"deviceInfoRecords","type":1014}],"name":"deviceInformationResponse"},"networkJoinRouterResponse":{"ID":19,"parameters":[{"name":"transactionID","type":35},{"name":"status","type":32}],"name":"networkJoinRouterResponse"},"networkJoinEndDeviceResponse":{"ID":21,"parameters":[{"name":"transactionID","type":35},{"name":"status","type":32}],"name":"networkJoinEndDeviceResponse"}}},"Command":{"ID":6,"parameters":[{"name":"transactionID","type":35},{"name":"duration","type":33}],"name":"identifyRequest"}});
+        expect(deepClone(mocksendZclFrameInterPANToIeeeAddr.mock.calls[1][0])).toStrictEqual({"Header":{"frameControl":{"reservedBits":0,"frameType":1,"direction":0,"disableDefaultResponse":true,"manufacturerSpecific":false},"transactionSequenceNumber":0,"manufacturerCode":null,"commandIdentifier":7},"Payload":{"transactionID":expect.any(Number)},"Cluster":{"ID":4096,"attributes":{},"name":"touchlink","commands":{"scanRequest":{"ID":0,"response":1,"parameters":[{"name":"transactionID","type":35},{"name":"zigbeeInformation","type":24},{"name":"touchlinkInformation","type":24}],"name":"scanRequest"},"deviceInformationRequest":{"ID":2,"response":3,"parameters":[{"name":"transactionID","type":35},{"name":"startIndex","type":32}],"name":"deviceInformationRequest"},"identifyRequest":{"ID":6,"parameters":[{"name":"transactionID","type":35},{"name":"duration","type":33}],"name":"identifyRequest"},"resetToFactoryNew":{"ID":7,"parameters":[{"name":"transactionID","type":35}],"name":"resetToFactoryNew"},"networkJoinRouterRequest":{"ID":18,"response":19,"parameters":[{"name":"transactionID","type":35},{"name":"extendedPanID","type":240},{"name":"keyIndex","type":32},{"name":"encryptedNetworkKey","type":241},{"name":"networkUpdateID","type":32},{"name":"logicalChannel","type":32},{"name":"panID","type":33},{"name":"networkAddress","type":33},{"name":"groupIdentifiersBegin","type":33},{"name":"groupIdentifiersEnd","type":33},{"name":"freeNetworkAddressRangeBegin","type":33},{"name":"freeNetworkAddressRangeEnd","type":33},{"name":"freeGroupIdentifierRangeBegin","type":33},{"name":"freeGroupIdentifierRangeEnd","type":33}],"name":"networkJoinRouterRequest"},"networkJoinEndDeviceRequest":{"ID":20,"response":21,"parameters":[{"name":"transactionID","type":35},{"name":"extendedPanID","type":240},{"name":"keyIndex","type":32},{"name":"encryptedNetworkKey","type":241},{"name":"networkUpdateID","type":32},{"name":"logicalChannel","type":32},{"name":"panID","type":33},{"name":"networkAddress","type":33},{"name":"groupIdentifiersBegin","type":33},{"name":"groupIdentifiersEnd","type":33},{"name":"freeNetworkAddressRangeBegin","type":33},{"name":"freeNetworkAddressRangeEnd","type":33},{"name":"freeGroupIdentifierRangeBegin","type":33},{"name":"freeGroupIdentifierRangeEnd","type":33}],"name":"networkJoinEndDeviceRequest"}},"commandsResponse":{"scanResponse":{"ID":1,"parameters":[{"name":"transactionID","type":35},{"name":"rssiCorrection","type":32},{"name":"zigbeeInformation","type":32},{"name":"touchlinkInformation","type":32},{"name":"keyBitmask","type":33},{"name":"responseID","type":35},{"name":"extendedPanID","type":240},{"name":"networkUpdateID","type":32},{"name":"logicalChannel","type":32},{"name":"panID","type":33},{"name":"networkAddress","type":33},{"name":"numberOfSubDevices","type":32},{"name":"totalGroupIdentifiers","type":32},{"name":"endpointID","type":32,"conditions":[{"type":"minimumRemainingBufferBytes","value":7}]},{"name":"profileID","type":33,"conditions":[{"type":"minimumRemainingBufferBytes","value":6}]},{"name":"deviceID","type":33,"conditions":[{"type":"minimumRemainingBufferBytes","value":4}]},{"name":"version","type":32,"conditions":[{"type":"minimumRemainingBufferBytes","value":2}]},{"name":"groupIdentifierCount","type":32,"conditions":[{"type":"minimumRemainingBufferBytes","value":1}]}],"name":"scanResponse"},"deviceInformationResponse":{"ID":3,"parameters":[{"name":"transactionID","type":35},{"name":"numberOfSubDevices","type":32},{"name":"startIndex","type":32},{"name":"deviceInfoRecordCount","type":32},{"name":"deviceInfoRecords","type":1014}],"name":"deviceInformationResponse"},"networkJoinRouterResponse":{"ID":19,"parameters":[{"name":"transactionID","type":35},{"name":"status","type":32}],"name":"networkJoinRouterResponse"},"networkJoinEndDeviceResponse":{"ID":21,"parameters":[{"name":"transactionID","type":35},{"name":"status","type":32}],"name":"networkJoinEndDeviceResponse"}}},"Command":{"ID":7,"parameters":[{"name":"transactionID","type":35}],"name":"resetToFactoryNew"}});
     });
 
     it('Touchlink identify', async () => {
@@ -745,10 +829,92 @@ describe('Controller', () => {
         expect(mockSetChannelInterPAN).toHaveBeenCalledTimes(1);
         expect(mockSetChannelInterPAN).toHaveBeenCalledWith(15);
         expect(mocksendZclFrameInterPANBroadcast).toHaveBeenCalledTimes(1);
-        expect(deepClone(mocksendZclFrameInterPANBroadcast.mock.calls[0][0])).toStrictEqual({"Header":{"frameControl":{"reservedBits":0,"frameType":1,"direction":0,"disableDefaultResponse":true,"manufacturerSpecific":false},"transactionSequenceNumber":0,"manufacturerCode":null,"commandIdentifier":0},"Payload":{"transactionID":expect.any(Number),"zigbeeInformation":4,"touchlinkInformation":18},"Cluster":{"ID":4096,"attributes":{},"name":"touchlink","commands":{"scanRequest":{"ID":0,"response":1,"parameters":[{"name":"transactionID","type":35},{"name":"zigbeeInformation","type":24},{"name":"touchlinkInformation","type":24}],"name":"scanRequest"},"identifyRequest":{"ID":6,"parameters":[{"name":"transactionID","type":35},{"name":"duration","type":33}],"name":"identifyRequest"},"resetToFactoryNew":{"ID":7,"parameters":[{"name":"transactionID","type":35}],"name":"resetToFactoryNew"}},"commandsResponse":{"scanResponse":{"ID":1,"parameters":[{"name":"transactionID","type":35},{"name":"rssiCorrection","type":32},{"name":"zigbeeInformation","type":32},{"name":"touchlinkInformation","type":32},{"name":"keyBitmask","type":33},{"name":"responseID","type":35},{"name":"extendedPanID","type":240},{"name":"networkUpdateID","type":32},{"name":"logicalChannel","type":32},{"name":"panID","type":33},{"name":"networkAddress","type":33},{"name":"numberOfSubDevices","type":32},{"name":"totalGroupIdentifiers","type":32}],"name":"scanResponse"}}},"Command":{"ID":0,"response":1,"parameters":[{"name":"transactionID","type":35},{"name":"zigbeeInformation","type":24},{"name":"touchlinkInformation","type":24}],"name":"scanRequest"}});
+        expect(deepClone(mocksendZclFrameInterPANBroadcast.mock.calls[0][0])).toStrictEqual({"Header":{"frameControl":{"reservedBits":0,"frameType":1,"direction":0,"disableDefaultResponse":true,"manufacturerSpecific":false},"transactionSequenceNumber":0,"manufacturerCode":null,"commandIdentifier":0},"Payload":{"transactionID":expect.any(Number),"zigbeeInformation":4,"touchlinkInformation":18},"Cluster":{"ID":4096,"attributes":{},"name":"touchlink","commands":{"scanRequest":{"ID":0,"response":1,"parameters":[{"name":"transactionID","type":35},{"name":"zigbeeInformation","type":24},{"name":"touchlinkInformation","type":24}],"name":"scanRequest"},"deviceInformationRequest":{"ID":2,"response":3,"parameters":[{"name":"transactionID","type":35},{"name":"startIndex","type":32}],"name":"deviceInformationRequest"},"identifyRequest":{"ID":6,"parameters":[{"name":"transactionID","type":35},{"name":"duration","type":33}],"name":"identifyRequest"},"resetToFactoryNew":{"ID":7,"parameters":[{"name":"transactionID","type":35}],"name":"resetToFactoryNew"},"networkJoinRouterRequest":{"ID":18,"response":19,"parameters":[{"name":"transactionID","type":35},{"name":"extendedPanID","type":240},{"name":"keyIndex","type":32},{"name":"encryptedNetworkKey","type":241},{"name":"networkUpdateID","type":32},{"name":"logicalChannel","type":32},{"name":"panID","type":33},{"name":"networkAddress","type":33},{"name":"groupIdentifiersBegin","type":33},{"name":"groupIdentifiersEnd","type":33},{"name":"freeNetworkAddressRangeBegin","type":33},{"name":"freeNetworkAddressRangeEnd","type":33},{"name":"freeGroupIdentifierRangeBegin","type":33},{"name":"freeGroupIdentifierRangeEnd","type":33}],"name":"networkJoinRouterRequest"},"networkJoinEndDeviceRequest":{"ID":20,"response":21,"parameters":[{"name":"transactionID","type":35},{"name":"extendedPanID","type":240},{"name":"keyIndex","type":32},{"name":"encryptedNetworkKey","type":241},{"name":"networkUpdateID","type":32},{"name":"logicalChannel","type":32},{"name":"panID","type":33},{"name":"networkAddress","type":33},{"name":"groupIdentifiersBegin","type":33},{"name":"groupIdentifiersEnd","type":33},{"name":"freeNetworkAddressRangeBegin","type":33},{"name":"freeNetworkAddressRangeEnd","type":33},{"name":"freeGroupIdentifierRangeBegin","type":33},{"name":"freeGroupIdentifierRangeEnd","type":33}],"name":"networkJoinEndDeviceRequest"}},"commandsResponse":{"scanResponse":{"ID":1,"parameters":[{"name":"transactionID","type":35},{"name":"rssiCorrection","type":32},{"name":"zigbeeInformation","type":32},{"name":"touchlinkInformation","type":32},{"name":"keyBitmask","type":33},{"name":"responseID","type":35},{"name":"extendedPanID","type":240},{"name":"networkUpdateID","type":32},{"name":"logicalChannel","type":32},{"name":"panID","type":33},{"name":"networkAddress","type":33},{"name":"numberOfSubDevices","type":32},{"name":"totalGroupIdentifiers","type":32},{"name":"endpointID","type":32,"conditions":[{"type":"minimumRemainingBufferBytes","value":7}]},{"name":"profileID","type":33,"conditions":[{"type":"minimumRemainingBufferBytes","value":6}]},{"name":"deviceID","type":33,"conditions":[{"type":"minimumRemainingBufferBytes","value":4}]},{"name":"version","type":32,"conditions":[{"type":"minimumRemainingBufferBytes","value":2}]},{"name":"groupIdentifierCount","type":32,"conditions":[{"type":"minimumRemainingBufferBytes","value":1}]}],"name":"scanResponse"},"deviceInformationResponse":{"ID":3,"parameters":[{"name":"transactionID","type":35},{"name":"numberOfSubDevices","type":32},{"name":"startIndex","type":32},{"name":"deviceInfoRecordCount","type":32},{"name":"deviceInfoRecords","type":1014}],"name":"deviceInformationResponse"},"networkJoinRouterResponse":{"ID":19,"parameters":[{"name":"transactionID","type":35},{"name":"status","type":32}],"name":"networkJoinRouterResponse"},"networkJoinEndDeviceResponse":{"ID":21,"parameters":[{"name":"transactionID","type":35},{"name":"status","type":32}],"name":"networkJoinEndDeviceResponse"}}},"Command":{"ID":0,"response":1,"parameters":[{"name":"transactionID","type":35},{"name":"zigbeeInformation","type":24},{"name":"touchlinkInformation","type":24}],"name":"scanRequest"}});
         expect(mockRestoreChannelInterPAN).toHaveBeenCalledTimes(1);
         expect(mocksendZclFrameInterPANToIeeeAddr).toHaveBeenCalledTimes(1);
-        expect(deepClone(mocksendZclFrameInterPANToIeeeAddr.mock.calls[0][0])).toStrictEqual({"Header":{"frameControl":{"reservedBits":0,"frameType":1,"direction":0,"disableDefaultResponse":true,"manufacturerSpecific":false},"transactionSequenceNumber":0,"manufacturerCode":null,"commandIdentifier":6},"Payload":{"transactionID":expect.any(Number),"duration":65535},"Cluster":{"ID":4096,"attributes":{},"name":"touchlink","commands":{"scanRequest":{"ID":0,"response":1,"parameters":[{"name":"transactionID","type":35},{"name":"zigbeeInformation","type":24},{"name":"touchlinkInformation","type":24}],"name":"scanRequest"},"identifyRequest":{"ID":6,"parameters":[{"name":"transactionID","type":35},{"name":"duration","type":33}],"name":"identifyRequest"},"resetToFactoryNew":{"ID":7,"parameters":[{"name":"transactionID","type":35}],"name":"resetToFactoryNew"}},"commandsResponse":{"scanResponse":{"ID":1,"parameters":[{"name":"transactionID","type":35},{"name":"rssiCorrection","type":32},{"name":"zigbeeInformation","type":32},{"name":"touchlinkInformation","type":32},{"name":"keyBitmask","type":33},{"name":"responseID","type":35},{"name":"extendedPanID","type":240},{"name":"networkUpdateID","type":32},{"name":"logicalChannel","type":32},{"name":"panID","type":33},{"name":"networkAddress","type":33},{"name":"numberOfSubDevices","type":32},{"name":"totalGroupIdentifiers","type":32}],"name":"scanResponse"}}},"Command":{"ID":6,"parameters":[{"name":"transactionID","type":35},{"name":"duration","type":33}],"name":"identifyRequest"}});
+        expect(deepClone(mocksendZclFrameInterPANToIeeeAddr.mock.calls[0][0])).toStrictEqual({"Header":{"frameControl":{"reservedBits":0,"frameType":1,"direction":0,"disableDefaultResponse":true,"manufacturerSpecific":false},"transactionSequenceNumber":0,"manufacturerCode":null,"commandIdentifier":6},"Payload":{"transactionID":expect.any(Number),"duration":65535},"Cluster":{"ID":4096,"attributes":{},"name":"touchlink","commands":{"scanRequest":{"ID":0,"response":1,"parameters":[{"name":"transactionID","type":35},{"name":"zigbeeInformation","type":24},{"name":"touchlinkInformation","type":24}],"name":"scanRequest"},"deviceInformationRequest":{"ID":2,"response":3,"parameters":[{"name":"transactionID","type":35},{"name":"startIndex","type":32}],"name":"deviceInformationRequest"},"identifyRequest":{"ID":6,"parameters":[{"name":"transactionID","type":35},{"name":"duration","type":33}],"name":"identifyRequest"},"resetToFactoryNew":{"ID":7,"parameters":[{"name":"transactionID","type":35}],"name":"resetToFactoryNew"},"networkJoinRouterRequest":{"ID":18,"response":19,"parameters":[{"name":"transactionID","type":35},{"name":"extendedPanID","type":240},{"name":"keyIndex","type":32},{"name":"encryptedNetworkKey","type":241},{"name":"networkUpdateID","type":32},{"name":"logicalChannel","type":32},{"name":"panID","type":33},{"name":"networkAddress","type":33},{"name":"groupIdentifiersBegin","type":33},{"name":"groupIdentifiersEnd","type":33},{"name":"freeNetworkAddressRangeBegin","type":33},{"name":"freeNetworkAddressRangeEnd","type":33},{"name":"freeGroupIdentifierRangeBegin","type":33},{"name":"freeGroupIdentifierRangeEnd","type":33}],"name":"networkJoinRouterRequest"},"networkJoinEndDeviceRequest":{"ID":20,"response":21,"parameters":[{"name":"transactionID","type":35},{"name":"extendedPanID","type":240},{"name":"keyIndex","type":32},{"name":"encryptedNetworkKey","type":241},{"name":"networkUpdateID","type":32},{"name":"logicalChannel","type":32},{"name":"panID","type":33},{"name":"networkAddress","type":33},{"name":"groupIdentifiersBegin","type":33},{"name":"groupIdentifiersEnd","type":33},{"name":"freeNetworkAddressRangeBegin","type":33},{"name":"freeNetworkAddressRangeEnd","type":33},{"name":"freeGroupIdentifierRangeBegin","type":33},{"name":"freeGroupIdentifierRangeEnd","type":33}],"name":"networkJoinEndDeviceRequest"}},"commandsResponse":{"scanResponse":{"ID":1,"parameters":[{"name":"transactionID","type":35},{"name":"rssiCorrection","type":32},{"name":"zigbeeInformation","type":32},{"name":"touchlinkInformation","type":32},{"name":"keyBitmask","type":33},{"name":"responseID","type":35},{"name":"extendedPanID","type":240},{"name":"networkUpdateID","type":32},{"name":"logicalChannel","type":32},{"name":"panID","type":33},{"name":"networkAddress","type":33},{"name":"numberOfSubDevices","type":32},{"name":"totalGroupIdentifiers","type":32},{"name":"endpointID","type":32,"conditions":[{"type":"minimumRemainingBufferBytes","value":7}]},{"name":"profileID","type":33,"conditions":[{"type":"minimumRemainingBufferBytes","value":6}]},{"name":"deviceID","type":33,"conditions":[{"type":"minimumRemainingBufferBytes","value":4}]},{"name":"version","type":32,"conditions":[{"type":"minimumRemainingBufferBytes","value":2}]},{"name":"groupIdentifierCount","type":32,"conditions":[{"type":"minimumRemainingBufferBytes","value":1}]}],"name":"scanResponse"},"deviceInformationResponse":{"ID":3,"parameters":[{"name":"transactionID","type":35},{"name":"numberOfSubDevices","type":32},{"name":"startIndex","type":32},{"name":"deviceInfoRecordCount","type":32},{"name":"deviceInfoRecords","type":1014}],"name":"deviceInformationResponse"},"networkJoinRouterResponse":{"ID":19,"parameters":[{"name":"transactionID","type":35},{"name":"status","type":32}],"name":"networkJoinRouterResponse"},"networkJoinEndDeviceResponse":{"ID":21,"parameters":[{"name":"transactionID","type":35},{"name":"status","type":32}],"name":"networkJoinEndDeviceResponse"}}},"Command":{"ID":6,"parameters":[{"name":"transactionID","type":35},{"name":"duration","type":33}],"name":"identifyRequest"}});
+    });
+
+    it('Touchlink join router', async () => {
+        await controller.start();
+        mockAdapterGetNetworkParameters.mockReturnValueOnce(
+            {panID: 1, extendedPanID: '0x0011223344556677', channel: 15, networkUpdateID: 3},
+        );
+        const random = jest.spyOn(Math, 'random').mockReturnValue(0.5);
+        mocksendZclFrameInterPANBroadcast.mockImplementation(async (frame) => {
+            return touchlinkScanResponse('0x129', frame.Payload.transactionID, 1, {responseID: 0x12345678});
+        });
+        mocksendZclFrameInterPANToIeeeAddr.mockImplementation(async (frame, ieeeAddr) => {
+            await mockAdapterEvents['zclData'](touchlinkPayload(ieeeAddr, 'networkJoinRouterResponse', {
+                transactionID: frame.Payload.transactionID, status: 0,
+            }));
+        });
+
+        await controller.touchlinkJoin('0x129', 15);
+        random.mockRestore();
+
+        expect(mockSetChannelInterPAN).toHaveBeenCalledTimes(1);
+        expect(mockSetChannelInterPAN).toHaveBeenCalledWith(15);
+        expect(mockRestoreChannelInterPAN).toHaveBeenCalledTimes(1);
+        expect(mocksendZclFrameInterPANToIeeeAddr).toHaveBeenCalledTimes(1);
+        expect(mocksendZclFrameInterPANToIeeeAddr.mock.calls[0][1]).toBe('0x129');
+        expect(mocksendZclFrameInterPANToIeeeAddr.mock.calls[0][0].Header.commandIdentifier).toBe(18);
+        expect(mocksendZclFrameInterPANToIeeeAddr.mock.calls[0][0].Payload).toStrictEqual({
+            transactionID: 0x7FFFFFFF, extendedPanID: '0x0011223344556677', keyIndex: 4,
+            encryptedNetworkKey: Buffer.from('afd2a88374933ae92233bf09ea6fa0c8', 'hex'), networkUpdateID: 3,
+            logicalChannel: 15, panID: 1, networkAddress: 0x7FFC, groupIdentifiersBegin: 0, groupIdentifiersEnd: 0,
+            freeNetworkAddressRangeBegin: 0, freeNetworkAddressRangeEnd: 0, freeGroupIdentifierRangeBegin: 0,
+            freeGroupIdentifierRangeEnd: 0,
+        });
+        expect(events.deviceJoined.length).toBe(1);
+        expect(controller.getDeviceByIeeeAddr('0x129').networkAddress).toBe(0x7FFC);
+    });
+
+    it('Touchlink join end device fails', async () => {
+        await controller.start();
+        const random = jest.spyOn(Math, 'random').mockReturnValue(0.5);
+        mocksendZclFrameInterPANBroadcast.mockImplementation(async (frame) => {
+            return touchlinkScanResponse('0x129', frame.Payload.transactionID, 1, {
+                responseID: 0x12345678, zigbeeInformation: 0x06, keyBitmask: 0x8000,
+            });
+        });
+        mocksendZclFrameInterPANToIeeeAddr.mockImplementation(async (frame, ieeeAddr) => {
+            await mockAdapterEvents['zclData'](touchlinkPayload(ieeeAddr, 'networkJoinEndDeviceResponse', {
+                transactionID: frame.Payload.transactionID, status: 1,
+            }));
+        });
+
+        await expect(controller.touchlinkJoin('0x129', 15)).rejects.toThrow("Touchlink join of '0x129' failed with status '1'");
+        random.mockRestore();
+        expect(mocksendZclFrameInterPANToIeeeAddr.mock.calls[0][0].Header.commandIdentifier).toBe(20);
+        expect(mocksendZclFrameInterPANToIeeeAddr.mock.calls[0][0].Payload.keyIndex).toBe(15);
+        expect(mocksendZclFrameInterPANToIeeeAddr.mock.calls[0][0].Payload.encryptedNetworkKey).toStrictEqual(
+            Buffer.from('90b54f50d166e42631ba374eb6455b3e', 'hex'),
+        );
+        expect(mockRestoreChannelInterPAN).toHaveBeenCalledTimes(1);
+        expect(events.deviceJoined.length).toBe(0);
+    });
+
+    it('Touchlink join device without known key', async () => {
+        await controller.start();
+        mocksendZclFrameInterPANBroadcast.mockImplementation(async (frame) => {
+            return touchlinkScanResponse('0x129', frame.Payload.transactionID, 1, {keyBitmask: 0x01});
+        });
+
+        await expect(controller.touchlinkJoin('0x129', 15)).rejects.toThrow("Device '0x129' doesn't support a known touchlink key (bitmask '1')");
+        expect(mocksendZclFrameInterPANToIeeeAddr).toHaveBeenCalledTimes(0);
+        expect(mockRestoreChannelInterPAN).toHaveBeenCalledTimes(1);
+    });
+
+    it('Touchlink join device which does not respond', async () => {
+        await controller.start();
+        mocksendZclFrameInterPANBroadcast.mockImplementation(async (frame) => {
+            return touchlinkScanResponse('0x130', frame.Payload.transactionID, 1);
+        });
+
+        await expect(controller.touchlinkJoin('0x129', 15)).rejects.toThrow("Device '0x129' did not respond to the scan request on channel '15'");
+        expect(mocksendZclFrameInterPANToIeeeAddr).toHaveBeenCalledTimes(0);
+        expect(mockRestoreChannelInterPAN).toHaveBeenCalledTimes(1);
     });
 
     it('Controller should ignore touchlink messages', async () => {
@@ -773,7 +939,7 @@ describe('Controller', () => {
     it('Device should update properties when reported', async () => {
         await controller.start();
         await mockAdapterEvents['deviceJoined']({networkAddress: 129, ieeeAddr: '0x129'});
-        expect(Device.byIeeeAddr('0x129').modelID).toBe('myModelID');
+        expect(controller.getDeviceByIeeeAddr('0x129').modelID).toBe('myModelID');
         await mockAdapterEvents['zclData']({
             wasBroadcast: false,
             address: 129,
@@ -783,7 +949,7 @@ describe('Controller', () => {
             groupID: 1,
         });
 
-        expect(Device.byIeeeAddr('0x129').modelID).toBe('new.model.id');
+        expect(controller.getDeviceByIeeeAddr('0x129').modelID).toBe('new.model.id');
     });
 
     it('Set transmit power', async () => {
@@ -797,6 +963,11 @@ describe('Controller', () => {
         expect(await controller.getCoordinatorVersion()).toEqual({type: 'zStack', meta: {version: 1}});
     });
 
+    it('Get capabilities', async () => {
+        await controller.start();
+        expect(await controller.getCapabilities()).toEqual(mockCapabilities);
+    });
+
     it('Get network parameters', async () => {
         await controller.start();
         expect(await controller.getNetworkParameters()).toEqual({panID: 1, channel: 15, extendedPanID: 3});
@@ -842,9 +1013,12 @@ describe('Controller', () => {
         controller = new Controller({...options, acceptJoiningDeviceHandler: mockAcceptJoiningDeviceHandler});
         controller.on('deviceJoined', (device) => events.deviceJoined.push(device));
         controller.on('deviceInterview', (device) => events.deviceInterview.push(deepClone(device)));
+        const rejected = [];
+        controller.on('deviceJoinRejected', (payload) => rejected.push(payload));
         await controller.start();
         expect(databaseContents().includes("0x129")).toBeFalsy();
         await mockAdapterEvents['deviceJoined']({networkAddress: 129, ieeeAddr: '0x129'});
+        expect(rejected).toStrictEqual([{ieeeAddr: '0x129', reason: 'handler'}]);
         expect(events.deviceJoined.length).toBe(0);
         expect(events.deviceInterview.length).toBe(0);
         expect(databaseContents().includes("0x129")).toBeFalsy();
@@ -852,6 +1026,161 @@ describe('Controller', () => {
         expect(mockAdapterRemoveDevice).toHaveBeenNthCalledWith(1, 129, '0x129');
     });
 
+    const startWithJoinPolicy = async (joinPolicy): Promise<Events.DeviceJoinRejectedPayload[]> => {
+        const rejected = [];
+        controller = new Controller({...options, joinPolicy});
+        controller.on('deviceJoined', (device) => events.deviceJoined.push(device));
+        controller.on('deviceInterview', (device) => events.deviceInterview.push(deepClone(device)));
+        controller.on('deviceJoinRejected', (payload) => rejected.push(payload));
+        await controller.start();
+        return rejected;
+    };
+
+    it('Join policy rejects devices on the denylist by IEEE address or OUI', async () => {
+        const rejected = await startWithJoinPolicy({deny: [{ieeeAddr: '0x00124B0000000129'}, {oui: '0x54ef44'}]});
+        await mockAdapterEvents['deviceJoined']({networkAddress: 129, ieeeAddr: '0x00124b0000000129'});
+        await mockAdapterEvents['deviceJoined']({networkAddress: 140, ieeeAddr: '0x54ef441000000140'});
+        expect(rejected).toStrictEqual([
+            {ieeeAddr: '0x00124b0000000129', reason: 'denylist'}, {ieeeAddr: '0x54ef441000000140', reason: 'denylist'},
+        ]);
+        expect(mockAdapterRemoveDevice).toHaveBeenNthCalledWith(1, 129, '0x00124b0000000129');
+        expect(mockAdapterRemoveDevice).toHaveBeenNthCalledWith(2, 140, '0x54ef441000000140');
+        expect(events.deviceJoined.length).toBe(0);
+        expect(databaseContents().includes('0x00124b0000000129')).toBeFalsy();
+
+        await mockAdapterEvents['deviceJoined']({networkAddress: 129, ieeeAddr: '0x0000000000000129'});
+        expect(rejected.length).toBe(2);
+        expect(events.deviceInterview.map((e) => e.status)).toStrictEqual(['started', 'successful']);
+    });
+
+    it('Join policy only accepts devices on the allowlist', async () => {
+        const rejected = await startWithJoinPolicy({allow: [{oui: '0x00124b'}]});
+        await mockAdapterEvents['deviceJoined']({networkAddress: 129, ieeeAddr: '0x0000000000000129'});
+        expect(rejected).toStrictEqual([{ieeeAddr: '0x0000000000000129', reason: 'allowlist'}]);
+        expect(controller.getDeviceByIeeeAddr('0x0000000000000129')).toBeUndefined();
+
+        await mockAdapterEvents['deviceJoined']({networkAddress: 129, ieeeAddr: '0x00124b0000000129'});
+        expect(rejected.length).toBe(1);
+        expect(controller.getDeviceByIeeeAddr('0x00124b0000000129').interviewCompleted).toBe(true);
+    });
+
+    it('Join policy rejects devices by manufacturer name and model after the interview', async () => {
+        const rejected = await startWithJoinPolicy({deny: [{manufacturerName: 'KoenAndCo', modelID: 'myModelID'}]});
+        await mockAdapterEvents['deviceJoined']({networkAddress: 129, ieeeAddr: '0x129'});
+        expect(events.deviceJoined.length).toBe(1);
+        expect(events.deviceInterview.map((e) => e.status)).toStrictEqual(['started']);
+        expect(rejected).toStrictEqual([{ieeeAddr: '0x129', reason: 'denylist'}]);
+        expect(mockAdapterRemoveDevice).toHaveBeenCalledWith(129, '0x129');
+        expect(controller.getDeviceByIeeeAddr('0x129')).toBeUndefined();
+        expect(databaseContents().includes('0x129')).toBeFalsy();
+    });
+
+    it('Join policy rejects devices not matching the allowlisted model after the interview', async () => {
+        const rejected = await startWithJoinPolicy({allow: [{ieeeAddr: '0x129', modelID: 'otherModelID'}]});
+        await mockAdapterEvents['deviceJoined']({networkAddress: 129, ieeeAddr: '0x129'});
+        expect(events.deviceInterview.map((e) => e.status)).toStrictEqual(['started']);
+        expect(rejected).toStrictEqual([{ieeeAddr: '0x129', reason: 'allowlist'}]);
+        expect(controller.getDeviceByIeeeAddr('0x129')).toBeUndefined();
+    });
+
+    it('Join policy requires an install code', async () => {
+        const rejected = await startWithJoinPolicy({installCodeRequired: true});
+        await mockAdapterEvents['deviceJoined']({networkAddress: 129, ieeeAddr: '0x54ef44100006e7df'});
+        expect(rejected).toStrictEqual([{ieeeAddr: '0x54ef44100006e7df', reason: 'installCodeRequired'}]);
+
+        await controller.addInstallCode(
+            "G$M:69775$S:680S00003915$D:0000000017B2335C%Z$A:54EF44100006E7DF$I:3313A005E177A647FC7925620AB207C4BEF5"
+        );
+        await mockAdapterEvents['deviceJoined']({networkAddress: 129, ieeeAddr: '0x54ef44100006e7df'});
+        expect(rejected.length).toBe(1);
+        expect(controller.getDeviceByIeeeAddr('0x54ef44100006e7df').interviewCompleted).toBe(true);
+    });
+
+    it('Join policy keeps install codes until the network is reset', async () => {
+        let rejected = await startWithJoinPolicy({installCodeRequired: true});
+        await controller.addInstallCode(
+            "G$M:69775$S:680S00003915$D:0000000017B2335C%Z$A:54EF44100006E7DF$I:3313A005E177A647FC7925620AB207C4BEF5"
+        );
+        await controller.addInstallCode(
+            "G$M:69775$S:680S00003915$D:0000000017B2335C%Z$A:54EF44100006E7DF$I:3313A005E177A647FC7925620AB207C4BEF5"
+        );
+        expect(databaseContents().match(/"InstallCode"/g).length).toBe(1);
+        await controller.stop();
+
+        rejected = await startWithJoinPolicy({installCodeRequired: true});
+        await mockAdapterEvents['deviceJoined']({networkAddress: 129, ieeeAddr: '0x54ef44100006e7df'});
+        expect(rejected.length).toBe(0);
+        expect(controller.getDeviceByIeeeAddr('0x54ef44100006e7df')).toBeInstanceOf(Device);
+        await controller.stop();
+
+        mockAdapterStart.mockReturnValueOnce('reset');
+        rejected = await startWithJoinPolicy({installCodeRequired: true});
+        expect(databaseContents().includes('InstallCode')).toBeFalsy();
+        await mockAdapterEvents['deviceJoined']({networkAddress: 129, ieeeAddr: '0x54ef44100006e7df'});
+        expect(rejected).toStrictEqual([{ieeeAddr: '0x54ef44100006e7df', reason: 'installCodeRequired'}]);
+    });
+
+    it('Join policy does not require an install code for touchlink commissioned devices', async () => {
+        const rejected = await startWithJoinPolicy({installCodeRequired: true});
+        mocksendZclFrameInterPANBroadcast.mockImplementation(async (frame) => {
+            return touchlinkScanResponse('0x129', frame.Payload.transactionID, 1, {responseID: 0x12345678});
+        });
+        mocksendZclFrameInterPANToIeeeAddr.mockImplementation(async (frame, ieeeAddr) => {
+            await mockAdapterEvents['zclData'](touchlinkPayload(ieeeAddr, 'networkJoinRouterResponse', {
+                transactionID: frame.Payload.transactionID, status: 0,
+            }));
+        });
+
+        await controller.touchlinkJoin('0x129', 15);
+        expect(rejected.length).toBe(0);
+        expect(mockAdapterRemoveDevice).not.toHaveBeenCalled();
+        expect(controller.getDeviceByIeeeAddr('0x129')).toBeInstanceOf(Device);
+    });
+
+    it('Join policy treats rejoining deleted devices as new devices', async () => {
+        const rejected = await startWithJoinPolicy({maxDevices: 1});
+        await mockAdapterEvents['deviceJoined']({networkAddress: 129, ieeeAddr: '0x129'});
+        await controller.getDeviceByIeeeAddr('0x129').removeFromDatabase();
+        await mockAdapterEvents['deviceJoined']({networkAddress: 140, ieeeAddr: '0x140'});
+        expect(rejected.length).toBe(0);
+
+        await mockAdapterEvents['deviceJoined']({networkAddress: 129, ieeeAddr: '0x129'});
+        expect(rejected).toStrictEqual([{ieeeAddr: '0x129', reason: 'maxDevices'}]);
+        expect(controller.getDeviceByIeeeAddr('0x129')).toBeUndefined();
+        expect(databaseContents().includes('0x129')).toBeFalsy();
+    });
+
+    it('Join policy limits the number of devices', async () => {
+        const rejected = await startWithJoinPolicy({maxDevices: 1});
+        await mockAdapterEvents['deviceJoined']({networkAddress: 129, ieeeAddr: '0x129'});
+        await mockAdapterEvents['deviceJoined']({networkAddress: 140, ieeeAddr: '0x140'});
+        expect(rejected).toStrictEqual([{ieeeAddr: '0x140', reason: 'maxDevices'}]);
+        expect(controller.getDeviceByIeeeAddr('0x140')).toBeUndefined();
+
+        // Devices which are already part of the network can rejoin
+        await mockAdapterEvents['deviceJoined']({networkAddress: 129, ieeeAddr: '0x129'});
+        expect(rejected.length).toBe(1);
+    });
+
+    it('Join policy rejects announcing devices', async () => {
+        await controller.start();
+        await mockAdapterEvents['deviceJoined']({networkAddress: 129, ieeeAddr: '0x129'});
+        await controller.stop();
+
+        const rejected = await startWithJoinPolicy({deny: [{ieeeAddr: '0x150'}, {modelID: 'myModelID'}]});
+        const device = controller.getDeviceByIeeeAddr('0x129');
+        const deviceRejected = [];
+        device.on('deviceJoinRejected', (payload) => deviceRejected.push(payload));
+        await mockAdapterEvents['deviceAnnounce']({networkAddress: 150, ieeeAddr: '0x150'});
+        await mockAdapterEvents['deviceAnnounce']({networkAddress: 129, ieeeAddr: '0x129'});
+        expect(rejected).toStrictEqual([{ieeeAddr: '0x150', reason: 'denylist'}, {ieeeAddr: '0x129', reason: 'denylist'}]);
+        expect(deviceRejected).toStrictEqual([{ieeeAddr: '0x129', reason: 'denylist'}]);
+        expect(mockAdapterRemoveDevice).toHaveBeenCalledWith(150, '0x150');
+        expect(mockAdapterRemoveDevice).toHaveBeenCalledWith(129, '0x129');
+        expect(controller.getDeviceByIeeeAddr('0x129')).toBeUndefined();
+        expect(events.deviceAnnounce.length).toBe(0);
+    });
+
     it('Set device powersource by string', async () => {
         await controller.start();
         await mockAdapterEvents['deviceJoined']({networkAddress: 129, ieeeAddr: '0x129'});
@@ -1000,7 +1329,7 @@ describe('Controller', () => {
         expect(mockAdapterPermitJoin).toBeCalledTimes(1);
         expect(mockAdapterPermitJoin.mock.calls[0][0]).toBe(254);
         expect(events.permitJoinChanged.length).toBe(1);
-        expect(events.permitJoinChanged[0]).toStrictEqual({permitted: true, reason: 'manual', timeout: undefined});
+        expect(events.permitJoinChanged[0]).toStrictEqual({permitted: true, reason: 'manual', timeout: undefined, windows: [{ieeeAddr: null, timeout: undefined}]});
         expect(controller.getPermitJoin()).toBe(true);
 
         // Green power
@@ -1031,7 +1360,7 @@ describe('Controller', () => {
         jest.advanceTimersByTime(210 * 1000);
         expect(mockAdapterPermitJoin).toBeCalledTimes(4);
         expect(events.permitJoinChanged.length).toBe(2);
-        expect(events.permitJoinChanged[1]).toStrictEqual({permitted: false, reason: 'manual', timeout: undefined});
+        expect(events.permitJoinChanged[1]).toStrictEqual({permitted: false, reason: 'manual', timeout: undefined, windows: []});
         expect(controller.getPermitJoin()).toBe(false);
 
         // Green power
@@ -1055,6 +1384,7 @@ describe('Controller', () => {
         expect(mockAdapterPermitJoin).toBeCalledTimes(2);
         expect(mockAdapterPermitJoin.mock.calls[1][0]).toBe(254);
         expect(mockAdapterPermitJoin.mock.calls[1][1]).toBe(129);
+        await controller.permitJoin(false);
     });
 
     it('Controller permit joining for specific time', async () => {
@@ -1063,7 +1393,7 @@ describe('Controller', () => {
         expect(mockAdapterPermitJoin).toBeCalledTimes(1);
         expect(mockAdapterPermitJoin.mock.calls[0][0]).toBe(254);
         expect(events.permitJoinChanged.length).toBe(1);
-        expect(events.permitJoinChanged[0]).toStrictEqual({permitted: true, reason: 'manual', timeout: 10});
+        expect(events.permitJoinChanged[0]).toStrictEqual({permitted: true, reason: 'manual', timeout: 10, windows: [{ieeeAddr: null, timeout: 10}]});
 
         // Timer ends
         jest.advanceTimersByTime(5 * 1000);
@@ -1074,8 +1404,101 @@ describe('Controller', () => {
         expect(mockAdapterPermitJoin).toBeCalledTimes(2);
         expect(mockAdapterPermitJoin.mock.calls[1][0]).toBe(0);
         expect(events.permitJoinChanged.length).toBe(11);
-        expect(events.permitJoinChanged[5]).toStrictEqual({permitted: true, reason: 'manual', timeout: 5});
-        expect(events.permitJoinChanged[10]).toStrictEqual({permitted: false, reason: 'timer_expired', timeout: undefined});
+        expect(events.permitJoinChanged[5]).toStrictEqual({permitted: true, reason: 'manual', timeout: 5, windows: [{ieeeAddr: null, timeout: 5}]});
+        expect(events.permitJoinChanged[10]).toStrictEqual({permitted: false, reason: 'timer_expired', timeout: undefined, windows: []});
+    });
+
+    it('Controller permit joining through multiple routers with overlapping windows', async () => {
+        await controller.start();
+        await mockAdapterEvents['deviceJoined']({networkAddress: 129, ieeeAddr: '0x129'});
+        const router = controller.getDeviceByIeeeAddr('0x129');
+        const coordinator = controller.getDevicesByType('Coordinator')[0];
+        await controller.permitJoin(true, router, 10);
+        await controller.permitJoin(true, coordinator, 5);
+        expect(mockAdapterPermitJoin.mock.calls).toStrictEqual([[254, 129], [254, 123]]);
+        expect(events.permitJoinChanged[1]).toStrictEqual({permitted: true, reason: 'manual', timeout: 10, windows: [
+            {ieeeAddr: '0x129', timeout: 10}, {ieeeAddr: '0x123', timeout: 5},
+        ]});
+
+        // Window of the coordinator expires, the router stays open
+        jest.advanceTimersByTime(5 * 1000);
+        await flushPromises();
+        expect(mockAdapterPermitJoin.mock.calls[2]).toStrictEqual([0, 123]);
+        expect(events.permitJoinChanged[events.permitJoinChanged.length - 1]).toStrictEqual(
+            {permitted: true, reason: 'timer_expired', timeout: 5, windows: [{ieeeAddr: '0x129', timeout: 5}]}
+        );
+        expect(controller.getPermitJoinWindows()).toStrictEqual([{ieeeAddr: '0x129', timeout: 5}]);
+
+        // Joining on the whole network for a limited time, router windows are reopened after it expires
+        await controller.permitJoin(true, undefined, 3);
+        await controller.permitJoin(true, router);
+        expect(controller.getPermitJoinTimeout()).toBeUndefined();
+        mockAdapterPermitJoin.mockClear();
+        jest.advanceTimersByTime(3 * 1000);
+        await flushPromises();
+        expect(mockAdapterPermitJoin.mock.calls).toStrictEqual([[0, null], [254, 129]]);
+        expect(controller.getPermitJoinWindows()).toStrictEqual([{ieeeAddr: '0x129', timeout: undefined}]);
+
+        // All windows are kept open
+        await controller.permitJoin(true);
+        mockAdapterPermitJoin.mockClear();
+        jest.advanceTimersByTime(210 * 1000);
+        await flushPromises();
+        expect(mockAdapterPermitJoin.mock.calls).toStrictEqual([[254, 129], [254, null]]);
+
+        // Closing a router while the whole network is open doesn't disable joining on it
+        mockAdapterPermitJoin.mockClear();
+        await controller.permitJoin(false, router);
+        await controller.permitJoin(false, coordinator);
+        expect(mockAdapterPermitJoin).toHaveBeenCalledTimes(0);
+        expect(controller.getPermitJoinWindows()).toStrictEqual([{ieeeAddr: null, timeout: undefined}]);
+
+        await controller.permitJoin(false);
+        expect(mockAdapterPermitJoin.mock.calls).toStrictEqual([[0, null]]);
+        expect(controller.getPermitJoin()).toBe(false);
+    });
+
+    it('Controller closes join window of a single router', async () => {
+        await controller.start();
+        await mockAdapterEvents['deviceJoined']({networkAddress: 129, ieeeAddr: '0x129'});
+        const router = controller.getDeviceByIeeeAddr('0x129');
+        await controller.permitJoin(true, router);
+        await controller.permitJoin(false, router);
+        expect(mockAdapterPermitJoin.mock.calls).toStrictEqual([[254, 129], [0, 129]]);
+        expect(events.permitJoinChanged[1]).toStrictEqual({permitted: false, reason: 'manual', timeout: undefined, windows: []});
+    });
+
+    it('Controller schedules join windows', async () => {
+        await controller.start();
+        await mockAdapterEvents['deviceJoined']({networkAddress: 129, ieeeAddr: '0x129'});
+        const router = controller.getDeviceByIeeeAddr('0x129');
+        const id = controller.scheduleJoinWindow(new Date(Date.now() + 50), 30, router);
+        const cancelled = controller.scheduleJoinWindow(new Date(Date.now() + 50), 30);
+        expect(controller.getScheduledJoinWindows()).toStrictEqual([
+            {id, start: new Date(Date.now() + 50), time: 30, ieeeAddr: '0x129'},
+            {id: cancelled, start: new Date(Date.now() + 50), time: 30, ieeeAddr: null},
+        ]);
+        expect(controller.cancelScheduledJoinWindow(cancelled)).toBe(true);
+        expect(controller.cancelScheduledJoinWindow(cancelled)).toBe(false);
+        expect(() => controller.scheduleJoinWindow(new Date(Date.now() + 0x80000000), 30))
+            .toThrow('Join windows can only be scheduled up to 2147483647 ms ahead');
+
+        await new Promise((resolve) => setTimeout(resolve, 100));
+        expect(mockAdapterPermitJoin.mock.calls).toStrictEqual([[254, 129]]);
+        expect(events.permitJoinChanged).toStrictEqual([
+            {permitted: true, reason: 'scheduled', timeout: 30, windows: [{ieeeAddr: '0x129', timeout: 30}]},
+        ]);
+        expect(controller.getScheduledJoinWindows()).toStrictEqual([]);
+    });
+
+    it('Controller cancels scheduled join windows on stop', async () => {
+        await controller.start();
+        controller.scheduleJoinWindow(new Date(Date.now() + 50), 30);
+        await controller.stop();
+        mockAdapterPermitJoin.mockClear();
+        await new Promise((resolve) => setTimeout(resolve, 100));
+        expect(mockAdapterPermitJoin).toHaveBeenCalledTimes(0);
+        expect(controller.getScheduledJoinWindows()).toStrictEqual([]);
     });
 
     it('Shouldnt create backup when adapter doesnt support it', async () => {
@@ -1086,6 +1509,87 @@ describe('Controller', () => {
         expect(fs.existsSync(options.backupPath)).toBeFalsy();
     });
 
+    it('Rotate network key with given key', async () => {
+        mockAdapterSupportsBackup.mockReturnValue(true);
+        await controller.start();
+        if (fs.existsSync(options.backupPath)) fs.unlinkSync(options.backupPath);
+        const key = [0x10, 0x11, 0x12, 0x13, 0x14, 0x15, 0x16, 0x17, 0x18, 0x19, 0x1A, 0x1B, 0x1C, 0x1D, 0x1E, 0x1F];
+        expect(await controller.rotateNetworkKey(key)).toStrictEqual(key);
+        expect(mockAdapterRotateNetworkKey).toHaveBeenCalledTimes(1);
+        expect(mockAdapterRotateNetworkKey).toHaveBeenCalledWith(Buffer.from(key));
+        // @ts-ignore
+        expect(controller.options.network.networkKey).toStrictEqual(key);
+        expect(fs.existsSync(options.backupPath)).toBeTruthy();
+    });
+
+    it('Rotate network key with generated key', async () => {
+        await controller.start();
+        const key = await controller.rotateNetworkKey();
+        expect(key.length).toBe(16);
+        expect(mockAdapterRotateNetworkKey).toHaveBeenCalledWith(Buffer.from(key));
+    });
+
+    it('Rotate network key with invalid key', async () => {
+        await controller.start();
+        await expect(controller.rotateNetworkKey([1, 2, 3])).rejects.toThrowError('Network key must be 16 digits long, got 3.');
+        expect(mockAdapterRotateNetworkKey).toHaveBeenCalledTimes(0);
+    });
+
+    it('Rotate network key with key containing non byte values', async () => {
+        await controller.start();
+        const key = [0x10, 0x11, 0x12, 0x13, 0x14, 0x15, 0x16, 0x17, 0x18, 0x19, 0x1A, 0x1B, 0x1C, 0x1D, 0x1E, 0x1F];
+        for (const value of [256, -1, 1.5]) {
+            await expect(controller.rotateNetworkKey([...key.slice(1), value])).rejects.toThrowError('Network key must only contain bytes (0 - 255).');
+        }
+        expect(mockAdapterRotateNetworkKey).toHaveBeenCalledTimes(0);
+    });
+
+    it('Rotate network key fails when adapter fails', async () => {
+        await controller.start();
+        mockAdapterRotateNetworkKey.mockRejectedValueOnce(new Error('Network key rotation is not supported'));
+        // @ts-ignore
+        const key = [...controller.options.network.networkKey];
+        await expect(controller.rotateNetworkKey()).rejects.toThrowError('Network key rotation is not supported');
+        // @ts-ignore
+        expect(controller.options.network.networkKey).toStrictEqual(key);
+    });
+
+    it('Change channel', async () => {
+        mockAdapterSupportsBackup.mockReturnValue(true);
+        await controller.start();
+        expect(await controller.getNetworkParameters()).toStrictEqual({panID: 1, extendedPanID: 3, channel: 15});
+        if (fs.existsSync(options.backupPath)) fs.unlinkSync(options.backupPath);
+        mockAdapterGetNetworkParameters.mockReturnValueOnce({panID: 1, extendedPanID: 3, channel: 25});
+        await controller.changeChannel(25);
+        expect(mockAdapterChangeChannel).toHaveBeenCalledTimes(1);
+        expect(mockAdapterChangeChannel).toHaveBeenCalledWith(25);
+        // @ts-ignore
+        expect(controller.options.network.channelList).toStrictEqual([25]);
+        expect(await controller.getNetworkParameters()).toStrictEqual({panID: 1, extendedPanID: 3, channel: 25});
+        expect(fs.existsSync(options.backupPath)).toBeTruthy();
+    });
+
+    it('Change channel to invalid channel', async () => {
+        await controller.start();
+        await expect(controller.changeChannel(27)).rejects.toThrowError(`'27' is an invalid channel, use a channel between 11 - 26.`);
+        await expect(controller.changeChannel(10)).rejects.toThrowError(`'10' is an invalid channel, use a channel between 11 - 26.`);
+        expect(mockAdapterChangeChannel).toHaveBeenCalledTimes(0);
+    });
+
+    it('Scan channels', async () => {
+        await controller.start();
+        expect(await controller.scanChannels([11, 25], 2)).toStrictEqual([{channel: 11, energy: 11}, {channel: 25, energy: 25}]);
+        expect(mockAdapterScanChannels).toHaveBeenCalledWith(0, [11, 25], 2);
+    });
+
+    it('Scan channels with invalid arguments', async () => {
+        await controller.start();
+        await expect(controller.scanChannels([11, 27], 2)).rejects.toThrowError(`'27' is an invalid channel, use a channel between 11 - 26.`);
+        await expect(controller.scanChannels([11], 6)).rejects.toThrowError('Scan duration exponent must be between 0 - 5, got 6.');
+        await expect(controller.scanChannels([11], -1)).rejects.toThrowError('Scan duration exponent must be between 0 - 5, got -1.');
+        expect(mockAdapterScanChannels).toHaveBeenCalledTimes(0);
+    });
+
     it('Soft reset', async () => {
         await controller.start();
         await controller.reset('soft');
@@ -1107,6 +1611,141 @@ describe('Controller', () => {
         expect(events.adapterDisconnected.length).toBe(1);
     });
 
+    it('Adapter reconnects after disconnect', async () => {
+        controller = new Controller({...options, reconnect: {maxAttempts: 3, initialDelay: 1000, maxDelay: 1500}});
+        controller.on('adapterDisconnected', () => events.adapterDisconnected.push(1));
+        const reconnected = [];
+        controller.on('adapterReconnected', () => reconnected.push(1));
+        await controller.start();
+        await mockAdapterEvents['deviceJoined']({networkAddress: 129, ieeeAddr: '0x129'});
+        await mockAdapterEvents['deviceJoined']({networkAddress: 170, ieeeAddr: '0x170'});
+        const router = controller.getDeviceByIeeeAddr('0x129');
+        const endDevice = controller.getDeviceByIeeeAddr('0x170');
+        const routerCheckin = jest.spyOn(router, 'implicitCheckin');
+        const endDeviceCheckin = jest.spyOn(endDevice, 'implicitCheckin');
+        Wait.mockClear();
+        mockAdapterStart.mockClear();
+        mockAdapterStart.mockRejectedValueOnce(new Error('Failed to open port')).mockResolvedValueOnce('resumed');
+
+        await mockAdapterEvents['disconnected']();
+        expect(Wait).toHaveBeenNthCalledWith(1, 1000);
+        expect(Wait).toHaveBeenNthCalledWith(2, 1500);
+        expect(mockAdapterStart).toBeCalledTimes(2);
+        expect(mockAdapterStop).toBeCalledTimes(2);
+        expect(routerCheckin).toBeCalledTimes(1);
+        expect(endDeviceCheckin).toBeCalledTimes(0);
+        expect(reconnected.length).toBe(1);
+        expect(events.adapterDisconnected.length).toBe(0);
+        expect(ZStackAdapter).toHaveBeenLastCalledWith(
+            expect.anything(), expect.anything(), expect.anything(), {disableLED: false, preventReset: true}, undefined,
+        );
+    });
+
+    it('Adapter reconnect gives up after max attempts', async () => {
+        controller = new Controller({...options, reconnect: {maxAttempts: 2, initialDelay: 1000, maxDelay: 5000}});
+        controller.on('adapterDisconnected', () => events.adapterDisconnected.push(1));
+        await controller.start();
+        mockAdapterStart.mockClear();
+        mockAdapterStart.mockRejectedValueOnce(new Error('Failed')).mockRejectedValueOnce(new Error('Failed'));
+
+        await mockAdapterEvents['disconnected']();
+        expect(mockAdapterStart).toBeCalledTimes(2);
+        expect(mockAdapterStop).toBeCalledTimes(3);
+        expect(events.adapterDisconnected.length).toBe(1);
+    });
+
+    it('Adapter reconnect gives up when a new network is formed', async () => {
+        controller = new Controller({...options, reconnect: {maxAttempts: 3, initialDelay: 1000, maxDelay: 5000}});
+        controller.on('adapterDisconnected', () => events.adapterDisconnected.push(1));
+        await controller.start();
+        mockAdapterStart.mockClear();
+        mockAdapterStart.mockResolvedValueOnce('reset');
+
+        await mockAdapterEvents['disconnected']();
+        expect(mockAdapterStart).toBeCalledTimes(1);
+        expect(mockAdapterStop).toBeCalledTimes(2);
+        expect(events.adapterDisconnected.length).toBe(1);
+    });
+
+    it('Adapter reconnect stops when controller is stopped', async () => {
+        controller = new Controller({...options, reconnect: {maxAttempts: 3, initialDelay: 1000, maxDelay: 5000}});
+        controller.on('adapterDisconnected', () => events.adapterDisconnected.push(1));
+        await controller.start();
+        mockAdapterStart.mockClear();
+        Wait.mockImplementationOnce(async () => {
+            await controller.stop();
+        });
+
+        await mockAdapterEvents['disconnected']();
+        expect(mockAdapterStart).toBeCalledTimes(0);
+        expect(events.adapterDisconnected.length).toBe(0);
+    });
+
+    it('Adapter reconnect is stopped when controller is stopped while starting the adapter', async () => {
+        controller = new Controller({...options, reconnect: {maxAttempts: 3, initialDelay: 1000, maxDelay: 5000}});
+        controller.on('adapterDisconnected', () => events.adapterDisconnected.push(1));
+        const reconnected = [];
+        controller.on('adapterReconnected', () => reconnected.push(1));
+        await controller.start();
+        mockAdapterStart.mockClear();
+        mockAdapterPermitJoin.mockClear();
+        let stopped;
+        mockAdapterStart.mockImplementationOnce(async () => {
+            stopped = controller.stop();
+            return 'resumed';
+        });
+
+        await mockAdapterEvents['disconnected']();
+        await stopped;
+        expect(mockAdapterStart).toBeCalledTimes(1);
+        expect(mockAdapterStop).toBeCalledTimes(2);
+        expect(mockAdapterPermitJoin).toBeCalledTimes(0);
+        expect(reconnected.length).toBe(0);
+        expect(events.adapterDisconnected.length).toBe(0);
+    });
+
+    it('Adapter reconnect is stopped when controller is stopped while the adapter fails to start', async () => {
+        controller = new Controller({...options, reconnect: {maxAttempts: 3, initialDelay: 1000, maxDelay: 5000}});
+        controller.on('adapterDisconnected', () => events.adapterDisconnected.push(1));
+        await controller.start();
+        mockAdapterStart.mockClear();
+        let stopped;
+        mockAdapterStart.mockImplementationOnce(async () => {
+            stopped = controller.stop();
+            throw new Error('Port closed');
+        });
+
+        await mockAdapterEvents['disconnected']();
+        await stopped;
+        expect(mockAdapterStart).toBeCalledTimes(1);
+        expect(mockAdapterStop).toBeCalledTimes(2);
+        expect(events.adapterDisconnected.length).toBe(0);
+    });
+
+    it('Adapter disconnect closes the join windows', async () => {
+        // Timers of controllers of previous tests would call the adapter as well
+        jest.clearAllTimers();
+        controller = new Controller({...options, reconnect: {maxAttempts: 3, initialDelay: 1000, maxDelay: 5000}});
+        controller.on('permitJoinChanged', (data) => events.permitJoinChanged.push(data));
+        await controller.start();
+        await controller.permitJoin(true, undefined, 10);
+        mockAdapterPermitJoin.mockClear();
+        Wait.mockImplementationOnce(async () => {
+            jest.advanceTimersByTime(300 * 1000);
+            await flushPromises();
+            await controller.stop();
+        });
+
+        await mockAdapterEvents['disconnected']();
+        jest.advanceTimersByTime(300 * 1000);
+        await flushPromises();
+        expect(mockAdapterPermitJoin).toBeCalledTimes(0);
+        expect(controller.getPermitJoin()).toBe(false);
+        expect(events.permitJoinChanged[events.permitJoinChanged.length - 1]).toStrictEqual(
+            {permitted: false, reason: 'adapter_disconnected', timeout: undefined, windows: []},
+        );
+    });
+
     it('Device joins another time with different network address', async () => {
         await controller.start();
         await mockAdapterEvents['deviceJoined']({networkAddress: 129, ieeeAddr: '0x129'});
@@ -2304,13 +2943,13 @@ describe('Controller', () => {
         await controller.start();
         await mockAdapterEvents['deviceJoined']({networkAddress: 140, ieeeAddr: '0x129'});
         let error;
-        try {await Device.create('Router', '0x129', 140, null, null, null, null, null)} catch (e) {error = e}
+        try {await Device.create(controller['registry'], 'Router', '0x129', 140, null, null, null, null, null)} catch (e) {error = e}
         expect(error).toStrictEqual(new Error("Device with ieeeAddr '0x129' already exists"));
     });
 
     it('Should allow to set type', async () => {
         await controller.start();
-        const device = await Device.create('Router', '0x129', 140, null, null, null, null, null, []);
+        const device = await Device.create(controller['registry'], 'Router', '0x129', 140, null, null, null, null, null, []);
         device.type = "EndDevice";
         expect(device.type).toStrictEqual("EndDevice");
     });
@@ -2395,6 +3034,15 @@ describe('Controller', () => {
         ]});
     });
 
+    it('Device scan channels', async () => {
+        await controller.start();
+        await mockAdapterEvents['deviceJoined']({networkAddress: 140, ieeeAddr: '0x140'});
+        const device = controller.getDeviceByIeeeAddr('0x140');
+        const result = await device.scanChannels([15], 4);
+        expect(result).toStrictEqual([{channel: 15, energy: 155}]);
+        expect(mockAdapterScanChannels).toHaveBeenCalledWith(140, [15], 4);
+    });
+
     it('Device ping', async () => {
         await controller.start();
         await mockAdapterEvents['deviceJoined']({networkAddress: 176, ieeeAddr: '0x176'});
@@ -2419,7 +3067,7 @@ describe('Controller', () => {
         const device = controller.getDeviceByIeeeAddr('0x174');
         await device.interview();
         const endpoint = device.getEndpoint(1);
-        const coordinator = Device.byType('Coordinator')[0];
+        const coordinator = controller.getDevicesByType('Coordinator')[0];
         const target = coordinator.getEndpoint(1);
         expect(deepClone(endpoint.binds)).toStrictEqual(deepClone([{cluster: Zcl.Utils.getCluster('genPollCtrl'), target}]));
         expect(device.defaultSendRequestWhen).toEqual('fastpoll');
@@ -2473,7 +3121,7 @@ describe('Controller', () => {
         const device = controller.getDeviceByIeeeAddr('0x129');
         await device.interview();
         const endpoint = device.getEndpoint(1);
-        const coordinator = Device.byType('Coordinator')[0];
+        const coordinator = controller.getDevicesByType('Coordinator')[0];
         const target = coordinator.getEndpoint(1);
         expect(deepClone(endpoint.binds)).toStrictEqual([]);
         expect(device.defaultSendRequestWhen).toEqual('immediate');
@@ -2588,11 +3236,11 @@ describe('Controller', () => {
     it('Group bind by number (should create group)', async () => {
         await controller.start();
         await mockAdapterEvents['deviceJoined']({networkAddress: 129, ieeeAddr: '0x129'});
-        expect(Group.byGroupID(11)).toBeUndefined();
+        expect(controller.getGroupByID(11)).toBeUndefined();
         const device = controller.getDeviceByIeeeAddr('0x129');
         const endpoint = device.getEndpoint(1);
         await endpoint.bind('genPowerCfg', 11);
-        const group = Group.byGroupID(11);
+        const group = controller.getGroupByID(11);
         expect(deepClone(endpoint.binds)).toStrictEqual(deepClone([{cluster: Zcl.Utils.getCluster(1), target: group}]));
         expect(mockAdapterBind).toBeCalledWith(129, "0x129", 1, 1, 11, "group", null);
     });
@@ -2600,11 +3248,11 @@ describe('Controller', () => {
     it('Group addBinding by number (should create group)', async () => {
         await controller.start();
         await mockAdapterEvents['deviceJoined']({networkAddress: 129, ieeeAddr: '0x129'});
-        expect(Group.byGroupID(11)).toBeUndefined();
+        expect(controller.getGroupByID(11)).toBeUndefined();
         const device = controller.getDeviceByIeeeAddr('0x129');
         const endpoint = device.getEndpoint(1);
         endpoint.addBinding('genBasic', 11);
-        const group = Group.byGroupID(11);
+        const group = controller.getGroupByID(11);
         expect(deepClone(endpoint.binds)).toStrictEqual(deepClone([{cluster: Zcl.Utils.getCluster(0), target: group}]));
     });
 
@@ -3344,7 +3992,7 @@ describe('Controller', () => {
     it('Shouldnt load device from group databaseentry', async () => {
         expect(() => {
             // @ts-ignore
-            Device.fromDatabaseEntry({type: 'Group', endpoints: []})
+            Device.fromDatabaseEntry(controller['registry'], {type: 'Group', endpoints: []})
         }).toThrowError('Cannot load device from group')
     });
 
@@ -3606,6 +4254,134 @@ describe('Controller', () => {
         
     });
 
+    it('Adapter discover coordinators', async () => {
+        const stop = jest.fn();
+        const find = jest.fn().mockImplementation((opts: BrowserConfig, onup: (service: Partial<Service>) => void) => {
+            if (opts.type === 'slzb-06') {
+                onup({name: 'kitchen', port: 6638, addresses: ['fe80::1', '192.168.1.10'], txt: {radio_type: 'znp', baud_rate: '115200'}});
+                onup({name: 'kitchen', port: 6638, addresses: ['192.168.1.10'], txt: {radio_type: 'znp', baud_rate: '115200'}});
+                onup({name: 'broken', port: 6638, addresses: ['192.168.1.11'], txt: {}});
+            } else if (opts.type === 'uzg-01') {
+                onup({name: 'garage', port: 6638, addresses: ['192.168.1.12'], txt: {radio_type: 'ezsp', baud_rate: '230400'}});
+                onup({name: 'attic', port: 6638, addresses: ['fe80::2'], txt: {radio_type: 'ezsp', baud_rate: '230400'}});
+            }
+
+            return {stop};
+        });
+        Bonjour.prototype.find = find;
+
+        const coordinators = await Adapter.discoverCoordinators();
+        expect(find.mock.calls.map((c) => c[0].type)).toStrictEqual(['slzb-06', 'slzb-07', 'uzg-01', 'zigstar_gw', 'tube_zb_gw']);
+        expect(stop).toHaveBeenCalledTimes(5);
+        expect(Wait).toHaveBeenCalledWith(2000);
+        expect(coordinators).toStrictEqual([
+            {name: 'kitchen', type: 'slzb-06', adapter: 'zstack', baudRate: 115200, address: '192.168.1.10', port: 6638, path: 'tcp://192.168.1.10:6638'},
+            {name: 'garage', type: 'uzg-01', adapter: 'ezsp', baudRate: 230400, address: '192.168.1.12', port: 6638, path: 'tcp://192.168.1.12:6638'},
+            {name: 'attic', type: 'uzg-01', adapter: 'ezsp', baudRate: 230400, address: 'fe80::2', port: 6638, path: 'tcp://fe80::2:6638'},
+        ]);
+    });
+
+    it('Adapter mdns select coordinator by name', async () => {
+        const mockLogger: LoggerStub = {debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn()};
+        Bonjour.prototype.find = jest.fn().mockImplementation((opts: BrowserConfig, onup: (service: Partial<Service>) => void) => {
+            onup({name: 'Zigbee kitchen', port: 6638, addresses: ['192.168.1.10'], txt: {radio_type: 'znp', baud_rate: '115200'}});
+            onup({name: 'Zigbee garage', port: 6639, addresses: ['192.168.1.12'], txt: {radio_type: 'znp', baud_rate: '115200'}});
+            return {stop: jest.fn()};
+        });
+
+        await Adapter.create(null, {path: 'mdns://slzb-06/Zigbee%20garage', baudRate: 100, rtscts: false, adapter: null}, null, null, mockLogger);
+        expect(Bonjour.prototype.find).toHaveBeenCalledWith({type: 'slzb-06'}, expect.any(Function));
+        expect(ZStackAdapter).toHaveBeenCalledWith(null, {"baudRate": 115200, "path": "tcp://192.168.1.12:6639", "rtscts": false, adapter: 'zstack'}, null, null, mockLogger);
+    });
+
+    it('Adapter mdns select coordinator by name not found', async () => {
+        const mockLogger: LoggerStub = {debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn()};
+        Bonjour.prototype.find = jest.fn().mockImplementation((opts: BrowserConfig, onup: (service: Partial<Service>) => void) => {
+            onup({name: 'Zigbee kitchen', port: 6638, addresses: ['192.168.1.10'], txt: {radio_type: 'znp', baud_rate: '115200'}});
+            return {stop: jest.fn()};
+        });
+
+        await expect(Adapter.create(null, {path: 'mdns://slzb-06/attic', baudRate: 100, rtscts: false, adapter: null}, null, null, mockLogger))
+            .rejects.toThrow(new Error(`Coordinator [slzb-06] named 'attic' not found after timeout of 2000ms, found: 'Zigbee kitchen'`));
+
+        Bonjour.prototype.find = jest.fn().mockReturnValue({stop: jest.fn()});
+        await expect(Adapter.create(null, {path: 'mdns://slzb-06/attic', baudRate: 100, rtscts: false, adapter: null}, null, null, mockLogger))
+            .rejects.toThrow(new Error(`Coordinator [slzb-06] named 'attic' not found after timeout of 2000ms, found: none`));
+    });
+
+    it('Adapter probe adapters', async () => {
+        const {EZSPAdapter} = await import('../src/adapter/ezsp/adapter');
+        const ezspIsValidPath = jest.spyOn(EZSPAdapter, 'isValidPath');
+        const ezspProbe = jest.spyOn(EZSPAdapter, 'probe');
+        // ttyUSB0 has generic IDs matching zstack and deconz, ttyACM0 matches zigate
+        const probed = [];
+        const mock = (name: string, isValidPath: jest.Mock | jest.SpyInstance, probe: jest.Mock | jest.SpyInstance,
+            validPaths: string[], answeringPaths: string[]): void => {
+            isValidPath.mockImplementation(async (path) => validPaths.includes(path));
+            probe.mockImplementation(async (path) => {
+                probed.push(`${path} ${name}`);
+                if (!answeringPaths.includes(path)) throw new Error('timeout');
+                return `${name} 1.0`;
+            });
+        };
+        mock('zstack', mockZStackAdapterIsValidPath, mockZStackAdapterProbe, ['/dev/ttyUSB0'], []);
+        mock('deconz', mockDeconzAdapterIsValidPath, mockDeconzAdapterProbe, ['/dev/ttyUSB0'], ['/dev/ttyUSB0']);
+        mock('zigate', mockZiGateAdapterIsValidPath, mockZiGateAdapterProbe, ['/dev/ttyACM0'], []);
+        mock('ezsp', ezspIsValidPath, ezspProbe, [], ['/dev/ttyUSB1']);
+
+        const report = await Adapter.probeAdapters(['/dev/ttyACM0', '/dev/ttyS0', '/dev/ttyUSB1', '/dev/ttyUSB0']);
+        expect(report).toStrictEqual([
+            {path: '/dev/ttyUSB0', adapter: 'deconz', firmwareVersion: 'deconz 1.0', confidence: 'high'},
+            {path: '/dev/ttyUSB1', adapter: 'ezsp', firmwareVersion: 'ezsp 1.0', confidence: 'medium'},
+            {path: '/dev/ttyACM0', adapter: 'zigate', firmwareVersion: null, confidence: 'low'},
+        ]);
+        // Adapters matching the USB IDs are probed first
+        expect(probed.filter((p) => p.startsWith('/dev/ttyACM0 '))[0]).toBe('/dev/ttyACM0 zigate');
+        expect(probed.filter((p) => p.startsWith('/dev/ttyUSB0 '))).toStrictEqual(['/dev/ttyUSB0 zstack', '/dev/ttyUSB0 deconz']);
+        expect(probed.filter((p) => p.startsWith('/dev/ttyUSB1 '))).toStrictEqual(['/dev/ttyUSB1 zstack', '/dev/ttyUSB1 ezsp']);
+        ezspIsValidPath.mockRestore();
+        ezspProbe.mockRestore();
+    });
+
+    it('Adapter probe adapters on all serial ports', async () => {
+        const {EZSPAdapter} = await import('../src/adapter/ezsp/adapter');
+        const list = jest.spyOn(SerialPort, 'list').mockResolvedValue([{path: '/dev/ttyUSB0'}] as PortInfo[]);
+        const ezspIsValidPath = jest.spyOn(EZSPAdapter, 'isValidPath').mockRejectedValue(new Error('failed'));
+        const ezspProbe = jest.spyOn(EZSPAdapter, 'probe').mockResolvedValue('7.1.0.0 build 1 (EZSP v9)');
+        mockZStackAdapterProbe.mockRejectedValue(new Error('timeout'));
+
+        expect(await Adapter.probeAdapters(undefined, true)).toStrictEqual([
+            {path: '/dev/ttyUSB0', adapter: 'ezsp', firmwareVersion: '7.1.0.0 build 1 (EZSP v9)', confidence: 'medium'},
+        ]);
+        expect(mockDeconzAdapterProbe).not.toHaveBeenCalled();
+        list.mockRestore();
+        ezspIsValidPath.mockRestore();
+        ezspProbe.mockRestore();
+    });
+
+    it('Adapter probe adapters only on serial ports of known adapters by default', async () => {
+        const {EZSPAdapter} = await import('../src/adapter/ezsp/adapter');
+        const list = jest.spyOn(SerialPort, 'list').mockResolvedValue([{path: '/dev/ttyS0'}, {path: '/dev/ttyUSB0'}] as PortInfo[]);
+        const ezspIsValidPath = jest.spyOn(EZSPAdapter, 'isValidPath').mockResolvedValue(false);
+        const ezspProbe = jest.spyOn(EZSPAdapter, 'probe').mockRejectedValue(new Error('timeout'));
+        mockZStackAdapterIsValidPath.mockImplementation(async (path) => path === '/dev/ttyUSB0');
+        mockZStackAdapterProbe.mockResolvedValue('zStack3x0 20210708');
+
+        expect(await Adapter.probeAdapters()).toStrictEqual([
+            {path: '/dev/ttyUSB0', adapter: 'zstack', firmwareVersion: 'zStack3x0 20210708', confidence: 'high'},
+        ]);
+        expect(mockZStackAdapterProbe).toHaveBeenCalledTimes(1);
+        expect(mockZStackAdapterProbe).toHaveBeenCalledWith('/dev/ttyUSB0');
+        for (const probe of [mockDeconzAdapterProbe, mockZiGateAdapterProbe, ezspProbe]) {
+            expect(probe).not.toHaveBeenCalledWith('/dev/ttyS0');
+        }
+        mockZStackAdapterIsValidPath.mockReturnValue(true);
+        mockZStackAdapterProbe.mockReset();
+        list.mockRestore();
+        ezspIsValidPath.mockRestore();
+        ezspProbe.mockRestore();
+    });
+
     it('Adapter create auto detect nothing found', async () => {
         mockZStackAdapterIsValidPath.mockReturnValueOnce(false);
         mockZStackAdapterAutoDetectPath.mockReturnValueOnce(null);
@@ -3646,7 +4422,7 @@ describe('Controller', () => {
         mockDeconzAdapterAutoDetectPath.mockReturnValueOnce('/dev/test');
         let error;
         try {await Adapter.create(null, {path: null, baudRate: 100, rtscts: false, adapter: 'efr'}, null, null)} catch (e) {error = e;}
-        expect(error).toStrictEqual(new Error(`Adapter 'efr' does not exists, possible options: zstack, deconz, zigate, ezsp`));
+        expect(error).toStrictEqual(new Error(`Adapter 'efr' does not exists, possible options: zstack, deconz, zigate, ezsp, virtual`));
     });
 
     it('Emit read from device', async () => {
@@ -4408,8 +5184,8 @@ describe('Controller', () => {
         expect(mocksendZclFrameToAll).toHaveBeenCalledTimes(1);
         expect(controller.getDeviceByIeeeAddr('0x00000000017171f8')).toBeUndefined(); 
 
-        expect(Device.byIeeeAddr('0x00000000017171f8')).toBeUndefined();
-        expect(deepClone(Device.byIeeeAddr('0x00000000017171f8', true))).toStrictEqual({"ID":2,"_events":{},"_eventsCount":0,"_pendingRequestTimeout":0,"_defaultSendRequestWhen": "immediate","_skipDefaultResponse": false,"_skipTimeResponse":false,"_endpoints":[{"ID":242,"_binds":[],"_configuredReportings":[],"_events":{},"_eventsCount":0,"clusters":{},"deviceIeeeAddress":"0x00000000017171f8","deviceNetworkAddress":0x71f8,"inputClusters":[],"meta":{},"outputClusters":[],"pendingRequests":new Object, "sendInProgress": false}],"_ieeeAddr":"0x00000000017171f8","_interviewCompleted":false,"_interviewing":false,"_lastSeen":150,"_linkquality":50,"_manufacturerID":null,"_modelID":"GreenPower_2","_networkAddress":0x71f8,"_type":"GreenPower","_deleted":true,"meta":{}});
+        expect(controller.getDeviceByIeeeAddr('0x00000000017171f8')).toBeUndefined();
+        expect(deepClone(Device.byIeeeAddr(controller['registry'], '0x00000000017171f8', true))).toStrictEqual({"ID":2,"_events":{},"_eventsCount":0,"_pendingRequestTimeout":0,"_defaultSendRequestWhen": "immediate","_skipDefaultResponse": false,"_skipTimeResponse":false,"_endpoints":[{"ID":242,"_binds":[],"_configuredReportings":[],"_events":{},"_eventsCount":0,"clusters":{},"deviceIeeeAddress":"0x00000000017171f8","deviceNetworkAddress":0x71f8,"inputClusters":[],"meta":{},"outputClusters":[],"pendingRequests":new Object, "sendInProgress": false}],"_ieeeAddr":"0x00000000017171f8","_interviewCompleted":false,"_interviewing":false,"_lastSeen":150,"_linkquality":50,"_manufacturerID":null,"_modelID":"GreenPower_2","_networkAddress":0x71f8,"_type":"GreenPower","_deleted":true,"meta":{}});
 
         // Re-add device
         await mockAdapterEvents['zclData']({
@@ -4421,7 +5197,7 @@ describe('Controller', () => {
             groupID: 0,
         });
 
-        expect(deepClone(Device.byIeeeAddr('0x00000000017171f8'))).toStrictEqual({"ID":2,"_events":{},"_eventsCount":0,"_pendingRequestTimeout":0,"_defaultSendRequestWhen": "immediate","_skipDefaultResponse": false,"_skipTimeResponse":false,"_endpoints":[{"ID":242,"_binds":[],"_configuredReportings":[],"_events":{},"_eventsCount":0,"clusters":{},"deviceIeeeAddress":"0x00000000017171f8","deviceNetworkAddress":0x71f8,"inputClusters":[],"meta":{},"outputClusters":[],"pendingRequests":new Object, "sendInProgress": false}],"_ieeeAddr":"0x00000000017171f8","_interviewCompleted":true,"_interviewing":false,"_lastSeen":150,"_linkquality":50,"_manufacturerID":null,"_modelID":"GreenPower_2","_networkAddress":0x71f8,"_type":"GreenPower","_deleted":false,"meta":{}});
+        expect(deepClone(controller.getDeviceByIeeeAddr('0x00000000017171f8'))).toStrictEqual({"ID":2,"_events":{},"_eventsCount":0,"_pendingRequestTimeout":0,"_defaultSendRequestWhen": "immediate","_skipDefaultResponse": false,"_skipTimeResponse":false,"_endpoints":[{"ID":242,"_binds":[],"_configuredReportings":[],"_events":{},"_eventsCount":0,"clusters":{},"deviceIeeeAddress":"0x00000000017171f8","deviceNetworkAddress":0x71f8,"inputClusters":[],"meta":{},"outputClusters":[],"pendingRequests":new Object, "sendInProgress": false}],"_ieeeAddr":"0x00000000017171f8","_interviewCompleted":true,"_interviewing":false,"_lastSeen":150,"_linkquality":50,"_manufacturerID":null,"_modelID":"GreenPower_2","_networkAddress":0x71f8,"_type":"GreenPower","_deleted":false,"meta":{}});
     });
 
     it('Get input/ouptut clusters', async () => {
@@ -1,5 +1,5 @@
 import "regenerator-runtime/runtime";
-import {IsNumberArray, Wait, Queue, Waitress, AssertString} from '../src/utils';
+import {IsNumberArray, Wait, Queue, Waitress, AssertString, InstallCodeUtils} from '../src/utils';
 
 describe('Utils', () => {
     it('IsNumberArray valid', () => {
@@ -148,4 +148,21 @@ describe('Utils', () => {
         expect(finished).toEqual([4, 1, 2, 3]);
         expect(queue.count()).toBe(5);
     });
-});
\ No newline at end of file
+
+    it('Install code to link key', () => {
+        // Example from the Zigbee Smart Energy specification
+        const installCode = Buffer.from('83FED3407A939723A5C639B26916D505C3B5', 'hex');
+        expect(InstallCodeUtils.toLinkKey(installCode)).toStrictEqual(Buffer.from('66B6900981E1EE3CA4206B6B861C02BB', 'hex'));
+    });
+
+    it('Install code to link key with derived key', () => {
+        const key = Buffer.from('66B6900981E1EE3CA4206B6B861C02BB', 'hex');
+        expect(InstallCodeUtils.toLinkKey(key)).toBe(key);
+    });
+
+    it('Install code to link key with invalid install code', () => {
+        expect(() => InstallCodeUtils.toLinkKey(Buffer.alloc(12))).toThrowError("Wrong install code length '12'");
+        const installCode = Buffer.from('83FED3407A939723A5C639B26916D505C3B6', 'hex');
+        expect(() => InstallCodeUtils.toLinkKey(installCode)).toThrowError('Install code CRC is invalid');
+    });
+});
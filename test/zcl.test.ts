@@ -1626,6 +1626,41 @@ describe('Zcl', () => {
         expect(zoneConfigFrame.toBuffer()).toStrictEqual(Buffer.from([0x11, 0x01, 0xf0, 0x08, 0x84, 0x2b, 0x01, 0x98, 0x2b, 0x02, 0xac, 0x2b, 0x03, 0xc0, 0x2b, 0x04, 0xd4, 0x2b, 0x05, 0xe8, 0x2b, 0x06, 0xfc, 0x2b, 0x07, 0x10, 0x2c, 0x08]));
     });
 
+    it('ZclFrame parse touchlink scan response with sub-device info', () => {
+        const buffer = Buffer.from([
+            0x19, 0x05, 0x01, 0x78, 0x56, 0x34, 0x12, 0x02, 0x05, 0x11, 0x10, 0x00, 0x01, 0x00, 0x00, 0x00,
+            0x07, 0x06, 0x05, 0x04, 0x03, 0x02, 0x01, 0x00, 0x00, 0x0f, 0x62, 0x1a, 0xfe, 0xff, 0x01, 0x00,
+            0x0b, 0x5e, 0xc0, 0x00, 0x01, 0x01, 0x00,
+        ]);
+        const frame = Zcl.ZclFrame.fromBuffer(Zcl.Utils.getCluster("touchlink").ID, buffer);
+        expect(frame.Payload).toStrictEqual({
+            transactionID: 0x12345678, rssiCorrection: 2, zigbeeInformation: 5, touchlinkInformation: 0x11,
+            keyBitmask: 0x10, responseID: 1, extendedPanID: '0x0001020304050607', networkUpdateID: 0, logicalChannel: 15,
+            panID: 0x1a62, networkAddress: 0xfffe, numberOfSubDevices: 1, totalGroupIdentifiers: 0,
+            endpointID: 11, profileID: 0xc05e, deviceID: 0x0100, version: 1, groupIdentifierCount: 0,
+        });
+    });
+
+    it('ZclFrame parse touchlink device information response', () => {
+        const buffer = Buffer.from([
+            0x19, 0x05, 0x03, 0x78, 0x56, 0x34, 0x12, 0x02, 0x00, 0x02,
+            0x07, 0x06, 0x05, 0x04, 0x03, 0x02, 0x01, 0x00, 0x0b, 0x5e, 0xc0, 0x10, 0x02, 0x02, 0x00, 0x00,
+            0x07, 0x06, 0x05, 0x04, 0x03, 0x02, 0x01, 0x00, 0x0c, 0x5e, 0xc0, 0x00, 0x01, 0x02, 0x01, 0x01,
+        ]);
+        const frame = Zcl.ZclFrame.fromBuffer(Zcl.Utils.getCluster("touchlink").ID, Buffer.from(buffer));
+        expect(frame.Payload).toStrictEqual({
+            transactionID: 0x12345678, numberOfSubDevices: 2, startIndex: 0, deviceInfoRecordCount: 2,
+            deviceInfoRecords: [
+                {ieeeAddr: '0x0001020304050607', endpointID: 11, profileID: 0xc05e, deviceID: 0x0210, version: 2, groupIdentifierCount: 0, sort: 0},
+                {ieeeAddr: '0x0001020304050607', endpointID: 12, profileID: 0xc05e, deviceID: 0x0100, version: 2, groupIdentifierCount: 1, sort: 1},
+            ],
+        });
+        expect(Zcl.ZclFrame.create(
+            FrameType.SPECIFIC, Direction.SERVER_TO_CLIENT, true, null, 5, 'deviceInformationResponse',
+            Zcl.Utils.getCluster("touchlink").ID, frame.Payload,
+        ).toBuffer()).toStrictEqual(buffer);
+    });
+
 
     it('BuffaloZcl read BIG_ENDIAN_UINT24', () => {
         const buffer = Buffer.from([0x01, 0x01, 0x86, 0xA0, 0x02]);